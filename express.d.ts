@@ -3,6 +3,10 @@ declare global {
     interface Request {
       user?: any;
       userId?: string;
+      sessionId?: string; // session of the access token, see sessionService
+      apiKey?: { id: string; name: string; scopes: string[] }; // set when authenticated with an API key
+      guestCartId?: string; // cart routes without login, from the signed cart token
+      rawBody?: Buffer;
     }
   }
 }
@@ -4,9 +4,13 @@ import cookieParser from 'cookie-parser';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './database/swagger';
 import { connectDatabase } from './database/database';
+import { runMigrations } from './database/migrations';
 import emailService from './services/emailService';
 import cloudinaryRoutes from './routes/cloudinaryRoutes';
 import { testCloudinaryConnection } from './database/cloudinary';
+import { startReservationExpiryJob } from './jobs/reservationExpiryJob';
+import { startAbandonedCartJob } from './jobs/abandonedCartJob';
+import { buildSearchIndex } from './services/searchIndexService';
 import productStatsRoutes from './routes/productStatsRoutes';
 import reviewRoutes from './routes/reviewRoutes';
 
@@ -15,12 +19,23 @@ import authRoutes from './routes/authRoutes';
 import categoryRoutes from './routes/categoryRoutes';
 import productRoutes from './routes/productRoutes';
 import cartRoutes from './routes/cartRoutes';
+import wishlistRoutes from './routes/wishlistRoutes';
 import orderRoutes from './routes/orderRoutes';
 import adminOrderRoutes from './routes/adminOrderRoutes';
+import couponRoutes from './routes/couponRoutes';
+import paymentRoutes from './routes/paymentRoutes';
+import shippingRoutes from './routes/shippingRoutes';
+import taxRoutes from './routes/taxRoutes';
+import stockRoutes from './routes/stockRoutes';
+import returnRoutes from './routes/returnRoutes';
+import abandonedCartRoutes from './routes/abandonedCartRoutes';
+import currencyRoutes from './routes/currencyRoutes';
+import exchangeRateRoutes from './routes/exchangeRateRoutes';
 
 import uploadRoutes from './routes/uploadRoutes';
 import customerRoutes from './routes/customerRoutes';
 import notificationRoutes from './routes/notificationRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
 import path from 'path';
 
 dotenv.config();
@@ -29,7 +44,13 @@ const app: Application = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw payload so payment webhooks can verify their signatures
+  verify: (req: Request, res: Response, buf: Buffer) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
 
@@ -38,7 +59,7 @@ app.use(cookieParser());
 app.use((req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Currency, X-Cart-Token');
   
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
@@ -83,6 +104,7 @@ app.get('/', (req: Request, res: Response) => {
       categories: '/api/categories',
       products: '/api/products',
       cart: '/api/cart',
+      wishlists: '/api/wishlists',
       cloudinary: '/api/cloudinary'
     }
   });
@@ -92,8 +114,19 @@ app.use('/api/auth', authRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/products', productRoutes);
 app.use('/api/cart', cartRoutes);
+app.use('/api/wishlists', wishlistRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/admin/orders', adminOrderRoutes);
+app.use('/api/admin/coupons', couponRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/admin/shipping-zones', shippingRoutes);
+app.use('/api/admin/tax', taxRoutes);
+app.use('/api/admin/stock', stockRoutes);
+app.use('/api/admin/returns', returnRoutes);
+app.use('/api/admin/abandoned-carts', abandonedCartRoutes);
+app.use('/api/currencies', currencyRoutes);
+app.use('/api/admin/exchange-rates', exchangeRateRoutes);
+app.use('/api/admin/api-keys', apiKeyRoutes);
 app.use('/api/customers', customerRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/upload', uploadRoutes);
@@ -123,7 +156,11 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 const startServer = async () => {
   try {
     await connectDatabase();
+    await runMigrations();
     await testCloudinaryConnection(); 
+    startReservationExpiryJob();
+    startAbandonedCartJob();
+    await buildSearchIndex();
     
     app.listen(PORT, () => {
       
@@ -0,0 +1,68 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import { RecoverCartDto } from '../models/abandonedCart';
+import { calculateAbandonedCartStats, restoreAbandonedCart } from '../services/abandonedCartService';
+
+const DEFAULT_STATS_DAYS = 30;
+
+// CUSTOMER ENDPOINTS
+// Restore a cart from the link of a reminder email (PROTECTED)
+export const recoverCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token }: RecoverCartDto = req.body;
+
+    const result = await restoreAbandonedCart(req.userId!, token);
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: 'Recovery link is invalid'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Cart restored',
+      ...(result.adjustments.length > 0 && { warning: result.adjustments.join(' ') }),
+      data: result.cart
+    });
+  } catch (error) {
+    console.error('Recover cart error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore cart'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS
+// Abandonment rate and recovered value over a period (default: last 30 days)
+export const getAbandonedCartStats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - DEFAULT_STATS_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      res.status(400).json({
+        success: false,
+        error: 'from and to must be valid dates, with from before to'
+      });
+      return;
+    }
+
+    const stats = await calculateAbandonedCartStats(from, to);
+
+    res.status(200).json({
+      success: true,
+      data: stats
+    });
+  } catch (error) {
+    console.error('Get abandoned cart stats error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get abandoned cart statistics'
+    });
+  }
+};
@@ -0,0 +1,221 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { User, IUser } from '../models/user';
+import { CreateAddressDto, UpdateAddressDto } from '../models/address';
+import { normalizeAddress, validateAddressInput } from '../utils/addressUtils';
+
+const MAX_ADDRESSES = 20;
+
+// Address book entries with their default flags
+const formatAddressBook = (user: IUser) => {
+  return user.addresses.map(address => ({
+    ...address.toObject(),
+    isDefaultShipping: user.defaultShippingAddressId?.toString() === address._id.toString(),
+    isDefaultBilling: user.defaultBillingAddressId?.toString() === address._id.toString()
+  }));
+};
+
+// Get address book
+export const getAddresses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId).select('addresses defaultShippingAddressId defaultBillingAddressId');
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      count: user.addresses.length,
+      data: formatAddressBook(user)
+    });
+  } catch (error) {
+    console.error('Get addresses error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get addresses'
+    });
+  }
+};
+
+// Add address; the first address becomes the default for shipping and billing
+export const createAddress = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { label, isDefaultShipping, isDefaultBilling, ...fields }: CreateAddressDto = req.body;
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (user.addresses.length >= MAX_ADDRESSES) {
+      res.status(400).json({
+        success: false,
+        error: `Address book is limited to ${MAX_ADDRESSES} addresses`
+      });
+      return;
+    }
+
+    const isFirst = user.addresses.length === 0;
+    user.addresses.push({ ...normalizeAddress(fields), label: label?.trim() || undefined });
+    const address = user.addresses[user.addresses.length - 1];
+
+    if (isDefaultShipping || isFirst) {
+      user.defaultShippingAddressId = address._id;
+    }
+    if (isDefaultBilling || isFirst) {
+      user.defaultBillingAddressId = address._id;
+    }
+
+    await user.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Address added successfully',
+      data: formatAddressBook(user).find(entry => entry._id.toString() === address._id.toString())
+    });
+  } catch (error) {
+    console.error('Create address error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add address'
+    });
+  }
+};
+
+// Update address or change which address is the default
+export const updateAddress = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { addressId } = req.params;
+    const { label, isDefaultShipping, isDefaultBilling, ...fields }: UpdateAddressDto = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(addressId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address ID'
+      });
+      return;
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const address = user.addresses.id(addressId);
+    if (!address) {
+      res.status(404).json({
+        success: false,
+        error: 'Address not found'
+      });
+      return;
+    }
+
+    // Validate the merged result so country and postal code are always checked together
+    const merged = { ...address.toObject(), ...fields };
+    const addressError = validateAddressInput(merged);
+    if (addressError) {
+      res.status(400).json({
+        success: false,
+        error: addressError
+      });
+      return;
+    }
+
+    address.set(normalizeAddress(merged));
+    if (label !== undefined) {
+      address.label = label?.trim() || undefined;
+    }
+
+    if (isDefaultShipping === true) {
+      user.defaultShippingAddressId = address._id;
+    } else if (isDefaultShipping === false && user.defaultShippingAddressId?.toString() === addressId) {
+      user.defaultShippingAddressId = undefined;
+    }
+    if (isDefaultBilling === true) {
+      user.defaultBillingAddressId = address._id;
+    } else if (isDefaultBilling === false && user.defaultBillingAddressId?.toString() === addressId) {
+      user.defaultBillingAddressId = undefined;
+    }
+
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Address updated successfully',
+      data: formatAddressBook(user).find(entry => entry._id.toString() === addressId)
+    });
+  } catch (error) {
+    console.error('Update address error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update address'
+    });
+  }
+};
+
+// Delete address (orders keep their own snapshot, so history is unaffected)
+export const deleteAddress = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { addressId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(addressId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid address ID'
+      });
+      return;
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const address = user.addresses.id(addressId);
+    if (!address) {
+      res.status(404).json({
+        success: false,
+        error: 'Address not found'
+      });
+      return;
+    }
+
+    address.deleteOne();
+    if (user.defaultShippingAddressId?.toString() === addressId) {
+      user.defaultShippingAddressId = undefined;
+    }
+    if (user.defaultBillingAddressId?.toString() === addressId) {
+      user.defaultBillingAddressId = undefined;
+    }
+
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Address deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete address error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete address'
+    });
+  }
+};
@@ -0,0 +1,95 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import { ApiKey, CreateApiKeyDto } from '../models/apiKey';
+import { generateApiKey, toApiKeyResponse } from '../services/apiKeyService';
+
+// Create API key (ADMIN ONLY). The key itself is returned only in this response.
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, scopes, expiresAt }: CreateApiKeyDto = req.body;
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await ApiKey.create({
+      name: name.trim(),
+      prefix,
+      keyHash,
+      scopes: [...new Set(scopes)],
+      createdBy: req.userId,
+      ...(expiresAt && { expiresAt: new Date(expiresAt) })
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy the key now; it will not be shown again.',
+      data: {
+        ...toApiKeyResponse(apiKey),
+        key
+      }
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key'
+    });
+  }
+};
+
+// Get all API keys (ADMIN ONLY)
+export const getApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await ApiKey.find().sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: apiKeys.length,
+      data: apiKeys.map(toApiKeyResponse)
+    });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get API keys'
+    });
+  }
+};
+
+// Revoke API key (ADMIN ONLY). The key is kept for its usage history.
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const apiKey = await ApiKey.findById(id);
+    if (!apiKey) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found'
+      });
+      return;
+    }
+
+    if (apiKey.revokedAt) {
+      res.status(400).json({
+        success: false,
+        error: 'API key is already revoked'
+      });
+      return;
+    }
+
+    apiKey.revokedAt = new Date();
+    apiKey.revokedBy = req.userId as any;
+    await apiKey.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully',
+      data: toApiKeyResponse(apiKey)
+    });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key'
+    });
+  }
+};
@@ -2,10 +2,39 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
-import { User, IUser, UserResponse, RegisterDto, LoginDto, ChangePasswordDto, ForgotPasswordDto, ResetPasswordDto, UpdateUserDto, UserRole } from '../models/user';
+import { User, IUser, UserResponse, RegisterDto, LoginDto, ChangePasswordDto, ForgotPasswordDto, ResetPasswordDto, UpdateUserDto, UserRole, VerifyEmailDto, ChangeEmailDto, TwoFactorLoginDto, TwoFactorCodeDto, DisableTwoFactorDto } from '../models/user';
 import { TokenBlacklist } from '../models/TokenBlackList';
-import { generateToken } from '../utility/jwt';
+import { generateTwoFactorChallengeToken, verifyCartToken, verifyTwoFactorChallengeToken } from '../utility/jwt';
 import emailService from '../services/emailService';
+import { CART_TOKEN_COOKIE, CartMergeResult, getGuestCartToken, mergeGuestCart } from '../services/cartService';
+import { RefreshTokenDto, SessionRevokedReason } from '../models/session';
+import {
+  createUserSession,
+  listUserSessions,
+  revokeSessionFamily,
+  revokeUserSessions,
+  rotateRefreshToken
+} from '../services/sessionService';
+import { getVerificationCooldown, hashEmailToken, sendEmailVerification } from '../services/emailVerificationService';
+import {
+  TWO_FACTOR_ISSUER,
+  clearTwoFactor,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  verifySecondFactor,
+  verifyTotpCode
+} from '../services/twoFactorService';
+import { buildOtpauthUri, generateTotpSecret } from '../utils/totpUtils';
+import { AuthThrottleScope, UnlockAccountDto } from '../models/authThrottle';
+import {
+  clearAccountFailures,
+  getThrottleBlock,
+  recordAuthFailure,
+  unlockWithToken
+} from '../services/authThrottleService';
+
+const USER_PRIVATE_FIELDS = '-password -resetToken -resetTokenExpiry -emailVerificationToken -emailVerificationExpiry ' +
+  '-twoFactorSecret -twoFactorPendingSecret -twoFactorRecoveryCodes -twoFactorLastUsedStep';
 
 // Helper function to exclude password from response
 const excludePassword = (user: IUser): UserResponse => {
@@ -15,10 +44,39 @@ const excludePassword = (user: IUser): UserResponse => {
     firstName: user.firstName,
     lastName: user.lastName,
     role: user.role,
+    emailVerified: user.emailVerified,
+    pendingEmail: user.pendingEmail,
+    twoFactorEnabled: user.twoFactorEnabled,
     createdAt: user.createdAt
   };
 };
 
+// Merge the guest cart sent with the request (if any) into the user's cart.
+// A failed merge does not block login; the guest cart is kept for the next attempt.
+const mergeRequestGuestCart = async (req: Request, res: Response, userId: string): Promise<CartMergeResult | null> => {
+  const cartToken = getGuestCartToken(req);
+  if (!cartToken) {
+    return null;
+  }
+
+  let guestCartId: string;
+  try {
+    guestCartId = verifyCartToken(cartToken);
+  } catch (error) {
+    res.clearCookie(CART_TOKEN_COOKIE);
+    return null;
+  }
+
+  try {
+    const merge = await mergeGuestCart(userId, guestCartId);
+    res.clearCookie(CART_TOKEN_COOKIE);
+    return merge;
+  } catch (error) {
+    console.error('Merge guest cart error:', error);
+    return null;
+  }
+};
+
 // Register - WITH EMAIL NOTIFICATION
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -46,11 +104,9 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       role: userRole
     });
 
-    const token = generateToken({
-      userId: newUser._id.toString(),
-      email: newUser.email,
-      role: newUser.role
-    });
+    const tokens = await createUserSession(newUser, req);
+
+    await sendEmailVerification(newUser);
 
     // Send welcome email (non-blocking - won't fail registration if email fails)
     emailService.sendWelcomeEmail(newUser.email, newUser.firstName).catch(err => {
@@ -59,12 +115,16 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       // Email failure doesn't stop registration
     });
 
+    const cartMerge = await mergeRequestGuestCart(req, res, newUser._id.toString());
+
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
+      message: 'User registered successfully. Please check your email to verify your address.',
+      ...(cartMerge?.adjustments.length && { warning: cartMerge.adjustments.join(' ') }),
       data: {
         user: excludePassword(newUser),
-        token
+        ...tokens,
+        ...(cartMerge && { cart: cartMerge.cart })
       }
     });
   } catch (error) {
@@ -76,6 +136,24 @@ export const register = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// Start a session for a user who passed every login step, merging the guest cart
+const sendLoginResponse = async (req: Request, res: Response, user: IUser, message: string): Promise<void> => {
+  const tokens = await createUserSession(user, req);
+
+  const cartMerge = await mergeRequestGuestCart(req, res, user._id.toString());
+
+  res.status(200).json({
+    success: true,
+    message,
+    ...(cartMerge?.adjustments.length && { warning: cartMerge.adjustments.join(' ') }),
+    data: {
+      user: excludePassword(user),
+      ...tokens,
+      ...(cartMerge && { cart: cartMerge.cart })
+    }
+  });
+};
+
 // Login
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -83,6 +161,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     const user = await User.findOne({ email: email.toLowerCase() });
     if (!user) {
+      await recordAuthFailure(AuthThrottleScope.LOGIN, req, email);
       res.status(401).json({
         success: false,
         error: 'Invalid email or password'
@@ -92,6 +171,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await recordAuthFailure(AuthThrottleScope.LOGIN, req, email);
       res.status(401).json({
         success: false,
         error: 'Invalid email or password'
@@ -99,20 +179,21 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role
-    });
+    // Second step: the client sends a code with the challenge token to /login/2fa
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateTwoFactorChallengeToken(user._id.toString())
+        }
+      });
+      return;
+    }
 
-    res.status(200).json({
-      success: true,
-      message: 'Login successful',
-      data: {
-        user: excludePassword(user),
-        token
-      }
-    });
+    await clearAccountFailures(AuthThrottleScope.LOGIN, user.email);
+    await sendLoginResponse(req, res, user, 'Login successful');
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({
@@ -122,12 +203,80 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// Login - second step with a TOTP or recovery code
+export const loginTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code }: TwoFactorLoginDto = req.body;
+
+    let userId: string;
+    try {
+      userId = verifyTwoFactorChallengeToken(challengeToken);
+    } catch (error) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired challenge token. Please login again.'
+      });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    // Wrong codes count as failed logins of the account, so the code cannot be guessed either
+    const block = await getThrottleBlock(AuthThrottleScope.LOGIN, req, user.email);
+    if (block) {
+      res.set('Retry-After', String(block.retryAfter));
+      res.status(429).json({
+        success: false,
+        error: block.locked
+          ? `Too many failed attempts. Access is locked for ${Math.ceil(block.retryAfter / 60)} more minute(s).`
+          : `Too many failed attempts. Try again in ${block.retryAfter} second(s).`,
+        retryAfter: block.retryAfter
+      });
+      return;
+    }
+
+    const method = verifySecondFactor(user, code);
+    if (!method) {
+      await recordAuthFailure(AuthThrottleScope.LOGIN, req, user.email);
+      res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+      return;
+    }
+    await user.save();
+    await clearAccountFailures(AuthThrottleScope.LOGIN, user.email);
+
+    await sendLoginResponse(
+      req,
+      res,
+      user,
+      method === 'recovery_code'
+        ? `Login successful. Recovery code used, ${user.twoFactorRecoveryCodes.length} remaining.`
+        : 'Login successful'
+    );
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to login'
+    });
+  }
+};
+
 // Get Profile (authenticated user)
 export const getProfile = async (req: Request, res: Response): Promise<void> => {
   try {
     const userId = req.userId;
 
-    const user = await User.findById(userId).select('-password -resetToken -resetTokenExpiry');
+    const user = await User.findById(userId).select(USER_PRIVATE_FIELDS);
     if (!user) {
       res.status(404).json({
         success: false,
@@ -161,6 +310,10 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
       });
     }
 
+    if (req.sessionId) {
+      await revokeSessionFamily(req.sessionId, SessionRevokedReason.LOGOUT);
+    }
+
     res.status(200).json({
       success: true,
       message: 'Logged out successfully'
@@ -174,6 +327,85 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// Refresh - exchange a refresh token for a new access token and refresh token
+export const refreshToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken }: RefreshTokenDto = req.body;
+
+    const result = await rotateRefreshToken(refreshToken, req);
+    if ('error' in result) {
+      if (result.reuseDetected) {
+        console.warn('Refresh token reuse detected, session revoked');
+      }
+      res.status(401).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: result.tokens
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh token'
+    });
+  }
+};
+
+// Get active sessions (authenticated user)
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await listUserSessions(req.userId!, req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      count: sessions.length,
+      data: sessions
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get sessions'
+    });
+  }
+};
+
+// Revoke one session, e.g. a lost device (authenticated user)
+export const revokeSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const sessions = await listUserSessions(req.userId!);
+    if (!sessions.some(session => session.id === id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+      return;
+    }
+
+    await revokeSessionFamily(id, SessionRevokedReason.USER);
+
+    res.status(200).json({
+      success: true,
+      message: id === req.sessionId ? 'Current session revoked. Please login again.' : 'Session revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session'
+    });
+  }
+};
+
 // Change Password (authenticated user)
 export const changePassword = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -202,6 +434,9 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
     user.password = hashedPassword;
     await user.save();
 
+    // Log out the other devices; the session that changed the password stays signed in
+    await revokeUserSessions(user._id, SessionRevokedReason.PASSWORD_CHANGE, req.sessionId);
+
     res.status(200).json({
       success: true,
       message: 'Password changed successfully'
@@ -215,11 +450,182 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Start two-factor enrollment (authenticated user): returns the secret to add to an authenticator app
+export const setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the URI with an authenticator app, then confirm with a code',
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER)
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start two-factor setup'
+    });
+  }
+};
+
+// Confirm two-factor enrollment with a first code (authenticated user)
+export const confirmTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code }: TwoFactorCodeDto = req.body;
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+      return;
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({
+        success: false,
+        error: 'Start two-factor setup first'
+      });
+      return;
+    }
+
+    if (!verifyTotpCode(user, user.twoFactorPendingSecret, code)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+      return;
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = hashes;
+    await user.save();
+
+    // Sessions started with the password alone are logged out; the current one just proved the second factor
+    await revokeUserSessions(user._id, SessionRevokedReason.TWO_FACTOR_CHANGE, req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store the recovery codes safely; they are shown only once.',
+      data: {
+        recoveryCodes: codes
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor confirm error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable two-factor authentication'
+    });
+  }
+};
+
+// Disable two-factor authentication (authenticated user)
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password, code }: DisableTwoFactorDto = req.body;
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+      return;
+    }
+
+    if (isTwoFactorRequired(user)) {
+      res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication is required for your role and cannot be disabled'
+      });
+      return;
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      res.status(401).json({
+        success: false,
+        error: 'Password is incorrect'
+      });
+      return;
+    }
+
+    if (!verifySecondFactor(user, code)) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+      return;
+    }
+
+    clearTwoFactor(user);
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable two-factor authentication'
+    });
+  }
+};
+
 // Forgot Password - WITH EMAIL NOTIFICATION
 export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
   try {
     const { email }: ForgotPasswordDto = req.body;
 
+    // Every request counts, successful or not: each one sends an email
+    await recordAuthFailure(AuthThrottleScope.FORGOT_PASSWORD, req, email);
+
     const user = await User.findOne({ email: email.toLowerCase() });
     if (!user) {
       // Don't reveal if email exists
@@ -269,6 +675,7 @@ export const resetPassword = async (req: Request, res: Response): Promise<void>
     });
 
     if (!user) {
+      await recordAuthFailure(AuthThrottleScope.RESET_PASSWORD, req);
       res.status(400).json({
         success: false,
         error: 'Invalid or expired reset token'
@@ -282,6 +689,10 @@ export const resetPassword = async (req: Request, res: Response): Promise<void>
     user.resetTokenExpiry = undefined;
     await user.save();
 
+    await revokeUserSessions(user._id, SessionRevokedReason.PASSWORD_CHANGE);
+    // Resetting the password proves control of the email: lift a login lockout
+    await clearAccountFailures(AuthThrottleScope.LOGIN, user.email);
+
     res.status(200).json({
       success: true,
       message: 'Password reset successfully'
@@ -295,10 +706,206 @@ export const resetPassword = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Verify Email - confirms the account email, or applies a pending email change
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token }: VerifyEmailDto = req.body;
+
+    const user = await User.findOne({
+      emailVerificationToken: hashEmailToken(token),
+      emailVerificationExpiry: { $gt: Date.now() }
+    });
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token'
+      });
+      return;
+    }
+
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpiry = undefined;
+
+    if (user.pendingEmail) {
+      // The address may have been registered by someone else since the change was requested
+      const existingUser = await User.findOne({ email: user.pendingEmail, _id: { $ne: user._id } });
+      if (existingUser) {
+        user.pendingEmail = undefined;
+        await user.save();
+        res.status(409).json({
+          success: false,
+          error: 'Email already in use'
+        });
+        return;
+      }
+      user.email = user.pendingEmail;
+      user.pendingEmail = undefined;
+    }
+
+    user.emailVerified = true;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully',
+      data: excludePassword(user)
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify email'
+    });
+  }
+};
+
+// Resend the verification email (authenticated user)
+export const resendVerificationEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    if (user.emailVerified && !user.pendingEmail) {
+      res.status(400).json({
+        success: false,
+        error: 'Email is already verified'
+      });
+      return;
+    }
+
+    const cooldown = getVerificationCooldown(user);
+    if (cooldown > 0) {
+      res.set('Retry-After', String(cooldown));
+      res.status(429).json({
+        success: false,
+        error: `Please wait ${cooldown} seconds before requesting another verification email`,
+        retryAfter: cooldown
+      });
+      return;
+    }
+
+    await sendEmailVerification(user);
+
+    res.status(200).json({
+      success: true,
+      message: `Verification email sent to ${user.pendingEmail || user.email}`
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resend verification email'
+    });
+  }
+};
+
+// Change Email (authenticated user) - the new address takes effect once confirmed
+export const changeEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { newEmail, password }: ChangeEmailDto = req.body;
+    const email = newEmail.toLowerCase().trim();
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      res.status(401).json({
+        success: false,
+        error: 'Password is incorrect'
+      });
+      return;
+    }
+
+    if (email === user.email) {
+      res.status(400).json({
+        success: false,
+        error: 'New email must be different from the current email'
+      });
+      return;
+    }
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      res.status(409).json({
+        success: false,
+        error: 'Email already in use'
+      });
+      return;
+    }
+
+    const cooldown = getVerificationCooldown(user);
+    if (cooldown > 0) {
+      res.set('Retry-After', String(cooldown));
+      res.status(429).json({
+        success: false,
+        error: `Please wait ${cooldown} seconds before requesting another verification email`,
+        retryAfter: cooldown
+      });
+      return;
+    }
+
+    user.pendingEmail = email;
+    await sendEmailVerification(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'A confirmation link has been sent to the new address. Your email will change once it is confirmed.',
+      data: excludePassword(user)
+    });
+  } catch (error) {
+    console.error('Change email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to change email'
+    });
+  }
+};
+
+// Unlock Account - with the token of the account locked email
+export const unlockAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token }: UnlockAccountDto = req.body;
+
+    const unlocked = await unlockWithToken(token);
+    if (!unlocked) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired unlock token'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Account unlocked. You can log in again.'
+    });
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unlock account'
+    });
+  }
+};
+
 // Get all users (ADMIN ONLY)
 export const getAllUsers = async (req: Request, res: Response): Promise<void> => {
   try {
-    const users = await User.find().select('-password -resetToken -resetTokenExpiry');
+    const users = await User.find().select(USER_PRIVATE_FIELDS);
     
     res.status(200).json({
       success: true,
@@ -319,7 +926,7 @@ export const getUser = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     
-    const user = await User.findById(id).select('-password -resetToken -resetTokenExpiry');
+    const user = await User.findById(id).select(USER_PRIVATE_FIELDS);
     
     if (!user) {
       res.status(404).json({
@@ -357,8 +964,10 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    if (email && email.toLowerCase() !== user.email) {
-      const existingUser = await User.findOne({ email: email.toLowerCase() });
+    const newEmail = email?.toLowerCase();
+    const emailChanged = !!newEmail && newEmail !== user.email;
+    if (emailChanged) {
+      const existingUser = await User.findOne({ email: newEmail });
       if (existingUser) {
         res.status(409).json({
           success: false,
@@ -366,18 +975,25 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
         });
         return;
       }
-      user.email = email.toLowerCase();
+      // Applied once the user confirms the new address
+      user.pendingEmail = newEmail;
     }
 
     if (firstName) user.firstName = firstName.trim();
     if (lastName) user.lastName = lastName.trim();
     if (role) user.role = role;
 
-    await user.save();
+    if (emailChanged) {
+      await sendEmailVerification(user);
+    } else {
+      await user.save();
+    }
 
     res.status(200).json({
       success: true,
-      message: 'User updated successfully',
+      message: emailChanged
+        ? 'User updated successfully. The new email takes effect once the user confirms it.'
+        : 'User updated successfully',
       data: excludePassword(user)
     });
   } catch (error) {
@@ -411,6 +1027,8 @@ export const deleteUser = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    await revokeUserSessions(user._id, SessionRevokedReason.ADMIN);
+
     res.status(200).json({
       success: true,
       message: 'User deleted successfully'
@@ -424,6 +1042,65 @@ export const deleteUser = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+// Unlock a user locked out after failed logins (ADMIN ONLY)
+export const unlockUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    await clearAccountFailures(AuthThrottleScope.LOGIN, user.email);
+
+    res.status(200).json({
+      success: true,
+      message: 'User unlocked successfully'
+    });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unlock user'
+    });
+  }
+};
+
+// Log a user out of every device (ADMIN ONLY)
+export const revokeAllUserSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const revokedSessions = await revokeUserSessions(user._id, SessionRevokedReason.ADMIN);
+
+    res.status(200).json({
+      success: true,
+      message: 'User logged out of all sessions',
+      data: { revokedSessions }
+    });
+  } catch (error) {
+    console.error('Revoke user sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke sessions'
+    });
+  }
+};
+
 export const testEmail = async (req: Request, res: Response): Promise<void> => {
   try {
     await emailService.sendWelcomeEmail(
@@ -1,37 +1,76 @@
 /// <reference path="../../express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
-import { Cart, ICart, AddToCartDto, UpdateCartItemDto } from '../models/cart';
+import { ICart, AddToCartDto, UpdateCartItemDto, ApplyCouponDto } from '../models/cart';
 import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
+import {
+  CART_TOKEN_COOKIE,
+  GUEST_CART_TTL_DAYS,
+  addCartItem,
+  applyCartCurrency,
+  findCart,
+  getCartOwner,
+  getOrCreateCart,
+  recalculateCart
+} from '../services/cartService';
+import { evaluateCoupon, findCouponByCode } from '../services/couponService';
+import { getRequestedCurrency } from '../services/currencyService';
+import { getCartWeight, quoteShippingOptions } from '../services/shippingService';
+import { getAvailableQuantity } from '../services/reservationService';
+import { User } from '../models/user';
+import { generateCartToken } from '../utility/jwt';
+
+// Guests get their cart token back, in the body and as a cookie, so the next request finds the same cart
+const sendGuestCartToken = (res: Response, cart: ICart): { cartToken?: string } => {
+  if (cart.userId) {
+    return {};
+  }
 
-// Helper function to calculate cart total
-const calculateCartTotal = (cart: ICart): number => {
-  return cart.items.reduce((sum, item) => sum + item.subtotal, 0);
+  const cartToken = generateCartToken(cart._id.toString());
+  res.cookie(CART_TOKEN_COOKIE, cartToken, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000
+  });
+  return { cartToken };
 };
 
-// Get user's cart (PROTECTED)
+// Get user's cart (PROTECTED or guest)
 export const getCart = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.userId) {
-      res.status(401).json({
+    // Guests get a new cart (and its token) on their first visit
+    const cart = await getOrCreateCart(getCartOwner(req));
+
+    // Switch the cart to the requested currency (?currency= or X-Currency header)
+    const currency = getRequestedCurrency(req);
+    if (currency && !(await applyCartCurrency(cart, currency))) {
+      res.status(400).json({
         success: false,
-        error: 'Authentication required'
+        error: `Currency ${currency} is not supported`
       });
       return;
     }
 
-    let cart = await Cart.findOne({ userId: req.userId }).populate('items.productId', 'name price inStock quantity');
-
-    // Create cart if it doesn't exist
-    if (!cart) {
-      cart = await Cart.create({
-        userId: req.userId,
-        items: [],
-        total: 0
-      });
+    // Refresh totals so the tax estimate and prices follow the current default address and rates
+    let couponRemoved: string | undefined;
+    let currencyReset: string | undefined;
+    if (cart.items.length > 0) {
+      ({ couponRemoved, currencyReset } = await recalculateCart(cart, req.userId));
+    }
+    if (cart.isModified()) {
+      await cart.save();
+    }
+    if (cart.items.length > 0) {
+      await cart.populate('items.productId', 'name price inStock quantity reserved');
     }
 
+    const warning = [couponRemoved, currencyReset].filter(Boolean).join(' ');
+
     res.status(200).json({
       success: true,
+      ...(warning && { warning }),
+      ...sendGuestCartToken(res, cart),
       data: cart
     });
   } catch (error) {
@@ -60,86 +99,25 @@ export const createCart = async (req: Request, res: Response): Promise<void> =>
     });
 }}
 
-// Add item to cart (PROTECTED)
+// Add item to cart (PROTECTED or guest)
 export const addToCart = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.userId) {
-      res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-      return;
-    }
-
-    const { productId, quantity }: AddToCartDto = req.body;
-
-    // Find product
-    const product = await Product.findById(productId);
-    if (!product) {
-      res.status(404).json({
-        success: false,
-        error: 'Product not found'
-      });
-      return;
-    }
+    const { productId, variantId, quantity }: AddToCartDto = req.body;
 
-    // Check stock
-    if (!product.inStock || product.quantity < quantity) {
-      res.status(400).json({
+    const { cart, couponRemoved, status, error } = await addCartItem(getCartOwner(req), { productId, variantId, quantity });
+    if (!cart) {
+      res.status(status!).json({
         success: false,
-        error: 'Insufficient stock'
+        error
       });
       return;
     }
 
-    // Find or create cart
-    let cart = await Cart.findOne({ userId: req.userId });
-    if (!cart) {
-      cart = await Cart.create({
-        userId: req.userId,
-        items: [],
-        total: 0
-      });
-    }
-
-    // Check if product already in cart
-    const existingItemIndex = cart.items.findIndex(
-      item => item.productId.toString() === productId
-    );
-
-    if (existingItemIndex !== -1) {
-      // Update quantity
-      const newQuantity = cart.items[existingItemIndex].quantity + quantity;
-      
-      if (product.quantity < newQuantity) {
-        res.status(400).json({
-          success: false,
-          error: 'Insufficient stock for requested quantity'
-        });
-        return;
-      }
-
-      cart.items[existingItemIndex].quantity = newQuantity;
-      cart.items[existingItemIndex].subtotal = product.price * newQuantity;
-    } else {
-      // Add new item
-      cart.items.push({
-        productId: product._id as any,
-        productName: product.name,
-        price: product.price,
-        quantity,
-        subtotal: product.price * quantity,
-        addedAt: new Date()
-      } as any);
-    }
-
-    // Recalculate total
-    cart.total = calculateCartTotal(cart);
-    await cart.save();
-
     res.status(200).json({
       success: true,
       message: 'Item added to cart',
+      ...(couponRemoved && { warning: couponRemoved }),
+      ...sendGuestCartToken(res, cart),
       data: cart
     });
   } catch (error) {
@@ -151,21 +129,13 @@ export const addToCart = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
-// Update cart item quantity (PROTECTED)
+// Update cart item quantity (PROTECTED or guest)
 export const updateCartItem = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.userId) {
-      res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-      return;
-    }
-
     const { itemId } = req.params;
     const { quantity }: UpdateCartItemDto = req.body;
 
-    const cart = await Cart.findOne({ userId: req.userId });
+    const cart = await findCart(getCartOwner(req));
     if (!cart) {
       res.status(404).json({
         success: false,
@@ -193,7 +163,24 @@ export const updateCartItem = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (!product.inStock || product.quantity < quantity) {
+    if (item.variantId) {
+      const variant = await ProductVariant.findById(item.variantId);
+      if (!variant || variant.status !== 'active') {
+        res.status(404).json({
+          success: false,
+          error: 'Variant no longer exists'
+        });
+        return;
+      }
+
+      if (!variant.inStock || getAvailableQuantity(variant) < quantity) {
+        res.status(400).json({
+          success: false,
+          error: 'Insufficient stock'
+        });
+        return;
+      }
+    } else if (!product.inStock || getAvailableQuantity(product) < quantity) {
       res.status(400).json({
         success: false,
         error: 'Insufficient stock'
@@ -205,13 +192,14 @@ export const updateCartItem = async (req: Request, res: Response): Promise<void>
     item.quantity = quantity;
     item.subtotal = item.price * quantity;
 
-    // Recalculate total
-    cart.total = calculateCartTotal(cart);
+    // Recalculate totals (and re-check any applied coupon)
+    const { couponRemoved } = await recalculateCart(cart, req.userId);
     await cart.save();
 
     res.status(200).json({
       success: true,
       message: 'Cart item updated',
+      ...(couponRemoved && { warning: couponRemoved }),
       data: cart
     });
   } catch (error) {
@@ -223,20 +211,12 @@ export const updateCartItem = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// Remove item from cart (PROTECTED)
+// Remove item from cart (PROTECTED or guest)
 export const removeFromCart = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.userId) {
-      res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-      return;
-    }
-
     const { itemId } = req.params;
 
-    const cart = await Cart.findOne({ userId: req.userId });
+    const cart = await findCart(getCartOwner(req));
     if (!cart) {
       res.status(404).json({
         success: false,
@@ -256,13 +236,14 @@ export const removeFromCart = async (req: Request, res: Response): Promise<void>
 
     cart.items.splice(itemIndex, 1);
 
-    // Recalculate total
-    cart.total = calculateCartTotal(cart);
+    // Recalculate totals (and re-check any applied coupon)
+    const { couponRemoved } = await recalculateCart(cart, req.userId);
     await cart.save();
 
     res.status(200).json({
       success: true,
       message: 'Item removed from cart',
+      ...(couponRemoved && { warning: couponRemoved }),
       data: cart
     });
   } catch (error) {
@@ -274,18 +255,10 @@ export const removeFromCart = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// Clear cart (PROTECTED)
+// Clear cart (PROTECTED or guest)
 export const clearCart = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.userId) {
-      res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-      return;
-    }
-
-    const cart = await Cart.findOne({ userId: req.userId });
+    const cart = await findCart(getCartOwner(req));
     if (!cart) {
       res.status(404).json({
         success: false,
@@ -295,6 +268,12 @@ export const clearCart = async (req: Request, res: Response): Promise<void> => {
     }
 
     cart.items = [];
+    cart.coupon = undefined;
+    cart.subtotal = 0;
+    cart.discount = 0;
+    cart.freeShipping = false;
+    cart.taxLines = [];
+    cart.taxTotal = 0;
     cart.total = 0;
     await cart.save();
 
@@ -310,4 +289,152 @@ export const clearCart = async (req: Request, res: Response): Promise<void> => {
       error: 'Failed to clear cart'
     });
   }
-};
\ No newline at end of file
+};
+
+// Apply coupon to cart (PROTECTED or guest)
+export const applyCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code }: ApplyCouponDto = req.body;
+
+    const cart = await findCart(getCartOwner(req));
+    if (!cart || cart.items.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Cart is empty'
+      });
+      return;
+    }
+
+    const coupon = await findCouponByCode(code);
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Invalid coupon code'
+      });
+      return;
+    }
+
+    const evaluation = await evaluateCoupon(coupon, cart.items, req.userId, undefined, cart.exchangeRate);
+    if (!evaluation.valid) {
+      res.status(400).json({
+        success: false,
+        error: evaluation.error
+      });
+      return;
+    }
+
+    cart.coupon = { couponId: coupon._id as any, code: coupon.code };
+    await recalculateCart(cart, req.userId);
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon applied',
+      data: {
+        cart,
+        discount: {
+          code: coupon.code,
+          type: coupon.type,
+          amount: evaluation.discount,
+          freeShipping: evaluation.freeShipping,
+          lines: evaluation.lines
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Apply coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to apply coupon'
+    });
+  }
+};
+
+// Remove coupon from cart (PROTECTED or guest)
+export const removeCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cart = await findCart(getCartOwner(req));
+    if (!cart) {
+      res.status(404).json({
+        success: false,
+        error: 'Cart not found'
+      });
+      return;
+    }
+
+    cart.coupon = undefined;
+    await recalculateCart(cart, req.userId);
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon removed',
+      data: cart
+    });
+  } catch (error) {
+    console.error('Remove coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove coupon'
+    });
+  }
+};
+
+// Quote shipping methods for the cart (PROTECTED or guest)
+// Destination: ?addressId= from the address book, ?country=, or the default shipping address
+export const getShippingOptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const cart = await findCart(getCartOwner(req));
+    if (!cart || cart.items.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Cart is empty'
+      });
+      return;
+    }
+
+    let country = typeof req.query.country === 'string' ? req.query.country : undefined;
+
+    // Guests have no address book and must give a country
+    if (!country && req.userId) {
+      const user = await User.findById(req.userId).select('addresses defaultShippingAddressId');
+      const addressId = (req.query.addressId as string) || user?.defaultShippingAddressId?.toString();
+      const address = addressId ? user?.addresses.id(addressId) : null;
+
+      if (req.query.addressId && !address) {
+        res.status(404).json({
+          success: false,
+          error: 'Address not found'
+        });
+        return;
+      }
+      country = address?.country;
+    }
+
+    if (!country || !/^[A-Za-z]{2}$/.test(country)) {
+      res.status(400).json({
+        success: false,
+        error: 'Provide a country code or addressId, or set a default shipping address'
+      });
+      return;
+    }
+
+    const options = await quoteShippingOptions(cart, country);
+
+    res.status(200).json({
+      success: true,
+      count: options.length,
+      data: {
+        country: country.toUpperCase(),
+        weight: await getCartWeight(cart.items),
+        options
+      }
+    });
+  } catch (error) {
+    console.error('Get shipping options error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get shipping options'
+    });
+  }
+};
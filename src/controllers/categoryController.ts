@@ -1,12 +1,50 @@
 /// <reference path="../../express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
-import { Category } from '../models/category';
+import mongoose from 'mongoose';
+import {
+  Category,
+  CategoryImageType,
+  ICategory,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+  UpdateCategoryAttributesDto
+} from '../models/category';
 import { Product } from '../models/product';
+import { TaxClass } from '../models/taxClass';
+import {
+  buildCategoryTree,
+  changeCategorySlug,
+  deleteCategoryImageAsset,
+  generateCategorySlug,
+  getCategoryAttributes,
+  getCategoryBreadcrumbs,
+  getCategorySeo,
+  getChildPath,
+  isDescendantOf,
+  moveCategory
+} from '../services/categoryService';
+
+// Category with its SEO metadata, breadcrumbs (root first) and direct children
+const withTreeContext = async (category: ICategory) => {
+  const [breadcrumbs, children] = await Promise.all([
+    getCategoryBreadcrumbs(category),
+    Category.find({ parentId: category._id }).select('name slug sortOrder').sort({ sortOrder: 1, name: 1 })
+  ]);
+
+  return {
+    ...category.toObject(),
+    seo: getCategorySeo(category),
+    breadcrumbs,
+    children
+  };
+};
 
 // Get all categories - PUBLIC
 export const getAllCategories = async (req: Request, res: Response): Promise<void> => {
   try {
-    const categories = await Category.find().populate('createdBy', 'firstName lastName email');
+    const categories = await Category.find()
+      .populate('createdBy', 'firstName lastName email')
+      .sort({ depth: 1, sortOrder: 1, name: 1 });
     
     res.status(200).json({
       success: true,
@@ -39,7 +77,7 @@ export const getCategory = async (req: Request, res: Response): Promise<void> =>
 
     res.status(200).json({
       success: true,
-      data: category
+      data: await withTreeContext(category)
     });
   } catch (error) {
     console.error('Get category error:', error);
@@ -50,6 +88,60 @@ export const getCategory = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+// Get the whole category tree - PUBLIC
+export const getCategoryTree = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const categories = await Category.find().select('name slug description thumbnail parentId sortOrder depth');
+
+    res.status(200).json({
+      success: true,
+      count: categories.length,
+      data: buildCategoryTree(categories)
+    });
+  } catch (error) {
+    console.error('Get category tree error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get category tree'
+    });
+  }
+};
+
+// Get single category by slug - PUBLIC
+export const getCategoryBySlug = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const slug = req.params.slug.toLowerCase();
+    const category = await Category.findOne({ slug })
+      .populate('createdBy', 'firstName lastName email');
+
+    if (!category) {
+      // An old slug redirects permanently to the canonical one
+      const renamed = await Category.findOne({ previousSlugs: slug }).select('slug');
+      if (renamed) {
+        res.redirect(301, `${req.baseUrl}/slug/${renamed.slug}`);
+        return;
+      }
+
+      res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await withTreeContext(category)
+    });
+  } catch (error) {
+    console.error('Get category by slug error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get category'
+    });
+  }
+};
+
 // Create category - ADMIN ONLY
 export const createCategory = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -61,7 +153,7 @@ export const createCategory = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const { name, description } = req.body;
+    const { name, slug, description, metaTitle, metaDescription, parentId, sortOrder, taxClassId }: CreateCategoryDto = req.body;
 
     const existingCategory = await Category.findOne({ 
       name: new RegExp(`^${name.trim()}$`, 'i') 
@@ -75,9 +167,42 @@ export const createCategory = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (taxClassId && (!mongoose.Types.ObjectId.isValid(taxClassId) || !(await TaxClass.exists({ _id: taxClassId })))) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax class not found'
+      });
+      return;
+    }
+
+    if (slug && (await Category.exists({ slug }))) {
+      res.status(409).json({
+        success: false,
+        error: 'Category with this slug already exists'
+      });
+      return;
+    }
+
+    const parent = parentId ? await Category.findById(parentId) : null;
+    if (parentId && !parent) {
+      res.status(404).json({
+        success: false,
+        error: 'Parent category not found'
+      });
+      return;
+    }
+
     const newCategory = await Category.create({
       name: name.trim(),
+      slug: slug || await generateCategorySlug(name),
       description: description?.trim(),
+      metaTitle: metaTitle?.trim() || undefined,
+      metaDescription: metaDescription?.trim() || undefined,
+      parentId: parent ? parent._id : null,
+      path: parent ? getChildPath(parent) : ',',
+      depth: parent ? (parent.depth || 0) + 1 : 0,
+      sortOrder: sortOrder ?? 0,
+      taxClassId: taxClassId || undefined,
       createdBy: req.userId
     });
 
@@ -96,9 +221,14 @@ export const createCategory = async (req: Request, res: Response): Promise<void>
 };
 
 // Update category - ADMIN ONLY
+// Changing parentId moves the category with its whole subtree
 export const updateCategory = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
     if (!req.userId) {
+      await session.abortTransaction();
       res.status(401).json({
         success: false,
         error: 'Authentication required'
@@ -107,11 +237,12 @@ export const updateCategory = async (req: Request, res: Response): Promise<void>
     }
 
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, slug, description, metaTitle, metaDescription, parentId, sortOrder, taxClassId }: UpdateCategoryDto = req.body;
 
-    const category = await Category.findById(id);
+    const category = await Category.findById(id).session(session);
 
     if (!category) {
+      await session.abortTransaction();
       res.status(404).json({
         success: false,
         error: 'Category not found'
@@ -123,9 +254,10 @@ export const updateCategory = async (req: Request, res: Response): Promise<void>
       const existingCategory = await Category.findOne({
         name: new RegExp(`^${name.trim()}$`, 'i'),
         _id: { $ne: id }
-      });
+      }).session(session);
 
       if (existingCategory) {
+        await session.abortTransaction();
         res.status(409).json({
           success: false,
           error: 'Another category with this name already exists'
@@ -136,11 +268,78 @@ export const updateCategory = async (req: Request, res: Response): Promise<void>
       category.name = name.trim();
     }
 
+    // The slug stays the same on rename unless a new one is given; the old slug keeps resolving
+    if (slug) {
+      if (await Category.exists({ slug, _id: { $ne: id } }).session(session)) {
+        await session.abortTransaction();
+        res.status(409).json({
+          success: false,
+          error: 'Another category with this slug already exists'
+        });
+        return;
+      }
+      changeCategorySlug(category, slug);
+    } else if (!category.slug) {
+      category.slug = await generateCategorySlug(category.name, id, session);
+    }
+
     if (description !== undefined) {
       category.description = description.trim();
     }
 
-    await category.save();
+    // null or an empty string falls back to the name / description
+    if (metaTitle !== undefined) {
+      category.metaTitle = metaTitle?.trim() || undefined;
+    }
+
+    if (metaDescription !== undefined) {
+      category.metaDescription = metaDescription?.trim() || undefined;
+    }
+
+    if (sortOrder !== undefined) {
+      category.sortOrder = sortOrder;
+    }
+
+    // null removes the tax class so the default class applies
+    if (taxClassId !== undefined) {
+      if (taxClassId && (!mongoose.Types.ObjectId.isValid(taxClassId) || !(await TaxClass.exists({ _id: taxClassId })))) {
+        await session.abortTransaction();
+        res.status(404).json({
+          success: false,
+          error: 'Tax class not found'
+        });
+        return;
+      }
+      category.taxClassId = (taxClassId || undefined) as any;
+    }
+
+    // null moves the category to the top level
+    if (parentId !== undefined && (parentId || null) !== (category.parentId?.toString() || null)) {
+      const parent = parentId ? await Category.findById(parentId).session(session) : null;
+      if (parentId && !parent) {
+        await session.abortTransaction();
+        res.status(404).json({
+          success: false,
+          error: 'Parent category not found'
+        });
+        return;
+      }
+
+      if (parent && (parent._id.toString() === id || isDescendantOf(parent, id))) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: 'A category cannot be moved under itself or one of its subcategories'
+        });
+        return;
+      }
+
+      await moveCategory(category, parent, session);
+    } else {
+      await category.save({ session });
+    }
+
+    await session.commitTransaction();
 
     res.status(200).json({
       success: true,
@@ -148,18 +347,27 @@ export const updateCategory = async (req: Request, res: Response): Promise<void>
       data: category
     });
   } catch (error) {
+    await session.abortTransaction();
     console.error('Update category error:', error);
     res.status(500).json({
       success: false,
       error: 'Failed to update category'
     });
+  } finally {
+    session.endSession();
   }
 };
 
 // Delete category - ADMIN ONLY
+// Subcategories move up to the parent of the deleted category. Products move to ?moveProductsTo=
+// or, by default, to the parent; a top-level category with products needs moveProductsTo.
 export const deleteCategory = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
     if (!req.userId) {
+      await session.abortTransaction();
       res.status(401).json({
         success: false,
         error: 'Authentication required'
@@ -168,9 +376,11 @@ export const deleteCategory = async (req: Request, res: Response): Promise<void>
     }
 
     const { id } = req.params;
+    const moveProductsTo = req.query.moveProductsTo as string | undefined;
 
-    const category = await Category.findById(id);
+    const category = await Category.findById(id).session(session);
     if (!category) {
+      await session.abortTransaction();
       res.status(404).json({
         success: false,
         error: 'Category not found'
@@ -178,26 +388,235 @@ export const deleteCategory = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const productCount = await Product.countDocuments({ categoryId: id });
-    if (productCount > 0) {
+    if (moveProductsTo && (!mongoose.Types.ObjectId.isValid(moveProductsTo) || moveProductsTo === id)) {
+      await session.abortTransaction();
       res.status(400).json({
         success: false,
-        error: 'Cannot delete category with existing products'
+        error: 'moveProductsTo must be the ID of another category'
       });
       return;
     }
 
-    await Category.findByIdAndDelete(id);
+    const parent = category.parentId ? await Category.findById(category.parentId).session(session) : null;
+    const productTarget = moveProductsTo ? await Category.findById(moveProductsTo).session(session) : parent;
+    if (moveProductsTo && !productTarget) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Target category not found'
+      });
+      return;
+    }
+
+    const productCount = await Product.countDocuments({ categoryId: id }).session(session);
+    if (productCount > 0 && !productTarget) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: `Category has ${productCount} products. Pass moveProductsTo to move them to another category.`
+      });
+      return;
+    }
+
+    if (productCount > 0) {
+      await Product.updateMany({ categoryId: id }, { $set: { categoryId: productTarget!._id } }, { session });
+    }
+
+    const children = await Category.find({ parentId: id }).session(session);
+    for (const child of children) {
+      await moveCategory(child, parent, session);
+    }
+
+    await Category.deleteOne({ _id: id }, { session });
+    await session.commitTransaction();
+
+    await deleteCategoryImageAsset(category.banner?.publicId);
+    await deleteCategoryImageAsset(category.thumbnail?.publicId);
 
     res.status(200).json({
       success: true,
-      message: 'Category deleted successfully'
+      message: 'Category deleted successfully',
+      data: {
+        movedProducts: productCount,
+        productsMovedTo: productCount > 0 ? productTarget!._id : null,
+        reparentedCategories: children.length
+      }
     });
   } catch (error) {
+    await session.abortTransaction();
     console.error('Delete category error:', error);
     res.status(500).json({
       success: false,
       error: 'Failed to delete category'
     });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Upload or replace the banner or thumbnail of a category (?type=banner|thumbnail) - ADMIN ONLY
+// The file is already on Cloudinary when this runs; the previous image is deleted once the new one is saved
+export const uploadCategoryImage = async (req: Request, res: Response): Promise<void> => {
+  const file = req.file as (Express.Multer.File & { path: string; filename: string }) | undefined;
+
+  try {
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        error: 'No file uploaded'
+      });
+      return;
+    }
+
+    const type = (req.query.type as CategoryImageType) || CategoryImageType.BANNER;
+    const category = await Category.findById(req.params.id);
+
+    if (!category) {
+      await deleteCategoryImageAsset(file.filename);
+      res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+      return;
+    }
+
+    const previousPublicId = category[type]?.publicId;
+    category[type] = { url: file.path, publicId: file.filename };
+    await category.save();
+
+    if (previousPublicId && previousPublicId !== file.filename) {
+      await deleteCategoryImageAsset(previousPublicId);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: previousPublicId ? `Category ${type} replaced successfully` : `Category ${type} uploaded successfully`,
+      data: category
+    });
+  } catch (error) {
+    console.error('Upload category image error:', error);
+    if (file) {
+      await deleteCategoryImageAsset(file.filename);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload category image'
+    });
+  }
+};
+
+// Remove the banner or thumbnail of a category (?type=banner|thumbnail) - ADMIN ONLY
+export const deleteCategoryImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const type = (req.query.type as CategoryImageType) || CategoryImageType.BANNER;
+    const category = await Category.findById(req.params.id);
+
+    if (!category) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+      return;
+    }
+
+    const image = category[type];
+    if (!image?.publicId) {
+      res.status(404).json({
+        success: false,
+        error: `Category has no ${type}`
+      });
+      return;
+    }
+
+    category[type] = undefined;
+    await category.save();
+    await deleteCategoryImageAsset(image.publicId);
+
+    res.status(200).json({
+      success: true,
+      message: `Category ${type} deleted successfully`,
+      data: category
+    });
+  } catch (error) {
+    console.error('Delete category image error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete category image'
+    });
   }
-};
\ No newline at end of file
+};
+
+// Get the attribute set of a category - PUBLIC
+// `attributes` are defined on the category itself; `effectiveAttributes` include the inherited ones and apply to its products
+export const getCategoryAttributeSet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const category = await Category.findById(req.params.id).select('name path attributes');
+
+    if (!category) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        categoryId: category._id,
+        attributes: category.attributes,
+        effectiveAttributes: await getCategoryAttributes(category)
+      }
+    });
+  } catch (error) {
+    console.error('Get category attributes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get category attributes'
+    });
+  }
+};
+
+// Replace the attribute set of a category - ADMIN ONLY
+// Existing product values are checked against the new set the next time each product is saved
+export const updateCategoryAttributes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { attributes }: UpdateCategoryAttributesDto = req.body;
+
+    const category = await Category.findById(req.params.id);
+    if (!category) {
+      res.status(404).json({
+        success: false,
+        error: 'Category not found'
+      });
+      return;
+    }
+
+    category.set('attributes', attributes.map(attribute => ({
+      key: attribute.key,
+      name: attribute.name.trim(),
+      type: attribute.type,
+      unit: attribute.unit?.trim() || undefined,
+      allowedValues: (attribute.allowedValues || []).map(value => value.trim()),
+      required: attribute.required ?? false,
+      filterable: attribute.filterable ?? false
+    })));
+    await category.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Category attributes updated successfully',
+      data: {
+        categoryId: category._id,
+        attributes: category.attributes,
+        effectiveAttributes: await getCategoryAttributes(category)
+      }
+    });
+  } catch (error) {
+    console.error('Update category attributes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update category attributes'
+    });
+  }
+};
@@ -0,0 +1,205 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Coupon, CouponType, CreateCouponDto, UpdateCouponDto } from '../models/coupon';
+import { CouponRedemption } from '../models/couponRedemption';
+
+// ADMIN ENDPOINTS
+// Get all coupons
+export const getAllCoupons = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filter: any = {};
+    if (req.query.isActive !== undefined) {
+      filter.isActive = req.query.isActive === 'true';
+    }
+    if (req.query.type && Object.values(CouponType).includes(req.query.type as CouponType)) {
+      filter.type = req.query.type;
+    }
+
+    const coupons = await Coupon.find(filter).sort({ createdAt: -1 }).lean();
+
+    res.status(200).json({
+      success: true,
+      count: coupons.length,
+      data: coupons
+    });
+  } catch (error) {
+    console.error('Get coupons error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get coupons'
+    });
+  }
+};
+
+// Get single coupon with usage summary
+export const getCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id)
+      .populate('productIds', 'name')
+      .populate('categoryIds', 'name');
+
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+      return;
+    }
+
+    const usage = await CouponRedemption.aggregate([
+      { $match: { couponId: new mongoose.Types.ObjectId(id) } },
+      {
+        $group: {
+          _id: null,
+          redemptions: { $sum: 1 },
+          totalDiscount: { $sum: '$discount' },
+          uniqueCustomers: { $addToSet: '$userId' }
+        }
+      }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        coupon,
+        usage: {
+          redemptions: usage[0]?.redemptions || 0,
+          totalDiscount: usage[0]?.totalDiscount || 0,
+          uniqueCustomers: usage[0]?.uniqueCustomers.length || 0
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get coupon'
+    });
+  }
+};
+
+// Create coupon
+export const createCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const data: CreateCouponDto = req.body;
+
+    const existingCoupon = await Coupon.findOne({ code: data.code.trim().toUpperCase() });
+    if (existingCoupon) {
+      res.status(409).json({
+        success: false,
+        error: 'Coupon with this code already exists'
+      });
+      return;
+    }
+
+    const coupon = await Coupon.create({
+      ...data,
+      code: data.code.trim().toUpperCase(),
+      usedCount: 0,
+      createdBy: req.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon created successfully',
+      data: coupon
+    });
+  } catch (error) {
+    console.error('Create coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create coupon'
+    });
+  }
+};
+
+// Update coupon
+export const updateCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const data: UpdateCouponDto = req.body;
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+      return;
+    }
+
+    if (data.code && data.code.trim().toUpperCase() !== coupon.code) {
+      const existingCoupon = await Coupon.findOne({ code: data.code.trim().toUpperCase() });
+      if (existingCoupon) {
+        res.status(409).json({
+          success: false,
+          error: 'Coupon with this code already exists'
+        });
+        return;
+      }
+    }
+
+    const { usedCount, createdBy, ...updates } = data as any;
+    coupon.set({
+      ...updates,
+      ...(data.code && { code: data.code.trim().toUpperCase() })
+    });
+    await coupon.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon updated successfully',
+      data: coupon
+    });
+  } catch (error) {
+    console.error('Update coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update coupon'
+    });
+  }
+};
+
+// Delete coupon (deactivates it when it has already been used so order history stays intact)
+export const deleteCoupon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+      return;
+    }
+
+    if (coupon.usedCount > 0) {
+      coupon.isActive = false;
+      await coupon.save();
+
+      res.status(200).json({
+        success: true,
+        message: 'Coupon has been used and was deactivated instead of deleted',
+        data: coupon
+      });
+      return;
+    }
+
+    await Coupon.findByIdAndDelete(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete coupon'
+    });
+  }
+};
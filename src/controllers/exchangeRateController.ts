@@ -0,0 +1,115 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import { ExchangeRate, UpsertExchangeRateDto } from '../models/exchangeRate';
+import { BASE_CURRENCY } from '../services/currencyService';
+
+// Currencies customers can shop in, with their rate from the base currency - PUBLIC
+export const getCurrencies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rates = await ExchangeRate.find({ isActive: true }).select('currency rate updatedAt').sort({ currency: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        baseCurrency: BASE_CURRENCY,
+        currencies: [
+          { currency: BASE_CURRENCY, rate: 1 },
+          ...rates
+            .filter(rate => rate.currency !== BASE_CURRENCY)
+            .map(rate => ({ currency: rate.currency, rate: rate.rate, updatedAt: rate.updatedAt }))
+        ]
+      }
+    });
+  } catch (error) {
+    console.error('Get currencies error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get currencies'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS
+// Get all exchange rates, including inactive ones
+export const getExchangeRates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rates = await ExchangeRate.find()
+      .populate('updatedBy', 'firstName lastName email')
+      .sort({ currency: 1 })
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      baseCurrency: BASE_CURRENCY,
+      count: rates.length,
+      data: rates
+    });
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get exchange rates'
+    });
+  }
+};
+
+// Create or update the rate of a currency. Placed orders keep the rate they were locked at.
+export const upsertExchangeRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currency = req.params.currency.toUpperCase();
+    const { rate, isActive }: UpsertExchangeRateDto = req.body;
+
+    if (currency === BASE_CURRENCY) {
+      res.status(400).json({
+        success: false,
+        error: `${BASE_CURRENCY} is the base currency and always has a rate of 1`
+      });
+      return;
+    }
+
+    const existing = await ExchangeRate.findOne({ currency });
+    const exchangeRate = existing || new ExchangeRate({ currency });
+    exchangeRate.rate = rate;
+    if (isActive !== undefined) exchangeRate.isActive = isActive;
+    exchangeRate.updatedBy = req.userId as any;
+
+    await exchangeRate.save();
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      message: existing ? 'Exchange rate updated successfully' : 'Exchange rate created successfully',
+      data: exchangeRate
+    });
+  } catch (error) {
+    console.error('Upsert exchange rate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save exchange rate'
+    });
+  }
+};
+
+// Delete exchange rate; carts in that currency fall back to the base currency
+export const deleteExchangeRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const exchangeRate = await ExchangeRate.findOneAndDelete({ currency: req.params.currency.toUpperCase() });
+    if (!exchangeRate) {
+      res.status(404).json({
+        success: false,
+        error: 'Exchange rate not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Exchange rate deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete exchange rate'
+    });
+  }
+};
@@ -1,11 +1,67 @@
 /// <reference path="../../express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
-import { Order, OrderStatus } from '../models/order';
+import { Order, OrderStatus, OrderPaymentStatus, IOrderShippingMethod } from '../models/order';
 import { Cart } from '../models/cart';
 import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
 import mongoose from 'mongoose';
 import emailService from '../services/emailService';
+import { applyCartCurrency, recalculateCart } from '../services/cartService';
+import { BASE_CURRENCY, convertFromBase, convertToBase, getRequestedCurrency } from '../services/currencyService';
+import {
+  evaluateCoupon,
+  redeemCoupon,
+  releaseCouponRedemption,
+  roundCurrency,
+  CouponEvaluation
+} from '../services/couponService';
+import { Coupon, ICoupon } from '../models/coupon';
+import { User, IUser } from '../models/user';
+import { hasAdminAccess } from '../middleware/accessControl';
+import { IAddress } from '../models/address';
+import { normalizeAddress } from '../utils/addressUtils';
+import { isShippingConfigured, quoteShippingOptions } from '../services/shippingService';
+import { getFulfillmentSummary } from '../services/shipmentService';
+import { getRequestActor } from '../services/apiKeyService';
+import { Shipment, ShipmentStatus } from '../models/shipment';
+import { cancelOpenPayments, createPaymentIntent, getAmountDue } from '../services/paymentService';
+import { debitWallet, getWalletBalance, getWalletPayment, restoreOrderWallet } from '../services/walletService';
+import { WalletTransactionSource } from '../models/walletTransaction';
+import { markCartRecovered } from '../services/abandonedCartService';
+import {
+  commitOrderReservations,
+  getAvailableQuantity,
+  reserveOrderItems,
+  returnOrderStock
+} from '../services/reservationService';
+import {
+  buildStatusChange,
+  getAllowedTransitions,
+  transitionOrderStatus
+} from '../services/orderStatusService';
+
+// Pick the order address: an address book entry, an inline address, or the user's default
+const resolveOrderAddress = (
+  user: IUser,
+  addressId: string | undefined,
+  inlineAddress: any,
+  defaultAddressId?: mongoose.Types.ObjectId
+): { address?: IAddress; error?: string } => {
+  if (addressId) {
+    const entry = user.addresses.id(addressId);
+    if (!entry) {
+      return { error: 'Address not found in your address book' };
+    }
+    return { address: normalizeAddress(entry) };
+  }
 
+  if (inlineAddress) {
+    return { address: normalizeAddress(inlineAddress) };
+  }
+
+  const fallback = defaultAddressId ? user.addresses.id(defaultAddressId) : null;
+  return { address: fallback ? normalizeAddress(fallback) : undefined };
+};
 
 // CUSTOMER ENDPOINTS
 // Create order with transaction (ALREADY HAVE - KEEP AS IS)
@@ -15,7 +71,18 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
 
   try {
     const userId = req.userId;
-    const { shippingAddress, notes } = req.body;
+    const {
+      shippingAddress: inlineShipping,
+      shippingAddressId,
+      billingAddress: inlineBilling,
+      billingAddressId,
+      shippingMethodId,
+      notes,
+      paymentProvider,
+      currency: bodyCurrency,
+      useWallet,
+      walletAmount: requestedWalletAmount
+    } = req.body;
 
     const cart = await Cart.findOne({ userId }).session(session);
 
@@ -28,6 +95,31 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    const user = await User.findById(userId).session(session);
+    if (!user) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const shipping = resolveOrderAddress(user, shippingAddressId, inlineShipping, user.defaultShippingAddressId);
+    const billing = resolveOrderAddress(user, billingAddressId, inlineBilling, user.defaultBillingAddressId);
+    const addressError = shipping.error || billing.error;
+    if (addressError) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: addressError
+      });
+      return;
+    }
+
+    const shippingAddress = shipping.address;
+    const billingAddress = billing.address || shipping.address;
+
     for (const item of cart.items) {
       const product = await Product.findById(item.productId).session(session);
       
@@ -40,62 +132,274 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
         return;
       }
 
-      if (!product.inStock || product.quantity < item.quantity) {
+      if (product.hasVariants && !item.variantId) {
         await session.abortTransaction();
         res.status(400).json({
           success: false,
-          error: `Insufficient stock for ${item.productName}. Only ${product.quantity} available.`
+          error: `Please select a variant for ${item.productName}`
         });
         return;
       }
+
+      if (item.variantId) {
+        const variant = await ProductVariant.findOne({
+          _id: item.variantId,
+          productId: item.productId,
+          status: 'active'
+        }).session(session);
+
+        if (!variant) {
+          await session.abortTransaction();
+          res.status(404).json({
+            success: false,
+            error: `Variant ${item.variantName || ''} of ${item.productName} no longer exists`
+          });
+          return;
+        }
+
+        if (!variant.inStock || getAvailableQuantity(variant) < item.quantity) {
+          await session.abortTransaction();
+          res.status(400).json({
+            success: false,
+            error: `Insufficient stock for ${item.productName} (${item.variantName}). Only ${getAvailableQuantity(variant)} available.`
+          });
+          return;
+        }
+        continue;
+      }
+
+      if (!product.inStock || getAvailableQuantity(product) < item.quantity) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Insufficient stock for ${item.productName}. Only ${getAvailableQuantity(product)} available.`
+        });
+        return;
+      }
+    }
+
+    // Lock the currency and today's rate: the one asked for at checkout, else the cart's own
+    const currency = (bodyCurrency || getRequestedCurrency(req) || cart.currency || BASE_CURRENCY).toUpperCase();
+    if (!(await applyCartCurrency(cart, currency, session))) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
     }
 
+    // Re-check the applied coupon; it may have expired or hit its limit since it was applied
+    let coupon: ICoupon | null = null;
+    let couponEvaluation: CouponEvaluation | null = null;
+    if (cart.coupon?.couponId) {
+      coupon = await Coupon.findById(cart.coupon.couponId).session(session);
+      couponEvaluation = coupon
+        ? await evaluateCoupon(coupon, cart.items, userId, session, cart.exchangeRate)
+        : null;
+
+      if (!coupon || !couponEvaluation?.valid) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Coupon ${cart.coupon.code} can no longer be applied: ${couponEvaluation?.error || 'coupon not found'}. Remove it from your cart to continue.`
+        });
+        return;
+      }
+    }
+
+    await recalculateCart(
+      cart,
+      userId,
+      session,
+      shippingAddress ? { country: shippingAddress.country, region: shippingAddress.region } : undefined
+    );
+
+    // Once shipping is configured every order needs an address and one of the quoted methods
+    let shippingMethod: IOrderShippingMethod | undefined;
+    let shippingCost = 0;
+    if (await isShippingConfigured(session)) {
+      if (!shippingAddress) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: 'A shipping address is required'
+        });
+        return;
+      }
+
+      const options = await quoteShippingOptions(cart, shippingAddress.country, session);
+      const selected = options.find(option => option.methodId === shippingMethodId);
+      if (!selected) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: options.length > 0
+            ? 'Choose one of the available shipping methods'
+            : `We do not ship to ${shippingAddress.country}`,
+          data: { shippingOptions: options }
+        });
+        return;
+      }
+
+      shippingMethod = {
+        zoneId: new mongoose.Types.ObjectId(selected.zoneId),
+        methodId: new mongoose.Types.ObjectId(selected.methodId),
+        name: selected.name,
+        carrier: selected.carrier,
+        type: selected.type
+      };
+      shippingCost = selected.cost;
+    }
+
+    const total = roundCurrency(cart.total + shippingCost);
+
+    // Store credit: walletAmount caps how much is used, useWallet alone uses as much as covers the total
+    let walletPayment = { amount: 0, baseAmount: 0 };
+    if (useWallet || requestedWalletAmount !== undefined) {
+      const balance = await getWalletBalance(userId!, session);
+      walletPayment = getWalletPayment(balance, total, cart.exchangeRate ?? 1, requestedWalletAmount);
+
+      if (requestedWalletAmount !== undefined && walletPayment.amount < roundCurrency(Math.min(requestedWalletAmount, total))) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Insufficient store credit. Available: ${convertFromBase(balance, cart.exchangeRate ?? 1).toFixed(2)} ${cart.currency || BASE_CURRENCY}`
+        });
+        return;
+      }
+    }
+
+    const lineDiscounts = new Map(
+      (couponEvaluation?.lines || []).map(line => [line.itemId, line.amount])
+    );
+
+    const lineTaxes = new Map(cart.taxLines.map(line => [line.itemId, line.tax]));
+
+    // Order items keep the cart item IDs so tax lines still point at them
     const orderItems = cart.items.map(item => ({
+      _id: (item as any)._id,
       productId: item.productId.toString(),
+      variantId: item.variantId?.toString(),
+      variantName: item.variantName,
+      sku: item.sku,
       productName: item.productName,
       price: item.price,
       quantity: item.quantity,
-      subtotal: item.subtotal
+      subtotal: item.subtotal,
+      discount: lineDiscounts.get((item as any)._id.toString()) || 0,
+      tax: lineTaxes.get((item as any)._id.toString()) || 0
     }));
 
     const newOrder = (await Order.create(
       [{
         userId,
         items: orderItems,
-        total: cart.total,
+        subtotal: cart.subtotal,
+        discounts: coupon && couponEvaluation
+          ? [{
+            couponId: coupon._id,
+            code: coupon.code,
+            type: coupon.type,
+            amount: couponEvaluation.discount,
+            freeShipping: couponEvaluation.freeShipping
+          }]
+          : [],
+        discountTotal: roundCurrency(cart.discount),
+        shippingMethod,
+        shippingCost,
+        taxLines: cart.taxLines,
+        taxTotal: cart.taxTotal,
+        pricesIncludeTax: cart.pricesIncludeTax,
+        currency: cart.currency,
+        exchangeRate: cart.exchangeRate,
+        total,
+        baseTotal: convertToBase(total, cart.exchangeRate ?? 1),
+        walletAmount: walletPayment.amount,
+        walletBaseAmount: walletPayment.baseAmount,
         status: OrderStatus.PENDING,
-        shippingAddress: shippingAddress?.trim(),
+        statusHistory: [buildStatusChange(undefined, OrderStatus.PENDING, { actor: 'customer', userId })],
+        shippingAddress,
+        billingAddress,
         notes: notes?.trim()
       }],
       { session }
     ))[0] as any;
 
-    for (const item of cart.items) {
-      const product = await Product.findById(item.productId).session(session);
-      
-      if (product) {
-        product.quantity -= item.quantity;
-        if (product.quantity === 0) {
-          product.inStock = false;
-        }
-        await product.save({ session });
+    if (coupon && couponEvaluation) {
+      const redeemed = await redeemCoupon(coupon, userId!, newOrder._id, couponEvaluation.discount, session);
+      if (!redeemed) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Coupon ${coupon.code} has reached its usage limit`
+        });
+        return;
+      }
+    }
+
+    // Spend the store credit in the same transaction as the stock, so a failed checkout never loses it
+    if (walletPayment.baseAmount > 0) {
+      const debited = await debitWallet(userId!, walletPayment.baseAmount, {
+        source: WalletTransactionSource.ORDER,
+        reason: 'Order payment',
+        orderId: newOrder._id
+      }, session);
+      if (!debited) {
+        await session.abortTransaction();
+        res.status(409).json({
+          success: false,
+          error: 'Your store credit balance changed. Please try again.'
+        });
+        return;
       }
     }
 
+    // Hold the stock until the payment arrives; the conditional update fails if another order took it first
+    const reservation = await reserveOrderItems(newOrder, session);
+    if (reservation.unavailable) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: `Insufficient stock for ${reservation.unavailable}`
+      });
+      return;
+    }
+
+    // Orders covered entirely by discounts or store credit need no payment
+    let payment = null;
+    if (getAmountDue(newOrder) > 0) {
+      payment = await createPaymentIntent(newOrder, paymentProvider, session);
+    } else {
+      newOrder.paymentStatus = OrderPaymentStatus.PAID;
+      transitionOrderStatus(newOrder, OrderStatus.CONFIRMED, {
+        actor: 'system',
+        reason: newOrder.walletAmount > 0 ? 'Paid with store credit' : 'No payment required'
+      });
+    }
+
+    // Stock is only taken right away when nothing is left to pay. Otherwise it is held until the payment is
+    // captured or an admin confirms the order, and the expiry job gives it back after the deadline.
+    if (getAmountDue(newOrder) === 0) {
+      await commitOrderReservations(newOrder._id, session);
+    } else {
+      newOrder.reservationExpiresAt = reservation.expiresAt;
+    }
+    await newOrder.save({ session });
+
+    await markCartRecovered(cart._id as mongoose.Types.ObjectId, newOrder, session);
     await Cart.findByIdAndDelete(cart._id).session(session);
     await session.commitTransaction();
 
     try {
-      const user = await mongoose.model('User').findById(userId);
-      if (user) {
-        await emailService.sendOrderConfirmation(
-          user.email,
-          user.firstName,
-          newOrder._id.toString(),
-          newOrder.total,
-          newOrder.items
-        );
-      }
+      await emailService.sendOrderConfirmation(
+        user.email,
+        user.firstName,
+        newOrder._id.toString(),
+        newOrder.total,
+        newOrder.items,
+        newOrder.currency
+      );
     } catch (emailError) {
       console.error('Failed to send order confirmation email:', emailError);
     }
@@ -103,7 +407,17 @@ export const createOrder = async (req: Request, res: Response): Promise<void> =>
     res.status(201).json({
       success: true,
       message: 'Order placed successfully',
-      data: newOrder
+      data: newOrder,
+      payment: payment
+        ? {
+          id: payment.payment._id,
+          provider: payment.payment.provider,
+          status: payment.payment.status,
+          amount: payment.payment.amount,
+          currency: payment.payment.currency,
+          clientSecret: payment.clientSecret
+        }
+        : null
     });
   } catch (error) {
     await session.abortTransaction();
@@ -183,6 +497,52 @@ export const getMyOrder = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+// Get status history of an order (owner or admin)
+export const getOrderTimeline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const isAdmin = hasAdminAccess(req);
+
+    const filter: any = { _id: id };
+    if (!isAdmin) {
+      filter.userId = req.userId;
+    }
+
+    const query = Order.findOne(filter).select('orderNumber status statusHistory createdAt');
+    if (isAdmin) {
+      query.populate('statusHistory.changedBy', 'email firstName lastName role');
+      query.populate('statusHistory.apiKeyId', 'name prefix');
+    }
+    const order = await query.lean();
+
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        currentStatus: order.status,
+        allowedTransitions: getAllowedTransitions(order.status),
+        // Customers see who acted (customer, admin, system) but not which staff member or API key
+        timeline: order.statusHistory.map(entry => (isAdmin ? entry : { ...entry, changedBy: undefined, apiKeyId: undefined }))
+      }
+    });
+  } catch (error) {
+    console.error('Get order timeline error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get order timeline'
+    });
+  }
+};
+
 // Cancel order with transaction 
 export const cancelMyOrder = async (req: Request, res: Response): Promise<void> => {
   const session = await mongoose.startSession();
@@ -191,6 +551,7 @@ export const cancelMyOrder = async (req: Request, res: Response): Promise<void>
   try {
     const userId = req.userId;
     const { id } = req.params;
+    const { reason } = req.body || {};
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       await session.abortTransaction();
@@ -221,16 +582,12 @@ export const cancelMyOrder = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    for (const item of order.items) {
-      const product = await Product.findById(item.productId).session(session);
-      if (product) {
-        product.quantity += item.quantity;
-        product.inStock = true;
-        await product.save({ session });
-      }
-    }
+    await returnOrderStock(order, 'Order cancelled by customer', session);
+    await releaseCouponRedemption(order._id, session);
+    await restoreOrderWallet(order, 'Order cancelled by customer', session);
+    await cancelOpenPayments(order._id, session);
 
-    order.status = OrderStatus.CANCELLED;
+    transitionOrderStatus(order, OrderStatus.CANCELLED, { actor: 'customer', userId, reason });
     await order.save({ session });
     await session.commitTransaction();
 
@@ -296,7 +653,7 @@ export const updateOrderStatus = async (req: Request, res: Response): Promise<vo
 
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, reason } = req.body;
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       await session.abortTransaction();
@@ -327,27 +684,66 @@ export const updateOrderStatus = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    if (order.status === OrderStatus.DELIVERED || order.status === OrderStatus.CANCELLED) {
+    const allowedTransitions = getAllowedTransitions(order.status);
+    if (!allowedTransitions.includes(status)) {
       await session.abortTransaction();
-      res.status(400).json({
+      res.status(409).json({
         success: false,
-        error: `Cannot update order with status: ${order.status}`
+        error: `Cannot change order status from ${order.status} to ${status}`,
+        data: {
+          currentStatus: order.status,
+          allowedTransitions
+        }
       });
       return;
     }
 
-    if (status === OrderStatus.CANCELLED) {
-      for (const item of order.items) {
-        const product = await Product.findById(item.productId).session(session);
-        if (product) {
-          product.quantity += item.quantity;
-          product.inStock = true;
-          await product.save({ session });
-        }
+    // Shipping states come from the shipments recorded for the order
+    if (status === OrderStatus.SHIPPED || status === OrderStatus.DELIVERED || status === OrderStatus.CANCELLED) {
+      const shipments = await Shipment.find({ orderId: order._id }).session(session);
+      const fulfillment = getFulfillmentSummary(order, shipments);
+      const handedOver = shipments.some(shipment => shipment.status !== ShipmentStatus.PENDING);
+
+      const conflict =
+        status === OrderStatus.SHIPPED && !fulfillment.fullyShipped
+          ? 'Record shipments for all items before marking the order as shipped'
+          : status === OrderStatus.DELIVERED && !fulfillment.fullyDelivered
+            ? 'Mark all shipments as delivered before marking the order as delivered'
+            : status === OrderStatus.CANCELLED && handedOver
+              ? 'Cannot cancel an order with items already handed to the carrier'
+              : null;
+
+      if (conflict) {
+        await session.abortTransaction();
+        res.status(409).json({
+          success: false,
+          error: conflict,
+          data: {
+            currentStatus: order.status,
+            fulfillment: fulfillment.lines
+          }
+        });
+        return;
       }
+
+      if (status === OrderStatus.CANCELLED) {
+        await Shipment.deleteMany({ orderId: order._id }).session(session);
+      }
+    }
+
+    if (status === OrderStatus.CANCELLED) {
+      await returnOrderStock(order, 'Order cancelled by admin', session);
+      await releaseCouponRedemption(order._id, session);
+      await restoreOrderWallet(order, 'Order cancelled by admin', session);
+      await cancelOpenPayments(order._id, session);
+    }
+
+    // Confirming an order by hand turns its stock holds into a sale
+    if (status === OrderStatus.CONFIRMED) {
+      await commitOrderReservations(order._id, session);
     }
 
-    order.status = status;
+    transitionOrderStatus(order, status, { actor: 'admin', ...getRequestActor(req), reason });
     await order.save({ session });
     await session.commitTransaction();
 
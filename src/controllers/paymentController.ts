@@ -0,0 +1,349 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Payment, PaymentStatus, ConfirmPaymentDto, RefundOrderDto } from '../models/payment';
+import { Order, OrderStatus, OrderPaymentStatus } from '../models/order';
+import { hasAdminAccess } from '../middleware/accessControl';
+import { getPaymentProvider } from '../services/payments';
+import {
+  applyPaymentEvent,
+  capturePayment,
+  createPaymentIntent,
+  getRefundablePayments,
+  refundOrderPayments
+} from '../services/paymentService';
+import { roundCurrency } from '../services/couponService';
+import { ensureOrderReserved } from '../services/reservationService';
+
+// CUSTOMER ENDPOINTS
+// Confirm a payment with the mock gateway (test card numbers decide the outcome)
+export const confirmPayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { cardNumber, captureMethod }: ConfirmPaymentDto = req.body;
+
+    const payment = await Payment.findOne({ _id: id, userId: req.userId });
+    if (!payment) {
+      res.status(404).json({
+        success: false,
+        error: 'Payment not found'
+      });
+      return;
+    }
+
+    if (payment.status !== PaymentStatus.INTENT) {
+      res.status(400).json({
+        success: false,
+        error: `Payment cannot be confirmed in status: ${payment.status}`
+      });
+      return;
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    if (!provider || !provider.confirm) {
+      res.status(400).json({
+        success: false,
+        error: `Payments with ${payment.provider} are confirmed by the provider, not through this endpoint`
+      });
+      return;
+    }
+
+    const events = await provider.confirm(payment.providerReference, payment.amount, { cardNumber, captureMethod });
+
+    let result = null;
+    for (const event of events) {
+      result = await applyPaymentEvent(event);
+    }
+
+    const failed = result?.payment.status === PaymentStatus.FAILED;
+
+    res.status(failed ? 402 : 200).json({
+      success: !failed,
+      ...(failed
+        ? { error: result?.payment.failureReason || 'Payment failed' }
+        : { message: 'Payment processed successfully' }),
+      data: result
+    });
+  } catch (error) {
+    console.error('Confirm payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to confirm payment'
+    });
+  }
+};
+
+// Get payments for an order (owner or admin)
+export const getOrderPayments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { orderId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid order ID'
+      });
+      return;
+    }
+
+    const filter: any = { _id: orderId };
+    if (!hasAdminAccess(req)) {
+      filter.userId = req.userId;
+    }
+
+    const order = await Order.findOne(filter);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    const payments = await Payment.find({ orderId }).select('-events').sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      count: payments.length,
+      data: payments
+    });
+  } catch (error) {
+    console.error('Get order payments error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get payments'
+    });
+  }
+};
+
+// Start a new payment attempt after a failed one
+export const retryOrderPayment = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { orderId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: 'Invalid order ID'
+      });
+      return;
+    }
+
+    const order = await Order.findOne({ _id: orderId, userId: req.userId }).session(session);
+    if (!order) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    if (order.status !== OrderStatus.PENDING || order.paymentStatus === OrderPaymentStatus.PAID) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: 'Only unpaid pending orders can be paid'
+      });
+      return;
+    }
+
+    const openPayment = await Payment.findOne({
+      orderId,
+      status: { $in: [PaymentStatus.INTENT, PaymentStatus.AUTHORIZED] }
+    }).session(session);
+    if (openPayment) {
+      await session.abortTransaction();
+      res.status(409).json({
+        success: false,
+        error: 'This order already has an open payment',
+        data: { paymentId: openPayment._id, status: openPayment.status }
+      });
+      return;
+    }
+
+    // Holds released by a failed payment are taken again before paying
+    const reservation = await ensureOrderReserved(order, session);
+    if (reservation.unavailable) {
+      await session.abortTransaction();
+      res.status(409).json({
+        success: false,
+        error: `${reservation.unavailable} is no longer available. Please cancel this order.`
+      });
+      return;
+    }
+
+    const intent = await createPaymentIntent(order, req.body.provider, session);
+    if (!intent) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: 'Payment provider is not available'
+      });
+      return;
+    }
+
+    order.paymentStatus = OrderPaymentStatus.UNPAID;
+    if (reservation.expiresAt) {
+      order.reservationExpiresAt = reservation.expiresAt;
+    }
+    await order.save({ session });
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Payment created',
+      data: {
+        id: intent.payment._id,
+        provider: intent.payment.provider,
+        status: intent.payment.status,
+        amount: intent.payment.amount,
+        currency: intent.payment.currency,
+        clientSecret: intent.clientSecret
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Retry payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create payment'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// PROVIDER CALLBACKS
+// Webhook endpoint; the provider verifies its own signature
+export const handlePaymentWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) {
+      res.status(404).json({
+        success: false,
+        error: 'Unknown payment provider'
+      });
+      return;
+    }
+
+    let event;
+    try {
+      event = provider.parseWebhook(req.rawBody || JSON.stringify(req.body), req.headers);
+    } catch (verifyError) {
+      res.status(400).json({
+        success: false,
+        error: verifyError instanceof Error ? verifyError.message : 'Invalid webhook'
+      });
+      return;
+    }
+
+    const result = await applyPaymentEvent(event);
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: 'Payment not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      received: true
+    });
+  } catch (error) {
+    console.error('Payment webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process webhook'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS
+// Capture authorized payments of an order
+export const captureOrderPayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const payment = await Payment.findOne({ orderId: id, status: PaymentStatus.AUTHORIZED });
+    if (!payment) {
+      res.status(400).json({
+        success: false,
+        error: 'Order has no authorized payment to capture'
+      });
+      return;
+    }
+
+    const result = await capturePayment(payment);
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment captured',
+      data: result
+    });
+  } catch (error) {
+    console.error('Capture payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to capture payment'
+    });
+  }
+};
+
+// Refund an order, fully or partially
+export const refundOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, reason }: RefundOrderDto = req.body;
+
+    const order = await Order.findById(id);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    const { payments, refundable } = await getRefundablePayments(id);
+
+    if (refundable <= 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Order has no captured payment to refund'
+      });
+      return;
+    }
+
+    const requested = amount === undefined ? refundable : roundCurrency(amount);
+    if (requested <= 0 || requested > refundable) {
+      res.status(400).json({
+        success: false,
+        error: `Refund amount must be between 0.01 and ${refundable.toFixed(2)}`
+      });
+      return;
+    }
+
+    const refundedOrder = await refundOrderPayments(payments, requested, reason, req.userId);
+
+    res.status(200).json({
+      success: true,
+      message: requested < refundable ? 'Partial refund processed' : 'Refund processed',
+      data: {
+        refunded: requested,
+        order: refundedOrder
+      }
+    });
+  } catch (error) {
+    console.error('Refund order error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refund order'
+    });
+  }
+};
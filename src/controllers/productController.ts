@@ -1,29 +1,67 @@
 /// <reference path="../../express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { Product } from '../models/product';
-import { Category } from '../models/category';
+import { Category, ICategory } from '../models/category';
 import { Cart } from '../models/cart';
+import { ProductVariant } from '../models/productVariant';
+import { TaxClass } from '../models/taxClass';
 import { User, UserRole } from '../models/user';
 import { createNotification } from '../utils/notificationUtils';
-
-// Helper function to transform product data for frontend
-const transformProduct = (product: any) => {
+import { recalculateCart } from '../services/cartService';
+import {
+  getCategoryAttributes,
+  getCategoryBreadcrumbs,
+  getCategoryWithDescendantIds,
+  getFilterableAttributes
+} from '../services/categoryService';
+import {
+  Availability,
+  ProductSearchSort,
+  getQueryList,
+  findProductsWithFacets
+} from '../services/productSearchService';
+import {
+  getRankingBoost,
+  indexProduct,
+  removeProductFromIndex,
+  searchAllMatches,
+  searchIndex,
+  suggestTerms
+} from '../services/searchIndexService';
+import { getAvailableQuantity } from '../services/reservationService';
+import { recordInitialStock, setStockQuantity } from '../services/inventoryService';
+import { getRequestActor } from '../services/apiKeyService';
+import { BASE_CURRENCY, convertFromBase, getExchangeRate, getPriceInCurrency, getRequestedCurrency } from '../services/currencyService';
+import { getVariantName, validateProductOptions, validateVariantOptions } from '../utils/variantUtils';
+import { buildAttributeFilter, getAttributeMap, validateProductAttributes } from '../utils/attributeUtils';
+
+// Helper function to transform product data for frontend, priced in the requested currency
+const transformProduct = (product: any, currency: string = BASE_CURRENCY, exchangeRate: number = 1) => {
   return {
     id: product._id,
     name: product.name,
     slug: product.slug || product.name.toLowerCase().replace(/\s+/g, '-'),
     sku: product.sku || `PRD-${product._id}`,
-    price: product.price,
-    oldPrice: product.oldPrice || null,
+    price: getPriceInCurrency(product, currency, exchangeRate),
+    oldPrice: product.oldPrice ? convertFromBase(product.oldPrice, exchangeRate) : null,
+    currency,
+    prices: product.prices || [],
     description: product.description || '',
     images: product.images || [],
     category: product.categoryId?.name || (typeof product.categoryId === 'string' ? product.categoryId : 'Uncategorized'),
     stock: product.quantity || product.stock || 0,
+    available: getAvailableQuantity({ quantity: product.quantity || 0, reserved: product.reserved }),
     status: product.status || 'active',
     featured: product.featured || false,
     rating: product.rating || 0,
     reviews: product.reviews || 0,
     tags: product.tags || [],
+    attributes: getAttributeMap(product.attributes),
+    weight: product.weight || 0,
+    taxClassId: product.taxClassId || null,
+    options: product.options || [],
+    hasVariants: product.hasVariants || false,
     createdAt: product.createdAt,
     updatedAt: product.updatedAt
   };
@@ -31,6 +69,17 @@ const transformProduct = (product: any) => {
 
 export const getAllProducts = async (req: Request, res: Response): Promise<void> => {
   try {
+    // CURRENCY (?currency= or X-Currency header)
+    const currency = getRequestedCurrency(req) || BASE_CURRENCY;
+    const exchangeRate = await getExchangeRate(currency);
+    if (exchangeRate === null) {
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
+    }
+
     // PAGINATION
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -39,8 +88,11 @@ export const getAllProducts = async (req: Request, res: Response): Promise<void>
     // FILTERING
     const filter: any = {};
     
+    // includeSubcategories=true also matches products in every descendant of the category
     if (req.query.categoryId) {
-      filter.categoryId = req.query.categoryId;
+      filter.categoryId = req.query.includeSubcategories === 'true'
+        ? { $in: await getCategoryWithDescendantIds(req.query.categoryId as string) }
+        : req.query.categoryId;
     }
     
     if (req.query.featured !== undefined) {
@@ -50,38 +102,86 @@ export const getAllProducts = async (req: Request, res: Response): Promise<void>
     if (req.query.inStock !== undefined) {
       filter.inStock = req.query.inStock === 'true';
     }
+
+    // ATTRIBUTES (?attributes[ram]=8,16&attributes[screen_size]=13-15.6), filterable attributes only
+    if (req.query.attributes !== undefined) {
+      if (typeof req.query.attributes !== 'object' || Array.isArray(req.query.attributes)) {
+        res.status(400).json({
+          success: false,
+          error: 'Attribute filters must look like attributes[key]=value'
+        });
+        return;
+      }
+
+      const attributeFilter = buildAttributeFilter(
+        await getFilterableAttributes(req.query.categoryId as string | undefined),
+        req.query.attributes as Record<string, unknown>
+      );
+      if ('error' in attributeFilter) {
+        res.status(400).json({
+          success: false,
+          error: attributeFilter.error
+        });
+        return;
+      }
+      const conditions = Object.values(attributeFilter.conditions);
+      if (conditions.length > 0) {
+        filter.$and = conditions;
+      }
+    }
     
+    // Price bounds are given in the requested currency and compared with the base price
     if (req.query.minPrice || req.query.maxPrice) {
       filter.price = {};
       if (req.query.minPrice) {
-        filter.price.$gte = parseFloat(req.query.minPrice as string);
+        filter.price.$gte = parseFloat(req.query.minPrice as string) / exchangeRate;
       }
       if (req.query.maxPrice) {
-        filter.price.$lte = parseFloat(req.query.maxPrice as string);
+        filter.price.$lte = parseFloat(req.query.maxPrice as string) / exchangeRate;
       }
     }
 
-    // SEARCH (using text index)
+    // SEARCH (typo-tolerant, using the in-process search index). Every match is kept so that the totals are right.
+    const matches = req.query.search ? searchAllMatches(req.query.search as string) : [];
     if (req.query.search) {
-      filter.$text = { $search: req.query.search as string };
+      filter._id = { $in: matches.map(match => match.productId) };
     }
 
-    // SORTING
+    // SORTING: a search is ranked by relevance, like /search, unless another sort is asked for
+    const rankByRelevance = !!req.query.search && (!req.query.sortBy || req.query.sortBy === 'relevance');
     const sortBy = req.query.sortBy as string || 'createdAt';
     const order = req.query.order === 'asc' ? 1 : -1;
     const sortOptions: any = {};
     sortOptions[sortBy] = order;
 
     // Execute query
-    const products = await Product.find(filter)
-      .populate('categoryId', 'name')
-      .sort(sortOptions)
-      .skip(skip)
-      .limit(limit)
-      .lean();
+    let products: any[];
+    if (rankByRelevance) {
+      // Relevance is the search score plus the ranking boosts; the page is picked from the scored matches
+      const scores = new Map(matches.map(match => [match.productId, match.score]));
+      const candidates = await Product.find(filter).select('featured inStock quantity reserved').lean();
+      const pageIds = candidates
+        .map(product => ({ id: product._id.toString(), score: (scores.get(product._id.toString()) || 0) + getRankingBoost(product) }))
+        .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+        .slice(skip, skip + limit)
+        .map(candidate => candidate.id);
+
+      const pageProducts = await Product.find({ _id: { $in: pageIds } })
+        .populate('categoryId', 'name')
+        .lean();
+      const byId = new Map(pageProducts.map(product => [product._id.toString(), product]));
+      products = pageIds.map(id => byId.get(id)).filter(Boolean);
+    } else {
+      products = await Product.find(filter)
+        .populate('categoryId', 'name')
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(limit)
+        .lean();
+    }
 
     // Transform products for frontend
-    const transformedProducts = products.map(transformProduct);
+    const transformedProducts = products.map(product => transformProduct(product, currency, exchangeRate));
 
     // Get total count for pagination
     const totalProducts = await Product.countDocuments(filter);
@@ -108,6 +208,136 @@ export const getAllProducts = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Faceted search - PUBLIC
+// Returns a page of matching products and facet counts; each facet is counted with the other facets' filters applied
+export const searchProducts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const currency = getRequestedCurrency(req) || BASE_CURRENCY;
+    const exchangeRate = await getExchangeRate(currency);
+    if (exchangeRate === null) {
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
+    }
+
+    const ratings = getQueryList(req.query.rating).map(Number);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const sortBy = (req.query.sortBy as ProductSearchSort) || 'relevance';
+
+    const result = await findProductsWithFacets({
+      q: (req.query.q as string)?.trim() || undefined,
+      categories: getQueryList(req.query.category),
+      priceRanges: getQueryList(req.query.price),
+      tags: getQueryList(req.query.tags),
+      rating: ratings.length > 0 ? Math.min(...ratings) : undefined,
+      availability: getQueryList(req.query.availability) as Availability[],
+      attributes: (req.query.attributes as Record<string, unknown>) || {},
+      sortBy,
+      order: req.query.order === 'asc' ? 1 : -1,
+      page,
+      limit
+    }, currency, exchangeRate);
+
+    if ('error' in result) {
+      res.status(400).json({
+        success: false,
+        error: result.error
+      });
+      return;
+    }
+
+    const { products, total, facets } = result;
+    await Product.populate(products, { path: 'categoryId', select: 'name' });
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalProducts: total,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      },
+      data: products.map(product => transformProduct(product, currency, exchangeRate)),
+      facets
+    });
+  } catch (error) {
+    console.error('Search products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search products'
+    });
+  }
+};
+
+// Autocomplete - PUBLIC
+// Word completions for the query and the best matching products, tolerant to typos and unfinished words
+export const suggestProducts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = ((req.query.q as string) || '').trim();
+    const limit = Math.min(parseInt(req.query.limit as string) || 8, 20);
+
+    if (query.length < 2) {
+      res.status(400).json({
+        success: false,
+        error: 'Query must be at least 2 characters'
+      });
+      return;
+    }
+
+    const currency = getRequestedCurrency(req) || BASE_CURRENCY;
+    const exchangeRate = await getExchangeRate(currency);
+    if (exchangeRate === null) {
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
+    }
+
+    // Rank a few more candidates than needed: the boosts can reorder them
+    const matches = searchIndex(query, limit * 5);
+    const products = await Product.find({
+      _id: { $in: matches.map(match => match.productId) },
+      status: 'active'
+    }).select('name slug price prices images featured inStock quantity reserved').lean();
+
+    const scores = new Map(matches.map(match => [match.productId, match.score]));
+    const ranked = products
+      .map(product => ({ product, score: (scores.get(product._id.toString()) || 0) + getRankingBoost(product) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        query,
+        terms: suggestTerms(query, 5),
+        products: ranked.map(({ product }) => ({
+          id: product._id,
+          name: product.name,
+          slug: product.slug,
+          price: getPriceInCurrency(product, currency, exchangeRate),
+          currency,
+          image: product.images?.[0] || null,
+          inStock: product.inStock && getAvailableQuantity(product) > 0
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Suggest products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get suggestions'
+    });
+  }
+};
+
 // Enhanced getAllUsers with pagination and sorting
 export const getAllUsers = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -166,8 +396,18 @@ export const getProduct = async (req: Request, res: Response): Promise<void> =>
   try {
     const { id } = req.params;
 
+    const currency = getRequestedCurrency(req) || BASE_CURRENCY;
+    const exchangeRate = await getExchangeRate(currency);
+    if (exchangeRate === null) {
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
+    }
+
     const product = await Product.findById(id)
-      .populate('categoryId', 'name description')
+      .populate('categoryId', 'name description slug path')
       .populate('createdBy', 'firstName lastName email role');
 
     if (!product) {
@@ -178,9 +418,33 @@ export const getProduct = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    const variants = product.hasVariants
+      ? await ProductVariant.find({ productId: product._id, status: 'active' }).lean()
+      : [];
+
+    const category = product.categoryId as unknown as ICategory | null;
+    const breadcrumbs = category?.path ? await getCategoryBreadcrumbs(category) : [];
+
     res.status(200).json({
       success: true,
-      data: transformProduct(product)
+      data: {
+        ...transformProduct(product, currency, exchangeRate),
+        breadcrumbs,
+        variants: variants.map(variant => ({
+          id: variant._id,
+          sku: variant.sku,
+          name: getVariantName(variant.options),
+          options: variant.options,
+          price: getPriceInCurrency(product, currency, exchangeRate, variant.price),
+          oldPrice: variant.oldPrice !== undefined && variant.oldPrice !== null
+            ? convertFromBase(variant.oldPrice, exchangeRate)
+            : null,
+          images: variant.images.length > 0 ? variant.images : product.images,
+          stock: variant.quantity,
+          available: getAvailableQuantity(variant),
+          inStock: variant.inStock && getAvailableQuantity(variant) > 0
+        }))
+      }
     });
   } catch (error) {
     console.error('Get product error:', error);
@@ -202,7 +466,18 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const { name, price, description, categoryId, inStock, quantity, featured } = req.body;
+    const { name, price, prices, description, categoryId, inStock, quantity, featured, weight, taxClassId, options, attributes } = req.body;
+
+    if (options !== undefined) {
+      const optionsError = validateProductOptions(options);
+      if (optionsError) {
+        res.status(400).json({
+          success: false,
+          error: optionsError
+        });
+        return;
+      }
+    }
 
     // Check if category exists
     const category = await Category.findById(categoryId);
@@ -214,6 +489,24 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    if (taxClassId && (!mongoose.Types.ObjectId.isValid(taxClassId) || !(await TaxClass.exists({ _id: taxClassId })))) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax class not found'
+      });
+      return;
+    }
+
+    // Attribute values must match the attribute set of the category, inherited attributes included
+    const attributeResult = validateProductAttributes(await getCategoryAttributes(category), attributes || {});
+    if ('error' in attributeResult) {
+      res.status(400).json({
+        success: false,
+        error: attributeResult.error
+      });
+      return;
+    }
+
     // Generate slug and SKU
     const slug = req.body.slug || name.toLowerCase().replace(/\s+/g, '-');
     const sku = req.body.sku || `PRD-${Date.now()}`;
@@ -223,14 +516,23 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       slug,
       sku,
       price,
+      prices: prices || [],
       description: description?.trim(),
       categoryId,
       inStock,
       quantity,
       featured: featured || false,
-      createdBy: req.userId
+      weight: weight || 0,
+      taxClassId: taxClassId || undefined,
+      options: options || [],
+      attributes: attributeResult.attributes,
+      createdBy: req.userId,
+      apiKeyId: req.apiKey?.id
     });
 
+    await recordInitialStock({ productId: newProduct._id as mongoose.Types.ObjectId }, quantity, getRequestActor(req));
+    indexProduct(newProduct);
+
     // Create notification for new product
     await createNotification.product.created(name.trim(), newProduct._id.toString());
 
@@ -250,6 +552,8 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
 
 // Update product - VENDOR (own products) or ADMIN (all products)
 export const updateProduct = async (req: Request, res: Response): Promise<void> => {
+  let session: mongoose.ClientSession | undefined;
+
   try {
     if (!req.userId || !req.user) {
       res.status(401).json({
@@ -260,7 +564,7 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
     }
 
     const { id } = req.params;
-    const { name, price, description, categoryId, inStock, quantity } = req.body;
+    const { name, price, prices, description, categoryId, inStock, quantity, weight, taxClassId, options, attributes } = req.body;
 
     const product = await Product.findById(id);
     if (!product) {
@@ -293,14 +597,122 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       product.categoryId = categoryId as any;
     }
 
+    // null removes the product's own tax class so the category / default class applies
+    if (taxClassId !== undefined) {
+      if (taxClassId && (!mongoose.Types.ObjectId.isValid(taxClassId) || !(await TaxClass.exists({ _id: taxClassId })))) {
+        res.status(404).json({
+          success: false,
+          error: 'Tax class not found'
+        });
+        return;
+      }
+      product.taxClassId = taxClassId || undefined;
+    }
+
+    if (options !== undefined) {
+      const optionsError = validateProductOptions(options);
+      if (optionsError) {
+        res.status(400).json({
+          success: false,
+          error: optionsError
+        });
+        return;
+      }
+
+      // Existing variants must stay valid under the new option axes
+      const variants = await ProductVariant.find({ productId: product._id });
+      const invalidVariant = variants.find(variant => validateVariantOptions(options, variant.options) !== null);
+      if (invalidVariant) {
+        res.status(409).json({
+          success: false,
+          error: `Variant ${invalidVariant.sku} does not match the new options. Update or delete it first.`
+        });
+        return;
+      }
+
+      product.options = options;
+    }
+
+    // Attribute values are merged with the current ones (null removes one) and checked again when they or the
+    // category change. Values the new category does not define are dropped.
+    if (attributes !== undefined || categoryId) {
+      if (attributes !== undefined && (!attributes || typeof attributes !== 'object' || Array.isArray(attributes))) {
+        res.status(400).json({
+          success: false,
+          error: 'Attributes must be an object of attribute keys and values'
+        });
+        return;
+      }
+
+      const category = await Category.findById(product.categoryId).select('path attributes');
+      const definitions = category ? await getCategoryAttributes(category) : [];
+      const keys = new Set(definitions.map(definition => definition.key));
+      const values: Record<string, unknown> = {
+        ...Object.fromEntries(Object.entries(getAttributeMap(product.attributes)).filter(([key]) => keys.has(key))),
+        ...attributes
+      };
+
+      const attributeResult = validateProductAttributes(definitions, values);
+      if ('error' in attributeResult) {
+        res.status(400).json({
+          success: false,
+          error: attributeResult.error
+        });
+        return;
+      }
+      product.set('attributes', attributeResult.attributes);
+    }
+
+    // Stock of products with variants is the sum of their variants
+    if (product.hasVariants && (quantity !== undefined || inStock !== undefined)) {
+      res.status(400).json({
+        success: false,
+        error: 'Stock is managed per variant for this product'
+      });
+      return;
+    }
+
+    // Units held by unpaid orders cannot be counted away
+    if (quantity !== undefined && quantity < (product.reserved || 0)) {
+      res.status(409).json({
+        success: false,
+        error: `Quantity cannot be lower than the ${product.reserved} unit(s) reserved by pending orders`
+      });
+      return;
+    }
+
     // Update fields
     if (name) product.name = name.trim();
     if (price !== undefined) product.price = price;
+    if (prices !== undefined) product.set('prices', prices);
     if (description !== undefined) product.description = description.trim();
     if (inStock !== undefined) product.inStock = inStock;
-    if (quantity !== undefined) product.quantity = quantity;
+    if (weight !== undefined) product.weight = weight;
 
-    await product.save();
+    // Check the new values before the stock ledger is written
+    const validationError = product.validateSync();
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError.message
+      });
+      return;
+    }
+
+    // The ledger correction and the product are saved together
+    session = await mongoose.startSession();
+    session.startTransaction();
+
+    // Quantity changes are recorded in the stock ledger as count corrections
+    if (quantity !== undefined && quantity !== product.quantity) {
+      const stock = await setStockQuantity({ productId: product._id as mongoose.Types.ObjectId }, quantity, getRequestActor(req), session);
+      product.quantity = stock.quantity;
+      product.inStock = inStock !== undefined ? inStock : stock.inStock;
+    }
+
+    await product.save({ session });
+    await session.commitTransaction();
+    indexProduct(product);
 
     // Create notification for product update
     await createNotification.product.updated(product.name, product._id.toString());
@@ -311,11 +723,14 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       data: product
     });
   } catch (error) {
+    if (session?.inTransaction()) await session.abortTransaction();
     console.error('Update product error:', error);
     res.status(500).json({
       success: false,
       error: 'Failed to update product'
     });
+  } finally {
+    session?.endSession();
   }
 };
 
@@ -350,22 +765,17 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Remove product from all carts
-    await Cart.updateMany(
-      { 'items.productId': id },
-      { 
-        $pull: { items: { productId: id } } 
-      }
-    );
-
-    // Recalculate totals for affected carts
+    // Remove product from all carts and recalculate their totals
     const affectedCarts = await Cart.find({ 'items.productId': id });
     for (const cart of affectedCarts) {
-      cart.total = cart.items.reduce((sum, item) => sum + item.subtotal, 0);
+      cart.items = cart.items.filter(item => item.productId.toString() !== id) as any;
+      await recalculateCart(cart, cart.userId?.toString());
       await cart.save();
     }
 
+    await ProductVariant.deleteMany({ productId: id });
     await Product.findByIdAndDelete(id);
+    removeProductFromIndex(id);
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,560 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Order, OrderStatus, IOrder } from '../models/order';
+import { WalletTransactionSource } from '../models/walletTransaction';
+import {
+  ReturnRequest,
+  ReturnStatus,
+  ReturnItemCondition,
+  RefundMethod,
+  IReturnItem,
+  IReturnRequest,
+  CreateReturnDto,
+  ReviewReturnDto,
+  ReceiveReturnDto
+} from '../models/returnRequest';
+import { User } from '../models/user';
+import { hasAdminAccess } from '../middleware/accessControl';
+import emailService from '../services/emailService';
+import { roundCurrency } from '../services/couponService';
+import { recordReturn } from '../services/inventoryService';
+import { getRequestActor } from '../services/apiKeyService';
+import { getRefundablePayments, refundOrderPayments } from '../services/paymentService';
+import { convertToBase } from '../services/currencyService';
+import { creditWallet } from '../services/walletService';
+import {
+  RETURN_WINDOW_DAYS,
+  calculateReturnAmount,
+  generateRmaNumber,
+  getReturnableLines,
+  isWithinReturnWindow,
+  syncOrderReturnStatus
+} from '../services/returnService';
+
+const notifyReturnUpdate = async (returnRequest: IReturnRequest, note?: string): Promise<void> => {
+  try {
+    const user = await User.findById(returnRequest.userId);
+    if (user) {
+      await emailService.sendReturnStatusUpdate(user.email, user.firstName, returnRequest.rmaNumber, returnRequest.status, note);
+    }
+  } catch (emailError) {
+    console.error('Failed to send return update email:', emailError);
+  }
+};
+
+// CUSTOMER ENDPOINTS
+// Request a return for some items of a delivered order
+export const requestReturn = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { id } = req.params;
+    const { items, refundMethod, note }: CreateReturnDto = req.body;
+
+    const order = await Order.findOne({ _id: id, userId: req.userId }).session(session);
+    if (!order) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    if (order.status !== OrderStatus.DELIVERED && order.status !== OrderStatus.PARTIALLY_RETURNED) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: `Cannot return items of an order with status: ${order.status}. Only delivered orders can be returned.`
+      });
+      return;
+    }
+
+    if (!isWithinReturnWindow(order)) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: `Returns must be requested within ${RETURN_WINDOW_DAYS} days of delivery`
+      });
+      return;
+    }
+
+    const existing = await ReturnRequest.find({ orderId: order._id }).session(session);
+    const lines = getReturnableLines(order, existing);
+
+    const returnItems: IReturnItem[] = [];
+    for (const entry of items) {
+      const orderItem = order.items.find(item => item._id?.toString() === entry.orderItemId);
+      const line = lines.find(candidate => candidate.orderItemId === entry.orderItemId);
+
+      if (!orderItem || !line) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Order item ${entry.orderItemId} not found`
+        });
+        return;
+      }
+
+      if (entry.quantity > line.returnable) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Only ${line.returnable} of ${line.productName} can still be returned`
+        });
+        return;
+      }
+
+      // Count each line once so repeated entries cannot exceed the returnable quantity
+      line.returnable -= entry.quantity;
+
+      returnItems.push({
+        orderItemId: orderItem._id!,
+        productId: orderItem.productId,
+        variantId: orderItem.variantId,
+        productName: line.productName,
+        quantity: entry.quantity,
+        reason: entry.reason,
+        restocked: false,
+        amount: calculateReturnAmount(order, orderItem, entry.quantity)
+      });
+    }
+
+    const returnRequest = (await ReturnRequest.create(
+      [{
+        rmaNumber: generateRmaNumber(),
+        orderId: order._id,
+        userId: order.userId,
+        items: returnItems,
+        refundMethod: refundMethod || RefundMethod.ORIGINAL_PAYMENT,
+        customerNote: note?.trim()
+      }],
+      { session }
+    ))[0];
+
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Return requested successfully',
+      data: returnRequest
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Request return error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to request return'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Get the returns of an order with the quantities that can still be returned (owner or admin)
+export const getOrderReturns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const filter: any = { _id: id };
+    if (!hasAdminAccess(req)) {
+      filter.userId = req.userId;
+    }
+
+    const order = await Order.findOne(filter);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    const returns = await ReturnRequest.find({ orderId: id }).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: returns.length,
+      data: {
+        returns,
+        lines: getReturnableLines(order, returns),
+        returnWindowOpen: (order.status === OrderStatus.DELIVERED || order.status === OrderStatus.PARTIALLY_RETURNED)
+          && isWithinReturnWindow(order)
+      }
+    });
+  } catch (error) {
+    console.error('Get returns error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get returns'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS
+// Get all returns, optionally filtered by status
+export const getAllReturns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (typeof req.query.status === 'string') {
+      filter.status = req.query.status;
+    }
+
+    const [returns, totalReturns] = await Promise.all([
+      ReturnRequest.find(filter)
+        .populate('userId', 'firstName lastName email')
+        .populate('orderId', 'orderNumber total currency status')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      ReturnRequest.countDocuments(filter)
+    ]);
+    const totalPages = Math.ceil(totalReturns / limit);
+
+    res.status(200).json({
+      success: true,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalReturns,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      },
+      data: returns
+    });
+  } catch (error) {
+    console.error('Get all returns error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get returns'
+    });
+  }
+};
+
+// Get a return with its order
+export const getReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const returnRequest = await ReturnRequest.findById(req.params.id)
+      .populate('userId', 'firstName lastName email')
+      .populate('orderId');
+
+    if (!returnRequest) {
+      res.status(404).json({
+        success: false,
+        error: 'Return not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: returnRequest
+    });
+  } catch (error) {
+    console.error('Get return error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get return'
+    });
+  }
+};
+
+// Approve a requested return; the customer then sends the items back
+export const approveReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { note }: ReviewReturnDto = req.body || {};
+
+    const returnRequest = await ReturnRequest.findById(req.params.id);
+    if (!returnRequest) {
+      res.status(404).json({
+        success: false,
+        error: 'Return not found'
+      });
+      return;
+    }
+
+    if (returnRequest.status !== ReturnStatus.REQUESTED) {
+      res.status(409).json({
+        success: false,
+        error: `Cannot approve a return with status: ${returnRequest.status}`
+      });
+      return;
+    }
+
+    returnRequest.status = ReturnStatus.APPROVED;
+    returnRequest.approvedAt = new Date();
+    returnRequest.processedBy = new mongoose.Types.ObjectId(req.userId);
+    if (note !== undefined) returnRequest.adminNote = note.trim();
+    await returnRequest.save();
+
+    await notifyReturnUpdate(returnRequest, returnRequest.adminNote);
+
+    res.status(200).json({
+      success: true,
+      message: 'Return approved',
+      data: returnRequest
+    });
+  } catch (error) {
+    console.error('Approve return error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to approve return'
+    });
+  }
+};
+
+// Reject a return that was not received yet; its items become returnable again
+export const rejectReturn = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { note }: ReviewReturnDto = req.body || {};
+
+    const returnRequest = await ReturnRequest.findById(req.params.id);
+    if (!returnRequest) {
+      res.status(404).json({
+        success: false,
+        error: 'Return not found'
+      });
+      return;
+    }
+
+    if (returnRequest.status !== ReturnStatus.REQUESTED && returnRequest.status !== ReturnStatus.APPROVED) {
+      res.status(409).json({
+        success: false,
+        error: `Cannot reject a return with status: ${returnRequest.status}`
+      });
+      return;
+    }
+
+    returnRequest.status = ReturnStatus.REJECTED;
+    returnRequest.rejectedAt = new Date();
+    returnRequest.processedBy = new mongoose.Types.ObjectId(req.userId);
+    if (note !== undefined) returnRequest.adminNote = note.trim();
+    await returnRequest.save();
+
+    await notifyReturnUpdate(returnRequest, returnRequest.adminNote);
+
+    res.status(200).json({
+      success: true,
+      message: 'Return rejected',
+      data: returnRequest
+    });
+  } catch (error) {
+    console.error('Reject return error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject return'
+    });
+  }
+};
+
+// Check in the items of an approved return: restock resellable ones, update the order and refund
+export const receiveReturn = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  let returnRequest: IReturnRequest | null = null;
+  let order: IOrder | null = null;
+  let orderStatus: OrderStatus | null = null;
+  let refundAmount = 0;
+
+  try {
+    const { items, refundMethod, amount, note }: ReceiveReturnDto = req.body || {};
+
+    returnRequest = await ReturnRequest.findById(req.params.id).session(session);
+    if (!returnRequest) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Return not found'
+      });
+      return;
+    }
+
+    if (returnRequest.status !== ReturnStatus.APPROVED) {
+      await session.abortTransaction();
+      res.status(409).json({
+        success: false,
+        error: `Cannot receive a return with status: ${returnRequest.status}. Approve it first.`
+      });
+      return;
+    }
+
+    order = await Order.findById(returnRequest.orderId).session(session);
+    if (!order) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    for (const entry of items || []) {
+      if (!returnRequest.items.some(item => item.orderItemId.toString() === entry.orderItemId)) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Item ${entry.orderItemId} is not part of this return`
+        });
+        return;
+      }
+    }
+
+    const computed = roundCurrency(returnRequest.items.reduce((sum, item) => sum + item.amount, 0));
+    if (amount !== undefined && amount > computed) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: `Refund amount cannot exceed ${computed.toFixed(2)}`
+      });
+      return;
+    }
+
+    for (const item of returnRequest.items) {
+      const checked = items?.find(entry => entry.orderItemId === item.orderItemId.toString());
+      item.condition = checked?.condition || ReturnItemCondition.RESELLABLE;
+
+      if (item.condition === ReturnItemCondition.RESELLABLE) {
+        await recordReturn(
+          { productId: item.productId, variantId: item.variantId },
+          item.quantity,
+          order._id as mongoose.Types.ObjectId,
+          getRequestActor(req),
+          `Return ${returnRequest.rmaNumber}`,
+          session
+        );
+        item.restocked = true;
+      }
+    }
+
+    refundAmount = amount === undefined ? computed : roundCurrency(amount);
+    if (refundMethod) returnRequest.refundMethod = refundMethod;
+    returnRequest.status = ReturnStatus.RECEIVED;
+    returnRequest.receivedAt = new Date();
+    returnRequest.processedBy = new mongoose.Types.ObjectId(req.userId);
+    if (note !== undefined) returnRequest.adminNote = note.trim();
+
+    // Store credit is issued in the same transaction as the check-in
+    if (returnRequest.refundMethod === RefundMethod.STORE_CREDIT || refundAmount === 0) {
+      if (refundAmount > 0) {
+        await creditWallet(returnRequest.userId, convertToBase(refundAmount, order.exchangeRate ?? 1), {
+          source: WalletTransactionSource.RETURN,
+          reason: `Return ${returnRequest.rmaNumber}`,
+          orderId: order._id as mongoose.Types.ObjectId,
+          returnId: returnRequest._id as mongoose.Types.ObjectId,
+          createdBy: req.userId
+        }, session);
+      }
+      returnRequest.refund = {
+        method: returnRequest.refundMethod,
+        amount: refundAmount,
+        walletAmount: returnRequest.refundMethod === RefundMethod.STORE_CREDIT ? refundAmount : 0,
+        status: 'completed',
+        processedAt: new Date()
+      };
+    }
+    await returnRequest.save({ session });
+
+    orderStatus = await syncOrderReturnStatus(order, req.userId, session);
+    await order.save({ session });
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Receive return error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to receive return'
+    });
+    return;
+  } finally {
+    session.endSession();
+  }
+
+  // The items are checked in; the refund goes through the payment provider outside the transaction.
+  // What was paid with store credit goes back to the wallet.
+  returnRequest.$session(null);
+  if (!returnRequest.refund) {
+    let paymentAmount = 0;
+    let walletAmount = 0;
+    try {
+      const { payments, refundable } = await getRefundablePayments(order._id as mongoose.Types.ObjectId);
+      paymentAmount = Math.min(refundable, refundAmount);
+
+      const otherReturns = await ReturnRequest.find({
+        orderId: order._id,
+        _id: { $ne: returnRequest._id },
+        status: ReturnStatus.RECEIVED,
+        'refund.method': RefundMethod.ORIGINAL_PAYMENT
+      });
+      const walletReturned = otherReturns.reduce((sum, other) => sum + (other.refund?.walletAmount || 0), 0);
+      walletAmount = roundCurrency(Math.max(Math.min(refundAmount - paymentAmount, order.walletAmount - walletReturned), 0));
+
+      if (paymentAmount > 0) {
+        await refundOrderPayments(payments, paymentAmount, `Return ${returnRequest.rmaNumber}`, req.userId);
+      }
+      if (walletAmount > 0) {
+        await creditWallet(returnRequest.userId, convertToBase(walletAmount, order.exchangeRate ?? 1), {
+          source: WalletTransactionSource.RETURN,
+          reason: `Return ${returnRequest.rmaNumber}`,
+          orderId: order._id as mongoose.Types.ObjectId,
+          returnId: returnRequest._id as mongoose.Types.ObjectId,
+          createdBy: req.userId
+        });
+      }
+
+      const refunded = roundCurrency(paymentAmount + walletAmount);
+      returnRequest.refund = {
+        method: RefundMethod.ORIGINAL_PAYMENT,
+        amount: refunded,
+        walletAmount,
+        status: refunded < refundAmount ? 'failed' : 'completed',
+        failureReason: refunded < refundAmount
+          ? `Only ${refunded.toFixed(2)} of ${refundAmount.toFixed(2)} could be refunded to the order payments`
+          : undefined,
+        processedAt: new Date()
+      };
+    } catch (refundError) {
+      console.error('Return refund error:', refundError);
+      returnRequest.refund = {
+        method: RefundMethod.ORIGINAL_PAYMENT,
+        amount: 0,
+        walletAmount: 0,
+        status: 'failed',
+        failureReason: refundError instanceof Error ? refundError.message : 'Refund failed',
+        processedAt: new Date()
+      };
+    }
+  }
+
+  try {
+    await returnRequest.save();
+    await notifyReturnUpdate(returnRequest, returnRequest.adminNote);
+
+    if (orderStatus) {
+      const user = await User.findById(returnRequest.userId);
+      if (user) {
+        await emailService.sendOrderStatusUpdate(user.email, user.firstName, returnRequest.orderId.toString(), orderStatus);
+      }
+    }
+  } catch (error) {
+    console.error('Save return refund error:', error);
+  }
+
+  res.status(200).json({
+    success: true,
+    message: returnRequest.refund?.status === 'failed'
+      ? 'Return received, but the refund failed; refund the order manually'
+      : 'Return received and refunded',
+    data: {
+      return: returnRequest,
+      orderStatus
+    }
+  });
+};
@@ -0,0 +1,320 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Order, OrderStatus, IOrder } from '../models/order';
+import { Shipment, ShipmentStatus, CreateShipmentDto, UpdateShipmentDto, IShipmentItem } from '../models/shipment';
+import { User } from '../models/user';
+import { hasAdminAccess } from '../middleware/accessControl';
+import emailService from '../services/emailService';
+import { getFulfillmentSummary, syncOrderFulfillment } from '../services/shipmentService';
+import { getRequestActor } from '../services/apiKeyService';
+
+// Shipments only move forward: pending -> shipped -> delivered
+const SHIPMENT_STATUS_ORDER = [ShipmentStatus.PENDING, ShipmentStatus.SHIPPED, ShipmentStatus.DELIVERED];
+
+const notifyStatusChanges = async (order: IOrder, statuses: OrderStatus[]): Promise<void> => {
+  if (statuses.length === 0) return;
+
+  try {
+    const user = await User.findById(order.userId);
+    if (user) {
+      await emailService.sendOrderStatusUpdate(
+        user.email,
+        user.firstName,
+        order._id.toString(),
+        statuses[statuses.length - 1]
+      );
+    }
+  } catch (emailError) {
+    console.error('Failed to send status update email:', emailError);
+  }
+};
+
+// Get shipments of an order with a per-item fulfillment summary (owner or admin)
+export const getOrderShipments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const filter: any = { _id: id };
+    if (!hasAdminAccess(req)) {
+      filter.userId = req.userId;
+    }
+
+    const order = await Order.findOne(filter);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    const shipments = await Shipment.find({ orderId: id }).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: shipments.length,
+      data: {
+        shipments,
+        fulfillment: getFulfillmentSummary(order, shipments)
+      }
+    });
+  } catch (error) {
+    console.error('Get shipments error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get shipments'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS
+// Create a shipment (parcel) for some or all of the remaining items
+export const createShipment = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { id } = req.params;
+    const { carrier, trackingNumber, trackingUrl, items, status }: CreateShipmentDto = req.body;
+
+    const order = await Order.findById(id).session(session);
+    if (!order) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    if (order.status !== OrderStatus.CONFIRMED) {
+      await session.abortTransaction();
+      res.status(409).json({
+        success: false,
+        error: `Cannot create shipments for an order with status: ${order.status}`
+      });
+      return;
+    }
+
+    const existing = await Shipment.find({ orderId: id }).session(session);
+    const summary = getFulfillmentSummary(order, existing);
+    const requested = items || summary.lines
+      .filter(line => line.remaining > 0)
+      .map(line => ({ orderItemId: line.orderItemId, quantity: line.remaining }));
+
+    if (requested.length === 0) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: 'All items of this order are already in a shipment'
+      });
+      return;
+    }
+
+    const shipmentItems: IShipmentItem[] = [];
+    for (const entry of requested) {
+      const orderItem = order.items.find(item => item._id?.toString() === entry.orderItemId);
+      const line = summary.lines.find(candidate => candidate.orderItemId === entry.orderItemId);
+
+      if (!orderItem || !line) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Order item ${entry.orderItemId} not found`
+        });
+        return;
+      }
+
+      if (entry.quantity > line.remaining) {
+        await session.abortTransaction();
+        res.status(400).json({
+          success: false,
+          error: `Only ${line.remaining} of ${line.productName} left to ship`
+        });
+        return;
+      }
+
+      shipmentItems.push({
+        orderItemId: orderItem._id!,
+        productId: orderItem.productId,
+        variantId: orderItem.variantId,
+        productName: line.productName,
+        quantity: entry.quantity
+      });
+    }
+
+    const shipmentStatus = status || ShipmentStatus.PENDING;
+    const now = new Date();
+    const shipment = (await Shipment.create(
+      [{
+        orderId: order._id,
+        carrier: carrier.trim(),
+        trackingNumber: trackingNumber?.trim(),
+        trackingUrl: trackingUrl?.trim(),
+        items: shipmentItems,
+        status: shipmentStatus,
+        shippedAt: shipmentStatus !== ShipmentStatus.PENDING ? now : undefined,
+        deliveredAt: shipmentStatus === ShipmentStatus.DELIVERED ? now : undefined,
+        createdBy: req.userId,
+        apiKeyId: req.apiKey?.id
+      }],
+      { session }
+    ))[0];
+
+    const statusChanges = await syncOrderFulfillment(order, getRequestActor(req), session);
+    await order.save({ session });
+    await session.commitTransaction();
+
+    await notifyStatusChanges(order, statusChanges);
+
+    res.status(201).json({
+      success: true,
+      message: 'Shipment created successfully',
+      data: {
+        shipment,
+        orderStatus: order.status
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Create shipment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create shipment'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Update tracking details or move a shipment forward (shipped, delivered)
+export const updateShipment = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { id, shipmentId } = req.params;
+    const { carrier, trackingNumber, trackingUrl, status }: UpdateShipmentDto = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(shipmentId)) {
+      await session.abortTransaction();
+      res.status(400).json({
+        success: false,
+        error: 'Invalid shipment ID'
+      });
+      return;
+    }
+
+    const shipment = await Shipment.findOne({ _id: shipmentId, orderId: id }).session(session);
+    if (!shipment) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Shipment not found'
+      });
+      return;
+    }
+
+    const order = await Order.findById(id).session(session);
+    if (!order) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+      return;
+    }
+
+    if (status && status !== shipment.status) {
+      if (SHIPMENT_STATUS_ORDER.indexOf(status) < SHIPMENT_STATUS_ORDER.indexOf(shipment.status)) {
+        await session.abortTransaction();
+        res.status(409).json({
+          success: false,
+          error: `Cannot move shipment from ${shipment.status} back to ${status}`
+        });
+        return;
+      }
+
+      const now = new Date();
+      if (!shipment.shippedAt) shipment.shippedAt = now;
+      if (status === ShipmentStatus.DELIVERED) shipment.deliveredAt = now;
+      shipment.status = status;
+    }
+
+    if (carrier !== undefined) shipment.carrier = carrier.trim();
+    if (trackingNumber !== undefined) shipment.trackingNumber = trackingNumber.trim();
+    if (trackingUrl !== undefined) shipment.trackingUrl = trackingUrl.trim();
+
+    await shipment.save({ session });
+
+    const statusChanges = await syncOrderFulfillment(order, getRequestActor(req), session);
+    await order.save({ session });
+    await session.commitTransaction();
+
+    await notifyStatusChanges(order, statusChanges);
+
+    res.status(200).json({
+      success: true,
+      message: 'Shipment updated successfully',
+      data: {
+        shipment,
+        orderStatus: order.status
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Update shipment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update shipment'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Delete a shipment that has not been handed to the carrier yet
+export const deleteShipment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, shipmentId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(shipmentId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid shipment ID'
+      });
+      return;
+    }
+
+    const shipment = await Shipment.findOne({ _id: shipmentId, orderId: id });
+    if (!shipment) {
+      res.status(404).json({
+        success: false,
+        error: 'Shipment not found'
+      });
+      return;
+    }
+
+    if (shipment.status !== ShipmentStatus.PENDING) {
+      res.status(409).json({
+        success: false,
+        error: `Cannot delete a shipment with status: ${shipment.status}`
+      });
+      return;
+    }
+
+    await shipment.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Shipment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete shipment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete shipment'
+    });
+  }
+};
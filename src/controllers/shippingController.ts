@@ -0,0 +1,172 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import { ShippingZone, CreateShippingZoneDto, UpdateShippingZoneDto } from '../models/shippingZone';
+
+// Countries already served by another active zone
+const findOverlappingCountries = async (countries: string[], excludeZoneId?: string): Promise<string[]> => {
+  const codes = countries.map(country => country.trim().toUpperCase());
+  const filter: any = { isActive: true, countries: { $in: codes } };
+  if (excludeZoneId) {
+    filter._id = { $ne: excludeZoneId };
+  }
+
+  const zones = await ShippingZone.find(filter).select('countries');
+  const taken = new Set(zones.flatMap(zone => zone.countries));
+  return codes.filter(code => taken.has(code));
+};
+
+// ADMIN ENDPOINTS
+// Get all shipping zones
+export const getShippingZones = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zones = await ShippingZone.find().sort({ name: 1 }).lean();
+
+    res.status(200).json({
+      success: true,
+      count: zones.length,
+      data: zones
+    });
+  } catch (error) {
+    console.error('Get shipping zones error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get shipping zones'
+    });
+  }
+};
+
+// Get single shipping zone
+export const getShippingZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zone = await ShippingZone.findById(req.params.id);
+    if (!zone) {
+      res.status(404).json({
+        success: false,
+        error: 'Shipping zone not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: zone
+    });
+  } catch (error) {
+    console.error('Get shipping zone error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get shipping zone'
+    });
+  }
+};
+
+// Create shipping zone with its methods
+export const createShippingZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, countries, methods, isActive }: CreateShippingZoneDto = req.body;
+
+    if (isActive !== false) {
+      const overlapping = await findOverlappingCountries(countries);
+      if (overlapping.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: `Countries already covered by another zone: ${overlapping.join(', ')}`
+        });
+        return;
+      }
+    }
+
+    const zone = await ShippingZone.create({
+      name: name.trim(),
+      countries,
+      methods: methods || [],
+      isActive: isActive !== false,
+      createdBy: req.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Shipping zone created successfully',
+      data: zone
+    });
+  } catch (error) {
+    console.error('Create shipping zone error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create shipping zone'
+    });
+  }
+};
+
+// Update shipping zone; sending methods replaces the whole list (keep _id to preserve a method)
+export const updateShippingZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, countries, methods, isActive }: UpdateShippingZoneDto = req.body;
+
+    const zone = await ShippingZone.findById(id);
+    if (!zone) {
+      res.status(404).json({
+        success: false,
+        error: 'Shipping zone not found'
+      });
+      return;
+    }
+
+    const willBeActive = isActive !== undefined ? isActive : zone.isActive;
+    if (willBeActive) {
+      const overlapping = await findOverlappingCountries(countries || zone.countries, id);
+      if (overlapping.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: `Countries already covered by another zone: ${overlapping.join(', ')}`
+        });
+        return;
+      }
+    }
+
+    if (name !== undefined) zone.name = name.trim();
+    if (countries !== undefined) zone.countries = countries;
+    if (methods !== undefined) zone.set('methods', methods);
+    if (isActive !== undefined) zone.isActive = isActive;
+
+    await zone.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Shipping zone updated successfully',
+      data: zone
+    });
+  } catch (error) {
+    console.error('Update shipping zone error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update shipping zone'
+    });
+  }
+};
+
+// Delete shipping zone (orders keep their own snapshot of the method)
+export const deleteShippingZone = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const zone = await ShippingZone.findByIdAndDelete(req.params.id);
+    if (!zone) {
+      res.status(404).json({
+        success: false,
+        error: 'Shipping zone not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Shipping zone deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete shipping zone error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete shipping zone'
+    });
+  }
+};
@@ -0,0 +1,489 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose, { ClientSession } from 'mongoose';
+import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
+import { StockLocation, CreateStockLocationDto, UpdateStockLocationDto } from '../models/stockLocation';
+import {
+  StockMovement,
+  StockAdjustmentDto,
+  StockReceiptDto,
+  StockTransferDto
+} from '../models/stockMovement';
+import {
+  StockItem,
+  InsufficientStockError,
+  getStockLevels,
+  receiveStock,
+  adjustStock,
+  transferStock
+} from '../services/inventoryService';
+import { getRequestActor } from '../services/apiKeyService';
+import { normalizeAddress } from '../utils/addressUtils';
+
+// Resolve the stock-keeping item of a request; products with variants keep stock per variant
+const resolveStockItem = async (
+  productId: string,
+  variantId: string | undefined,
+  session: ClientSession
+): Promise<{ item?: StockItem; status?: number; error?: string }> => {
+  const product = await Product.findById(productId).select('hasVariants').session(session);
+  if (!product) {
+    return { status: 404, error: 'Product not found' };
+  }
+
+  if (!variantId) {
+    if (product.hasVariants) {
+      return { status: 400, error: 'Stock is managed per variant for this product; variantId is required' };
+    }
+    return { item: { productId: product._id as mongoose.Types.ObjectId } };
+  }
+
+  const variant = await ProductVariant.findOne({ _id: variantId, productId }).select('_id').session(session);
+  if (!variant) {
+    return { status: 404, error: 'Variant not found' };
+  }
+  return { item: { productId: product._id as mongoose.Types.ObjectId, variantId: variant._id } };
+};
+
+// Active locations by ID; null when any of them is missing or inactive
+const findActiveLocations = async (ids: string[], session: ClientSession) => {
+  const locations = await StockLocation.find({ _id: { $in: ids }, isActive: true }).session(session);
+  return locations.length === new Set(ids).size ? locations : null;
+};
+
+// ADMIN ENDPOINTS - LOCATIONS
+// Get stock locations with the total units each one holds
+export const getStockLocations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const locations = await StockLocation.find().sort({ isDefault: -1, name: 1 }).lean();
+    const totals = await StockMovement.aggregate([
+      { $group: { _id: '$locationId', units: { $sum: '$quantity' } } }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: locations.length,
+      data: locations.map(location => ({
+        ...location,
+        units: totals.find(total => total._id.toString() === location._id.toString())?.units || 0
+      }))
+    });
+  } catch (error) {
+    console.error('Get stock locations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get stock locations'
+    });
+  }
+};
+
+// Create stock location; marking it default unsets the previous default
+export const createStockLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, code, address, isDefault, isActive }: CreateStockLocationDto = req.body;
+
+    const existing = await StockLocation.findOne({ code: code.trim().toUpperCase() });
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: 'Stock location with this code already exists'
+      });
+      return;
+    }
+
+    if (isDefault) {
+      await StockLocation.updateMany({ isDefault: true }, { isDefault: false });
+    }
+
+    const location = await StockLocation.create({
+      name: name.trim(),
+      code: code.trim().toUpperCase(),
+      address: address ? normalizeAddress(address) : undefined,
+      isDefault: isDefault || false,
+      isActive: isActive !== false,
+      createdBy: req.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock location created successfully',
+      data: location
+    });
+  } catch (error) {
+    console.error('Create stock location error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create stock location'
+    });
+  }
+};
+
+// Update stock location
+export const updateStockLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, code, address, isDefault, isActive }: UpdateStockLocationDto = req.body;
+
+    const location = await StockLocation.findById(id);
+    if (!location) {
+      res.status(404).json({
+        success: false,
+        error: 'Stock location not found'
+      });
+      return;
+    }
+
+    if (code && code.trim().toUpperCase() !== location.code) {
+      const existing = await StockLocation.findOne({ code: code.trim().toUpperCase() });
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: 'Stock location with this code already exists'
+        });
+        return;
+      }
+      location.code = code.trim().toUpperCase();
+    }
+
+    // The default location receives edits and is drawn from first, so it must stay active
+    if ((isDefault ?? location.isDefault) && isActive === false) {
+      res.status(400).json({
+        success: false,
+        error: 'The default location cannot be deactivated'
+      });
+      return;
+    }
+
+    if (isDefault === true && !location.isDefault) {
+      await StockLocation.updateMany({ isDefault: true }, { isDefault: false });
+    }
+
+    if (name !== undefined) location.name = name.trim();
+    if (address !== undefined) location.address = address ? normalizeAddress(address) : undefined;
+    if (isDefault !== undefined) location.isDefault = isDefault;
+    if (isActive !== undefined) location.isActive = isActive;
+
+    await location.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Stock location updated successfully',
+      data: location
+    });
+  } catch (error) {
+    console.error('Update stock location error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update stock location'
+    });
+  }
+};
+
+// Delete stock location (refused once it has stock history; deactivate it instead)
+export const deleteStockLocation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const location = await StockLocation.findById(id);
+    if (!location) {
+      res.status(404).json({
+        success: false,
+        error: 'Stock location not found'
+      });
+      return;
+    }
+
+    if (location.isDefault) {
+      res.status(400).json({
+        success: false,
+        error: 'The default location cannot be deleted'
+      });
+      return;
+    }
+
+    const hasMovements = await StockMovement.exists({ locationId: id });
+    if (hasMovements) {
+      res.status(409).json({
+        success: false,
+        error: 'Stock location has stock movements; deactivate it instead'
+      });
+      return;
+    }
+
+    await location.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Stock location deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete stock location error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete stock location'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS - STOCK
+// Get stock per location of a product, or of each of its variants
+export const getProductStockLevels = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: productId } = req.params;
+
+    const product = await Product.findById(productId).select('name sku hasVariants quantity reserved');
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+      return;
+    }
+
+    const locations = await StockLocation.find().select('name code isDefault isActive').lean();
+    const withLocations = (levels: { locationId: string; quantity: number }[]) =>
+      levels.map(level => ({
+        ...level,
+        location: locations.find(location => location._id.toString() === level.locationId)
+      }));
+
+    const variants = product.hasVariants
+      ? await ProductVariant.find({ productId }).select('sku options quantity reserved').lean()
+      : [];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        productId: product._id,
+        name: product.name,
+        sku: product.sku,
+        quantity: product.quantity,
+        reserved: product.reserved,
+        locations: product.hasVariants ? [] : withLocations(await getStockLevels({ productId })),
+        variants: await Promise.all(variants.map(async variant => ({
+          variantId: variant._id,
+          sku: variant.sku,
+          options: variant.options,
+          quantity: variant.quantity,
+          reserved: variant.reserved,
+          locations: withLocations(await getStockLevels({ productId, variantId: variant._id }))
+        })))
+      }
+    });
+  } catch (error) {
+    console.error('Get stock levels error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get stock levels'
+    });
+  }
+};
+
+// Get the stock movement history of a product, newest first
+export const getProductStockMovements = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: productId } = req.params;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter: any = { productId };
+    if (typeof req.query.variantId === 'string' && mongoose.Types.ObjectId.isValid(req.query.variantId)) {
+      filter.variantId = req.query.variantId;
+    }
+    if (typeof req.query.locationId === 'string' && mongoose.Types.ObjectId.isValid(req.query.locationId)) {
+      filter.locationId = req.query.locationId;
+    }
+    if (typeof req.query.type === 'string') {
+      filter.type = req.query.type;
+    }
+
+    const [movements, totalMovements] = await Promise.all([
+      StockMovement.find(filter)
+        .populate('locationId', 'name code')
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1, _id: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      StockMovement.countDocuments(filter)
+    ]);
+    const totalPages = Math.ceil(totalMovements / limit);
+
+    res.status(200).json({
+      success: true,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalMovements,
+        limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      },
+      data: movements
+    });
+  } catch (error) {
+    console.error('Get stock movements error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get stock movements'
+    });
+  }
+};
+
+// Receive goods into a location
+export const createStockReceipt = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { productId, variantId, locationId, quantity, note }: StockReceiptDto = req.body;
+
+    const { item, status, error } = await resolveStockItem(productId, variantId, session);
+    if (!item) {
+      await session.abortTransaction();
+      res.status(status || 404).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    if (!(await findActiveLocations([locationId], session))) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Stock location not found or inactive'
+      });
+      return;
+    }
+
+    const movements = await receiveStock(item, locationId, quantity, getRequestActor(req), note?.trim(), session);
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock received successfully',
+      data: movements
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Create stock receipt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to receive stock'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Correct the stock of a location (damage, loss, count corrections...)
+export const createStockAdjustment = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { productId, variantId, locationId, quantity, reason, note }: StockAdjustmentDto = req.body;
+
+    const { item, status, error } = await resolveStockItem(productId, variantId, session);
+    if (!item) {
+      await session.abortTransaction();
+      res.status(status || 404).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    if (!(await findActiveLocations([locationId], session))) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Stock location not found or inactive'
+      });
+      return;
+    }
+
+    const movements = await adjustStock(item, locationId, quantity, reason, getRequestActor(req), note?.trim(), session);
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock adjusted successfully',
+      data: movements
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    console.error('Create stock adjustment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to adjust stock'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Move stock from one location to another
+export const createStockTransfer = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { productId, variantId, fromLocationId, toLocationId, quantity, note }: StockTransferDto = req.body;
+
+    const { item, status, error } = await resolveStockItem(productId, variantId, session);
+    if (!item) {
+      await session.abortTransaction();
+      res.status(status || 404).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    if (!(await findActiveLocations([fromLocationId, toLocationId], session))) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'Stock location not found or inactive'
+      });
+      return;
+    }
+
+    const movements = await transferStock(item, fromLocationId, toLocationId, quantity, getRequestActor(req), note?.trim(), session);
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock transferred successfully',
+      data: movements
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    console.error('Create stock transfer error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to transfer stock'
+    });
+  } finally {
+    session.endSession();
+  }
+};
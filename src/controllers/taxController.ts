@@ -0,0 +1,308 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { TaxClass, CreateTaxClassDto, UpdateTaxClassDto } from '../models/taxClass';
+import { TaxRate, CreateTaxRateDto, UpdateTaxRateDto } from '../models/taxRate';
+import { Product } from '../models/product';
+import { Category } from '../models/category';
+import { PRICES_INCLUDE_TAX } from '../services/taxService';
+
+// ADMIN ENDPOINTS - TAX CLASSES
+// Get all tax classes with their rates
+export const getTaxClasses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const taxClasses = await TaxClass.find().sort({ name: 1 }).lean();
+    const rates = await TaxRate.find().sort({ country: 1, region: 1 }).lean();
+
+    res.status(200).json({
+      success: true,
+      count: taxClasses.length,
+      pricesIncludeTax: PRICES_INCLUDE_TAX,
+      data: taxClasses.map(taxClass => ({
+        ...taxClass,
+        rates: rates.filter(rate => rate.taxClassId.toString() === taxClass._id.toString())
+      }))
+    });
+  } catch (error) {
+    console.error('Get tax classes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get tax classes'
+    });
+  }
+};
+
+// Create tax class; marking it default unsets the previous default
+export const createTaxClass = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, code, description, isDefault }: CreateTaxClassDto = req.body;
+
+    const existing = await TaxClass.findOne({ code: code.trim().toLowerCase() });
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: 'Tax class with this code already exists'
+      });
+      return;
+    }
+
+    if (isDefault) {
+      await TaxClass.updateMany({ isDefault: true }, { isDefault: false });
+    }
+
+    const taxClass = await TaxClass.create({
+      name: name.trim(),
+      code: code.trim().toLowerCase(),
+      description: description?.trim(),
+      isDefault: isDefault || false,
+      createdBy: req.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Tax class created successfully',
+      data: taxClass
+    });
+  } catch (error) {
+    console.error('Create tax class error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create tax class'
+    });
+  }
+};
+
+// Update tax class
+export const updateTaxClass = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, code, description, isDefault }: UpdateTaxClassDto = req.body;
+
+    const taxClass = await TaxClass.findById(id);
+    if (!taxClass) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax class not found'
+      });
+      return;
+    }
+
+    if (code && code.trim().toLowerCase() !== taxClass.code) {
+      const existing = await TaxClass.findOne({ code: code.trim().toLowerCase() });
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: 'Tax class with this code already exists'
+        });
+        return;
+      }
+      taxClass.code = code.trim().toLowerCase();
+    }
+
+    if (isDefault === true && !taxClass.isDefault) {
+      await TaxClass.updateMany({ isDefault: true }, { isDefault: false });
+    }
+
+    if (name !== undefined) taxClass.name = name.trim();
+    if (description !== undefined) taxClass.description = description.trim();
+    if (isDefault !== undefined) taxClass.isDefault = isDefault;
+
+    await taxClass.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Tax class updated successfully',
+      data: taxClass
+    });
+  } catch (error) {
+    console.error('Update tax class error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update tax class'
+    });
+  }
+};
+
+// Delete tax class and its rates (refused while products or categories use it)
+export const deleteTaxClass = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const taxClass = await TaxClass.findById(id);
+    if (!taxClass) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax class not found'
+      });
+      return;
+    }
+
+    const [productCount, categoryCount] = await Promise.all([
+      Product.countDocuments({ taxClassId: id }),
+      Category.countDocuments({ taxClassId: id })
+    ]);
+
+    if (productCount > 0 || categoryCount > 0) {
+      res.status(409).json({
+        success: false,
+        error: `Tax class is used by ${productCount} product(s) and ${categoryCount} categor(ies)`
+      });
+      return;
+    }
+
+    await TaxRate.deleteMany({ taxClassId: id });
+    await taxClass.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Tax class deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete tax class error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete tax class'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS - TAX RATES
+// Get tax rates, optionally filtered by country or tax class
+export const getTaxRates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const filter: any = {};
+    if (typeof req.query.country === 'string') {
+      filter.country = req.query.country.toUpperCase();
+    }
+    if (typeof req.query.taxClassId === 'string' && mongoose.Types.ObjectId.isValid(req.query.taxClassId)) {
+      filter.taxClassId = req.query.taxClassId;
+    }
+
+    const rates = await TaxRate.find(filter)
+      .populate('taxClassId', 'name code')
+      .sort({ country: 1, region: 1 })
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      count: rates.length,
+      data: rates
+    });
+  } catch (error) {
+    console.error('Get tax rates error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get tax rates'
+    });
+  }
+};
+
+// Create tax rate
+export const createTaxRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { taxClassId, name, country, region, rate, isActive }: CreateTaxRateDto = req.body;
+
+    const taxClass = await TaxClass.findById(taxClassId);
+    if (!taxClass) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax class not found'
+      });
+      return;
+    }
+
+    const existing = await TaxRate.findOne({
+      taxClassId,
+      country: country.trim().toUpperCase(),
+      region: region?.trim() ? region.trim().toUpperCase() : { $exists: false }
+    });
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: 'A rate for this tax class and location already exists'
+      });
+      return;
+    }
+
+    const taxRate = await TaxRate.create({
+      taxClassId,
+      name: name.trim(),
+      country,
+      region: region?.trim() || undefined,
+      rate,
+      isActive: isActive !== false
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Tax rate created successfully',
+      data: taxRate
+    });
+  } catch (error) {
+    console.error('Create tax rate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create tax rate'
+    });
+  }
+};
+
+// Update tax rate (the class and location of a rate are fixed; create a new rate instead)
+export const updateTaxRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, rate, isActive }: UpdateTaxRateDto = req.body;
+
+    const taxRate = await TaxRate.findById(id);
+    if (!taxRate) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax rate not found'
+      });
+      return;
+    }
+
+    if (name !== undefined) taxRate.name = name.trim();
+    if (rate !== undefined) taxRate.rate = rate;
+    if (isActive !== undefined) taxRate.isActive = isActive;
+
+    await taxRate.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Tax rate updated successfully',
+      data: taxRate
+    });
+  } catch (error) {
+    console.error('Update tax rate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update tax rate'
+    });
+  }
+};
+
+// Delete tax rate
+export const deleteTaxRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const taxRate = await TaxRate.findByIdAndDelete(req.params.id);
+    if (!taxRate) {
+      res.status(404).json({
+        success: false,
+        error: 'Tax rate not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Tax rate deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete tax rate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete tax rate'
+    });
+  }
+};
@@ -0,0 +1,358 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Product } from '../models/product';
+import { ProductVariant, CreateVariantDto, UpdateVariantDto } from '../models/productVariant';
+import { Cart } from '../models/cart';
+import { UserRole } from '../models/user';
+import { recalculateCart } from '../services/cartService';
+import { getOptionsKey, getVariantName, syncProductStock, validateVariantOptions } from '../utils/variantUtils';
+import { recordInitialStock, setStockQuantity } from '../services/inventoryService';
+import { getRequestActor } from '../services/apiKeyService';
+
+// Get all variants of a product - PUBLIC
+export const getProductVariants = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+      return;
+    }
+
+    const variants = await ProductVariant.find({ productId: id }).sort({ createdAt: 1 }).lean();
+
+    res.status(200).json({
+      success: true,
+      count: variants.length,
+      data: {
+        options: product.options,
+        variants: variants.map(variant => ({
+          ...variant,
+          name: getVariantName(variant.options),
+          effectivePrice: variant.price ?? product.price
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get variants error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get variants'
+    });
+  }
+};
+
+// Create variant - VENDOR (own products) or ADMIN (all products)
+export const createVariant = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.userId || !req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { sku, options, price, oldPrice, quantity, weight, images, status }: CreateVariantDto = req.body;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+      return;
+    }
+
+    if (req.user.role === UserRole.VENDOR && product.createdBy.toString() !== req.userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Access denied. You can only manage variants of your own products.'
+      });
+      return;
+    }
+
+    if (product.options.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Define product options (e.g. Size, Color) before adding variants'
+      });
+      return;
+    }
+
+    const optionsError = validateVariantOptions(product.options, options);
+    if (optionsError) {
+      res.status(400).json({
+        success: false,
+        error: optionsError
+      });
+      return;
+    }
+
+    const existingVariants = await ProductVariant.find({ productId: id });
+    const key = getOptionsKey(options);
+    if (existingVariants.some(variant => getOptionsKey(variant.options) === key)) {
+      res.status(409).json({
+        success: false,
+        error: 'A variant with these options already exists'
+      });
+      return;
+    }
+
+    const existingSku = await ProductVariant.findOne({ sku: sku.trim() });
+    if (existingSku) {
+      res.status(409).json({
+        success: false,
+        error: 'Variant SKU already in use'
+      });
+      return;
+    }
+
+    const variant = await ProductVariant.create({
+      productId: product._id,
+      sku: sku.trim(),
+      options: options.map(option => ({ name: option.name.trim(), value: String(option.value).trim() })),
+      price,
+      oldPrice,
+      quantity,
+      inStock: quantity > 0,
+      weight,
+      images: images || [],
+      status: status || 'active'
+    });
+
+    await recordInitialStock({ productId: product._id as mongoose.Types.ObjectId, variantId: variant._id }, quantity, getRequestActor(req));
+    await syncProductStock(product._id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Variant created successfully',
+      data: variant
+    });
+  } catch (error) {
+    console.error('Create variant error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create variant'
+    });
+  }
+};
+
+// Update variant - VENDOR (own products) or ADMIN (all products)
+export const updateVariant = async (req: Request, res: Response): Promise<void> => {
+  let session: mongoose.ClientSession | undefined;
+
+  try {
+    if (!req.userId || !req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id, variantId } = req.params;
+    const { sku, options, price, oldPrice, quantity, weight, images, status }: UpdateVariantDto = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(variantId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid variant ID'
+      });
+      return;
+    }
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+      return;
+    }
+
+    if (req.user.role === UserRole.VENDOR && product.createdBy.toString() !== req.userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Access denied. You can only manage variants of your own products.'
+      });
+      return;
+    }
+
+    const variant = await ProductVariant.findOne({ _id: variantId, productId: id });
+    if (!variant) {
+      res.status(404).json({
+        success: false,
+        error: 'Variant not found'
+      });
+      return;
+    }
+
+    if (options) {
+      const optionsError = validateVariantOptions(product.options, options);
+      if (optionsError) {
+        res.status(400).json({
+          success: false,
+          error: optionsError
+        });
+        return;
+      }
+
+      const key = getOptionsKey(options);
+      const duplicate = await ProductVariant.find({ productId: id, _id: { $ne: variantId } });
+      if (duplicate.some(other => getOptionsKey(other.options) === key)) {
+        res.status(409).json({
+          success: false,
+          error: 'A variant with these options already exists'
+        });
+        return;
+      }
+
+      variant.options = options.map(option => ({ name: option.name.trim(), value: String(option.value).trim() }));
+    }
+
+    if (sku && sku.trim() !== variant.sku) {
+      const existingSku = await ProductVariant.findOne({ sku: sku.trim() });
+      if (existingSku) {
+        res.status(409).json({
+          success: false,
+          error: 'Variant SKU already in use'
+        });
+        return;
+      }
+      variant.sku = sku.trim();
+    }
+
+    // Units held by unpaid orders cannot be counted away
+    if (quantity !== undefined && quantity < (variant.reserved || 0)) {
+      res.status(409).json({
+        success: false,
+        error: `Quantity cannot be lower than the ${variant.reserved} unit(s) reserved by pending orders`
+      });
+      return;
+    }
+
+    // null clears the override so the product price applies again
+    if (price !== undefined) variant.price = price === null ? undefined : price;
+    if (oldPrice !== undefined) variant.oldPrice = oldPrice === null ? undefined : oldPrice;
+    if (weight !== undefined) variant.weight = weight === null ? undefined : weight;
+    if (images !== undefined) variant.images = images;
+    if (status !== undefined) variant.status = status;
+
+    // Check the new values before the stock ledger is written
+    const validationError = variant.validateSync();
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError.message
+      });
+      return;
+    }
+
+    // The ledger correction and the variant are saved together
+    session = await mongoose.startSession();
+    session.startTransaction();
+
+    // Quantity changes are recorded in the stock ledger as count corrections
+    if (quantity !== undefined && quantity !== variant.quantity) {
+      const stock = await setStockQuantity({ productId: product._id as mongoose.Types.ObjectId, variantId: variant._id }, quantity, getRequestActor(req), session);
+      variant.quantity = stock.quantity;
+      variant.inStock = stock.inStock;
+    }
+
+    await variant.save({ session });
+    await syncProductStock(product._id, session);
+    await session.commitTransaction();
+
+    res.status(200).json({
+      success: true,
+      message: 'Variant updated successfully',
+      data: variant
+    });
+  } catch (error) {
+    if (session?.inTransaction()) await session.abortTransaction();
+    console.error('Update variant error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update variant'
+    });
+  } finally {
+    session?.endSession();
+  }
+};
+
+// Delete variant - VENDOR (own products) or ADMIN (all products)
+export const deleteVariant = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.userId || !req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id, variantId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(variantId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid variant ID'
+      });
+      return;
+    }
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+      return;
+    }
+
+    if (req.user.role === UserRole.VENDOR && product.createdBy.toString() !== req.userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Access denied. You can only manage variants of your own products.'
+      });
+      return;
+    }
+
+    const variant = await ProductVariant.findOneAndDelete({ _id: variantId, productId: id });
+    if (!variant) {
+      res.status(404).json({
+        success: false,
+        error: 'Variant not found'
+      });
+      return;
+    }
+
+    // Remove the variant from all carts and recalculate their totals
+    const affectedCarts = await Cart.find({ 'items.variantId': variantId });
+    for (const cart of affectedCarts) {
+      cart.items = cart.items.filter(item => item.variantId?.toString() !== variantId) as any;
+      await recalculateCart(cart, cart.userId?.toString());
+      await cart.save();
+    }
+
+    await syncProductStock(product._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Variant deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete variant error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete variant'
+    });
+  }
+};
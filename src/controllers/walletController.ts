@@ -0,0 +1,181 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { User } from '../models/user';
+import { WalletAdjustmentDto } from '../models/wallet';
+import { WalletTransaction, WalletTransactionSource } from '../models/walletTransaction';
+import { BASE_CURRENCY } from '../services/currencyService';
+import { creditWallet, debitWallet, getWalletBalance } from '../services/walletService';
+
+// Balance and one page of the ledger of a user
+const getWalletPage = async (userId: string, req: Request) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const skip = (page - 1) * limit;
+
+  const [balance, transactions, totalTransactions] = await Promise.all([
+    getWalletBalance(userId),
+    WalletTransaction.find({ userId })
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    WalletTransaction.countDocuments({ userId })
+  ]);
+  const totalPages = Math.ceil(totalTransactions / limit);
+
+  return {
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalTransactions,
+      limit,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1
+    },
+    data: {
+      balance,
+      currency: BASE_CURRENCY,
+      transactions
+    }
+  };
+};
+
+// CUSTOMER ENDPOINTS
+// Get own store credit balance and transactions
+export const getMyWallet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wallet = await getWalletPage(req.userId!, req);
+
+    res.status(200).json({
+      success: true,
+      ...wallet
+    });
+  } catch (error) {
+    console.error('Get wallet error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get wallet'
+    });
+  }
+};
+
+// ADMIN ENDPOINTS
+// Get the store credit balance and transactions of a user
+export const getUserWallet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.id).select('_id');
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const wallet = await getWalletPage(req.params.id, req);
+
+    res.status(200).json({
+      success: true,
+      ...wallet
+    });
+  } catch (error) {
+    console.error('Get user wallet error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get wallet'
+    });
+  }
+};
+
+// Issue store credit to a user (goodwill, compensation...)
+export const creditUserWallet = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { amount, reason }: WalletAdjustmentDto = req.body;
+
+    const user = await User.findById(req.params.id).select('_id').session(session);
+    if (!user) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const transaction = await creditWallet(user._id as mongoose.Types.ObjectId, amount, {
+      source: WalletTransactionSource.ADMIN,
+      reason,
+      createdBy: req.userId
+    }, session);
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Store credit issued',
+      data: transaction
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Credit wallet error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to credit wallet'
+    });
+  } finally {
+    session.endSession();
+  }
+};
+
+// Remove store credit from a user; the balance cannot go below zero
+export const debitUserWallet = async (req: Request, res: Response): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const { amount, reason }: WalletAdjustmentDto = req.body;
+
+    const user = await User.findById(req.params.id).select('_id').session(session);
+    if (!user) {
+      await session.abortTransaction();
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+
+    const transaction = await debitWallet(user._id as mongoose.Types.ObjectId, amount, {
+      source: WalletTransactionSource.ADMIN,
+      reason,
+      createdBy: req.userId
+    }, session);
+    if (!transaction) {
+      await session.abortTransaction();
+      res.status(409).json({
+        success: false,
+        error: `Insufficient balance. Available: ${(await getWalletBalance(req.params.id)).toFixed(2)} ${BASE_CURRENCY}`
+      });
+      return;
+    }
+    await session.commitTransaction();
+
+    res.status(201).json({
+      success: true,
+      message: 'Store credit removed',
+      data: transaction
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    console.error('Debit wallet error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to debit wallet'
+    });
+  } finally {
+    session.endSession();
+  }
+};
@@ -0,0 +1,520 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+  Wishlist,
+  IWishlist,
+  CreateWishlistDto,
+  UpdateWishlistDto,
+  AddToWishlistDto,
+  MoveToCartDto
+} from '../models/wishlist';
+import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
+import { getVariantName } from '../utils/variantUtils';
+import { addCartItem } from '../services/cartService';
+import { BASE_CURRENCY, convertFromBase, getExchangeRate, getPriceInCurrency, getRequestedCurrency } from '../services/currencyService';
+import { getAvailableQuantity } from '../services/reservationService';
+
+// Wishlist with every item enriched from the current product (price, old price, stock), in the requested currency
+const transformWishlist = async (wishlist: IWishlist, currency: string, exchangeRate: number, isOwner: boolean) => {
+  const productIds = wishlist.items.map(item => item.productId);
+  const variantIds = wishlist.items.flatMap(item => item.variantId ? [item.variantId] : []);
+
+  const [products, variants] = await Promise.all([
+    Product.find({ _id: { $in: productIds } })
+      .select('name slug price prices oldPrice images inStock quantity reserved status hasVariants')
+      .lean(),
+    variantIds.length > 0
+      ? ProductVariant.find({ _id: { $in: variantIds } }).lean()
+      : Promise.resolve([])
+  ]);
+  const productsById = new Map(products.map(product => [product._id.toString(), product]));
+  const variantsById = new Map(variants.map(variant => [variant._id.toString(), variant]));
+
+  const items = wishlist.items.map(item => {
+    const product = productsById.get(item.productId.toString());
+    const variant = item.variantId ? variantsById.get(item.variantId.toString()) : undefined;
+    const priceWhenAdded = convertFromBase(item.priceWhenAdded, exchangeRate);
+
+    // Deleted or unpublished products (and variants) stay in the list but can no longer be bought
+    const isAvailable = !!product && product.status === 'active' &&
+      (!item.variantId || (!!variant && variant.status === 'active'));
+    if (!isAvailable) {
+      return {
+        _id: item._id,
+        productId: item.productId,
+        variantId: item.variantId,
+        productName: item.productName,
+        variantName: item.variantName,
+        priceWhenAdded,
+        price: null,
+        oldPrice: null,
+        inStock: false,
+        available: false,
+        addedAt: item.addedAt
+      };
+    }
+
+    const price = getPriceInCurrency(product, currency, exchangeRate, variant?.price);
+    const oldPrice = variant?.oldPrice ?? product.oldPrice;
+    const stockItem = variant || product;
+
+    return {
+      _id: item._id,
+      productId: item.productId,
+      variantId: item.variantId,
+      productName: product.name,
+      variantName: variant ? getVariantName(variant.options) : item.variantName,
+      slug: product.slug,
+      image: variant?.images?.[0] || product.images?.[0] || null,
+      priceWhenAdded,
+      price,
+      priceChange: Math.round((price - priceWhenAdded) * 100) / 100,
+      oldPrice: oldPrice !== undefined && oldPrice !== null ? convertFromBase(oldPrice, exchangeRate) : null,
+      inStock: stockItem.inStock && getAvailableQuantity(stockItem) > 0,
+      available: true,
+      addedAt: item.addedAt
+    };
+  });
+
+  return {
+    _id: wishlist._id,
+    name: wishlist.name,
+    ...(isOwner && { shareToken: wishlist.shareToken || null }),
+    currency,
+    items,
+    itemCount: items.length,
+    createdAt: wishlist.createdAt,
+    updatedAt: wishlist.updatedAt
+  };
+};
+
+// Currency of a wishlist view (?currency= or X-Currency header); null when it is not sold
+const getViewCurrency = async (req: Request): Promise<{ currency: string; exchangeRate: number | null }> => {
+  const currency = getRequestedCurrency(req) || BASE_CURRENCY;
+  return { currency, exchangeRate: await getExchangeRate(currency) };
+};
+
+// Get own wishlists (PROTECTED)
+export const getWishlists = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wishlists = await Wishlist.find({ userId: req.userId }).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: wishlists.length,
+      data: wishlists.map(wishlist => ({
+        _id: wishlist._id,
+        name: wishlist.name,
+        itemCount: wishlist.items.length,
+        shareToken: wishlist.shareToken || null,
+        createdAt: wishlist.createdAt,
+        updatedAt: wishlist.updatedAt
+      }))
+    });
+  } catch (error) {
+    console.error('Get wishlists error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get wishlists'
+    });
+  }
+};
+
+// Create a named wishlist (PROTECTED)
+export const createWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name }: CreateWishlistDto = req.body;
+
+    const existing = await Wishlist.findOne({ userId: req.userId, name: name.trim() });
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: 'You already have a wishlist with this name'
+      });
+      return;
+    }
+
+    const wishlist = await Wishlist.create({
+      userId: req.userId,
+      name,
+      items: []
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Wishlist created',
+      data: wishlist
+    });
+  } catch (error) {
+    console.error('Create wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create wishlist'
+    });
+  }
+};
+
+// Get one of own wishlists with current prices and stock (PROTECTED)
+export const getWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currency, exchangeRate } = await getViewCurrency(req);
+    if (exchangeRate === null) {
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
+    }
+
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await transformWishlist(wishlist, currency, exchangeRate, true)
+    });
+  } catch (error) {
+    console.error('Get wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get wishlist'
+    });
+  }
+};
+
+// Rename a wishlist (PROTECTED)
+export const updateWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name }: UpdateWishlistDto = req.body;
+
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    const existing = await Wishlist.findOne({ userId: req.userId, name: name.trim(), _id: { $ne: wishlist._id } });
+    if (existing) {
+      res.status(409).json({
+        success: false,
+        error: 'You already have a wishlist with this name'
+      });
+      return;
+    }
+
+    wishlist.name = name;
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist updated',
+      data: wishlist
+    });
+  } catch (error) {
+    console.error('Update wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update wishlist'
+    });
+  }
+};
+
+// Delete a wishlist and its items (PROTECTED)
+export const deleteWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wishlist = await Wishlist.findOneAndDelete({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist deleted'
+    });
+  } catch (error) {
+    console.error('Delete wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete wishlist'
+    });
+  }
+};
+
+// Save a product to a wishlist (PROTECTED). Unlike the cart, stock is not checked or held.
+export const addWishlistItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { productId, variantId }: AddToWishlistDto = req.body;
+
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    const product = await Product.findOne({ _id: productId, status: 'active' });
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+      return;
+    }
+
+    // The variant is optional: a product can be saved before choosing a size or colour
+    const variant = variantId
+      ? await ProductVariant.findOne({ _id: variantId, productId, status: 'active' })
+      : null;
+    if (variantId && !variant) {
+      res.status(404).json({
+        success: false,
+        error: 'Variant not found'
+      });
+      return;
+    }
+
+    const alreadySaved = wishlist.items.some(
+      item => item.productId.toString() === product._id.toString() &&
+        (item.variantId?.toString() || null) === (variant ? variant._id.toString() : null)
+    );
+    if (alreadySaved) {
+      res.status(409).json({
+        success: false,
+        error: 'Item is already in this wishlist'
+      });
+      return;
+    }
+
+    wishlist.items.push({
+      productId: product._id,
+      variantId: variant ? variant._id : undefined,
+      variantName: variant ? getVariantName(variant.options) : undefined,
+      productName: product.name,
+      priceWhenAdded: variant?.price ?? product.price,
+      addedAt: new Date()
+    } as any);
+    await wishlist.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Item added to wishlist',
+      data: wishlist
+    });
+  } catch (error) {
+    console.error('Add to wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add item to wishlist'
+    });
+  }
+};
+
+// Remove an item from a wishlist (PROTECTED)
+export const removeWishlistItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { itemId } = req.params;
+
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    const itemIndex = wishlist.items.findIndex(item => item._id.toString() === itemId);
+    if (itemIndex === -1) {
+      res.status(404).json({
+        success: false,
+        error: 'Item not found in wishlist'
+      });
+      return;
+    }
+
+    wishlist.items.splice(itemIndex, 1);
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Item removed from wishlist',
+      data: wishlist
+    });
+  } catch (error) {
+    console.error('Remove from wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove item from wishlist'
+    });
+  }
+};
+
+// Add a wishlist item to the cart and remove it from the wishlist (PROTECTED).
+// Items saved without a variant need one to be chosen now.
+export const moveWishlistItemToCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { itemId } = req.params;
+    const { quantity = 1, variantId }: MoveToCartDto = req.body || {};
+
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    const itemIndex = wishlist.items.findIndex(i => i._id.toString() === itemId);
+    const item = wishlist.items[itemIndex];
+    if (!item) {
+      res.status(404).json({
+        success: false,
+        error: 'Item not found in wishlist'
+      });
+      return;
+    }
+
+    const { cart, couponRemoved, status, error } = await addCartItem({ userId: req.userId }, {
+      productId: item.productId.toString(),
+      variantId: item.variantId?.toString() || variantId,
+      quantity
+    });
+    if (error) {
+      res.status(status!).json({
+        success: false,
+        error
+      });
+      return;
+    }
+
+    wishlist.items.splice(itemIndex, 1);
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Item moved to cart',
+      ...(couponRemoved && { warning: couponRemoved }),
+      data: cart
+    });
+  } catch (error) {
+    console.error('Move wishlist item to cart error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to move item to cart'
+    });
+  }
+};
+
+// Create a public read-only link for a wishlist; sharing again keeps the same link (PROTECTED)
+export const shareWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    if (!wishlist.shareToken) {
+      wishlist.shareToken = crypto.randomBytes(24).toString('hex');
+      await wishlist.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist shared',
+      data: {
+        shareToken: wishlist.shareToken,
+        sharePath: `/api/wishlists/shared/${wishlist.shareToken}`
+      }
+    });
+  } catch (error) {
+    console.error('Share wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to share wishlist'
+    });
+  }
+};
+
+// Revoke the public link of a wishlist (PROTECTED)
+export const unshareWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const wishlist = await Wishlist.findOne({ _id: req.params.id, userId: req.userId });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    wishlist.shareToken = undefined;
+    await wishlist.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Wishlist is no longer shared'
+    });
+  } catch (error) {
+    console.error('Unshare wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unshare wishlist'
+    });
+  }
+};
+
+// Read-only view of a shared wishlist - PUBLIC
+export const getSharedWishlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currency, exchangeRate } = await getViewCurrency(req);
+    if (exchangeRate === null) {
+      res.status(400).json({
+        success: false,
+        error: `Currency ${currency} is not supported`
+      });
+      return;
+    }
+
+    const wishlist = await Wishlist.findOne({ shareToken: req.params.token });
+    if (!wishlist) {
+      res.status(404).json({
+        success: false,
+        error: 'Wishlist not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await transformWishlist(wishlist, currency, exchangeRate, false)
+    });
+  } catch (error) {
+    console.error('Get shared wishlist error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get wishlist'
+    });
+  }
+};
@@ -0,0 +1,18 @@
+import { Cart } from '../models/cart';
+
+// Databases created before guest carts have a unique index on every cart userId, which refuses a second cart
+// without one. Mongoose does not replace an index whose options changed, so it is swapped for the partial one here.
+const migrateCartUserIndex = async (): Promise<void> => {
+  const indexes = await Cart.collection.indexes();
+  const legacy = indexes.find(index => index.name === 'userId_1' && !index.partialFilterExpression);
+  if (!legacy) return;
+
+  await Cart.collection.dropIndex('userId_1');
+  await Cart.createIndexes();
+  console.log('Cart userId index replaced with a partial index for guest carts');
+};
+
+// Schema changes that existing databases need; each step does nothing once applied
+export const runMigrations = async (): Promise<void> => {
+  await migrateCartUserIndex();
+};
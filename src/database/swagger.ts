@@ -33,6 +33,19 @@ const options: swaggerJsdoc.Options = {
           scheme: 'bearer',
           bearerFormat: 'JWT',
           description: 'Enter your JWT token'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'Authorization',
+          description: 'Integration API key as "ApiKey <key>". Scopes: products:write (products and variants), ' +
+            'orders:read and orders:write (admin orders, shipments, returns), inventory:read and inventory:write (stock)'
+        },
+        cartToken: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Cart-Token',
+          description: 'Guest cart token returned by the cart endpoints (also sent as the cartToken cookie)'
         }
       },
       schemas: {
@@ -62,6 +75,17 @@ const options: swaggerJsdoc.Options = {
               enum: ['admin', 'vendor', 'customer'],
               description: 'User role'
             },
+            emailVerified: {
+              type: 'boolean'
+            },
+            pendingEmail: {
+              type: 'string',
+              format: 'email',
+              description: 'New email awaiting confirmation'
+            },
+            twoFactorEnabled: {
+              type: 'boolean'
+            },
             profileImage: {
              type:  'string',
               example: 'https://example.com/image.jpg',
@@ -115,6 +139,11 @@ const options: swaggerJsdoc.Options = {
             password: {
               type: 'string',
               example: 'SecurePass123'
+            },
+            device: {
+              type: 'string',
+              description: 'Device name shown in the session list; defaults to the user agent',
+              example: 'iPhone 15'
             }
           }
         },
@@ -135,13 +164,85 @@ const options: swaggerJsdoc.Options = {
                 },
                 token: {
                   type: 'string',
-                  description: 'JWT token'
+                  description: 'Short-lived JWT access token'
+                },
+                refreshToken: {
+                  type: 'string',
+                  description: 'Single-use refresh token'
+                },
+                sessionId: {
+                  type: 'string'
                 }
               }
             }
           }
         },
 
+        ApiKey: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string', example: 'ERP sync' },
+            prefix: { type: 'string', example: 'ak_1f2e3d4c' },
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: ['products:write', 'orders:read', 'orders:write', 'inventory:read', 'inventory:write'] }
+            },
+            createdBy: { type: 'string' },
+            expiresAt: { type: 'string', format: 'date-time' },
+            lastUsedAt: { type: 'string', format: 'date-time' },
+            lastUsedIp: { type: 'string' },
+            revokedAt: { type: 'string', format: 'date-time' },
+            active: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+
+        CreateApiKeyRequest: {
+          type: 'object',
+          required: ['name', 'scopes'],
+          properties: {
+            name: { type: 'string', example: 'ERP sync' },
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: ['products:write', 'orders:read', 'orders:write', 'inventory:read', 'inventory:write'] },
+              example: ['products:write', 'orders:read']
+            },
+            expiresAt: { type: 'string', format: 'date-time', description: 'Optional; the key never expires without it' }
+          }
+        },
+
+        AuthTokens: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'Short-lived JWT access token' },
+            refreshToken: { type: 'string', description: 'Single-use refresh token, replaces the one sent' },
+            sessionId: { type: 'string' }
+          }
+        },
+
+        RefreshTokenRequest: {
+          type: 'object',
+          required: ['refreshToken'],
+          properties: {
+            refreshToken: { type: 'string' }
+          }
+        },
+
+        Session: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            device: { type: 'string', example: 'iPhone 15' },
+            userAgent: { type: 'string' },
+            ipAddress: { type: 'string' },
+            startedAt: { type: 'string', format: 'date-time' },
+            lastUsedAt: { type: 'string', format: 'date-time' },
+            expiresAt: { type: 'string', format: 'date-time' },
+            current: { type: 'boolean', description: 'Session of the access token used for the request' }
+          }
+        },
+
         // CATEGORY SCHEMAS 
         Category: {
           type: 'object',
@@ -152,9 +253,52 @@ const options: swaggerJsdoc.Options = {
             name: {
               type: 'string'
             },
+            slug: {
+              type: 'string',
+              example: 'smartphones',
+              description: 'Canonical slug'
+            },
+            previousSlugs: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Old slugs that redirect to the canonical one'
+            },
             description: {
               type: 'string'
             },
+            metaTitle: {
+              type: 'string',
+              maxLength: 70
+            },
+            metaDescription: {
+              type: 'string',
+              maxLength: 160
+            },
+            seo: {
+              $ref: '#/components/schemas/CategorySeo'
+            },
+            banner: {
+              $ref: '#/components/schemas/CategoryImage'
+            },
+            thumbnail: {
+              $ref: '#/components/schemas/CategoryImage'
+            },
+            parentId: {
+              type: 'string',
+              nullable: true,
+              description: 'Parent category, null for a top-level category'
+            },
+            path: {
+              type: 'string',
+              description: 'Ancestor IDs from the root, e.g. ",rootId,parentId,"; "," at the top level'
+            },
+            depth: {
+              type: 'integer',
+              description: '0 for a top-level category'
+            },
+            sortOrder: {
+              type: 'integer'
+            },
             createdBy: {
               type: 'string',
               description: 'User ID who created the category'
@@ -178,14 +322,194 @@ const options: swaggerJsdoc.Options = {
               minLength: 2,
               example: 'Electronics'
             },
+            slug: {
+              type: 'string',
+              example: 'electronics',
+              description: 'Generated from the name when omitted'
+            },
             description: {
               type: 'string',
               example: 'Electronic devices and gadgets'
+            },
+            metaTitle: {
+              type: 'string',
+              maxLength: 70,
+              description: 'Defaults to the name'
+            },
+            metaDescription: {
+              type: 'string',
+              maxLength: 160,
+              description: 'Defaults to the description'
+            },
+            parentId: {
+              type: 'string',
+              nullable: true,
+              description: 'Omit or null for a top-level category'
+            },
+            sortOrder: {
+              type: 'integer',
+              default: 0,
+              description: 'Position among its siblings, lowest first'
+            },
+            taxClassId: {
+              type: 'string',
+              nullable: true,
+              description: 'Tax class for products of this category without their own'
+            }
+          }
+        },
+        CategoryAttribute: {
+          type: 'object',
+          required: ['key', 'name', 'type'],
+          properties: {
+            key: { type: 'string', example: 'ram', description: 'Lowercase letters, digits and underscores' },
+            name: { type: 'string', example: 'RAM' },
+            type: { type: 'string', enum: ['text', 'number', 'boolean', 'select', 'multiselect'] },
+            unit: { type: 'string', example: 'GB' },
+            allowedValues: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Required for select and multiselect attributes'
+            },
+            required: { type: 'boolean', default: false },
+            filterable: { type: 'boolean', default: false, description: 'Can be used in product attribute filters and facets' }
+          }
+        },
+        CategoryImage: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', description: 'Cloudinary URL' },
+            publicId: { type: 'string', description: 'Cloudinary public_id' }
+          }
+        },
+        CategorySeo: {
+          type: 'object',
+          description: 'SEO metadata with fallbacks applied (returned by the single-category endpoints)',
+          properties: {
+            metaTitle: { type: 'string' },
+            metaDescription: { type: 'string' },
+            canonicalSlug: { type: 'string' }
+          }
+        },
+        CategoryBreadcrumb: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            name: { type: 'string' },
+            slug: { type: 'string' }
+          }
+        },
+        CategoryTreeNode: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            name: { type: 'string' },
+            slug: { type: 'string' },
+            description: { type: 'string' },
+            thumbnail: { type: 'string', description: 'Thumbnail URL' },
+            sortOrder: { type: 'integer' },
+            depth: { type: 'integer' },
+            children: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/CategoryTreeNode' }
             }
           }
         },
 
         // PRODUCT SCHEMAS 
+        FacetBucket: {
+          type: 'object',
+          properties: {
+            value: { type: 'string', description: 'Value to pass back in the filter parameter' },
+            label: { type: 'string' },
+            count: { type: 'integer' },
+            selected: { type: 'boolean' }
+          }
+        },
+        ProductSuggestions: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            terms: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['iphone', 'iphone case']
+            },
+            products: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  slug: { type: 'string' },
+                  price: { type: 'number' },
+                  currency: { type: 'string' },
+                  image: { type: 'string', nullable: true },
+                  inStock: { type: 'boolean' }
+                }
+              }
+            }
+          }
+        },
+        ProductSearchFacets: {
+          type: 'object',
+          properties: {
+            categories: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/FacetBucket' },
+                  { type: 'object', properties: { slug: { type: 'string' } } }
+                ]
+              }
+            },
+            priceRanges: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/FacetBucket' },
+                  {
+                    type: 'object',
+                    properties: {
+                      min: { type: 'number' },
+                      max: { type: 'number', nullable: true }
+                    }
+                  }
+                ]
+              }
+            },
+            tags: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FacetBucket' }
+            },
+            ratings: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FacetBucket' }
+            },
+            availability: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FacetBucket' }
+            },
+            attributes: {
+              type: 'array',
+              description: 'Filterable attributes within the selected category (all categories when none or several are selected)',
+              items: {
+                type: 'object',
+                properties: {
+                  key: { type: 'string' },
+                  name: { type: 'string' },
+                  type: { type: 'string' },
+                  unit: { type: 'string' },
+                  buckets: {
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/FacetBucket' }
+                  }
+                }
+              }
+            }
+          }
+        },
         Product: {
           type: 'object',
           properties: {
@@ -197,7 +521,12 @@ const options: swaggerJsdoc.Options = {
             },
             price: {
               type: 'number',
-              minimum: 0
+              minimum: 0,
+              description: 'Price in the requested currency'
+            },
+            currency: {
+              type: 'string',
+              example: 'USD'
             },
             description: {
               type: 'string'
@@ -216,9 +545,28 @@ const options: swaggerJsdoc.Options = {
               type: 'number',
               minimum: 0
             },
+            available: {
+              type: 'number',
+              description: 'Quantity minus the units held by orders awaiting payment'
+            },
+            weight: {
+              type: 'number',
+              minimum: 0,
+              description: 'Shipping weight in kg'
+            },
+            attributes: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Values of the category attribute set, keyed by attribute key',
+              example: { ram: 8, color: 'Black', wifi: true }
+            },
             createdBy: {
               type: 'string'
             },
+            apiKeyId: {
+              type: 'string',
+              description: 'API key the product was created with, if any'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time'
@@ -258,6 +606,116 @@ const options: swaggerJsdoc.Options = {
               type: 'number',
               minimum: 0,
               example: 50
+            },
+            weight: {
+              type: 'number',
+              minimum: 0,
+              description: 'Shipping weight in kg',
+              example: 0.2
+            },
+            taxClassId: {
+              type: 'string',
+              nullable: true,
+              description: 'Overrides the category tax class'
+            },
+            prices: {
+              type: 'array',
+              description: 'Fixed prices in other currencies; currencies without one use the exchange rate',
+              items: {
+                $ref: '#/components/schemas/ProductPrice'
+              }
+            },
+            options: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ProductOption'
+              }
+            },
+            attributes: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Values for the attribute set of the category (see GET /api/categories/{id}/attributes)',
+              example: { ram: 8, screen_size: 6.1, color: 'Black' }
+            }
+          }
+        },
+        ProductPrice: {
+          type: 'object',
+          required: ['currency', 'amount'],
+          properties: {
+            currency: { type: 'string', example: 'EUR' },
+            amount: { type: 'number', minimum: 0, example: 19.99 }
+          }
+        },
+        ExchangeRateRequest: {
+          type: 'object',
+          required: ['rate'],
+          properties: {
+            rate: {
+              type: 'number',
+              description: 'Units of this currency per 1 unit of the base currency',
+              example: 0.92
+            },
+            isActive: { type: 'boolean' }
+          }
+        },
+        ProductOption: {
+          type: 'object',
+          required: ['name', 'values'],
+          properties: {
+            name: {
+              type: 'string',
+              example: 'Size'
+            },
+            values: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              example: ['S', 'M', 'L']
+            }
+          }
+        },
+        CreateVariantRequest: {
+          type: 'object',
+          required: ['sku', 'options', 'quantity'],
+          properties: {
+            sku: {
+              type: 'string',
+              example: 'TSHIRT-M-BLUE'
+            },
+            options: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: {
+                    type: 'string',
+                    example: 'Size'
+                  },
+                  value: {
+                    type: 'string',
+                    example: 'M'
+                  }
+                }
+              }
+            },
+            price: {
+              type: 'number',
+              minimum: 0,
+              description: 'Overrides the product price when set',
+              example: 24.99
+            },
+            quantity: {
+              type: 'number',
+              minimum: 0,
+              example: 20
+            },
+            images: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
             }
           }
         },
@@ -272,6 +730,13 @@ const options: swaggerJsdoc.Options = {
             productId: {
               type: 'string'
             },
+            variantId: {
+              type: 'string'
+            },
+            variantName: {
+              type: 'string',
+              example: 'M / Blue'
+            },
             productName: {
               type: 'string'
             },
@@ -297,7 +762,13 @@ const options: swaggerJsdoc.Options = {
               type: 'string'
             },
             userId: {
-              type: 'string'
+              type: 'string',
+              description: 'Unset on guest carts'
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Guest carts only: deleted after this date unless used again'
             },
             items: {
               type: 'array',
@@ -305,6 +776,44 @@ const options: swaggerJsdoc.Options = {
                 $ref: '#/components/schemas/CartItem'
               }
             },
+            subtotal: {
+              type: 'number'
+            },
+            coupon: {
+              type: 'object',
+              properties: {
+                couponId: {
+                  type: 'string'
+                },
+                code: {
+                  type: 'string'
+                }
+              }
+            },
+            discount: {
+              type: 'number'
+            },
+            taxLines: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/TaxLine'
+              }
+            },
+            taxTotal: {
+              type: 'number'
+            },
+            pricesIncludeTax: {
+              type: 'boolean',
+              description: 'When true the tax is contained in the prices; otherwise it is added to the total'
+            },
+            currency: {
+              type: 'string',
+              example: 'EUR'
+            },
+            exchangeRate: {
+              type: 'number',
+              description: 'Rate from the base currency the items are priced at'
+            },
             total: {
               type: 'number'
             },
@@ -318,6 +827,72 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
+        CreateCouponRequest: {
+          type: 'object',
+          required: ['code', 'type'],
+          properties: {
+            code: {
+              type: 'string',
+              example: 'SUMMER10'
+            },
+            description: {
+              type: 'string'
+            },
+            type: {
+              type: 'string',
+              enum: ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y']
+            },
+            value: {
+              type: 'number',
+              description: 'Percentage (0-100) or fixed amount',
+              example: 10
+            },
+            maxDiscount: {
+              type: 'number'
+            },
+            minSpend: {
+              type: 'number',
+              example: 50
+            },
+            productIds: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            categoryIds: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            buyQuantity: {
+              type: 'integer',
+              example: 2
+            },
+            getQuantity: {
+              type: 'integer',
+              example: 1
+            },
+            usageLimit: {
+              type: 'integer'
+            },
+            usageLimitPerUser: {
+              type: 'integer'
+            },
+            startsAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            isActive: {
+              type: 'boolean'
+            }
+          }
+        },
         AddToCartRequest: {
           type: 'object',
           required: ['productId', 'quantity'],
@@ -326,6 +901,11 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: '507f1f77bcf86cd799439011'
             },
+            variantId: {
+              type: 'string',
+              description: 'Required for products with variants',
+              example: '507f1f77bcf86cd799439012'
+            },
             quantity: {
               type: 'number',
               minimum: 1,
@@ -333,40 +913,353 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
-
-        // ORDER SCHEMAS 
-        OrderItem: {
+
+        // ORDER SCHEMAS 
+        OrderItem: {
+          type: 'object',
+          required: ['productId', 'productName', 'price', 'quantity', 'subtotal'],
+          properties: {
+            productId: {
+              type: 'string',
+              description: 'Product ID',
+              example: '507f1f77bcf86cd799439011'
+            },
+            variantId: {
+              type: 'string',
+              description: 'Variant ID (for products with variants)'
+            },
+            variantName: {
+              type: 'string',
+              example: 'M / Blue'
+            },
+            sku: {
+              type: 'string'
+            },
+            productName: {
+              type: 'string',
+              description: 'Product name at time of order',
+              example: 'Laptop Pro 15'
+            },
+            price: {
+              type: 'number',
+              minimum: 0,
+              description: 'Unit price at time of order',
+              example: 1299.99
+            },
+            quantity: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Quantity ordered',
+              example: 2
+            },
+            subtotal: {
+              type: 'number',
+              minimum: 0,
+              description: 'Price × quantity',
+              example: 2599.98
+            },
+            tax: {
+              type: 'number',
+              description: 'Tax charged on this line'
+            }
+          }
+        },
+        TaxLine: {
+          type: 'object',
+          properties: {
+            itemId: { type: 'string' },
+            productId: { type: 'string' },
+            taxClass: { type: 'string', example: 'standard' },
+            name: { type: 'string', example: 'VAT' },
+            rate: { type: 'number', description: 'Percentage', example: 20 },
+            taxableAmount: { type: 'number' },
+            tax: { type: 'number' }
+          }
+        },
+        TaxClassRequest: {
+          type: 'object',
+          required: ['name', 'code'],
+          properties: {
+            name: { type: 'string', example: 'Reduced rate' },
+            code: { type: 'string', example: 'reduced' },
+            description: { type: 'string' },
+            isDefault: {
+              type: 'boolean',
+              description: 'Applied to products without a tax class on the product or its category'
+            }
+          }
+        },
+        TaxRateRequest: {
+          type: 'object',
+          required: ['taxClassId', 'name', 'country', 'rate'],
+          properties: {
+            taxClassId: { type: 'string' },
+            name: { type: 'string', example: 'VAT' },
+            country: { type: 'string', example: 'FR' },
+            region: { type: 'string', description: 'Optional region or state code' },
+            rate: { type: 'number', minimum: 0, maximum: 100, example: 20 },
+            isActive: { type: 'boolean' }
+          }
+        },
+        ReturnItem: {
+          type: 'object',
+          properties: {
+            orderItemId: { type: 'string' },
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            productName: { type: 'string' },
+            quantity: { type: 'integer', example: 1 },
+            reason: {
+              type: 'string',
+              enum: ['damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other']
+            },
+            condition: {
+              type: 'string',
+              enum: ['resellable', 'damaged', 'missing'],
+              description: 'Set when the item is received; only resellable items are restocked'
+            },
+            restocked: { type: 'boolean' },
+            amount: { type: 'number', description: 'Refundable value of the returned units, in the order currency' }
+          }
+        },
+        ReturnRequest: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            rmaNumber: { type: 'string', example: 'RMA-MF3K2J9A-1A2B3C' },
+            orderId: { type: 'string' },
+            userId: { type: 'string' },
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ReturnItem' }
+            },
+            status: { type: 'string', enum: ['requested', 'approved', 'rejected', 'received'] },
+            refundMethod: { type: 'string', enum: ['original_payment', 'store_credit'] },
+            refund: {
+              type: 'object',
+              properties: {
+                method: { type: 'string', enum: ['original_payment', 'store_credit'] },
+                amount: { type: 'number' },
+                walletAmount: { type: 'number', description: 'Part of the amount credited to the wallet' },
+                status: { type: 'string', enum: ['completed', 'failed'] },
+                failureReason: { type: 'string' },
+                processedAt: { type: 'string', format: 'date-time' }
+              }
+            },
+            customerNote: { type: 'string' },
+            adminNote: { type: 'string' },
+            approvedAt: { type: 'string', format: 'date-time' },
+            rejectedAt: { type: 'string', format: 'date-time' },
+            receivedAt: { type: 'string', format: 'date-time' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CreateReturnRequest: {
+          type: 'object',
+          required: ['items'],
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['orderItemId', 'quantity', 'reason'],
+                properties: {
+                  orderItemId: { type: 'string' },
+                  quantity: { type: 'integer', minimum: 1, example: 1 },
+                  reason: {
+                    type: 'string',
+                    enum: ['damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other']
+                  }
+                }
+              }
+            },
+            refundMethod: { type: 'string', enum: ['original_payment', 'store_credit'], default: 'original_payment' },
+            note: { type: 'string', example: 'The screen arrived cracked' }
+          }
+        },
+        ReceiveReturnRequest: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              description: 'Condition of each item; items not listed are treated as resellable',
+              items: {
+                type: 'object',
+                required: ['orderItemId', 'condition'],
+                properties: {
+                  orderItemId: { type: 'string' },
+                  condition: { type: 'string', enum: ['resellable', 'damaged', 'missing'] }
+                }
+              }
+            },
+            refundMethod: { type: 'string', enum: ['original_payment', 'store_credit'] },
+            amount: { type: 'number', description: 'Refund less than the computed value, e.g. for damage' },
+            note: { type: 'string' }
+          }
+        },
+        AbandonedCartStats: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            currency: { type: 'string', example: 'USD' },
+            abandoned: { type: 'integer', description: 'Carts detected as abandoned in the period' },
+            open: { type: 'integer', description: 'Still receiving reminders' },
+            recovered: { type: 'integer', description: 'Ordered after being abandoned' },
+            lost: { type: 'integer' },
+            remindersSent: { type: 'integer' },
+            orders: { type: 'integer', description: 'Orders placed in the period' },
+            abandonedValue: { type: 'number' },
+            recoveredValue: { type: 'number', description: 'Total of the orders placed from abandoned carts' },
+            abandonmentRate: { type: 'number', example: 0.68 },
+            recoveryRate: { type: 'number', example: 0.12 }
+          }
+        },
+        WishlistItem: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            productName: { type: 'string' },
+            variantName: { type: 'string', example: 'Red / M' },
+            slug: { type: 'string' },
+            image: { type: 'string' },
+            priceWhenAdded: { type: 'number', description: 'Price when the item was saved', example: 59.99 },
+            price: { type: 'number', nullable: true, description: 'Current price; null if no longer available', example: 49.99 },
+            priceChange: { type: 'number', description: 'Current price minus the price when saved', example: -10 },
+            oldPrice: { type: 'number', nullable: true },
+            inStock: { type: 'boolean' },
+            available: { type: 'boolean', description: 'False when the product or variant was removed or unpublished' },
+            addedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        Wishlist: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            name: { type: 'string', example: 'Birthday ideas' },
+            shareToken: { type: 'string', nullable: true, description: 'Only shown to the owner' },
+            currency: { type: 'string', example: 'USD' },
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WishlistItem' }
+            },
+            itemCount: { type: 'integer' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        WishlistRequest: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', maxLength: 100, example: 'Birthday ideas' }
+          }
+        },
+        Wallet: {
+          type: 'object',
+          properties: {
+            balance: { type: 'number', example: 25.5 },
+            currency: { type: 'string', description: 'Store credit is kept in the base currency', example: 'USD' },
+            transactions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WalletTransaction' }
+            }
+          }
+        },
+        WalletTransaction: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            userId: { type: 'string' },
+            type: { type: 'string', enum: ['credit', 'debit'] },
+            source: { type: 'string', enum: ['admin', 'order', 'order_cancelled', 'return'] },
+            amount: { type: 'number', example: 10 },
+            balanceAfter: { type: 'number', example: 25.5 },
+            reason: { type: 'string' },
+            orderId: { type: 'string' },
+            returnId: { type: 'string' },
+            createdBy: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        WalletAdjustmentRequest: {
+          type: 'object',
+          required: ['amount', 'reason'],
+          properties: {
+            amount: { type: 'number', minimum: 0.01, description: 'Base currency', example: 10 },
+            reason: { type: 'string', example: 'Goodwill gesture for late delivery' }
+          }
+        },
+        StockLocationRequest: {
+          type: 'object',
+          required: ['name', 'code'],
+          properties: {
+            name: { type: 'string', example: 'East warehouse' },
+            code: { type: 'string', example: 'EAST' },
+            address: { $ref: '#/components/schemas/Address' },
+            isDefault: {
+              type: 'boolean',
+              description: 'Sales are taken from the default location first and product quantity edits apply there'
+            },
+            isActive: { type: 'boolean' }
+          }
+        },
+        StockMovement: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            productId: { type: 'string' },
+            variantId: { type: 'string' },
+            locationId: { type: 'string' },
+            type: { type: 'string', enum: ['receipt', 'sale', 'return', 'adjustment', 'transfer'] },
+            quantity: { type: 'integer', description: 'Signed change: positive adds stock, negative removes it', example: -2 },
+            reason: {
+              type: 'string',
+              enum: ['opening_balance', 'count_correction', 'damaged', 'lost', 'found', 'expired', 'other']
+            },
+            note: { type: 'string' },
+            orderId: { type: 'string' },
+            transferId: { type: 'string', description: 'Shared by both legs of a transfer' },
+            createdBy: { type: 'string' },
+            apiKeyId: { type: 'string', description: 'API key the movement was recorded with, if any' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        StockReceiptRequest: {
           type: 'object',
-          required: ['productId', 'productName', 'price', 'quantity', 'subtotal'],
+          required: ['productId', 'locationId', 'quantity'],
           properties: {
-            productId: {
-              type: 'string',
-              description: 'Product ID',
-              example: '507f1f77bcf86cd799439011'
-            },
-            productName: {
-              type: 'string',
-              description: 'Product name at time of order',
-              example: 'Laptop Pro 15'
-            },
-            price: {
-              type: 'number',
-              minimum: 0,
-              description: 'Unit price at time of order',
-              example: 1299.99
-            },
-            quantity: {
-              type: 'integer',
-              minimum: 1,
-              description: 'Quantity ordered',
-              example: 2
-            },
-            subtotal: {
-              type: 'number',
-              minimum: 0,
-              description: 'Price × quantity',
-              example: 2599.98
-            }
+            productId: { type: 'string' },
+            variantId: { type: 'string', description: 'Required for products with variants' },
+            locationId: { type: 'string' },
+            quantity: { type: 'integer', minimum: 1, example: 50 },
+            note: { type: 'string', example: 'PO-1042' }
+          }
+        },
+        StockAdjustmentRequest: {
+          type: 'object',
+          required: ['productId', 'locationId', 'quantity', 'reason'],
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string', description: 'Required for products with variants' },
+            locationId: { type: 'string' },
+            quantity: { type: 'integer', description: 'Non-zero signed change', example: -3 },
+            reason: { type: 'string', enum: ['count_correction', 'damaged', 'lost', 'found', 'expired', 'other'] },
+            note: { type: 'string' }
+          }
+        },
+        StockTransferRequest: {
+          type: 'object',
+          required: ['productId', 'fromLocationId', 'toLocationId', 'quantity'],
+          properties: {
+            productId: { type: 'string' },
+            variantId: { type: 'string', description: 'Required for products with variants' },
+            fromLocationId: { type: 'string' },
+            toLocationId: { type: 'string' },
+            quantity: { type: 'integer', minimum: 1, example: 10 },
+            note: { type: 'string' }
           }
         },
         Order: {
@@ -390,6 +1283,77 @@ const options: swaggerJsdoc.Options = {
                 $ref: '#/components/schemas/OrderItem'
               }
             },
+            subtotal: {
+              type: 'number',
+              description: 'Sum of item subtotals before discounts'
+            },
+            discounts: {
+              type: 'array',
+              description: 'Applied coupon discounts',
+              items: {
+                type: 'object',
+                properties: {
+                  couponId: { type: 'string' },
+                  code: { type: 'string' },
+                  type: { type: 'string' },
+                  amount: { type: 'number' },
+                  freeShipping: { type: 'boolean' }
+                }
+              }
+            },
+            discountTotal: {
+              type: 'number'
+            },
+            shippingMethod: {
+              type: 'object',
+              properties: {
+                zoneId: { type: 'string' },
+                methodId: { type: 'string' },
+                name: { type: 'string' },
+                carrier: { type: 'string' },
+                type: { type: 'string' }
+              }
+            },
+            shippingCost: {
+              type: 'number'
+            },
+            taxLines: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/TaxLine'
+              }
+            },
+            taxTotal: {
+              type: 'number'
+            },
+            pricesIncludeTax: {
+              type: 'boolean'
+            },
+            currency: {
+              type: 'string',
+              description: 'Currency of every amount on the order, locked at checkout'
+            },
+            exchangeRate: {
+              type: 'number',
+              description: 'Rate from the base currency locked at checkout'
+            },
+            baseTotal: {
+              type: 'number',
+              description: 'Total in the base currency'
+            },
+            walletAmount: {
+              type: 'number',
+              description: 'Part of the total paid with store credit; the rest is charged to the payment provider'
+            },
+            walletBaseAmount: {
+              type: 'number',
+              description: 'Store credit debited from the wallet, in the base currency'
+            },
+            reservationExpiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Stock is held until then; the order is cancelled if it is still unpaid'
+            },
             total: {
               type: 'number',
               minimum: 0,
@@ -398,14 +1362,32 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'],
-              description: 'Current order status',
+              enum: ['pending', 'confirmed', 'shipped', 'delivered', 'partially_returned', 'returned', 'cancelled'],
+              description: 'Current order status; the returned states follow received returns',
               example: 'pending'
             },
-            shippingAddress: {
+            statusHistory: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/OrderStatusChange'
+              }
+            },
+            paymentStatus: {
               type: 'string',
-              description: 'Delivery address',
-              example: '123 Main St, Apt 4B, New York, NY 10001'
+              enum: ['unpaid', 'authorized', 'paid', 'partially_refunded', 'refunded', 'failed'],
+              example: 'paid'
+            },
+            amountPaid: {
+              type: 'number'
+            },
+            amountRefunded: {
+              type: 'number'
+            },
+            shippingAddress: {
+              $ref: '#/components/schemas/Address'
+            },
+            billingAddress: {
+              $ref: '#/components/schemas/Address'
             },
             notes: {
               type: 'string',
@@ -458,19 +1440,242 @@ const options: swaggerJsdoc.Options = {
             }
           ]
         },
+        Address: {
+          type: 'object',
+          required: ['name', 'line1', 'city', 'postalCode', 'country'],
+          properties: {
+            name: {
+              type: 'string',
+              example: 'Jane Doe'
+            },
+            line1: {
+              type: 'string',
+              example: '123 Main St'
+            },
+            line2: {
+              type: 'string',
+              example: 'Apt 4B'
+            },
+            city: {
+              type: 'string',
+              example: 'New York'
+            },
+            region: {
+              type: 'string',
+              example: 'NY'
+            },
+            postalCode: {
+              type: 'string',
+              example: '10001'
+            },
+            country: {
+              type: 'string',
+              description: 'ISO 3166-1 alpha-2 country code',
+              example: 'US'
+            },
+            phone: {
+              type: 'string',
+              example: '+1 212 555 0100'
+            }
+          }
+        },
+        AddressBookEntry: {
+          allOf: [
+            { $ref: '#/components/schemas/Address' },
+            {
+              type: 'object',
+              properties: {
+                _id: {
+                  type: 'string'
+                },
+                label: {
+                  type: 'string',
+                  example: 'Home'
+                },
+                isDefaultShipping: {
+                  type: 'boolean'
+                },
+                isDefaultBilling: {
+                  type: 'boolean'
+                }
+              }
+            }
+          ]
+        },
+        ShippingMethod: {
+          type: 'object',
+          required: ['name', 'type'],
+          properties: {
+            _id: {
+              type: 'string'
+            },
+            name: {
+              type: 'string',
+              example: 'Standard'
+            },
+            carrier: {
+              type: 'string',
+              example: 'DHL'
+            },
+            type: {
+              type: 'string',
+              enum: ['flat_rate', 'weight_based', 'free_over_threshold']
+            },
+            rate: {
+              type: 'number',
+              description: 'Flat rate, or the rate below freeThreshold',
+              example: 5.99
+            },
+            weightRates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  minWeight: { type: 'number', example: 0 },
+                  maxWeight: { type: 'number', example: 2 },
+                  rate: { type: 'number', example: 4.5 }
+                }
+              }
+            },
+            freeThreshold: {
+              type: 'number',
+              example: 100
+            },
+            minDeliveryDays: {
+              type: 'integer',
+              example: 2
+            },
+            maxDeliveryDays: {
+              type: 'integer',
+              example: 5
+            },
+            isActive: {
+              type: 'boolean'
+            }
+          }
+        },
+        ShippingZoneRequest: {
+          type: 'object',
+          required: ['name', 'countries'],
+          properties: {
+            name: {
+              type: 'string',
+              example: 'North America'
+            },
+            countries: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              example: ['US', 'CA']
+            },
+            methods: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ShippingMethod'
+              }
+            },
+            isActive: {
+              type: 'boolean'
+            }
+          }
+        },
+        ShippingOption: {
+          type: 'object',
+          properties: {
+            zoneId: { type: 'string' },
+            zoneName: { type: 'string' },
+            methodId: { type: 'string' },
+            name: { type: 'string', example: 'Standard' },
+            carrier: { type: 'string' },
+            type: { type: 'string' },
+            cost: { type: 'number', example: 5.99 },
+            freeShipping: {
+              type: 'boolean',
+              description: 'Cost waived by a free-shipping coupon'
+            },
+            minDeliveryDays: { type: 'integer' },
+            maxDeliveryDays: { type: 'integer' }
+          }
+        },
+        CreateShipmentRequest: {
+          type: 'object',
+          required: ['carrier'],
+          properties: {
+            carrier: {
+              type: 'string',
+              example: 'UPS'
+            },
+            trackingNumber: {
+              type: 'string',
+              example: '1Z999AA10123456784'
+            },
+            trackingUrl: {
+              type: 'string'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'shipped', 'delivered'],
+              default: 'pending'
+            },
+            items: {
+              type: 'array',
+              description: 'Order items in this parcel; omit to ship everything not yet in a shipment',
+              items: {
+                type: 'object',
+                properties: {
+                  orderItemId: { type: 'string' },
+                  quantity: { type: 'integer', example: 1 }
+                }
+              }
+            }
+          }
+        },
         CreateOrderRequest: {
           type: 'object',
           properties: {
+            shippingAddressId: {
+              type: 'string',
+              description: 'Address book entry to ship to. Defaults to the default shipping address.'
+            },
             shippingAddress: {
+              $ref: '#/components/schemas/Address'
+            },
+            shippingMethodId: {
               type: 'string',
-              minLength: 10,
-              description: 'Shipping address (optional, minimum 10 characters if provided)',
-              example: '123 Main St, Apt 4B, New York, NY 10001'
+              description: 'Method from GET /api/cart/shipping-options; required once shipping zones are configured'
+            },
+            billingAddressId: {
+              type: 'string',
+              description: 'Address book entry to bill. Defaults to the default billing address, then the shipping address.'
+            },
+            billingAddress: {
+              $ref: '#/components/schemas/Address'
             },
             notes: {
               type: 'string',
               description: 'Additional delivery instructions (optional)',
               example: 'Please leave package at front door'
+            },
+            paymentProvider: {
+              type: 'string',
+              description: 'Payment provider to use (defaults to PAYMENT_PROVIDER); an unknown provider is rejected',
+              example: 'mock'
+            },
+            currency: {
+              type: 'string',
+              description: 'Currency to pay in (defaults to the cart currency); locked on the order with its exchange rate',
+              example: 'EUR'
+            },
+            useWallet: {
+              type: 'boolean',
+              description: 'Pay as much of the total as possible with store credit',
+              default: false
+            },
+            walletAmount: {
+              type: 'number',
+              description: 'Store credit to spend, in the order currency (implies useWallet). Fails if the balance is lower.',
+              example: 20
             }
           }
         },
@@ -483,6 +1688,44 @@ const options: swaggerJsdoc.Options = {
               enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'],
               description: 'New order status',
               example: 'confirmed'
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the status was changed (optional, kept in the order timeline)',
+              example: 'Payment verified manually'
+            }
+          }
+        },
+        OrderStatusChange: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              enum: ['pending', 'confirmed', 'shipped', 'delivered', 'partially_returned', 'returned', 'cancelled'],
+              description: 'Previous status (absent for the initial entry)'
+            },
+            to: {
+              type: 'string',
+              enum: ['pending', 'confirmed', 'shipped', 'delivered', 'partially_returned', 'returned', 'cancelled']
+            },
+            actor: {
+              type: 'string',
+              enum: ['customer', 'admin', 'system']
+            },
+            changedBy: {
+              type: 'string',
+              description: 'User who made the change (admins only)'
+            },
+            apiKeyId: {
+              type: 'string',
+              description: 'API key the change was made with, if any (admins only)'
+            },
+            reason: {
+              type: 'string'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
             }
           }
         },
@@ -914,6 +2157,10 @@ const options: swaggerJsdoc.Options = {
         name: 'Cart',
         description: 'Shopping cart operations'
       },
+      {
+        name: 'Wishlists',
+        description: 'Named wishlists and public share links'
+      },
       {
         name: 'Orders',
         description: 'Customer order management'
@@ -922,6 +2169,34 @@ const options: swaggerJsdoc.Options = {
         name: 'Admin - Orders',
         description: 'Admin order management endpoints'
       },
+      {
+        name: 'Admin - Coupons',
+        description: 'Coupon and promotion management'
+      },
+      {
+        name: 'Admin - Shipping',
+        description: 'Shipping zones, methods and rates'
+      },
+      {
+        name: 'Currencies',
+        description: 'Supported currencies and exchange rates'
+      },
+      {
+        name: 'Admin - Tax',
+        description: 'Tax classes and rates'
+      },
+      {
+        name: 'Admin - Returns',
+        description: 'Return merchandise authorizations (RMA)'
+      },
+      {
+        name: 'Admin - Inventory',
+        description: 'Stock locations, receipts, adjustments and transfers'
+      },
+      {
+        name: 'Payments',
+        description: 'Order payment endpoints'
+      },
       {
         name: 'File Upload',
         description: 'File upload and management endpoints'
@@ -0,0 +1,68 @@
+import { Cart } from '../models/cart';
+import { User } from '../models/user';
+import emailService from '../services/emailService';
+import {
+  closeLostAbandonedCarts,
+  findAbandonedCarts,
+  getOrOpenAbandonedCart,
+  isReminderDue,
+  snapshotAbandonedCart
+} from '../services/abandonedCartService';
+
+const INTERVAL_MS = 15 * 60 * 1000;
+
+// Send the next reminder for one idle cart if it is due. Returns whether an email was sent.
+const remindAbandonedCart = async (cartId: string): Promise<boolean> => {
+  const cart = await Cart.findById(cartId);
+  if (!cart || !cart.userId || cart.items.length === 0) {
+    return false;
+  }
+
+  const record = await getOrOpenAbandonedCart(cart);
+  if (!record || !isReminderDue(record)) {
+    return false;
+  }
+
+  const user = await User.findById(cart.userId).select('email firstName');
+  if (!user) {
+    return false;
+  }
+
+  snapshotAbandonedCart(record, cart);
+  await emailService.sendAbandonedCartReminder(
+    user.email,
+    user.firstName,
+    record.items,
+    record.total,
+    record.currency,
+    record.recoveryToken
+  );
+
+  record.remindersSent += 1;
+  record.lastReminderAt = new Date();
+  await record.save();
+  return true;
+};
+
+export const runAbandonedCartReminders = async (): Promise<number> => {
+  await closeLostAbandonedCarts();
+
+  const cartIds = await findAbandonedCarts();
+  let sent = 0;
+
+  for (const cartId of cartIds) {
+    try {
+      if (await remindAbandonedCart(cartId)) sent++;
+    } catch (error) {
+      console.error(`Failed to remind abandoned cart ${cartId}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+export const startAbandonedCartJob = (): NodeJS.Timeout => {
+  return setInterval(() => {
+    runAbandonedCartReminders().catch(error => console.error('Abandoned cart job error:', error));
+  }, INTERVAL_MS);
+};
@@ -0,0 +1,66 @@
+import mongoose from 'mongoose';
+import { Order, OrderStatus, OrderPaymentStatus } from '../models/order';
+import { ReservationStatus } from '../models/stockReservation';
+import { findExpiredReservationOrders, releaseOrderReservations } from '../services/reservationService';
+import { cancelOpenPayments, findLapsedFailedPaymentOrders } from '../services/paymentService';
+import { releaseCouponRedemption } from '../services/couponService';
+import { transitionOrderStatus } from '../services/orderStatusService';
+import { restoreOrderWallet } from '../services/walletService';
+
+const INTERVAL_MS = 60 * 1000;
+
+// Release the holds of one order and cancel it if it is still waiting for its payment
+const expireOrderReservations = async (orderId: string, reason: string): Promise<void> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    await releaseOrderReservations(orderId, ReservationStatus.EXPIRED, 'Payment not received in time', session);
+
+    const order = await Order.findById(orderId).session(session);
+    if (order && order.status === OrderStatus.PENDING && order.paymentStatus !== OrderPaymentStatus.PAID) {
+      await cancelOpenPayments(order._id, session);
+      await releaseCouponRedemption(order._id, session);
+      await restoreOrderWallet(order, reason, session);
+      transitionOrderStatus(order, OrderStatus.CANCELLED, {
+        actor: 'system',
+        reason
+      });
+      await order.save({ session });
+    }
+
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+export const runReservationExpiry = async (): Promise<number> => {
+  const expiredOrderIds = await findExpiredReservationOrders();
+  // Orders whose failed payment was not retried hold no stock, but still hold their coupon and store credit
+  const failedOrderIds = (await findLapsedFailedPaymentOrders()).filter(id => !expiredOrderIds.includes(id));
+
+  const expirations: [string, string][] = [
+    ...expiredOrderIds.map((orderId): [string, string] => [orderId, 'Stock reservation expired before payment']),
+    ...failedOrderIds.map((orderId): [string, string] => [orderId, 'Payment failed and was not retried in time'])
+  ];
+
+  for (const [orderId, reason] of expirations) {
+    try {
+      await expireOrderReservations(orderId, reason);
+    } catch (error) {
+      console.error(`Failed to expire reservations of order ${orderId}:`, error);
+    }
+  }
+
+  return expirations.length;
+};
+
+export const startReservationExpiryJob = (): NodeJS.Timeout => {
+  return setInterval(() => {
+    runReservationExpiry().catch(error => console.error('Reservation expiry job error:', error));
+  }, INTERVAL_MS);
+};
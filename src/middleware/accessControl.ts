@@ -1,6 +1,21 @@
 /// <reference path="../../express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
 import { UserRole } from '../models/user';
+import { ApiKeyScope } from '../models/apiKey';
+import { REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT } from '../services/emailVerificationService';
+import { isTwoFactorRequired } from '../services/twoFactorService';
+
+// A privileged account that has not enrolled in 2FA while the policy requires it. API key principals are
+// limited by their scopes instead.
+const isMissingRequiredTwoFactor = (req: Request): boolean => {
+  return !req.apiKey && !!req.user && isTwoFactorRequired(req.user) && !req.user.twoFactorEnabled;
+};
+
+// Whether the request may act as an admin, e.g. read other customers' orders in "owner or admin" handlers.
+// Applies the same 2FA rule as requireRole.
+export const hasAdminAccess = (req: Request): boolean => {
+  return req.user?.role === UserRole.ADMIN && !isMissingRequiredTwoFactor(req);
+};
 
 // Check if user has required role
 export const requireRole = (...allowedRoles: UserRole[]) => {
@@ -13,6 +28,12 @@ export const requireRole = (...allowedRoles: UserRole[]) => {
       return;
     }
 
+    // API keys are limited by their scopes (requireScope) rather than by a role
+    if (req.apiKey) {
+      next();
+      return;
+    }
+
     if (!allowedRoles.includes(req.user.role)) {
       res.status(403).json({
         success: false,
@@ -21,6 +42,15 @@ export const requireRole = (...allowedRoles: UserRole[]) => {
       return;
     }
 
+    // Privileged accounts without 2FA can still log in to enroll, but not use their privileged routes
+    if (isMissingRequiredTwoFactor(req)) {
+      res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication is required for your role. Enable it with /api/auth/2fa/setup.'
+      });
+      return;
+    }
+
     next();
   };
 };
@@ -43,12 +73,46 @@ export const requireAuth = (req: Request, res: Response, next: NextFunction): vo
   next();
 };
 
+// Block checkout until the account email is verified, when the policy is enabled
+export const requireVerifiedEmailForCheckout = (req: Request, res: Response, next: NextFunction): void => {
+  if (REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT && !req.user?.emailVerified) {
+    res.status(403).json({
+      success: false,
+      error: 'Please verify your email address before placing an order'
+    });
+    return;
+  }
+  next();
+};
+
+// Declare that a route accepts API keys holding one of the scopes. Routes without it refuse API keys (see
+// authenticate); requests with a JWT are not affected.
+export const requireScope = (...scopes: ApiKeyScope[]) => {
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
+    if (req.apiKey && !scopes.some(scope => req.apiKey!.scopes.includes(scope))) {
+      res.status(403).json({
+        success: false,
+        error: `API key is missing the required scope: ${scopes.join(' or ')}`
+      });
+      return;
+    }
+    next();
+  };
+  return Object.assign(middleware, { apiKeyScopes: scopes });
+};
+
+// Scopes declared with requireScope on the route being handled
+export const getRouteApiKeyScopes = (req: Request): ApiKeyScope[] => {
+  const layers: { handle: { apiKeyScopes?: ApiKeyScope[] } }[] = req.route?.stack || [];
+  return layers.flatMap(layer => layer.handle.apiKeyScopes || []);
+};
+
 // Check if user owns the resource or is admin
 export const checkOwnershipOrAdmin = (resourceCreatorId: string, req: Request): boolean => {
   if (!req.user) return false;
   
   // Admin can access anything
-  if (req.user.role === UserRole.ADMIN) return true;
+  if (hasAdminAccess(req)) return true;
   
   // Check ownership
   return req.user._id.toString() === resourceCreatorId;
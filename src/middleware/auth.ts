@@ -1,14 +1,58 @@
 /// <reference path="../../express.d.ts" />
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../utility/jwt';
+import { verifyCartToken, verifyToken } from '../utility/jwt';
 import { TokenBlacklist } from '../models/TokenBlackList';
 import { User } from '../models/user';
+import { getGuestCartToken } from '../services/cartService';
+import { isSessionActive } from '../services/sessionService';
+import { findActiveApiKey, getServicePrincipal } from '../services/apiKeyService';
+import { getRouteApiKeyScopes } from './accessControl';
+
+// Authenticate a server-to-server request ("Authorization: ApiKey <key>") as the service principal of the key
+const authenticateApiKey = async (req: Request, res: Response, next: NextFunction, key: string): Promise<void> => {
+  try {
+    if (getRouteApiKeyScopes(req).length === 0) {
+      res.status(403).json({
+        success: false,
+        error: 'API keys are not accepted on this endpoint'
+      });
+      return;
+    }
+
+    const apiKey = await findActiveApiKey(key, req.ip);
+    if (!apiKey) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid, expired or revoked API key'
+      });
+      return;
+    }
+
+    // Changes are recorded for the admin who issued the key, with the key itself in apiKeyId
+    req.user = getServicePrincipal(apiKey) as any;
+    req.userId = apiKey.createdBy.toString();
+    req.apiKey = { id: apiKey._id.toString(), name: apiKey.name, scopes: apiKey.scopes };
+
+    next();
+  } catch (error) {
+    console.error('API key authentication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to authenticate API key'
+    });
+  }
+};
 
 // Authenticate user
 export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     // Get token from Authorization header
     const authHeader = req.headers.authorization;
+
+    if (authHeader?.startsWith('ApiKey ')) {
+      await authenticateApiKey(req, res, next, authHeader.substring(7));
+      return;
+    }
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       res.status(401).json({
@@ -33,6 +77,15 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     // Verify token
     const decoded = verifyToken(token);
 
+    // Tokens of a revoked session (logout on another device, reuse detection) stop working at once
+    if (decoded.sessionId && !(await isSessionActive(decoded.sessionId))) {
+      res.status(401).json({
+        success: false,
+        error: 'Session has been revoked. Please login again.'
+      });
+      return;
+    }
+
     // Find user
     const user = await User.findById(decoded.userId);
     if (!user) {
@@ -46,6 +99,7 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
     // Attach user to request
     req.user = user as any;
     req.userId = user._id.toString();
+    req.sessionId = decoded.sessionId;
 
     next();
   } catch (error) {
@@ -68,10 +122,12 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
       if (!blacklistedToken) {
         const decoded = verifyToken(token);
         const user = await User.findById(decoded.userId);
+        const sessionActive = !decoded.sessionId || await isSessionActive(decoded.sessionId);
         
-        if (user) {
+        if (user && sessionActive) {
           req.user = user as any;
           req.userId = user._id.toString();
+          req.sessionId = decoded.sessionId;
         }
       }
     }
@@ -82,3 +138,23 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     next();
   }
 };
+
+// Authenticate user if a token is sent, otherwise continue as a guest identified by the cart token (if any).
+// Unlike optionalAuth, an invalid login token is rejected instead of silently switching to the guest cart.
+export const authenticateOrGuest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (req.headers.authorization) {
+    await authenticate(req, res, next);
+    return;
+  }
+
+  const cartToken = getGuestCartToken(req);
+  if (cartToken) {
+    try {
+      req.guestCartId = verifyCartToken(cartToken);
+    } catch (error) {
+      // Unknown or tampered token: the guest starts a new cart
+    }
+  }
+
+  next();
+};
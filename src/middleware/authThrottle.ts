@@ -0,0 +1,34 @@
+/// <reference path="../../express.d.ts" />
+import { Request, Response, NextFunction } from 'express';
+import { AuthThrottleScope } from '../models/authThrottle';
+import { getThrottleBlock } from '../services/authThrottleService';
+
+// Refuse the request while the client IP or the account in req.body.email has to wait after failed attempts
+export const checkAuthThrottle = (scope: AuthThrottleScope) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const email = typeof req.body?.email === 'string' ? req.body.email : undefined;
+      const block = await getThrottleBlock(scope, req, email);
+
+      if (block) {
+        res.set('Retry-After', String(block.retryAfter));
+        res.status(429).json({
+          success: false,
+          error: block.locked
+            ? `Too many failed attempts. Access is locked for ${Math.ceil(block.retryAfter / 60)} more minute(s).`
+            : `Too many failed attempts. Try again in ${block.retryAfter} second(s).`,
+          retryAfter: block.retryAfter
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Auth throttle error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check login attempts'
+      });
+    }
+  };
+};
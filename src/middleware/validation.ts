@@ -1,5 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
+import { validateAddressInput } from '../utils/addressUtils';
+import { isValidSlug } from '../utils/slugUtils';
+import { validateAttributeDefinitions } from '../utils/attributeUtils';
+import { StockAdjustmentReason } from '../models/stockMovement';
+import { ReturnReason, ReturnItemCondition, RefundMethod } from '../models/returnRequest';
+import { CategoryImageType } from '../models/category';
+import { ApiKeyScope } from '../models/apiKey';
+import {
+  Availability,
+  PRODUCT_SEARCH_SORTS,
+  ProductSearchSort,
+  RATING_BANDS,
+  getQueryList,
+  parsePriceRange
+} from '../services/productSearchService';
+import { getPaymentProvider } from '../services/payments';
 
 // Validate email format
 const isValidEmail = (email: string): boolean => {
@@ -79,6 +95,34 @@ export const validateLogin = (req: Request, res: Response, next: NextFunction):
   next();
 };
 
+// Slug, SEO metadata, parent and sort order shared by category create and update
+const validateCategoryOptionalFields = (body: any): string | null => {
+  const { slug, metaTitle, metaDescription, parentId, sortOrder } = body;
+
+  if (slug !== undefined && (typeof slug !== 'string' || !isValidSlug(slug))) {
+    return 'Slug may only contain lowercase letters, numbers and single hyphens';
+  }
+
+  if (metaTitle !== undefined && metaTitle !== null && (typeof metaTitle !== 'string' || metaTitle.trim().length > 70)) {
+    return 'Meta title must be a string of at most 70 characters';
+  }
+
+  if (metaDescription !== undefined && metaDescription !== null &&
+    (typeof metaDescription !== 'string' || metaDescription.trim().length > 160)) {
+    return 'Meta description must be a string of at most 160 characters';
+  }
+
+  if (parentId !== undefined && parentId !== null && (typeof parentId !== 'string' || !isValidObjectId(parentId))) {
+    return 'Invalid parent category ID';
+  }
+
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+    return 'Sort order must be an integer';
+  }
+
+  return null;
+};
+
 // Validate category
 export const validateCategory = (req: Request, res: Response, next: NextFunction): void => {
   const { name } = req.body;
@@ -99,12 +143,70 @@ export const validateCategory = (req: Request, res: Response, next: NextFunction
     return;
   }
 
+  const fieldError = validateCategoryOptionalFields(req.body);
+  if (fieldError) {
+    res.status(400).json({
+      success: false,
+      error: fieldError
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate category update (all fields optional)
+export const validateCategoryUpdate = (req: Request, res: Response, next: NextFunction): void => {
+  const { name } = req.body || {};
+
+  if (name !== undefined && (typeof name !== 'string' || name.trim().length < 2)) {
+    res.status(400).json({
+      success: false,
+      error: 'Category name must be at least 2 characters'
+    });
+    return;
+  }
+
+  const fieldError = validateCategoryOptionalFields(req.body || {});
+  if (fieldError) {
+    res.status(400).json({
+      success: false,
+      error: fieldError
+    });
+    return;
+  }
+
   next();
 };
 
+// Per-currency price overrides: [{ currency: 'EUR', amount: 19.99 }], one entry per currency
+const validatePriceOverrides = (prices: any): string | null => {
+  if (!Array.isArray(prices)) {
+    return 'Prices must be an array';
+  }
+
+  const seen = new Set<string>();
+  for (const price of prices) {
+    if (!price || typeof price.currency !== 'string' || !/^[A-Za-z]{3}$/.test(price.currency.trim())) {
+      return 'Each price needs a 3-letter currency code';
+    }
+    if (typeof price.amount !== 'number' || price.amount < 0) {
+      return `Invalid amount for ${price.currency}`;
+    }
+
+    const code = price.currency.trim().toUpperCase();
+    if (seen.has(code)) {
+      return `Duplicate price for ${code}`;
+    }
+    seen.add(code);
+  }
+
+  return null;
+};
+
 // Validate product
 export const validateProduct = (req: Request, res: Response, next: NextFunction): void => {
-  const { name, price, categoryId, inStock, quantity } = req.body;
+  const { name, price, prices, categoryId, inStock, quantity, weight } = req.body;
 
   if (!name || typeof name !== 'string' || name.trim().length === 0) {
     res.status(400).json({
@@ -146,12 +248,78 @@ export const validateProduct = (req: Request, res: Response, next: NextFunction)
     return;
   }
 
+  if (weight !== undefined && (typeof weight !== 'number' || weight < 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Weight must be a non-negative number (kg)'
+    });
+    return;
+  }
+
+  if (prices !== undefined) {
+    const pricesError = validatePriceOverrides(prices);
+    if (pricesError) {
+      res.status(400).json({
+        success: false,
+        error: pricesError
+      });
+      return;
+    }
+  }
+
+  next();
+};
+
+// Validate product variant
+export const validateVariant = (req: Request, res: Response, next: NextFunction): void => {
+  const { sku, options, price, quantity, weight } = req.body;
+
+  if (!sku || typeof sku !== 'string' || sku.trim().length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Variant SKU is required'
+    });
+    return;
+  }
+
+  if (!Array.isArray(options) || options.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Variant options are required'
+    });
+    return;
+  }
+
+  if (price !== undefined && (typeof price !== 'number' || price < 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Price must be a non-negative number'
+    });
+    return;
+  }
+
+  if (quantity === undefined || typeof quantity !== 'number' || quantity < 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Valid quantity is required'
+    });
+    return;
+  }
+
+  if (weight !== undefined && (typeof weight !== 'number' || weight < 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Weight must be a non-negative number (kg)'
+    });
+    return;
+  }
+
   next();
 };
 
 // Validate cart item
 export const validateCartItem = (req: Request, res: Response, next: NextFunction): void => {
-  const { productId, quantity } = req.body;
+  const { productId, variantId, quantity } = req.body;
 
   if (!productId || !isValidObjectId(productId)) {
     res.status(400).json({
@@ -161,6 +329,14 @@ export const validateCartItem = (req: Request, res: Response, next: NextFunction
     return;
   }
 
+  if (variantId !== undefined && !isValidObjectId(variantId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid variant ID'
+    });
+    return;
+  }
+
   if (quantity === undefined || typeof quantity !== 'number' || quantity < 1) {
     res.status(400).json({
       success: false,
@@ -258,29 +434,84 @@ export const validateResetPassword = (req: Request, res: Response, next: NextFun
 };
 
 export const validateCreateOrder = (req: Request, res: Response, next: NextFunction): void => {
-  const { shippingAddress } = req.body;
+  const {
+    shippingAddress,
+    shippingAddressId,
+    billingAddress,
+    billingAddressId,
+    useWallet,
+    walletAmount,
+    paymentProvider
+  } = req.body;
+
+  if (paymentProvider !== undefined && (typeof paymentProvider !== 'string' || !getPaymentProvider(paymentProvider))) {
+    res.status(400).json({
+      success: false,
+      error: 'Unknown payment provider'
+    });
+    return;
+  }
+
+  if (useWallet !== undefined && typeof useWallet !== 'boolean') {
+    res.status(400).json({
+      success: false,
+      error: 'useWallet must be a boolean'
+    });
+    return;
+  }
+
+  if (walletAmount !== undefined && (typeof walletAmount !== 'number' || walletAmount <= 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'walletAmount must be a positive number'
+    });
+    return;
+  }
+
+  for (const [field, id] of [['shippingAddressId', shippingAddressId], ['billingAddressId', billingAddressId]]) {
+    if (id !== undefined && !isValidObjectId(id)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid ${field}`
+      });
+      return;
+    }
+  }
 
-  if (shippingAddress && typeof shippingAddress !== 'string') {
+  if (shippingAddress !== undefined && shippingAddressId !== undefined) {
     res.status(400).json({
       success: false,
-      error: 'Shipping address must be a string'
+      error: 'Provide either shippingAddress or shippingAddressId, not both'
     });
     return;
   }
 
-  if (shippingAddress && shippingAddress.trim().length < 10) {
+  if (billingAddress !== undefined && billingAddressId !== undefined) {
     res.status(400).json({
       success: false,
-      error: 'Shipping address must be at least 10 characters'
+      error: 'Provide either billingAddress or billingAddressId, not both'
     });
     return;
   }
 
+  for (const address of [shippingAddress, billingAddress]) {
+    if (address === undefined) continue;
+
+    const addressError = validateAddressInput(address);
+    if (addressError) {
+      res.status(400).json({
+        success: false,
+        error: addressError
+      });
+      return;
+    }
+  }
+
   next();
 };
 
 export const validateOrderStatus = (req: Request, res: Response, next: NextFunction): void => {
-  const { status } = req.body;
+  const { status, reason } = req.body;
 
   if (!status) {
     res.status(400).json({
@@ -299,6 +530,14 @@ export const validateOrderStatus = (req: Request, res: Response, next: NextFunct
     return;
   }
 
+  if (reason !== undefined && typeof reason !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Reason must be a string'
+    });
+    return;
+  }
+
   next();
 };
 
@@ -352,4 +591,978 @@ export const validateReview = (req: Request, res: Response, next: NextFunction):
   }
 
   next();
-};
\ No newline at end of file
+};
+
+export const validateCoupon = (req: Request, res: Response, next: NextFunction): void => {
+  const { code, type, value, buyQuantity, getQuantity, productIds, categoryIds, startsAt, expiresAt } = req.body;
+  const validTypes = ['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y'];
+
+  if (!code || typeof code !== 'string' || code.trim().length < 3) {
+    res.status(400).json({
+      success: false,
+      error: 'Coupon code must be at least 3 characters'
+    });
+    return;
+  }
+
+  if (!type || !validTypes.includes(type)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid coupon type. Must be one of: ${validTypes.join(', ')}`
+    });
+    return;
+  }
+
+  if ((type === 'percentage' || type === 'fixed_amount') && (typeof value !== 'number' || value <= 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'A positive value is required for this coupon type'
+    });
+    return;
+  }
+
+  if (type === 'percentage' && value > 100) {
+    res.status(400).json({
+      success: false,
+      error: 'Percentage must be between 0 and 100'
+    });
+    return;
+  }
+
+  if (type === 'buy_x_get_y' && (!Number.isInteger(buyQuantity) || !Number.isInteger(getQuantity) || buyQuantity < 1 || getQuantity < 1)) {
+    res.status(400).json({
+      success: false,
+      error: 'buyQuantity and getQuantity must be positive integers'
+    });
+    return;
+  }
+
+  const scopeIds = [...(productIds || []), ...(categoryIds || [])];
+  if (scopeIds.some((id: string) => !isValidObjectId(id))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid product or category ID in coupon scope'
+    });
+    return;
+  }
+
+  if (startsAt && expiresAt && new Date(startsAt) >= new Date(expiresAt)) {
+    res.status(400).json({
+      success: false,
+      error: 'expiresAt must be after startsAt'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateApplyCoupon = (req: Request, res: Response, next: NextFunction): void => {
+  const { code } = req.body;
+
+  if (!code || typeof code !== 'string' || code.trim().length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Coupon code is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateRefund = (req: Request, res: Response, next: NextFunction): void => {
+  const { amount, reason } = req.body;
+
+  if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Refund amount must be a positive number'
+    });
+    return;
+  }
+
+  if (reason !== undefined && typeof reason !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Refund reason must be a string'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateAddress = (req: Request, res: Response, next: NextFunction): void => {
+  const { label, isDefaultShipping, isDefaultBilling, ...address } = req.body;
+  // Updates may send only some fields; the controller re-validates the merged address
+  const partial = req.method === 'PUT' || req.method === 'PATCH';
+
+  const addressError = validateAddressInput(address, partial);
+  if (addressError) {
+    res.status(400).json({
+      success: false,
+      error: addressError
+    });
+    return;
+  }
+
+  if (label !== undefined && label !== null && typeof label !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Label must be a string'
+    });
+    return;
+  }
+
+  if (
+    (isDefaultShipping !== undefined && typeof isDefaultShipping !== 'boolean') ||
+    (isDefaultBilling !== undefined && typeof isDefaultBilling !== 'boolean')
+  ) {
+    res.status(400).json({
+      success: false,
+      error: 'isDefaultShipping and isDefaultBilling must be booleans'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate one shipping method of a zone
+const validateShippingMethodInput = (method: any): string | null => {
+  const validTypes = ['flat_rate', 'weight_based', 'free_over_threshold'];
+
+  if (!method || typeof method !== 'object') {
+    return 'Each shipping method must be an object';
+  }
+
+  if (!method.name || typeof method.name !== 'string' || method.name.trim().length === 0) {
+    return 'Shipping method name is required';
+  }
+
+  if (!validTypes.includes(method.type)) {
+    return `Invalid shipping method type. Must be one of: ${validTypes.join(', ')}`;
+  }
+
+  if (method.rate !== undefined && (typeof method.rate !== 'number' || method.rate < 0)) {
+    return `Rate of ${method.name} must be a non-negative number`;
+  }
+
+  if (method.type === 'free_over_threshold' && (typeof method.freeThreshold !== 'number' || method.freeThreshold <= 0)) {
+    return `${method.name} needs a positive freeThreshold`;
+  }
+
+  if (method.type === 'weight_based') {
+    if (!Array.isArray(method.weightRates) || method.weightRates.length === 0) {
+      return `${method.name} needs at least one weight rate`;
+    }
+
+    for (const range of method.weightRates) {
+      if (
+        typeof range.minWeight !== 'number' || range.minWeight < 0 ||
+        typeof range.rate !== 'number' || range.rate < 0 ||
+        (range.maxWeight !== undefined && (typeof range.maxWeight !== 'number' || range.maxWeight < range.minWeight))
+      ) {
+        return `Invalid weight rate in ${method.name}`;
+      }
+    }
+  }
+
+  if (
+    method.minDeliveryDays !== undefined && method.maxDeliveryDays !== undefined &&
+    method.minDeliveryDays > method.maxDeliveryDays
+  ) {
+    return `minDeliveryDays of ${method.name} cannot exceed maxDeliveryDays`;
+  }
+
+  return null;
+};
+
+export const validateShippingZone = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, countries, methods } = req.body;
+  const partial = req.method === 'PUT';
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Zone name is required'
+    });
+    return;
+  }
+
+  if (!partial || countries !== undefined) {
+    if (
+      !Array.isArray(countries) || countries.length === 0 ||
+      !countries.every((country: any) => typeof country === 'string' && /^([A-Za-z]{2}|\*)$/.test(country.trim()))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'Countries must be a non-empty list of 2-letter ISO codes, or "*" for all other countries'
+      });
+      return;
+    }
+  }
+
+  if (methods !== undefined) {
+    if (!Array.isArray(methods)) {
+      res.status(400).json({
+        success: false,
+        error: 'Methods must be an array'
+      });
+      return;
+    }
+
+    for (const method of methods) {
+      const methodError = validateShippingMethodInput(method);
+      if (methodError) {
+        res.status(400).json({
+          success: false,
+          error: methodError
+        });
+        return;
+      }
+    }
+  }
+
+  next();
+};
+
+export const validateShipment = (req: Request, res: Response, next: NextFunction): void => {
+  const { carrier, items, status } = req.body;
+  const partial = req.method === 'PATCH';
+  const validStatuses = ['pending', 'shipped', 'delivered'];
+
+  if ((!partial || carrier !== undefined) && (typeof carrier !== 'string' || carrier.trim().length === 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Carrier is required'
+    });
+    return;
+  }
+
+  if (status !== undefined && !validStatuses.includes(status)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid shipment status. Must be one of: ${validStatuses.join(', ')}`
+    });
+    return;
+  }
+
+  if (!partial && items !== undefined) {
+    if (
+      !Array.isArray(items) || items.length === 0 ||
+      !items.every((item: any) =>
+        item && isValidObjectId(item.orderItemId) && Number.isInteger(item.quantity) && item.quantity > 0
+      )
+    ) {
+      res.status(400).json({
+        success: false,
+        error: 'Items must be a list of { orderItemId, quantity } with positive quantities'
+      });
+      return;
+    }
+  }
+
+  next();
+};
+
+export const validateTaxClass = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, code, isDefault } = req.body;
+  const partial = req.method === 'PUT';
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Tax class name is required'
+    });
+    return;
+  }
+
+  if ((!partial || code !== undefined) && (typeof code !== 'string' || !/^[a-z0-9_-]{2,30}$/i.test(code.trim()))) {
+    res.status(400).json({
+      success: false,
+      error: 'Tax class code must be 2-30 letters, digits, dashes or underscores'
+    });
+    return;
+  }
+
+  if (isDefault !== undefined && typeof isDefault !== 'boolean') {
+    res.status(400).json({
+      success: false,
+      error: 'isDefault must be a boolean'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateTaxRate = (req: Request, res: Response, next: NextFunction): void => {
+  const { taxClassId, name, country, region, rate } = req.body;
+  const partial = req.method === 'PUT';
+
+  if (!partial) {
+    if (!taxClassId || !isValidObjectId(taxClassId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Valid tax class ID is required'
+      });
+      return;
+    }
+
+    if (typeof country !== 'string' || !/^[A-Za-z]{2}$/.test(country.trim())) {
+      res.status(400).json({
+        success: false,
+        error: 'Country must be a 2-letter ISO code'
+      });
+      return;
+    }
+
+    if (region !== undefined && typeof region !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Region must be a string'
+      });
+      return;
+    }
+  }
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Tax rate name is required'
+    });
+    return;
+  }
+
+  if ((!partial || rate !== undefined) && (typeof rate !== 'number' || rate < 0 || rate > 100)) {
+    res.status(400).json({
+      success: false,
+      error: 'Rate must be a percentage between 0 and 100'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateExchangeRate = (req: Request, res: Response, next: NextFunction): void => {
+  const { currency } = req.params;
+  const { rate, isActive } = req.body;
+
+  if (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency)) {
+    res.status(400).json({
+      success: false,
+      error: 'Currency must be a 3-letter ISO code'
+    });
+    return;
+  }
+
+  if (typeof rate !== 'number' || rate <= 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Rate must be a positive number'
+    });
+    return;
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    res.status(400).json({
+      success: false,
+      error: 'isActive must be a boolean'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateStockLocation = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, code, address, isDefault, isActive } = req.body;
+  const partial = req.method === 'PUT';
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Location name is required'
+    });
+    return;
+  }
+
+  if ((!partial || code !== undefined) && (typeof code !== 'string' || !/^[a-z0-9_-]{2,20}$/i.test(code.trim()))) {
+    res.status(400).json({
+      success: false,
+      error: 'Location code must be 2-20 letters, digits, dashes or underscores'
+    });
+    return;
+  }
+
+  if (address !== undefined && address !== null) {
+    const addressError = validateAddressInput(address);
+    if (addressError) {
+      res.status(400).json({
+        success: false,
+        error: addressError
+      });
+      return;
+    }
+  }
+
+  for (const [field, value] of Object.entries({ isDefault, isActive })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: `${field} must be a boolean`
+      });
+      return;
+    }
+  }
+
+  next();
+};
+
+// Shared checks of receipts, adjustments and transfers: the item and an integer quantity
+const validateStockItemInput = (body: any, allowNegative: boolean): string | null => {
+  const { productId, variantId, quantity, note } = body;
+
+  if (!productId || !isValidObjectId(productId)) {
+    return 'Valid product ID is required';
+  }
+
+  if (variantId !== undefined && variantId !== null && !isValidObjectId(variantId)) {
+    return 'Invalid variant ID';
+  }
+
+  if (!Number.isInteger(quantity) || quantity === 0 || (!allowNegative && quantity < 0)) {
+    return allowNegative ? 'Quantity must be a non-zero integer' : 'Quantity must be a positive integer';
+  }
+
+  if (note !== undefined && typeof note !== 'string') {
+    return 'Note must be a string';
+  }
+
+  return null;
+};
+
+export const validateStockReceipt = (req: Request, res: Response, next: NextFunction): void => {
+  const error = validateStockItemInput(req.body, false)
+    || (!req.body.locationId || !isValidObjectId(req.body.locationId) ? 'Valid location ID is required' : null);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateStockAdjustment = (req: Request, res: Response, next: NextFunction): void => {
+  const { locationId, reason } = req.body;
+
+  const error = validateStockItemInput(req.body, true)
+    || (!locationId || !isValidObjectId(locationId) ? 'Valid location ID is required' : null);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  // Opening balances are only written by the system when the ledger of an item is started
+  const reasons = Object.values(StockAdjustmentReason).filter(value => value !== StockAdjustmentReason.OPENING_BALANCE);
+  if (!reasons.includes(reason)) {
+    res.status(400).json({
+      success: false,
+      error: `Reason must be one of: ${reasons.join(', ')}`
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateStockTransfer = (req: Request, res: Response, next: NextFunction): void => {
+  const { fromLocationId, toLocationId } = req.body;
+
+  const error = validateStockItemInput(req.body, false)
+    || (!fromLocationId || !isValidObjectId(fromLocationId) ? 'Valid source location ID is required' : null)
+    || (!toLocationId || !isValidObjectId(toLocationId) ? 'Valid destination location ID is required' : null);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  if (fromLocationId === toLocationId) {
+    res.status(400).json({
+      success: false,
+      error: 'Source and destination locations must differ'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateReturnRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { items, refundMethod, note } = req.body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'At least one item to return is required'
+    });
+    return;
+  }
+
+  for (const item of items) {
+    if (!item || !isValidObjectId(item.orderItemId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Each item needs a valid orderItemId'
+      });
+      return;
+    }
+
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      res.status(400).json({
+        success: false,
+        error: 'Item quantity must be a positive integer'
+      });
+      return;
+    }
+
+    if (!Object.values(ReturnReason).includes(item.reason)) {
+      res.status(400).json({
+        success: false,
+        error: `Reason must be one of: ${Object.values(ReturnReason).join(', ')}`
+      });
+      return;
+    }
+  }
+
+  if (refundMethod !== undefined && !Object.values(RefundMethod).includes(refundMethod)) {
+    res.status(400).json({
+      success: false,
+      error: `Refund method must be one of: ${Object.values(RefundMethod).join(', ')}`
+    });
+    return;
+  }
+
+  if (note !== undefined && typeof note !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Note must be a string'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateReceiveReturn = (req: Request, res: Response, next: NextFunction): void => {
+  const { items, refundMethod, amount, note } = req.body || {};
+
+  if (items !== undefined) {
+    if (!Array.isArray(items)) {
+      res.status(400).json({
+        success: false,
+        error: 'Items must be an array'
+      });
+      return;
+    }
+
+    for (const item of items) {
+      if (!item || !isValidObjectId(item.orderItemId) || !Object.values(ReturnItemCondition).includes(item.condition)) {
+        res.status(400).json({
+          success: false,
+          error: `Each item needs a valid orderItemId and a condition: ${Object.values(ReturnItemCondition).join(', ')}`
+        });
+        return;
+      }
+    }
+  }
+
+  if (refundMethod !== undefined && !Object.values(RefundMethod).includes(refundMethod)) {
+    res.status(400).json({
+      success: false,
+      error: `Refund method must be one of: ${Object.values(RefundMethod).join(', ')}`
+    });
+    return;
+  }
+
+  if (amount !== undefined && (typeof amount !== 'number' || amount < 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Amount must be a non-negative number'
+    });
+    return;
+  }
+
+  if (note !== undefined && typeof note !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Note must be a string'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateReturnReview = (req: Request, res: Response, next: NextFunction): void => {
+  const { note } = req.body || {};
+
+  if (note !== undefined && typeof note !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Note must be a string'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateWalletAdjustment = (req: Request, res: Response, next: NextFunction): void => {
+  const { amount, reason } = req.body;
+
+  if (typeof amount !== 'number' || amount < 0.01 || Math.round(amount * 100) / 100 !== amount) {
+    res.status(400).json({
+      success: false,
+      error: 'Amount must be a positive number with at most 2 decimals'
+    });
+    return;
+  }
+
+  if (typeof reason !== 'string' || reason.trim().length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Reason is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateWishlist = (req: Request, res: Response, next: NextFunction): void => {
+  const { name } = req.body;
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Wishlist name is required'
+    });
+    return;
+  }
+
+  if (name.trim().length > 100) {
+    res.status(400).json({
+      success: false,
+      error: 'Wishlist name cannot exceed 100 characters'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateWishlistItem = (req: Request, res: Response, next: NextFunction): void => {
+  const { productId, variantId } = req.body;
+
+  if (!productId || !isValidObjectId(productId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Valid product ID is required'
+    });
+    return;
+  }
+
+  if (variantId !== undefined && !isValidObjectId(variantId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid variant ID'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateMoveToCart = (req: Request, res: Response, next: NextFunction): void => {
+  const { quantity, variantId } = req.body || {};
+
+  if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1)) {
+    res.status(400).json({
+      success: false,
+      error: 'Quantity must be at least 1'
+    });
+    return;
+  }
+
+  if (variantId !== undefined && !isValidObjectId(variantId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid variant ID'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateRecoverCart = (req: Request, res: Response, next: NextFunction): void => {
+  const { token } = req.body;
+
+  if (typeof token !== 'string' || !/^[a-f0-9]{48}$/.test(token)) {
+    res.status(400).json({
+      success: false,
+      error: 'Valid recovery token is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate the image type of category image uploads (?type=banner|thumbnail, default banner).
+// Runs before the upload so that no file reaches Cloudinary for an invalid request.
+export const validateCategoryImageType = (req: Request, res: Response, next: NextFunction): void => {
+  const { type } = req.query;
+
+  if (type !== undefined && !Object.values(CategoryImageType).includes(type as CategoryImageType)) {
+    res.status(400).json({
+      success: false,
+      error: `Image type must be one of: ${Object.values(CategoryImageType).join(', ')}`
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate product search filters (GET /api/products/search)
+export const validateProductSearch = (req: Request, res: Response, next: NextFunction): void => {
+  const { page, limit, sortBy, order } = req.query;
+  let error: string | null = null;
+
+  if (getQueryList(req.query.category).some(id => !isValidObjectId(id))) {
+    error = 'Invalid category ID';
+  } else if (getQueryList(req.query.price).some(range => !parsePriceRange(range))) {
+    error = 'Price ranges must look like "25-50" or "1000-"';
+  } else if (getQueryList(req.query.rating).some(band => !RATING_BANDS.includes(Number(band)))) {
+    error = `Rating must be one of: ${RATING_BANDS.join(', ')}`;
+  } else if (getQueryList(req.query.availability).some(value => !Object.values(Availability).includes(value as Availability))) {
+    error = `Availability must be one of: ${Object.values(Availability).join(', ')}`;
+  } else if (req.query.attributes !== undefined &&
+    (typeof req.query.attributes !== 'object' || Array.isArray(req.query.attributes))) {
+    error = 'Attribute filters must look like attributes[key]=value';
+  } else if (sortBy !== undefined && !PRODUCT_SEARCH_SORTS.includes(sortBy as ProductSearchSort)) {
+    error = `sortBy must be one of: ${PRODUCT_SEARCH_SORTS.join(', ')}`;
+  } else if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    error = 'order must be asc or desc';
+  } else if (page !== undefined && !(Number.isInteger(Number(page)) && Number(page) >= 1)) {
+    error = 'page must be a positive integer';
+  } else if (limit !== undefined && !(Number.isInteger(Number(limit)) && Number(limit) >= 1 && Number(limit) <= 100)) {
+    error = 'limit must be an integer between 1 and 100';
+  }
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate a category attribute set
+export const validateCategoryAttributes = (req: Request, res: Response, next: NextFunction): void => {
+  const error = validateAttributeDefinitions((req.body || {}).attributes);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate refresh token request
+export const validateRefreshToken = (req: Request, res: Response, next: NextFunction): void => {
+  const { refreshToken } = req.body || {};
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Refresh token is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate email verification
+export const validateVerifyEmail = (req: Request, res: Response, next: NextFunction): void => {
+  const { token } = req.body || {};
+
+  if (!token || typeof token !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Verification token is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate email change
+export const validateChangeEmail = (req: Request, res: Response, next: NextFunction): void => {
+  const { newEmail, password } = req.body || {};
+
+  if (!newEmail || typeof newEmail !== 'string' || !isValidEmail(newEmail)) {
+    res.status(400).json({
+      success: false,
+      error: 'Valid new email is required'
+    });
+    return;
+  }
+
+  if (!password || typeof password !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Password is required to change email'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate two-factor login step
+export const validateTwoFactorLogin = (req: Request, res: Response, next: NextFunction): void => {
+  const { challengeToken, code } = req.body || {};
+
+  if (!challengeToken || typeof challengeToken !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Challenge token is required'
+    });
+    return;
+  }
+
+  if (!code || typeof code !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Authentication code is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate two-factor code (enrollment confirmation)
+export const validateTwoFactorCode = (req: Request, res: Response, next: NextFunction): void => {
+  const { code } = req.body || {};
+
+  if (!code || typeof code !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Authentication code is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate two-factor disable
+export const validateDisableTwoFactor = (req: Request, res: Response, next: NextFunction): void => {
+  const { password, code } = req.body || {};
+
+  if (!password || typeof password !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Password is required'
+    });
+    return;
+  }
+
+  if (!code || typeof code !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Authentication code or recovery code is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Validate API key creation
+export const validateApiKey = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, scopes, expiresAt } = req.body || {};
+
+  if (!name || typeof name !== 'string' || name.trim().length === 0 || name.trim().length > 100) {
+    res.status(400).json({
+      success: false,
+      error: 'Name is required (max 100 characters)'
+    });
+    return;
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0 ||
+    scopes.some((scope: any) => !Object.values(ApiKeyScope).includes(scope))) {
+    res.status(400).json({
+      success: false,
+      error: `Scopes must be a non-empty list of: ${Object.values(ApiKeyScope).join(', ')}`
+    });
+    return;
+  }
+
+  if (expiresAt !== undefined && expiresAt !== null) {
+    const expiry = new Date(expiresAt);
+    if (typeof expiresAt !== 'string' || isNaN(expiry.getTime()) || expiry <= new Date()) {
+      res.status(400).json({
+        success: false,
+        error: 'expiresAt must be a future date'
+      });
+      return;
+    }
+  }
+
+  next();
+};
+
+// Validate account unlock
+export const validateUnlockAccount = (req: Request, res: Response, next: NextFunction): void => {
+  const { token } = req.body || {};
+
+  if (!token || typeof token !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Unlock token is required'
+    });
+    return;
+  }
+
+  next();
+};
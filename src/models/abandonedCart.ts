@@ -0,0 +1,147 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum AbandonedCartStatus {
+  OPEN = 'open', // reminders are being sent
+  RECOVERED = 'recovered', // an order was placed from the cart
+  LOST = 'lost' // emptied, no order after the last reminder, or superseded by a new abandonment of the cart
+}
+
+export interface IAbandonedCartItem {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  productName: string;
+  variantName?: string;
+  price: number;
+  quantity: number;
+}
+
+// One abandonment of a customer cart: the contents when it was detected, the reminders sent and the outcome
+export interface IAbandonedCart extends Document {
+  cartId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  items: IAbandonedCartItem[];
+  total: number; // in the cart currency
+  currency: string;
+  baseTotal: number;
+  status: AbandonedCartStatus;
+  recoveryToken: string; // identifies the cart in the recovery link
+  remindersSent: number;
+  lastReminderAt?: Date;
+  restoredAt?: Date; // the recovery link was used
+  orderId?: mongoose.Types.ObjectId;
+  recoveredValue?: number; // order total in the base currency
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AbandonedCartItemSchema = new Schema<IAbandonedCartItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ProductVariant'
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    variantName: {
+      type: String
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    }
+  },
+  { _id: false }
+);
+
+const AbandonedCartSchema = new Schema<IAbandonedCart>(
+  {
+    cartId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Cart',
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    items: {
+      type: [AbandonedCartItemSchema],
+      default: []
+    },
+    total: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true
+    },
+    baseTotal: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    status: {
+      type: String,
+      enum: Object.values(AbandonedCartStatus),
+      default: AbandonedCartStatus.OPEN
+    },
+    recoveryToken: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    remindersSent: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    lastReminderAt: {
+      type: Date
+    },
+    restoredAt: {
+      type: Date
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order'
+    },
+    recoveredValue: {
+      type: Number,
+      min: 0
+    },
+    closedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+AbandonedCartSchema.index({ cartId: 1, status: 1 });
+AbandonedCartSchema.index({ status: 1, createdAt: -1 });
+
+export const AbandonedCart = mongoose.model<IAbandonedCart>('AbandonedCart', AbandonedCartSchema);
+
+export interface RecoverCartDto {
+  token: string;
+}
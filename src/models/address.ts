@@ -0,0 +1,97 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface IAddress {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2, e.g. "US"
+  phone?: string;
+}
+
+// Entry in a customer's address book
+export interface IAddressBookEntry extends IAddress {
+  _id: mongoose.Types.ObjectId;
+  label?: string;
+}
+
+// Snapshot stored on orders; never changes after the order is placed
+export const AddressSchema = new Schema<IAddress>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Recipient name is required'],
+      trim: true
+    },
+    line1: {
+      type: String,
+      required: [true, 'Address line 1 is required'],
+      trim: true
+    },
+    line2: {
+      type: String,
+      trim: true
+    },
+    city: {
+      type: String,
+      required: [true, 'City is required'],
+      trim: true
+    },
+    region: {
+      type: String,
+      trim: true
+    },
+    postalCode: {
+      type: String,
+      required: [true, 'Postal code is required'],
+      trim: true,
+      uppercase: true
+    },
+    country: {
+      type: String,
+      required: [true, 'Country is required'],
+      trim: true,
+      uppercase: true,
+      minlength: 2,
+      maxlength: 2
+    },
+    phone: {
+      type: String,
+      trim: true
+    }
+  },
+  { _id: false }
+);
+
+export const AddressBookEntrySchema = new Schema<IAddressBookEntry>(
+  {
+    label: {
+      type: String,
+      trim: true
+    }
+  },
+  { _id: true }
+);
+
+AddressBookEntrySchema.add(AddressSchema);
+
+export interface AddressDto {
+  name: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode: string;
+  country: string;
+  phone?: string;
+}
+
+export interface CreateAddressDto extends AddressDto {
+  label?: string;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
+}
+
+export type UpdateAddressDto = Partial<CreateAddressDto>;
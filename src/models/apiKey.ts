@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// What an API key may do. Routes opt in to API keys by declaring the scope they need (requireScope).
+export enum ApiKeyScope {
+  PRODUCTS_WRITE = 'products:write',
+  ORDERS_READ = 'orders:read',
+  ORDERS_WRITE = 'orders:write',
+  INVENTORY_READ = 'inventory:read',
+  INVENTORY_WRITE = 'inventory:write'
+}
+
+// Key for server-to-server integrations (ERP, warehouse scripts). Only the SHA-256 hash of the key is
+// stored; the prefix is kept in clear to recognize a key in listings and logs.
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy: mongoose.Types.ObjectId;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: [true, 'API key name is required'],
+      trim: true,
+      maxlength: [100, 'API key name cannot exceed 100 characters']
+    },
+    prefix: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    scopes: {
+      type: [String],
+      enum: Object.values(ApiKeyScope),
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'An API key needs at least one scope'
+      }
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    expiresAt: {
+      type: Date
+    },
+    lastUsedAt: {
+      type: Date
+    },
+    lastUsedIp: {
+      type: String
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+ApiKeySchema.index({ createdAt: -1 });
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+
+export interface CreateApiKeyDto {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+}
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  active: boolean;
+  createdAt: Date;
+}
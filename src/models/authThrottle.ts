@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Auth endpoints guarded by the limiter
+export enum AuthThrottleScope {
+  LOGIN = 'login',
+  FORGOT_PASSWORD = 'forgot_password',
+  RESET_PASSWORD = 'reset_password'
+}
+
+// Failed attempts of one client (IP) or one account (email) on one endpoint, e.g. "login:email:jane@example.com".
+// Kept in MongoDB so that backoff and lockouts survive restarts and are shared between instances.
+export interface IAuthThrottle extends Document {
+  key: string;
+  scope: AuthThrottleScope;
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil?: Date; // backoff delay or lockout end
+  lockedAt?: Date; // set when the failures reached the lockout threshold
+  unlockToken?: string; // SHA-256 hash of the token of the unlock email
+  unlockEmailSentAt?: Date; // one unlock email per lockout
+  expiresAt: Date; // failures are forgotten after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthThrottleSchema = new Schema<IAuthThrottle>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    scope: {
+      type: String,
+      enum: Object.values(AuthThrottleScope),
+      required: true
+    },
+    failures: {
+      type: Number,
+      default: 0
+    },
+    lastFailureAt: {
+      type: Date,
+      required: true
+    },
+    blockedUntil: {
+      type: Date
+    },
+    lockedAt: {
+      type: Date
+    },
+    unlockToken: {
+      type: String,
+      index: { sparse: true }
+    },
+    unlockEmailSentAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 } // TTL index - auto delete when expired
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const AuthThrottle = mongoose.model<IAuthThrottle>('AuthThrottle', AuthThrottleSchema);
+
+export interface UnlockAccountDto {
+  token: string;
+}
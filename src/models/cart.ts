@@ -1,7 +1,11 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { ITaxLine, TaxLineSchema } from './taxLine';
 
 export interface ICartItem {
   productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  variantName?: string;
+  sku?: string;
   productName: string;
   price: number;
   quantity: number;
@@ -9,10 +13,25 @@ export interface ICartItem {
   addedAt: Date;
 }
 
+export interface ICartCoupon {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+}
+
 export interface ICart extends Document {
-  userId: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId; // unset on guest carts
   items: ICartItem[];
+  subtotal: number;
+  coupon?: ICartCoupon;
+  discount: number;
+  freeShipping: boolean;
+  taxLines: ITaxLine[];
+  taxTotal: number;
+  pricesIncludeTax: boolean;
+  currency?: string; // unset on carts created before multi-currency (base currency)
+  exchangeRate?: number;
   total: number;
+  expiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -24,6 +43,16 @@ const CartItemSchema = new Schema<ICartItem>(
       ref: 'Product',
       required: true
     },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ProductVariant'
+    },
+    variantName: {
+      type: String
+    },
+    sku: {
+      type: String
+    },
     productName: {
       type: String,
       required: true
@@ -53,18 +82,68 @@ const CartItemSchema = new Schema<ICartItem>(
 
 const CartSchema = new Schema<ICart>(
   {
+    // Unset on guest carts. The unique index of older databases is replaced at startup (see database/migrations).
     userId: {
       type: Schema.Types.ObjectId,
-      ref: 'User',
-      required: true,
-      unique: true
+      ref: 'User'
     },
     items: [CartItemSchema],
+    subtotal: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    coupon: {
+      couponId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Coupon'
+      },
+      code: {
+        type: String
+      }
+    },
+    discount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    freeShipping: {
+      type: Boolean,
+      default: false
+    },
+    // Estimated from the default shipping address (or the store country) until checkout
+    taxLines: {
+      type: [TaxLineSchema],
+      default: []
+    },
+    taxTotal: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    pricesIncludeTax: {
+      type: Boolean,
+      default: false
+    },
+    // Item prices and totals are in this currency, at this rate from the base currency
+    currency: {
+      type: String,
+      trim: true,
+      uppercase: true
+    },
+    exchangeRate: {
+      type: Number,
+      min: 0
+    },
     total: {
       type: Number,
       required: true,
       default: 0,
       min: 0
+    },
+    // Guest carts only: removed by the TTL index once inactive for GUEST_CART_TTL_DAYS
+    expiresAt: {
+      type: Date
     }
   },
   {
@@ -72,14 +151,22 @@ const CartSchema = new Schema<ICart>(
   }
 );
 
+CartSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { userId: { $exists: true } } });
+CartSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
 
 export const Cart = mongoose.model<ICart>('Cart', CartSchema);
 
 export interface AddToCartDto {
   productId: string;
+  variantId?: string;
   quantity: number;
 }
 
 export interface UpdateCartItemDto {
   quantity: number;
+}
+
+export interface ApplyCouponDto {
+  code: string;
 }
\ No newline at end of file
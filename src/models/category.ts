@@ -1,13 +1,112 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { slugify } from '../utils/slugUtils';
 
+export enum CategoryImageType {
+  BANNER = 'banner',
+  THUMBNAIL = 'thumbnail'
+}
+
+export enum AttributeType {
+  TEXT = 'text',
+  NUMBER = 'number',
+  BOOLEAN = 'boolean',
+  SELECT = 'select', // one of allowedValues
+  MULTISELECT = 'multiselect' // any of allowedValues
+}
+
+// Typed product spec defined by a category (e.g. "ram", number, "GB").
+// Products of the category and of its subcategories fill in these attributes.
+export interface ICategoryAttribute {
+  key: string;
+  name: string;
+  type: AttributeType;
+  unit?: string;
+  allowedValues: string[];
+  required: boolean;
+  filterable: boolean;
+}
+
+// Image stored on Cloudinary; publicId is kept to delete the asset when it is replaced or removed
+export interface ICategoryImage {
+  url: string;
+  publicId: string;
+}
+
+// Categories form a tree. `path` is the materialized path of the ancestor IDs, root first:
+// "," for a top-level category, ",<rootId>,<parentId>," below it. Descendants of a category are
+// the categories whose path starts with `${path}${_id},` (see categoryService).
 export interface ICategory extends Document {
   name: string;
+  slug: string;
+  previousSlugs: string[];
   description?: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  banner?: ICategoryImage;
+  thumbnail?: ICategoryImage;
+  parentId?: mongoose.Types.ObjectId | null;
+  path: string;
+  depth: number;
+  sortOrder: number;
+  attributes: ICategoryAttribute[];
+  taxClassId?: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const CategoryImageSchema = new Schema<ICategoryImage>(
+  {
+    url: {
+      type: String,
+      required: true
+    },
+    publicId: {
+      type: String,
+      required: true
+    }
+  },
+  { _id: false }
+);
+
+const CategoryAttributeSchema = new Schema<ICategoryAttribute>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(AttributeType),
+      required: true
+    },
+    unit: {
+      type: String,
+      trim: true
+    },
+    allowedValues: {
+      type: [String],
+      default: []
+    },
+    required: {
+      type: Boolean,
+      default: false
+    },
+    filterable: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { _id: false }
+);
+
 const CategorySchema = new Schema<ICategory>(
   {
     name: {
@@ -17,11 +116,62 @@ const CategorySchema = new Schema<ICategory>(
       trim: true,
       minlength: [2, 'Category name must be at least 2 characters']
     },
+    slug: {
+      type: String,
+      unique: true,
+      sparse: true, // categories created before slugs get one when next saved
+      trim: true,
+      lowercase: true
+    },
+    // Old slugs still resolve to the category so that links keep working after a rename
+    previousSlugs: {
+      type: [String],
+      default: []
+    },
     description: {
       type: String,
       trim: true,
       default: ''
     },
+    metaTitle: {
+      type: String,
+      trim: true,
+      maxlength: [70, 'Meta title cannot exceed 70 characters']
+    },
+    metaDescription: {
+      type: String,
+      trim: true,
+      maxlength: [160, 'Meta description cannot exceed 160 characters']
+    },
+    banner: CategoryImageSchema,
+    thumbnail: CategoryImageSchema,
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null
+    },
+    path: {
+      type: String,
+      default: ','
+    },
+    depth: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    sortOrder: {
+      type: Number,
+      default: 0
+    },
+    // Attribute set of this category; subcategories inherit it (see categoryService.getCategoryAttributes)
+    attributes: {
+      type: [CategoryAttributeSchema],
+      default: []
+    },
+    taxClassId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaxClass'
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -33,15 +183,63 @@ const CategorySchema = new Schema<ICategory>(
   }
 );
 
+CategorySchema.index({ path: 1, sortOrder: 1 });
+CategorySchema.index({ parentId: 1, sortOrder: 1 });
+CategorySchema.index({ previousSlugs: 1 });
+
+CategorySchema.pre('validate', function() {
+  if (!this.slug && this.name) {
+    this.slug = slugify(this.name);
+  }
+});
 
 export const Category = mongoose.model<ICategory>('Category', CategorySchema);
 
 export interface CreateCategoryDto {
   name: string;
+  slug?: string;
   description?: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  parentId?: string | null;
+  sortOrder?: number;
+  taxClassId?: string;
 }
 
 export interface UpdateCategoryDto {
   name?: string;
+  slug?: string;
   description?: string;
-}
\ No newline at end of file
+  metaTitle?: string | null; // null falls back to the name
+  metaDescription?: string | null; // null falls back to the description
+  parentId?: string | null; // null moves the category to the top level
+  sortOrder?: number;
+  taxClassId?: string | null;
+}
+
+export interface CategoryBreadcrumb {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;
+}
+
+export interface CategoryTreeNode extends CategoryBreadcrumb {
+  description?: string;
+  thumbnail?: string;
+  sortOrder: number;
+  depth: number;
+  children: CategoryTreeNode[];
+}
+// SEO metadata with the fallbacks applied
+export interface CategorySeo {
+  metaTitle: string;
+  metaDescription: string;
+  canonicalSlug: string;
+}
+
+export type CategoryAttributeDto = Omit<ICategoryAttribute, 'allowedValues' | 'required' | 'filterable'> &
+  Partial<Pick<ICategoryAttribute, 'allowedValues' | 'required' | 'filterable'>>;
+
+export interface UpdateCategoryAttributesDto {
+  attributes: CategoryAttributeDto[];
+}
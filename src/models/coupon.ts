@@ -0,0 +1,139 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum CouponType {
+  PERCENTAGE = 'percentage',
+  FIXED_AMOUNT = 'fixed_amount',
+  FREE_SHIPPING = 'free_shipping',
+  BUY_X_GET_Y = 'buy_x_get_y'
+}
+
+export interface ICoupon extends Document {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  minSpend: number;
+  productIds: mongoose.Types.ObjectId[];
+  categoryIds: mongoose.Types.ObjectId[];
+  buyQuantity?: number;
+  getQuantity?: number;
+  usageLimit?: number;
+  usageLimitPerUser?: number;
+  usedCount: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Coupon code is required'],
+      unique: true,
+      uppercase: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: ''
+    },
+    type: {
+      type: String,
+      enum: Object.values(CouponType),
+      required: true
+    },
+    // Percentage (0-100) for PERCENTAGE and BUY_X_GET_Y, amount for FIXED_AMOUNT
+    value: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    maxDiscount: {
+      type: Number,
+      min: 0
+    },
+    minSpend: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    // Empty scopes mean the coupon applies to the whole cart
+    productIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    }],
+    categoryIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Category'
+    }],
+    buyQuantity: {
+      type: Number,
+      min: 1
+    },
+    getQuantity: {
+      type: Number,
+      min: 1
+    },
+    usageLimit: {
+      type: Number,
+      min: 1
+    },
+    usageLimitPerUser: {
+      type: Number,
+      min: 1
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    startsAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+CouponSchema.index({ isActive: 1, expiresAt: 1 });
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', CouponSchema);
+
+export interface CreateCouponDto {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value?: number;
+  maxDiscount?: number;
+  minSpend?: number;
+  productIds?: string[];
+  categoryIds?: string[];
+  buyQuantity?: number;
+  getQuantity?: number;
+  usageLimit?: number;
+  usageLimitPerUser?: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  isActive?: boolean;
+}
+
+export type UpdateCouponDto = Partial<CreateCouponDto>;
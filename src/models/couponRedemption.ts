@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICouponRedemption extends Document {
+  couponId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  orderId: mongoose.Types.ObjectId;
+  code: string;
+  discount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: true,
+      index: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+      unique: true
+    },
+    code: {
+      type: String,
+      required: true
+    },
+    discount: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Per-user usage limit lookups
+CouponRedemptionSchema.index({ couponId: 1, userId: 1 });
+
+export const CouponRedemption = mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IExchangeRate extends Document {
+  currency: string; // ISO 4217 code, e.g. "EUR"
+  rate: number; // units of this currency per 1 unit of the base currency
+  isActive: boolean;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExchangeRateSchema = new Schema<IExchangeRate>(
+  {
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      unique: true,
+      trim: true,
+      uppercase: true
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Rate is required'],
+      min: [0.000001, 'Rate must be positive']
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const ExchangeRate = mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
+
+export interface UpsertExchangeRateDto {
+  rate: number;
+  isActive?: boolean;
+}
@@ -1,28 +1,104 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { AddressSchema, IAddress } from './address';
+import { ITaxLine, TaxLineSchema } from './taxLine';
 
 export enum OrderStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
   SHIPPED = 'shipped',
   DELIVERED = 'delivered',
+  PARTIALLY_RETURNED = 'partially_returned',
+  RETURNED = 'returned',
   CANCELLED = 'cancelled'
 }
 
+export enum OrderPaymentStatus {
+  UNPAID = 'unpaid',
+  AUTHORIZED = 'authorized',
+  PAID = 'paid',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+  FAILED = 'failed'
+}
+
+// Allowed next states for each order status; terminal states have none
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [OrderStatus.PARTIALLY_RETURNED, OrderStatus.RETURNED],
+  [OrderStatus.PARTIALLY_RETURNED]: [OrderStatus.RETURNED],
+  [OrderStatus.RETURNED]: [],
+  [OrderStatus.CANCELLED]: []
+};
+
+export interface IOrderStatusChange {
+  from?: OrderStatus;
+  to: OrderStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  apiKeyId?: mongoose.Types.ObjectId; // set when changed through an API key
+  actor: 'customer' | 'admin' | 'system';
+  reason?: string;
+  createdAt: Date;
+}
+
 export interface IOrderItem {
+  _id?: mongoose.Types.ObjectId;
   productId: string;
+  variantId?: string;
+  variantName?: string;
+  sku?: string;
   productName: string;
   price: number;
   quantity: number;
   subtotal: number;
+  discount?: number;
+  tax?: number;
+}
+
+export interface IOrderDiscount {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  type: string;
+  amount: number;
+  freeShipping: boolean;
+}
+
+// Snapshot of the shipping method chosen at checkout
+export interface IOrderShippingMethod {
+  zoneId: mongoose.Types.ObjectId;
+  methodId: mongoose.Types.ObjectId;
+  name: string;
+  carrier?: string;
+  type: string;
 }
 
 export interface IOrder extends Document {
   orderNumber?: string;
   userId: mongoose.Types.ObjectId;
   items: IOrderItem[];
+  subtotal: number;
+  discounts: IOrderDiscount[];
+  discountTotal: number;
+  shippingMethod?: IOrderShippingMethod;
+  shippingCost: number;
+  taxLines: ITaxLine[];
+  taxTotal: number;
+  pricesIncludeTax: boolean;
+  currency?: string; // unset on orders placed before multi-currency (base currency)
+  exchangeRate?: number;
   total: number;
+  baseTotal?: number; // total converted back to the base currency at the locked rate
+  walletAmount: number; // part of the total paid with store credit, in the order currency
+  walletBaseAmount: number; // the same amount as debited from the wallet, in the base currency
   status: OrderStatus;
-  shippingAddress?: string;
+  statusHistory: IOrderStatusChange[];
+  paymentStatus: OrderPaymentStatus;
+  amountPaid: number;
+  amountRefunded: number;
+  reservationExpiresAt?: Date; // stock is held until then (or a failed payment can be retried); unpaid orders are cancelled afterwards
+  shippingAddress?: IAddress;
+  billingAddress?: IAddress;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -33,6 +109,15 @@ const OrderItemSchema = new Schema({
     type: String,
     required: true
   },
+  variantId: {
+    type: String
+  },
+  variantName: {
+    type: String
+  },
+  sku: {
+    type: String
+  },
   productName: {
     type: String,
     required: true
@@ -51,9 +136,109 @@ const OrderItemSchema = new Schema({
     type: Number,
     required: true,
     min: 0
+  },
+  discount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  tax: {
+    type: Number,
+    default: 0,
+    min: 0
   }
 });
 
+const OrderDiscountSchema = new Schema<IOrderDiscount>(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: true
+    },
+    code: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    freeShipping: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { _id: false }
+);
+
+const OrderShippingMethodSchema = new Schema<IOrderShippingMethod>(
+  {
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ShippingZone',
+      required: true
+    },
+    methodId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    name: {
+      type: String,
+      required: true
+    },
+    carrier: {
+      type: String
+    },
+    type: {
+      type: String,
+      required: true
+    }
+  },
+  { _id: false }
+);
+
+const OrderStatusChangeSchema = new Schema<IOrderStatusChange>(
+  {
+    from: {
+      type: String,
+      enum: Object.values(OrderStatus)
+    },
+    to: {
+      type: String,
+      enum: Object.values(OrderStatus),
+      required: true
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey'
+    },
+    actor: {
+      type: String,
+      enum: ['customer', 'admin', 'system'],
+      required: true
+    },
+    reason: {
+      type: String,
+      trim: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
 const OrderSchema = new Schema<IOrder>(
   {
     orderNumber: {
@@ -77,19 +262,102 @@ const OrderSchema = new Schema<IOrder>(
         message: 'Order must contain at least one item'
       }
     },
+    subtotal: {
+      type: Number,
+      min: 0
+    },
+    discounts: {
+      type: [OrderDiscountSchema],
+      default: []
+    },
+    discountTotal: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    shippingMethod: {
+      type: OrderShippingMethodSchema
+    },
+    shippingCost: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    taxLines: {
+      type: [TaxLineSchema],
+      default: []
+    },
+    taxTotal: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    // Whether item prices include taxTotal (true) or it was added on top (false)
+    pricesIncludeTax: {
+      type: Boolean,
+      default: false
+    },
+    // Locked at checkout: all amounts of the order are in this currency, whatever the rate becomes later
+    currency: {
+      type: String,
+      trim: true,
+      uppercase: true
+    },
+    exchangeRate: {
+      type: Number,
+      min: 0
+    },
     total: {
       type: Number,
       required: true,
       min: 0
     },
+    baseTotal: {
+      type: Number,
+      min: 0
+    },
+    walletAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    walletBaseAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     status: {
       type: String,
       enum: Object.values(OrderStatus),
       default: OrderStatus.PENDING
     },
-    shippingAddress: {
+    statusHistory: {
+      type: [OrderStatusChangeSchema],
+      default: []
+    },
+    paymentStatus: {
       type: String,
-      trim: true
+      enum: Object.values(OrderPaymentStatus),
+      default: OrderPaymentStatus.UNPAID
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    amountRefunded: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    reservationExpiresAt: {
+      type: Date
+    },
+    shippingAddress: {
+      type: AddressSchema
+    },
+    billingAddress: {
+      type: AddressSchema
     },
     notes: {
       type: String,
@@ -0,0 +1,196 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum PaymentStatus {
+  INTENT = 'intent',
+  AUTHORIZED = 'authorized',
+  CAPTURED = 'captured',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// A refund is recorded as pending before the provider is called, so that a refund the provider made but that
+// could not be completed here is still counted and never made twice
+export enum PaymentRefundStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed'
+}
+
+export interface IPaymentRefund {
+  _id?: mongoose.Types.ObjectId;
+  amount: number;
+  reason?: string;
+  status: PaymentRefundStatus;
+  providerReference?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface IPaymentEvent {
+  eventId: string;
+  type: string;
+  amount?: number;
+  message?: string;
+  receivedAt: Date;
+}
+
+export interface IPayment extends Document {
+  orderId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  provider: string;
+  providerReference: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  amountCaptured: number;
+  amountRefunded: number;
+  failureReason?: string;
+  reconciliationReason?: string; // why the payment needs a staff check, e.g. an amount mismatch or a late capture
+  flaggedAt?: Date;
+  refunds: IPaymentRefund[];
+  events: IPaymentEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentRefundSchema = new Schema<IPaymentRefund>(
+  {
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    reason: {
+      type: String,
+      trim: true
+    },
+    status: {
+      type: String,
+      enum: Object.values(PaymentRefundStatus),
+      default: PaymentRefundStatus.COMPLETED
+    },
+    providerReference: {
+      type: String
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: true }
+);
+
+const PaymentEventSchema = new Schema<IPaymentEvent>(
+  {
+    eventId: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      required: true
+    },
+    amount: {
+      type: Number
+    },
+    message: {
+      type: String
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+const PaymentSchema = new Schema<IPayment>(
+  {
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+      index: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    provider: {
+      type: String,
+      required: true
+    },
+    providerReference: {
+      type: String,
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true
+    },
+    status: {
+      type: String,
+      enum: Object.values(PaymentStatus),
+      default: PaymentStatus.INTENT
+    },
+    amountCaptured: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    amountRefunded: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    failureReason: {
+      type: String
+    },
+    reconciliationReason: {
+      type: String
+    },
+    flaggedAt: {
+      type: Date,
+      index: { sparse: true }
+    },
+    refunds: {
+      type: [PaymentRefundSchema],
+      default: []
+    },
+    // Provider callbacks already applied, used to ignore duplicate deliveries
+    events: {
+      type: [PaymentEventSchema],
+      default: []
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+PaymentSchema.index({ provider: 1, providerReference: 1 }, { unique: true });
+
+export const Payment = mongoose.model<IPayment>('Payment', PaymentSchema);
+
+export interface ConfirmPaymentDto {
+  cardNumber?: string;
+  captureMethod?: 'automatic' | 'manual';
+}
+
+export interface RefundOrderDto {
+  amount?: number;
+  reason?: string;
+}
@@ -1,27 +1,100 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+// Fixed price in another currency, used instead of converting the base price
+export interface IProductPrice {
+  currency: string;
+  amount: number;
+}
+
+// Value of a category attribute: number for "number", boolean for "boolean", string array for "multiselect"
+export type AttributeValue = string | number | boolean | string[];
+
+export interface IProductAttribute {
+  key: string;
+  value: AttributeValue;
+}
+
 export interface IProduct extends Document {
   name: string;
   slug: string;
   sku: string;
-  price: number;
+  price: number; // in the store base currency (BASE_CURRENCY)
+  prices: IProductPrice[];
   oldPrice?: number;
   description?: string;
   images: string[];
   categoryId: mongoose.Types.ObjectId;
   inStock: boolean;
   quantity: number;
+  reserved: number; // held by unpaid orders; available = quantity - reserved
   stock: number;
   status: 'active' | 'inactive' | 'draft';
   featured: boolean;
   rating: number;
   reviews: number;
   tags: string[];
+  attributes: IProductAttribute[];
+  weight: number;
+  taxClassId?: mongoose.Types.ObjectId;
+  options: IProductOption[];
+  hasVariants: boolean;
   createdBy: mongoose.Types.ObjectId;
+  apiKeyId?: mongoose.Types.ObjectId; // set when created through an API key
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ProductOptionSchema = new Schema<IProductOption>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    values: {
+      type: [String],
+      default: []
+    }
+  },
+  { _id: false }
+);
+
+const ProductPriceSchema = new Schema<IProductPrice>(
+  {
+    currency: {
+      type: String,
+      required: true,
+      trim: true,
+      uppercase: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Price cannot be negative']
+    }
+  },
+  { _id: false }
+);
+
+const ProductAttributeSchema = new Schema<IProductAttribute>(
+  {
+    key: {
+      type: String,
+      required: true
+    },
+    value: {
+      type: Schema.Types.Mixed,
+      required: true
+    }
+  },
+  { _id: false }
+);
+
 const ProductSchema = new Schema<IProduct>(
   {
     name: {
@@ -84,6 +157,12 @@ const ProductSchema = new Schema<IProduct>(
       type: Number,
       default: 0
     },
+    // Units held by reservations of orders awaiting payment
+    reserved: {
+      type: Number,
+      default: 0,
+      min: [0, 'Reserved quantity cannot be negative']
+    },
     status: {
       type: String,
       enum: ['active', 'inactive', 'draft'],
@@ -108,10 +187,44 @@ const ProductSchema = new Schema<IProduct>(
       type: [String],
       default: []
     },
+    // Values for the attribute set of the category, validated by the product endpoints
+    attributes: {
+      type: [ProductAttributeSchema],
+      default: []
+    },
+    // Per-currency price overrides; other currencies use the exchange rate
+    prices: {
+      type: [ProductPriceSchema],
+      default: []
+    },
+    // Shipping weight in kg
+    weight: {
+      type: Number,
+      default: 0,
+      min: [0, 'Weight cannot be negative']
+    },
+    // Falls back to the category's tax class, then the default class
+    taxClassId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaxClass'
+    },
+    // Option axes (e.g. Size, Color) that variants pick one value from
+    options: {
+      type: [ProductOptionSchema],
+      default: []
+    },
+    hasVariants: {
+      type: Boolean,
+      default: false
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: true
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey'
     }
   },
   {
@@ -122,6 +235,7 @@ const ProductSchema = new Schema<IProduct>(
 // Compound indexes
 ProductSchema.index({ categoryId: 1, inStock: 1 });
 ProductSchema.index({ price: 1, createdAt: -1 });
+ProductSchema.index({ 'attributes.key': 1, 'attributes.value': 1 });
 
 // Text index for search
 ProductSchema.index({ name: 'text', description: 'text' });
@@ -135,6 +249,7 @@ export interface CreateProductDto {
   slug?: string;
   sku?: string;
   price: number;
+  prices?: IProductPrice[];
   oldPrice?: number;
   description?: string;
   categoryId: string;
@@ -142,6 +257,10 @@ export interface CreateProductDto {
   quantity: number;
   featured?: boolean;
   tags?: string[];
+  attributes?: Record<string, AttributeValue>; // keyed by attribute key
+  weight?: number;
+  taxClassId?: string | null;
+  options?: IProductOption[];
 }
 
 export interface UpdateProductDto {
@@ -149,6 +268,7 @@ export interface UpdateProductDto {
   slug?: string;
   sku?: string;
   price?: number;
+  prices?: IProductPrice[];
   oldPrice?: number;
   description?: string;
   categoryId?: string;
@@ -157,4 +277,8 @@ export interface UpdateProductDto {
   featured?: boolean;
   status?: 'active' | 'inactive' | 'draft';
   tags?: string[];
+  attributes?: Record<string, AttributeValue | null>; // keyed by attribute key; null removes a value on update
+  weight?: number;
+  taxClassId?: string | null;
+  options?: IProductOption[];
 }
\ No newline at end of file
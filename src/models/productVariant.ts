@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IVariantOption {
+  name: string;
+  value: string;
+}
+
+export interface IProductVariant extends Document {
+  productId: mongoose.Types.ObjectId;
+  sku: string;
+  options: IVariantOption[];
+  price?: number;
+  oldPrice?: number;
+  quantity: number;
+  reserved: number; // held by unpaid orders; available = quantity - reserved
+  inStock: boolean;
+  weight?: number;
+  images: string[];
+  status: 'active' | 'inactive';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VariantOptionSchema = new Schema<IVariantOption>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    value: {
+      type: String,
+      required: true,
+      trim: true
+    }
+  },
+  { _id: false }
+);
+
+const ProductVariantSchema = new Schema<IProductVariant>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+      index: true
+    },
+    sku: {
+      type: String,
+      required: [true, 'Variant SKU is required'],
+      unique: true,
+      trim: true
+    },
+    options: {
+      type: [VariantOptionSchema],
+      default: []
+    },
+    // Overrides the product price when set
+    price: {
+      type: Number,
+      min: [0, 'Price cannot be negative']
+    },
+    oldPrice: {
+      type: Number,
+      min: [0, 'Old price cannot be negative']
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [0, 'Quantity cannot be negative'],
+      default: 0
+    },
+    inStock: {
+      type: Boolean,
+      default: true
+    },
+    // Units held by reservations of orders awaiting payment
+    reserved: {
+      type: Number,
+      default: 0,
+      min: [0, 'Reserved quantity cannot be negative']
+    },
+    // Overrides the product weight (kg) when set
+    weight: {
+      type: Number,
+      min: [0, 'Weight cannot be negative']
+    },
+    images: {
+      type: [String],
+      default: []
+    },
+    status: {
+      type: String,
+      enum: ['active', 'inactive'],
+      default: 'active'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+ProductVariantSchema.index({ productId: 1, status: 1 });
+
+export const ProductVariant = mongoose.model<IProductVariant>('ProductVariant', ProductVariantSchema);
+
+export interface CreateVariantDto {
+  sku: string;
+  options: IVariantOption[];
+  price?: number;
+  oldPrice?: number;
+  quantity: number;
+  weight?: number;
+  images?: string[];
+  status?: 'active' | 'inactive';
+}
+
+export interface UpdateVariantDto {
+  sku?: string;
+  options?: IVariantOption[];
+  price?: number | null;
+  oldPrice?: number | null;
+  quantity?: number;
+  weight?: number | null;
+  images?: string[];
+  status?: 'active' | 'inactive';
+}
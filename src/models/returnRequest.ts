@@ -0,0 +1,235 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ReturnStatus {
+  REQUESTED = 'requested',
+  APPROVED = 'approved', // the customer can send the items back
+  REJECTED = 'rejected',
+  RECEIVED = 'received' // items checked in and the refund issued
+}
+
+export enum ReturnReason {
+  DAMAGED = 'damaged',
+  DEFECTIVE = 'defective',
+  WRONG_ITEM = 'wrong_item',
+  NOT_AS_DESCRIBED = 'not_as_described',
+  NO_LONGER_NEEDED = 'no_longer_needed',
+  OTHER = 'other'
+}
+
+// State of a returned item when it is checked in; only resellable items go back into stock
+export enum ReturnItemCondition {
+  RESELLABLE = 'resellable',
+  DAMAGED = 'damaged',
+  MISSING = 'missing'
+}
+
+export enum RefundMethod {
+  ORIGINAL_PAYMENT = 'original_payment',
+  STORE_CREDIT = 'store_credit'
+}
+
+export interface IReturnItem {
+  orderItemId: mongoose.Types.ObjectId;
+  productId: string;
+  variantId?: string;
+  productName: string;
+  quantity: number;
+  reason: ReturnReason;
+  condition?: ReturnItemCondition;
+  restocked: boolean;
+  amount: number; // refundable value of the returned units, in the order currency
+}
+
+export interface IReturnRefund {
+  method: RefundMethod;
+  amount: number;
+  walletAmount: number; // part of the amount credited to the wallet (store credit, or the share paid with it)
+  status: 'completed' | 'failed';
+  failureReason?: string;
+  processedAt: Date;
+}
+
+export interface IReturnRequest extends Document {
+  rmaNumber: string;
+  orderId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  items: IReturnItem[];
+  status: ReturnStatus;
+  refundMethod: RefundMethod;
+  refund?: IReturnRefund;
+  customerNote?: string;
+  adminNote?: string;
+  approvedAt?: Date;
+  rejectedAt?: Date;
+  receivedAt?: Date;
+  processedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReturnItemSchema = new Schema<IReturnItem>(
+  {
+    orderItemId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    productId: {
+      type: String,
+      required: true
+    },
+    variantId: {
+      type: String
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    reason: {
+      type: String,
+      enum: Object.values(ReturnReason),
+      required: true
+    },
+    condition: {
+      type: String,
+      enum: Object.values(ReturnItemCondition)
+    },
+    restocked: {
+      type: Boolean,
+      default: false
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  },
+  { _id: false }
+);
+
+const ReturnRefundSchema = new Schema<IReturnRefund>(
+  {
+    method: {
+      type: String,
+      enum: Object.values(RefundMethod),
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    walletAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    status: {
+      type: String,
+      enum: ['completed', 'failed'],
+      required: true
+    },
+    failureReason: {
+      type: String
+    },
+    processedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+const ReturnRequestSchema = new Schema<IReturnRequest>(
+  {
+    rmaNumber: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+      index: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    items: {
+      type: [ReturnItemSchema],
+      required: true,
+      validate: {
+        validator: function(items: IReturnItem[]) {
+          return items.length > 0;
+        },
+        message: 'Return must contain at least one item'
+      }
+    },
+    status: {
+      type: String,
+      enum: Object.values(ReturnStatus),
+      default: ReturnStatus.REQUESTED
+    },
+    refundMethod: {
+      type: String,
+      enum: Object.values(RefundMethod),
+      default: RefundMethod.ORIGINAL_PAYMENT
+    },
+    refund: {
+      type: ReturnRefundSchema
+    },
+    customerNote: {
+      type: String,
+      trim: true
+    },
+    adminNote: {
+      type: String,
+      trim: true
+    },
+    approvedAt: {
+      type: Date
+    },
+    rejectedAt: {
+      type: Date
+    },
+    receivedAt: {
+      type: Date
+    },
+    processedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+ReturnRequestSchema.index({ status: 1, createdAt: -1 });
+
+export const ReturnRequest = mongoose.model<IReturnRequest>('ReturnRequest', ReturnRequestSchema);
+
+export interface CreateReturnDto {
+  items: { orderItemId: string; quantity: number; reason: ReturnReason }[];
+  refundMethod?: RefundMethod;
+  note?: string;
+}
+
+export interface ReviewReturnDto {
+  note?: string;
+}
+
+export interface ReceiveReturnDto {
+  items?: { orderItemId: string; condition: ReturnItemCondition }[]; // omitted = everything resellable
+  refundMethod?: RefundMethod;
+  amount?: number; // overrides the computed refund, e.g. to deduct for damage
+  note?: string;
+}
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum SessionRevokedReason {
+  LOGOUT = 'logout',
+  USER = 'user', // revoked from the session list
+  ADMIN = 'admin', // "log out everywhere" by an admin
+  PASSWORD_CHANGE = 'password_change',
+  TWO_FACTOR_CHANGE = 'two_factor_change',
+  REUSE_DETECTED = 'reuse_detected' // a rotated refresh token was presented again
+}
+
+// One refresh token. Every refresh rotates the token: the used document is marked rotated and a new one is
+// created in the same family. A family is one login on one device; its ID is the session ID shown to users
+// and carried by access tokens (sid claim). Only the SHA-256 hash of the token is stored.
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  familyId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  startedAt: Date; // login time of the family
+  lastUsedAt: Date;
+  expiresAt: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    familyId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      index: true
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    device: {
+      type: String,
+      trim: true,
+      default: 'Unknown device'
+    },
+    userAgent: {
+      type: String
+    },
+    ipAddress: {
+      type: String
+    },
+    startedAt: {
+      type: Date,
+      required: true
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 } // TTL index - auto delete when expired
+    },
+    rotatedAt: {
+      type: Date
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String,
+      enum: Object.values(SessionRevokedReason)
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
+
+export interface RefreshTokenDto {
+  refreshToken: string;
+}
+
+export interface SessionResponse {
+  id: string; // family ID
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  startedAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,130 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ShipmentStatus {
+  PENDING = 'pending', // packed, not yet handed to the carrier
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered'
+}
+
+export interface IShipmentItem {
+  orderItemId: mongoose.Types.ObjectId;
+  productId: string;
+  variantId?: string;
+  productName: string;
+  quantity: number;
+}
+
+export interface IShipment extends Document {
+  orderId: mongoose.Types.ObjectId;
+  carrier: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  items: IShipmentItem[];
+  status: ShipmentStatus;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  createdBy: mongoose.Types.ObjectId;
+  apiKeyId?: mongoose.Types.ObjectId; // set when created through an API key
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShipmentItemSchema = new Schema<IShipmentItem>(
+  {
+    orderItemId: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    productId: {
+      type: String,
+      required: true
+    },
+    variantId: {
+      type: String
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    }
+  },
+  { _id: false }
+);
+
+const ShipmentSchema = new Schema<IShipment>(
+  {
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+      index: true
+    },
+    carrier: {
+      type: String,
+      required: [true, 'Carrier is required'],
+      trim: true
+    },
+    trackingNumber: {
+      type: String,
+      trim: true
+    },
+    trackingUrl: {
+      type: String,
+      trim: true
+    },
+    items: {
+      type: [ShipmentItemSchema],
+      required: true,
+      validate: {
+        validator: function(items: IShipmentItem[]) {
+          return items.length > 0;
+        },
+        message: 'Shipment must contain at least one item'
+      }
+    },
+    status: {
+      type: String,
+      enum: Object.values(ShipmentStatus),
+      default: ShipmentStatus.PENDING
+    },
+    shippedAt: {
+      type: Date
+    },
+    deliveredAt: {
+      type: Date
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const Shipment = mongoose.model<IShipment>('Shipment', ShipmentSchema);
+
+export interface CreateShipmentDto {
+  carrier: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  items?: { orderItemId: string; quantity: number }[]; // omitted = everything not yet shipped
+  status?: ShipmentStatus;
+}
+
+export interface UpdateShipmentDto {
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  status?: ShipmentStatus;
+}
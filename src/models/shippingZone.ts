@@ -0,0 +1,158 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ShippingRateType {
+  FLAT_RATE = 'flat_rate',
+  WEIGHT_BASED = 'weight_based',
+  FREE_OVER_THRESHOLD = 'free_over_threshold'
+}
+
+// Rate bracket for weight-based methods; maxWeight omitted means "and above"
+export interface IWeightRate {
+  minWeight: number;
+  maxWeight?: number;
+  rate: number;
+}
+
+export interface IShippingMethod {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  carrier?: string;
+  type: ShippingRateType;
+  rate: number; // flat rate, or the rate below the threshold for free_over_threshold
+  weightRates: IWeightRate[];
+  freeThreshold?: number;
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+  isActive: boolean;
+}
+
+export interface IShippingZone extends Document {
+  name: string;
+  countries: string[]; // ISO codes; "*" matches any country not covered by another zone
+  methods: mongoose.Types.DocumentArray<IShippingMethod>;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WeightRateSchema = new Schema<IWeightRate>(
+  {
+    minWeight: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    maxWeight: {
+      type: Number,
+      min: 0
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  },
+  { _id: false }
+);
+
+const ShippingMethodSchema = new Schema<IShippingMethod>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Shipping method name is required'],
+      trim: true
+    },
+    carrier: {
+      type: String,
+      trim: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(ShippingRateType),
+      required: true
+    },
+    rate: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    weightRates: {
+      type: [WeightRateSchema],
+      default: []
+    },
+    freeThreshold: {
+      type: Number,
+      min: 0
+    },
+    minDeliveryDays: {
+      type: Number,
+      min: 0
+    },
+    maxDeliveryDays: {
+      type: Number,
+      min: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  { _id: true }
+);
+
+const ShippingZoneSchema = new Schema<IShippingZone>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Zone name is required'],
+      trim: true
+    },
+    countries: {
+      type: [String],
+      required: true,
+      set: (countries: string[]) => countries.map(country => country.trim().toUpperCase())
+    },
+    methods: {
+      type: [ShippingMethodSchema],
+      default: []
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+ShippingZoneSchema.index({ countries: 1, isActive: 1 });
+
+export const ShippingZone = mongoose.model<IShippingZone>('ShippingZone', ShippingZoneSchema);
+
+export interface ShippingMethodDto {
+  name: string;
+  carrier?: string;
+  type: ShippingRateType;
+  rate?: number;
+  weightRates?: IWeightRate[];
+  freeThreshold?: number;
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+  isActive?: boolean;
+}
+
+export interface CreateShippingZoneDto {
+  name: string;
+  countries: string[];
+  methods?: ShippingMethodDto[];
+  isActive?: boolean;
+}
+
+export type UpdateShippingZoneDto = Partial<CreateShippingZoneDto>;
@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAddress, AddressSchema } from './address';
+
+export interface IStockLocation extends Document {
+  name: string;
+  code: string;
+  address?: IAddress;
+  isDefault: boolean; // sales are fulfilled from here first and product edits adjust stock here
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StockLocationSchema = new Schema<IStockLocation>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Location name is required'],
+      trim: true
+    },
+    code: {
+      type: String,
+      required: [true, 'Location code is required'],
+      unique: true,
+      trim: true,
+      uppercase: true
+    },
+    address: {
+      type: AddressSchema
+    },
+    isDefault: {
+      type: Boolean,
+      default: false
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const StockLocation = mongoose.model<IStockLocation>('StockLocation', StockLocationSchema);
+
+export interface CreateStockLocationDto {
+  name: string;
+  code: string;
+  address?: IAddress;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export type UpdateStockLocationDto = Partial<CreateStockLocationDto>;
@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum StockMovementType {
+  RECEIPT = 'receipt',
+  SALE = 'sale',
+  RETURN = 'return',
+  ADJUSTMENT = 'adjustment',
+  TRANSFER = 'transfer'
+}
+
+export enum StockAdjustmentReason {
+  OPENING_BALANCE = 'opening_balance', // stock on hand when the ledger was started
+  COUNT_CORRECTION = 'count_correction',
+  DAMAGED = 'damaged',
+  LOST = 'lost',
+  FOUND = 'found',
+  EXPIRED = 'expired',
+  OTHER = 'other'
+}
+
+// One signed change of stock at one location. Product and variant quantities are the sum of their movements.
+export interface IStockMovement extends Document {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  locationId: mongoose.Types.ObjectId;
+  type: StockMovementType;
+  quantity: number; // positive adds stock, negative removes it
+  reason?: StockAdjustmentReason;
+  note?: string;
+  orderId?: mongoose.Types.ObjectId;
+  transferId?: mongoose.Types.ObjectId; // shared by the outgoing and incoming legs of a transfer
+  createdBy?: mongoose.Types.ObjectId;
+  apiKeyId?: mongoose.Types.ObjectId; // set when recorded through an API key
+  createdAt: Date;
+}
+
+const StockMovementSchema = new Schema<IStockMovement>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ProductVariant'
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'StockLocation',
+      required: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(StockMovementType),
+      required: true
+    },
+    quantity: {
+      type: Number,
+      required: true
+    },
+    reason: {
+      type: String,
+      enum: Object.values(StockAdjustmentReason)
+    },
+    note: {
+      type: String,
+      trim: true
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order'
+    },
+    transferId: {
+      type: Schema.Types.ObjectId
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    apiKeyId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ApiKey'
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+StockMovementSchema.index({ productId: 1, variantId: 1, locationId: 1 });
+StockMovementSchema.index({ productId: 1, createdAt: -1 });
+StockMovementSchema.index({ orderId: 1 });
+
+export const StockMovement = mongoose.model<IStockMovement>('StockMovement', StockMovementSchema);
+
+export interface StockAdjustmentDto {
+  productId: string;
+  variantId?: string;
+  locationId: string;
+  quantity: number;
+  reason: StockAdjustmentReason;
+  note?: string;
+}
+
+export interface StockReceiptDto {
+  productId: string;
+  variantId?: string;
+  locationId: string;
+  quantity: number;
+  note?: string;
+}
+
+export interface StockTransferDto {
+  productId: string;
+  variantId?: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  note?: string;
+}
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ReservationStatus {
+  ACTIVE = 'active',
+  COMMITTED = 'committed', // stock taken out of quantity once the order was paid or confirmed
+  RELEASED = 'released', // given back on cancellation or payment failure
+  EXPIRED = 'expired' // given back because payment did not arrive before expiresAt
+}
+
+export interface IStockReservation extends Document {
+  orderId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  quantity: number;
+  status: ReservationStatus;
+  expiresAt: Date;
+  releasedAt?: Date;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StockReservationSchema = new Schema<IStockReservation>(
+  {
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+      index: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ProductVariant'
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    status: {
+      type: String,
+      enum: Object.values(ReservationStatus),
+      default: ReservationStatus.ACTIVE
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    releasedAt: {
+      type: Date
+    },
+    reason: {
+      type: String
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+StockReservationSchema.index({ status: 1, expiresAt: 1 });
+
+export const StockReservation = mongoose.model<IStockReservation>('StockReservation', StockReservationSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITaxClass extends Document {
+  name: string;
+  code: string;
+  description?: string;
+  isDefault: boolean; // used for products and categories without a tax class
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TaxClassSchema = new Schema<ITaxClass>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Tax class name is required'],
+      trim: true
+    },
+    code: {
+      type: String,
+      required: [true, 'Tax class code is required'],
+      unique: true,
+      trim: true,
+      lowercase: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    isDefault: {
+      type: Boolean,
+      default: false
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const TaxClass = mongoose.model<ITaxClass>('TaxClass', TaxClassSchema);
+
+export interface CreateTaxClassDto {
+  name: string;
+  code: string;
+  description?: string;
+  isDefault?: boolean;
+}
+
+export type UpdateTaxClassDto = Partial<CreateTaxClassDto>;
@@ -0,0 +1,46 @@
+import { Schema } from 'mongoose';
+
+// Tax charged on one cart or order line
+export interface ITaxLine {
+  itemId: string;
+  productId: string;
+  taxClass?: string;
+  name?: string;
+  rate: number; // percentage
+  taxableAmount: number; // net amount the rate applies to
+  tax: number;
+}
+
+export const TaxLineSchema = new Schema<ITaxLine>(
+  {
+    itemId: {
+      type: String,
+      required: true
+    },
+    productId: {
+      type: String,
+      required: true
+    },
+    taxClass: {
+      type: String
+    },
+    name: {
+      type: String
+    },
+    rate: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    taxableAmount: {
+      type: Number,
+      required: true
+    },
+    tax: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  { _id: false }
+);
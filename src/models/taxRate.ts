@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITaxRate extends Document {
+  taxClassId: mongoose.Types.ObjectId;
+  name: string; // shown on invoices, e.g. "VAT" or "CA State Tax"
+  country: string; // ISO 3166-1 alpha-2
+  region?: string; // when set, only applies to this region and wins over the country-wide rate
+  rate: number; // percentage, e.g. 20 for 20%
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TaxRateSchema = new Schema<ITaxRate>(
+  {
+    taxClassId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaxClass',
+      required: true
+    },
+    name: {
+      type: String,
+      required: [true, 'Tax rate name is required'],
+      trim: true
+    },
+    country: {
+      type: String,
+      required: [true, 'Country is required'],
+      trim: true,
+      uppercase: true
+    },
+    region: {
+      type: String,
+      trim: true,
+      uppercase: true
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: [0, 'Rate cannot be negative'],
+      max: [100, 'Rate cannot exceed 100%']
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+TaxRateSchema.index({ taxClassId: 1, country: 1, region: 1 }, { unique: true });
+
+export const TaxRate = mongoose.model<ITaxRate>('TaxRate', TaxRateSchema);
+
+export interface CreateTaxRateDto {
+  taxClassId: string;
+  name: string;
+  country: string;
+  region?: string;
+  rate: number;
+  isActive?: boolean;
+}
+
+export type UpdateTaxRateDto = Partial<CreateTaxRateDto>;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { AddressBookEntrySchema, IAddressBookEntry } from './address';
 
 export enum UserRole {
   ADMIN = 'admin',
@@ -13,8 +14,21 @@ export interface IUser extends Document {
   lastName: string;
   role: UserRole; 
   profileImage?: string;
+  addresses: mongoose.Types.DocumentArray<IAddressBookEntry>;
+  defaultShippingAddressId?: mongoose.Types.ObjectId;
+  defaultBillingAddressId?: mongoose.Types.ObjectId;
   resetToken?: string;
   resetTokenExpiry?: number;
+  emailVerified: boolean;
+  pendingEmail?: string; // new address of an email change, applied once confirmed
+  emailVerificationToken?: string;
+  emailVerificationExpiry?: number;
+  emailVerificationSentAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // base32 TOTP secret
+  twoFactorPendingSecret?: string; // secret being enrolled, until the first code confirms it
+  twoFactorRecoveryCodes: string[]; // SHA-256 hashes of the unused recovery codes
+  twoFactorLastUsedStep?: number; // TOTP time step of the last accepted code, to refuse replays
   createdAt: Date;
   updatedAt: Date;
 }
@@ -55,6 +69,16 @@ const UserSchema = new Schema<IUser>(
     profileImage: { 
     type: String
   },
+    addresses: {
+      type: [AddressBookEntrySchema],
+      default: []
+    },
+    defaultShippingAddressId: {
+      type: Schema.Types.ObjectId
+    },
+    defaultBillingAddressId: {
+      type: Schema.Types.ObjectId
+    },
     resetToken: {
       type: String,
       default: undefined
@@ -62,6 +86,45 @@ const UserSchema = new Schema<IUser>(
     resetTokenExpiry: {
       type: Number,
       default: undefined
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false
+    },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email']
+    },
+    emailVerificationToken: {
+      type: String,
+      default: undefined,
+      index: { sparse: true }
+    },
+    emailVerificationExpiry: {
+      type: Number,
+      default: undefined
+    },
+    emailVerificationSentAt: {
+      type: Date
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false
+    },
+    twoFactorSecret: {
+      type: String
+    },
+    twoFactorPendingSecret: {
+      type: String
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: []
+    },
+    twoFactorLastUsedStep: {
+      type: Number
     }
   },
   {
@@ -106,12 +169,38 @@ export interface ForgotPasswordDto {
   email: string;
 }
 
+export interface VerifyEmailDto {
+  token: string;
+}
+
+export interface TwoFactorLoginDto {
+  challengeToken: string;
+  code: string; // TOTP code or recovery code
+}
+
+export interface TwoFactorCodeDto {
+  code: string;
+}
+
+export interface DisableTwoFactorDto {
+  password: string;
+  code: string;
+}
+
+export interface ChangeEmailDto {
+  newEmail: string;
+  password: string;
+}
+
 export interface UserResponse {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
   role: UserRole;
+  emailVerified: boolean;
+  pendingEmail?: string;
+  twoFactorEnabled: boolean;
   createdAt: Date;
 }
 
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Store credit of a customer, kept in the base currency.
+// The balance only changes together with a WalletTransaction (see walletService).
+export interface IWallet extends Document {
+  userId: mongoose.Types.ObjectId;
+  balance: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletSchema = new Schema<IWallet>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true
+    },
+    balance: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+export const Wallet = mongoose.model<IWallet>('Wallet', WalletSchema);
+
+export interface WalletAdjustmentDto {
+  amount: number;
+  reason: string;
+}
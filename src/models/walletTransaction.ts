@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum WalletTransactionType {
+  CREDIT = 'credit',
+  DEBIT = 'debit'
+}
+
+export enum WalletTransactionSource {
+  ADMIN = 'admin', // goodwill credit or manual correction
+  ORDER = 'order', // balance spent at checkout
+  ORDER_CANCELLED = 'order_cancelled', // balance given back when an order is cancelled
+  RETURN = 'return' // refund of a return as store credit
+}
+
+// One entry of the wallet ledger. Entries are never updated or deleted; corrections are new entries.
+export interface IWalletTransaction extends Document {
+  walletId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: WalletTransactionType;
+  source: WalletTransactionSource;
+  amount: number; // always positive, in the base currency
+  balanceAfter: number;
+  reason?: string;
+  orderId?: mongoose.Types.ObjectId;
+  returnId?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const WalletTransactionSchema = new Schema<IWalletTransaction>(
+  {
+    walletId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Wallet',
+      required: true,
+      immutable: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      immutable: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(WalletTransactionType),
+      required: true,
+      immutable: true
+    },
+    source: {
+      type: String,
+      enum: Object.values(WalletTransactionSource),
+      required: true,
+      immutable: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0.01,
+      immutable: true
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+      min: 0,
+      immutable: true
+    },
+    reason: {
+      type: String,
+      trim: true,
+      immutable: true
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      immutable: true
+    },
+    returnId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReturnRequest',
+      immutable: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      immutable: true
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+);
+
+WalletTransactionSchema.index({ userId: 1, createdAt: -1 });
+WalletTransactionSchema.index({ orderId: 1 });
+
+// The ledger is append-only
+const rejectChange = () => {
+  throw new Error('Wallet transactions are immutable');
+};
+WalletTransactionSchema.pre('save', function() {
+  if (!this.isNew) rejectChange();
+});
+WalletTransactionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectChange
+);
+
+export const WalletTransaction = mongoose.model<IWalletTransaction>('WalletTransaction', WalletTransactionSchema);
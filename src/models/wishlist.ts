@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWishlistItem {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  variantName?: string;
+  productName: string;
+  priceWhenAdded: number; // base currency, to show price changes since the item was saved
+  addedAt: Date;
+}
+
+export interface IWishlist extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  items: IWishlistItem[];
+  shareToken?: string; // set while the list is shared; gives read-only access without login
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WishlistItemSchema = new Schema<IWishlistItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ProductVariant'
+    },
+    variantName: {
+      type: String
+    },
+    productName: {
+      type: String,
+      required: true
+    },
+    priceWhenAdded: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: true }
+);
+
+const WishlistSchema = new Schema<IWishlist>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    name: {
+      type: String,
+      required: [true, 'Wishlist name is required'],
+      trim: true,
+      maxlength: [100, 'Wishlist name cannot exceed 100 characters']
+    },
+    items: {
+      type: [WishlistItemSchema],
+      default: []
+    },
+    shareToken: {
+      type: String,
+      unique: true,
+      sparse: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+WishlistSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export const Wishlist = mongoose.model<IWishlist>('Wishlist', WishlistSchema);
+
+export interface CreateWishlistDto {
+  name: string;
+}
+
+export interface UpdateWishlistDto {
+  name: string;
+}
+
+export interface AddToWishlistDto {
+  productId: string;
+  variantId?: string;
+}
+
+export interface MoveToCartDto {
+  quantity?: number;
+  variantId?: string; // for items saved without a variant
+}
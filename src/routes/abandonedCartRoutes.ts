@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { getAbandonedCartStats } from '../controllers/abandonedCartController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/abandoned-carts/stats:
+ *   get:
+ *     summary: Abandoned cart statistics (Admin)
+ *     description: |
+ *       Carts idle longer than ABANDONED_CART_AFTER_HOURS count as abandoned and get up to ABANDONED_CART_MAX_REMINDERS
+ *       recovery emails. abandonmentRate = carts left without an order / (abandoned carts + orders placed without
+ *       abandoning first); recoveryRate = abandoned carts later ordered / abandoned carts. Values are in the base currency.
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 30 days before `to`
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *     responses:
+ *       200:
+ *         description: Statistics for carts abandoned in the period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AbandonedCartStats'
+ *       400:
+ *         description: Invalid date range
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/stats', authenticate, requireAdmin, getAbandonedCartStats);
+
+export default router;
@@ -3,11 +3,22 @@ import {
   getAllOrders,
   updateOrderStatus
 } from '../controllers/orderController';
+import { captureOrderPayment, refundOrder } from '../controllers/paymentController';
+import {
+  getOrderShipments,
+  createShipment,
+  updateShipment,
+  deleteShipment
+} from '../controllers/shipmentController';
+import { getOrderReturns } from '../controllers/returnController';
 import { authenticate } from '../middleware/auth';
-import { requireAdmin } from '../middleware/accessControl';
+import { requireAdmin, requireScope } from '../middleware/accessControl';
+import { ApiKeyScope } from '../models/apiKey';
 import {
   validateOrderStatus,
-  validateMongoId
+  validateMongoId,
+  validateRefund,
+  validateShipment
 } from '../middleware/validation';
 
 const router = Router();
@@ -28,6 +39,7 @@ const router = Router();
  *     tags: [Admin - Orders]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: query
  *         name: status
@@ -93,17 +105,21 @@ const router = Router();
  *       500:
  *         description: Server error
  */
-router.get('/', authenticate, requireAdmin, getAllOrders);
+router.get('/', authenticate, requireScope(ApiKeyScope.ORDERS_READ), requireAdmin, getAllOrders);
 
 /**
  * @swagger
  * /api/admin/orders/{id}/status:
  *   patch:
  *     summary: Update order status (Admin)
- *     description: Updates the status of an order. Restores inventory if cancelling.
+ *     description: |
+ *       Updates the status of an order. Restores inventory if cancelling.
+ *       Allowed transitions: pending → confirmed | cancelled, confirmed → shipped | cancelled, shipped → delivered.
+ *       Shipped and delivered follow the order's shipments and are refused (409) while shipments are incomplete.
  *     tags: [Admin - Orders]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -145,7 +161,105 @@ router.get('/', authenticate, requireAdmin, getAllOrders);
  *                   example: false
  *                 error:
  *                   type: string
- *                   example: "Cannot update order with status: delivered"
+ *                   example: "Invalid status. Must be one of: pending, confirmed, shipped, delivered, cancelled"
+ *       409:
+ *         description: Transition not allowed from the current status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 error:
+ *                   type: string
+ *                   example: "Cannot change order status from shipped to pending"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     currentStatus:
+ *                       type: string
+ *                       example: shipped
+ *                     allowedTransitions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [delivered]
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Server error
+ */
+router.patch('/:id/status', authenticate, requireScope(ApiKeyScope.ORDERS_WRITE), requireAdmin, validateMongoId, validateOrderStatus, updateOrderStatus);
+
+/**
+ * @swagger
+ * /api/admin/orders/{id}/capture:
+ *   post:
+ *     summary: Capture authorized payment (Admin)
+ *     description: Captures a payment that was authorized with manual capture. The order is confirmed once captured.
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Payment captured
+ *       400:
+ *         description: Order has no authorized payment to capture
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       500:
+ *         description: Server error
+ */
+router.post('/:id/capture', authenticate, requireAdmin, validateMongoId, captureOrderPayment);
+
+/**
+ * @swagger
+ * /api/admin/orders/{id}/refund:
+ *   post:
+ *     summary: Refund order (Admin)
+ *     description: Refunds captured payments of an order. Omit amount for a full refund.
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 25.5
+ *               reason:
+ *                 type: string
+ *                 example: "Damaged item"
+ *     responses:
+ *       200:
+ *         description: Refund processed
+ *       400:
+ *         description: Invalid amount or nothing to refund
  *       401:
  *         description: Unauthorized
  *       403:
@@ -155,6 +269,154 @@ router.get('/', authenticate, requireAdmin, getAllOrders);
  *       500:
  *         description: Server error
  */
-router.patch('/:id/status', authenticate, requireAdmin, validateMongoId, validateOrderStatus, updateOrderStatus);
+router.post('/:id/refund', authenticate, requireAdmin, validateMongoId, validateRefund, refundOrder);
+
+/**
+ * @swagger
+ * /api/admin/orders/{id}/shipments:
+ *   get:
+ *     summary: Get order shipments (Admin)
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipments and fulfillment summary
+ *       404:
+ *         description: Order not found
+ *   post:
+ *     summary: Create shipment (Admin)
+ *     description: |
+ *       Records a parcel for a confirmed order. Omit items to ship everything not yet in a shipment.
+ *       The order becomes shipped once every item is in a shipped parcel, and delivered once all parcels are delivered.
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateShipmentRequest'
+ *     responses:
+ *       201:
+ *         description: Shipment created
+ *       400:
+ *         description: Invalid items or quantities
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order is not in a shippable status
+ */
+router.get('/:id/shipments', authenticate, requireScope(ApiKeyScope.ORDERS_READ), requireAdmin, validateMongoId, getOrderShipments);
+router.post('/:id/shipments', authenticate, requireScope(ApiKeyScope.ORDERS_WRITE), requireAdmin, validateMongoId, validateShipment, createShipment);
+
+/**
+ * @swagger
+ * /api/admin/orders/{id}/returns:
+ *   get:
+ *     summary: Get order returns (Admin)
+ *     description: Return requests of the order and how many units of each item can still be returned.
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Returns retrieved successfully
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:id/returns', authenticate, requireScope(ApiKeyScope.ORDERS_READ), requireAdmin, validateMongoId, getOrderReturns);
+
+/**
+ * @swagger
+ * /api/admin/orders/{id}/shipments/{shipmentId}:
+ *   patch:
+ *     summary: Update shipment (Admin)
+ *     description: Updates tracking details or moves the shipment forward (pending → shipped → delivered).
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: shipmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               carrier:
+ *                 type: string
+ *               trackingNumber:
+ *                 type: string
+ *               trackingUrl:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [pending, shipped, delivered]
+ *     responses:
+ *       200:
+ *         description: Shipment updated
+ *       404:
+ *         description: Shipment not found
+ *       409:
+ *         description: Shipment status cannot move backwards
+ *   delete:
+ *     summary: Delete pending shipment (Admin)
+ *     tags: [Admin - Orders]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: shipmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipment deleted
+ *       409:
+ *         description: Shipment was already handed to the carrier
+ */
+router.patch('/:id/shipments/:shipmentId', authenticate, requireScope(ApiKeyScope.ORDERS_WRITE), requireAdmin, validateMongoId, validateShipment, updateShipment);
+router.delete('/:id/shipments/:shipmentId', authenticate, requireScope(ApiKeyScope.ORDERS_WRITE), requireAdmin, validateMongoId, deleteShipment);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { createApiKey, getApiKeys, revokeApiKey } from '../controllers/apiKeyController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+import { validateApiKey, validateMongoId } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin - API Keys
+ *   description: |
+ *     Scoped keys for server-to-server integrations, sent as `Authorization: ApiKey <key>`.
+ *     Only endpoints documented with a scope accept them.
+ */
+
+/**
+ * @swagger
+ * /api/admin/api-keys:
+ *   get:
+ *     summary: Get API keys (Admin)
+ *     tags: [Admin - API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 count:
+ *                   type: integer
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Create API key (Admin)
+ *     description: The key is returned only once, in this response. Only its hash is stored.
+ *     tags: [Admin - API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateApiKeyRequest'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         key:
+ *                           type: string
+ *                           example: ak_1f2e3d4c_9a8b...
+ *       400:
+ *         description: Validation error
+ */
+router.get('/', authenticate, requireAdmin, getApiKeys);
+router.post('/', authenticate, requireAdmin, validateApiKey, createApiKey);
+
+/**
+ * @swagger
+ * /api/admin/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke API key (Admin)
+ *     description: The key stops working immediately. It stays listed with its usage history.
+ *     tags: [Admin - API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       400:
+ *         description: API key is already revoked
+ *       404:
+ *         description: API key not found
+ */
+router.delete('/:id', authenticate, requireAdmin, validateMongoId, revokeApiKey);
+
+export default router;
@@ -2,25 +2,62 @@ import { Router } from 'express';
 import {
   register,
   login,
+  loginTwoFactor,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
   getProfile,
   logout,
+  refreshToken,
+  getSessions,
+  revokeSession,
+  revokeAllUserSessions,
   changePassword,
+  verifyEmail,
+  resendVerificationEmail,
+  changeEmail,
   forgotPassword,
   resetPassword,
+  unlockAccount,
+  unlockUser,
   getAllUsers,
   getUser,
   updateUser,
   deleteUser
 } from '../controllers/authController';
+import {
+  getAddresses,
+  createAddress,
+  updateAddress,
+  deleteAddress
+} from '../controllers/addressController';
+import {
+  getMyWallet,
+  getUserWallet,
+  creditUserWallet,
+  debitUserWallet
+} from '../controllers/walletController';
 import {
   validateRegister,
   validateLogin,
   validatePasswordChange,
   validateForgotPassword,
   validateResetPassword,
-  validateUUID
+  validateUUID,
+  validateAddress,
+  validateWalletAdjustment,
+  validateRefreshToken,
+  validateMongoId,
+  validateVerifyEmail,
+  validateChangeEmail,
+  validateTwoFactorLogin,
+  validateTwoFactorCode,
+  validateDisableTwoFactor,
+  validateUnlockAccount
 } from '../middleware/validation';
 import { authenticate } from '../middleware/auth';
+import { checkAuthThrottle } from '../middleware/authThrottle';
+import { AuthThrottleScope } from '../models/authThrottle';
 import { requireAdmin } from '../middleware/accessControl';
 
 const router = Router();
@@ -30,6 +67,7 @@ const router = Router();
  * /api/auth/register:
  *   post:
  *     summary: Register a new user
+ *     description: A guest cart sent with the X-Cart-Token header or the cartToken cookie is merged into the new account.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -58,6 +96,15 @@ router.post('/register', validateRegister, register);
  * /api/auth/login:
  *   post:
  *     summary: Login user
+ *     description: |
+ *       A guest cart sent with the X-Cart-Token header or the cartToken cookie is merged into the user's cart:
+ *       quantities add up, capped at the available stock. The merged cart is returned, with a warning for items left out or reduced.
+ *
+ *       When two-factor authentication is enabled, no tokens are returned: the response has `twoFactorRequired: true` and a
+ *       `challengeToken` (valid 5 minutes) to send with a code to /api/auth/login/2fa.
+ *
+ *       Failed attempts are limited per account and per IP: each failure doubles the wait before the next attempt, and
+ *       repeated failures lock the account for a while. The owner is emailed a link to unlock it.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -74,8 +121,153 @@ router.post('/register', validateRegister, register);
  *               $ref: '#/components/schemas/AuthResponse'
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many failed attempts; retry after the number of seconds in retryAfter
+ */
+router.post('/login', validateLogin, checkAuthThrottle(AuthThrottleScope.LOGIN), login);
+
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Complete login with a two-factor code
+ *     description: Accepts a code from the authenticator app or one of the recovery codes, which can then not be used again.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *               device:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       401:
+ *         description: Invalid code or expired challenge token
+ */
+router.post('/login/2fa', validateTwoFactorLogin, loginTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Returns a new TOTP secret and its otpauth URI for an authenticator app. 2FA is enabled once a code is confirmed.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: 'otpauth://totp/E-commerce%20API%3Auser%40example.com?secret=...&issuer=E-commerce+API'
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/setup', authenticate, setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: Enables 2FA and returns the recovery codes, shown only this once. Other sessions are logged out.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid code, no setup started, or already enabled
+ */
+router.post('/2fa/confirm', authenticate, validateTwoFactorCode, confirmTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Authenticator code or recovery code
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       401:
+ *         description: Password or code is incorrect
+ *       403:
+ *         description: Two-factor authentication is required for the user's role
  */
-router.post('/login', validateLogin, login);
+router.post('/2fa/disable', authenticate, validateDisableTwoFactor, disableTwoFactor);
 
 /**
  * @swagger
@@ -107,6 +299,7 @@ router.get('/profile', authenticate, getProfile);
  * /api/auth/logout:
  *   post:
  *     summary: Logout user
+ *     description: Invalidates the access token and revokes its session, so that its refresh token stops working.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -118,6 +311,95 @@ router.get('/profile', authenticate, getProfile);
  */
 router.post('/logout', authenticate, logout);
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh the access token
+ *     description: |
+ *       Exchanges a refresh token for a new access token and a new refresh token. A refresh token can be used once;
+ *       presenting an already used token revokes the whole session, on every device that holds it.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/refresh', validateRefreshToken, refreshToken);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: One entry per logged in device. The session of the current access token is marked current.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 count:
+ *                   type: integer
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Session'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/sessions', authenticate, getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Logs out one device. Its access and refresh tokens stop working immediately.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:id', authenticate, validateMongoId, revokeSession);
+
 /**
  * @swagger
  * /api/auth/change-password:
@@ -149,6 +431,151 @@ router.post('/logout', authenticate, logout);
  */
 router.post('/change-password', authenticate, validatePasswordChange, changePassword);
 
+/**
+ * @swagger
+ * /api/auth/addresses:
+ *   get:
+ *     summary: Get address book
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved addresses with default flags
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 count:
+ *                   type: integer
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AddressBookEntry'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *   post:
+ *     summary: Add address
+ *     description: The first address becomes the default shipping and billing address.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/Address'
+ *               - type: object
+ *                 properties:
+ *                   label:
+ *                     type: string
+ *                     example: Home
+ *                   isDefaultShipping:
+ *                     type: boolean
+ *                   isDefaultBilling:
+ *                     type: boolean
+ *     responses:
+ *       201:
+ *         description: Address added
+ *       400:
+ *         description: Invalid address
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/addresses', authenticate, getAddresses);
+router.post('/addresses', authenticate, validateAddress, createAddress);
+
+/**
+ * @swagger
+ * /api/auth/wallet:
+ *   get:
+ *     summary: Get own store credit balance and transactions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Wallet balance (base currency) and transactions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 pagination:
+ *                   type: object
+ *                 data:
+ *                   $ref: '#/components/schemas/Wallet'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/wallet', authenticate, getMyWallet);
+
+/**
+ * @swagger
+ * /api/auth/addresses/{addressId}:
+ *   put:
+ *     summary: Update address
+ *     description: Send only the fields to change. Set isDefaultShipping / isDefaultBilling to change defaults.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: addressId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AddressBookEntry'
+ *     responses:
+ *       200:
+ *         description: Address updated
+ *       400:
+ *         description: Invalid address
+ *       404:
+ *         description: Address not found
+ *   delete:
+ *     summary: Delete address
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: addressId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Address deleted
+ *       404:
+ *         description: Address not found
+ */
+router.put('/addresses/:addressId', authenticate, validateAddress, updateAddress);
+router.delete('/addresses/:addressId', authenticate, deleteAddress);
+
 /**
  * @swagger
  * /api/auth/forgot-password:
@@ -170,8 +597,10 @@ router.post('/change-password', authenticate, validatePasswordChange, changePass
  *     responses:
  *       200:
  *         description: Reset token generated
+ *       429:
+ *         description: Too many attempts; retry after the number of seconds in retryAfter
  */
-router.post('/forgot-password', validateForgotPassword, forgotPassword);
+router.post('/forgot-password', validateForgotPassword, checkAuthThrottle(AuthThrottleScope.FORGOT_PASSWORD), forgotPassword);
 
 /**
  * @swagger
@@ -199,8 +628,119 @@ router.post('/forgot-password', validateForgotPassword, forgotPassword);
  *         description: Password reset successfully
  *       400:
  *         description: Invalid or expired token
+ *       429:
+ *         description: Too many attempts; retry after the number of seconds in retryAfter
+ */
+router.post('/reset-password', validateResetPassword, checkAuthThrottle(AuthThrottleScope.RESET_PASSWORD), resetPassword);
+
+/**
+ * @swagger
+ * /api/auth/unlock:
+ *   post:
+ *     summary: Unlock account with token
+ *     description: Lifts a lockout after failed logins, using the token of the account locked email.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/unlock', validateUnlockAccount, unlockAccount);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify email with token
+ *     description: Confirms the account email, or the new address of a pending email change, which then replaces the current email.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Invalid or expired token
+ *       409:
+ *         description: The new email has been taken by another account in the meantime
  */
-router.post('/reset-password', validateResetPassword, resetPassword);
+router.post('/verify-email', validateVerifyEmail, verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Resend the verification email
+ *     description: Sends a new link to the unverified account email or to the pending new email. Earlier links stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email is already verified
+ *       429:
+ *         description: Sent too recently; retry after the number of seconds in retryAfter
+ */
+router.post('/resend-verification', authenticate, resendVerificationEmail);
+
+/**
+ * @swagger
+ * /api/auth/change-email:
+ *   post:
+ *     summary: Change email
+ *     description: Sends a confirmation link to the new address. The account keeps its current email until the link is used.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newEmail
+ *               - password
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Confirmation sent to the new address
+ *       401:
+ *         description: Password is incorrect
+ *       409:
+ *         description: Email already in use
+ *       429:
+ *         description: Verification email sent too recently
+ */
+router.post('/change-email', authenticate, validateChangeEmail, changeEmail);
 
 /**
  * @swagger
@@ -261,6 +801,7 @@ router.get('/users/:id', authenticate, requireAdmin, validateUUID, getUser);
  * /api/auth/users/{id}:
  *   put:
  *     summary: Update user (Admin only)
+ *     description: A new email is sent a confirmation link and replaces the current email once confirmed.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -317,4 +858,198 @@ router.put('/users/:id', authenticate, requireAdmin, validateUUID, updateUser);
  */
 router.delete('/users/:id', authenticate, requireAdmin, validateUUID, deleteUser);
 
+/**
+ * @swagger
+ * /api/auth/users/{id}/sessions:
+ *   delete:
+ *     summary: Log a user out everywhere (Admin only)
+ *     description: Revokes every session of the user, e.g. after a suspected account compromise.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User logged out of all sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revokedSessions:
+ *                       type: integer
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: User not found
+ */
+router.delete('/users/:id/sessions', authenticate, requireAdmin, validateUUID, revokeAllUserSessions);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user locked out after failed logins (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User unlocked successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: User not found
+ */
+router.post('/users/:id/unlock', authenticate, requireAdmin, validateUUID, unlockUser);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/wallet:
+ *   get:
+ *     summary: Get the store credit balance and transactions of a user (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Wallet balance and transactions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 pagination:
+ *                   type: object
+ *                 data:
+ *                   $ref: '#/components/schemas/Wallet'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/users/:id/wallet', authenticate, requireAdmin, validateUUID, getUserWallet);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/wallet/credit:
+ *   post:
+ *     summary: Issue store credit to a user (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WalletAdjustmentRequest'
+ *     responses:
+ *       201:
+ *         description: Store credit issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/WalletTransaction'
+ *       400:
+ *         description: Invalid amount or missing reason
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/users/:id/wallet/credit', authenticate, requireAdmin, validateUUID, validateWalletAdjustment, creditUserWallet);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/wallet/debit:
+ *   post:
+ *     summary: Remove store credit from a user (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WalletAdjustmentRequest'
+ *     responses:
+ *       201:
+ *         description: Store credit removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/WalletTransaction'
+ *       400:
+ *         description: Invalid amount or missing reason
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Insufficient balance
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/users/:id/wallet/debit', authenticate, requireAdmin, validateUUID, validateWalletAdjustment, debitUserWallet);
+
 export default router;
\ No newline at end of file
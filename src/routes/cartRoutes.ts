@@ -5,10 +5,14 @@ import {
   updateCartItem,
   removeFromCart,
   clearCart,
-  createCart
+  createCart,
+  applyCoupon,
+  removeCoupon,
+  getShippingOptions
 } from '../controllers/cartController';
-import { validateCartItem, validateUUID } from '../middleware/validation';
-import { authenticate } from '../middleware/auth';
+import { validateCartItem, validateUUID, validateApplyCoupon, validateRecoverCart } from '../middleware/validation';
+import { recoverCart } from '../controllers/abandonedCartController';
+import { authenticate, authenticateOrGuest } from '../middleware/auth';
 
 const router = Router();
 
@@ -17,9 +21,21 @@ const router = Router();
  * /api/cart:
  *   get:
  *     summary: Get user's cart
+ *     description: |
+ *       Passing a currency switches the cart to it; items are repriced at the current exchange rate.
+ *       Without login, a guest cart is used: the response includes a cartToken (also set as the cartToken cookie)
+ *       to send back in the X-Cart-Token header. The guest cart is merged into the user's cart on login or registration.
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - cartToken: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to price the cart in (or X-Currency header)
  *     responses:
  *       200:
  *         description: User's cart
@@ -30,12 +46,67 @@ const router = Router();
  *               properties:
  *                 success:
  *                   type: boolean
+ *                 cartToken:
+ *                   type: string
+ *                   description: Guests only
  *                 data:
  *                   $ref: '#/components/schemas/Cart'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.get('/', authenticate, getCart);
+router.get('/', authenticateOrGuest, getCart);
+
+/**
+ * @swagger
+ * /api/cart/shipping-options:
+ *   get:
+ *     summary: Quote shipping methods for the cart
+ *     description: Uses the country of the given address, the country parameter, or the default shipping address.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - cartToken: []
+ *     parameters:
+ *       - in: query
+ *         name: addressId
+ *         schema:
+ *           type: string
+ *         description: Address book entry to ship to
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *           example: US
+ *     responses:
+ *       200:
+ *         description: Available methods with their cost, cheapest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 count:
+ *                   type: integer
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     country:
+ *                       type: string
+ *                     weight:
+ *                       type: number
+ *                       description: Cart weight in kg
+ *                     options:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ShippingOption'
+ *       400:
+ *         description: Cart is empty or no destination given
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/shipping-options', authenticateOrGuest, getShippingOptions);
 
 
 /**
@@ -46,6 +117,7 @@ router.get('/', authenticate, getCart);
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - cartToken: []
  *     requestBody:
  *       required: true
  *       content:
@@ -54,11 +126,53 @@ router.get('/', authenticate, getCart);
  *             $ref: '#/components/schemas/AddToCartRequest'
  *     responses:
  *       200:
- *         description: Item added to cart
+ *         description: Item added to cart (guests also get their cartToken)
  *       400:
  *         description: Insufficient stock
  */
-router.post('/items', authenticate, validateCartItem, addToCart);
+router.post('/items', authenticateOrGuest, validateCartItem, addToCart);
+
+/**
+ * @swagger
+ * /api/cart/recover:
+ *   post:
+ *     summary: Restore a cart from a reminder email
+ *     description: |
+ *       Puts the items of an abandoned cart back into the cart, with the usual stock checks.
+ *       Items already in the cart are kept as they are. The token comes from the link in the reminder email.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Cart restored; a warning lists items that could not be restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 warning:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *       404:
+ *         description: Unknown token, or the cart belongs to another customer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/recover', authenticate, validateRecoverCart, recoverCart);
 
 /**
  * @swagger
@@ -68,6 +182,7 @@ router.post('/items', authenticate, validateCartItem, addToCart);
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - cartToken: []
  *     parameters:
  *       - in: path
  *         name: itemId
@@ -92,7 +207,7 @@ router.post('/items', authenticate, validateCartItem, addToCart);
  *       400:
  *         description: Insufficient stock
  */
-router.put('/items/:itemId', authenticate, validateUUID, updateCartItem);
+router.put('/items/:itemId', authenticateOrGuest, validateUUID, updateCartItem);
 
 /**
  * @swagger
@@ -102,6 +217,7 @@ router.put('/items/:itemId', authenticate, validateUUID, updateCartItem);
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - cartToken: []
  *     parameters:
  *       - in: path
  *         name: itemId
@@ -112,7 +228,7 @@ router.put('/items/:itemId', authenticate, validateUUID, updateCartItem);
  *       200:
  *         description: Item removed from cart
  */
-router.delete('/items/:itemId', authenticate, validateUUID, removeFromCart);
+router.delete('/items/:itemId', authenticateOrGuest, validateUUID, removeFromCart);
 
 /**
  * @swagger
@@ -122,11 +238,58 @@ router.delete('/items/:itemId', authenticate, validateUUID, removeFromCart);
  *     tags: [Cart]
  *     security:
  *       - bearerAuth: []
+ *       - cartToken: []
  *     responses:
  *       200:
  *         description: Cart cleared
  */
-router.delete('/', authenticate, clearCart);
+router.delete('/', authenticateOrGuest, clearCart);
+
+/**
+ * @swagger
+ * /api/cart/coupon:
+ *   post:
+ *     summary: Apply coupon to cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - cartToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: SUMMER10
+ *     responses:
+ *       200:
+ *         description: Coupon applied with discount breakdown
+ *       400:
+ *         description: Coupon not applicable (expired, min spend, usage limit, scope)
+ *       404:
+ *         description: Invalid coupon code
+ */
+router.post('/coupon', authenticateOrGuest, validateApplyCoupon, applyCoupon);
+
+/**
+ * @swagger
+ * /api/cart/coupon:
+ *   delete:
+ *     summary: Remove coupon from cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - cartToken: []
+ *     responses:
+ *       200:
+ *         description: Coupon removed
+ */
+router.delete('/coupon', authenticateOrGuest, removeCoupon);
 
 
 export default router;
\ No newline at end of file
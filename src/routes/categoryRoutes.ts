@@ -2,11 +2,24 @@ import { Router } from 'express';
 import {
   getAllCategories,
   getCategory,
+  getCategoryTree,
+  getCategoryBySlug,
   createCategory,
   updateCategory,
-  deleteCategory
+  deleteCategory,
+  uploadCategoryImage,
+  deleteCategoryImage,
+  getCategoryAttributeSet,
+  updateCategoryAttributes
 } from '../controllers/categoryController';
-import { validateCategory, validateUUID } from '../middleware/validation';
+import {
+  validateCategory,
+  validateCategoryAttributes,
+  validateCategoryImageType,
+  validateCategoryUpdate,
+  validateUUID
+} from '../middleware/validation';
+import { uploadCategoryImageCloudinary, handleCloudinaryError } from '../middleware/cloudinaryUpload';
 import { authenticate } from '../middleware/auth';
 import { requireAdmin } from '../middleware/accessControl';
 
@@ -37,6 +50,55 @@ const router = Router();
  */
 router.get('/', getAllCategories);
 
+/**
+ * @swagger
+ * /api/categories/tree:
+ *   get:
+ *     summary: Get the category tree
+ *     description: Top-level categories with their subcategories nested under `children`, siblings ordered by sortOrder then name
+ *     tags: [Categories]
+ *     responses:
+ *       200:
+ *         description: Category tree
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CategoryTreeNode'
+ */
+router.get('/tree', getCategoryTree);
+
+/**
+ * @swagger
+ * /api/categories/slug/{slug}:
+ *   get:
+ *     summary: Get category by slug
+ *     description: |
+ *       Same response as GET /api/categories/{id}, with SEO metadata, breadcrumbs and direct children.
+ *       A previous slug of a renamed category answers 301 with the canonical URL in Location.
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Category details
+ *       301:
+ *         description: Old slug; redirects to the canonical slug
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/slug/:slug', getCategoryBySlug);
+
 /**
  * @swagger
  * /api/categories/{id}:
@@ -51,7 +113,7 @@ router.get('/', getAllCategories);
  *           type: string
  *     responses:
  *       200:
- *         description: Category details
+ *         description: Category details with breadcrumbs (root first) and direct children
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
@@ -102,21 +164,50 @@ router.post('/', authenticate, requireAdmin, validateCategory, createCategory);
  *             properties:
  *               name:
  *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: The previous slug keeps resolving with a redirect
  *               description:
  *                 type: string
+ *               metaTitle:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 70
+ *                 description: null falls back to the name
+ *               metaDescription:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 160
+ *                 description: null falls back to the description
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Moves the category and its subtree; null moves it to the top level
+ *               sortOrder:
+ *                 type: integer
+ *               taxClassId:
+ *                 type: string
+ *                 nullable: true
  *     responses:
  *       200:
  *         description: Category updated successfully
+ *       400:
+ *         description: Invalid input, or the new parent is the category itself or one of its subcategories
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Name or slug already taken
  */
-router.put('/:id', authenticate, requireAdmin, validateUUID, updateCategory);
+router.put('/:id', authenticate, requireAdmin, validateUUID, validateCategoryUpdate, updateCategory);
 
 /**
  * @swagger
  * /api/categories/{id}:
  *   delete:
  *     summary: Delete category (Admin only)
+ *     description: |
+ *       Subcategories move up to the parent of the deleted category. Products move to `moveProductsTo`,
+ *       or to the parent when it is not given; deleting a top-level category with products requires `moveProductsTo`.
  *     tags: [Categories]
  *     security:
  *       - bearerAuth: []
@@ -126,12 +217,224 @@ router.put('/:id', authenticate, requireAdmin, validateUUID, updateCategory);
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: moveProductsTo
+ *         schema:
+ *           type: string
+ *         description: ID of the category that receives the products
  *     responses:
  *       200:
- *         description: Category deleted successfully
+ *         description: Category deleted, with the number of moved products and reparented subcategories
+ *       400:
+ *         description: Top-level category has products and no moveProductsTo was given
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  */
 router.delete('/:id', authenticate, requireAdmin, validateUUID, deleteCategory);
 
+/**
+ * @swagger
+ * /api/categories/{id}/image:
+ *   post:
+ *     summary: Upload or replace a category image (Admin only)
+ *     description: Stores the banner or thumbnail on Cloudinary; a replaced image is deleted from Cloudinary
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [banner, thumbnail]
+ *           default: banner
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Image uploaded; returns the updated category
+ *       400:
+ *         description: No file, invalid file or invalid image type
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   put:
+ *     summary: Replace a category image (Admin only)
+ *     description: Same as POST
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [banner, thumbnail]
+ *           default: banner
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Image replaced; returns the updated category
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   delete:
+ *     summary: Delete a category image (Admin only)
+ *     description: Removes the image from the category and from Cloudinary
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [banner, thumbnail]
+ *           default: banner
+ *     responses:
+ *       200:
+ *         description: Image deleted
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Category not found or it has no image of this type
+ */
+router.post(
+  '/:id/image',
+  authenticate,
+  requireAdmin,
+  validateUUID,
+  validateCategoryImageType,
+  uploadCategoryImageCloudinary,
+  handleCloudinaryError,
+  uploadCategoryImage
+);
+router.put(
+  '/:id/image',
+  authenticate,
+  requireAdmin,
+  validateUUID,
+  validateCategoryImageType,
+  uploadCategoryImageCloudinary,
+  handleCloudinaryError,
+  uploadCategoryImage
+);
+router.delete('/:id/image', authenticate, requireAdmin, validateUUID, validateCategoryImageType, deleteCategoryImage);
+
+/**
+ * @swagger
+ * /api/categories/{id}/attributes:
+ *   get:
+ *     summary: Get the attribute set of a category
+ *     description: |
+ *       `attributes` are defined on the category itself. `effectiveAttributes` add the attributes inherited
+ *       from its ancestors and are the ones its products fill in.
+ *     tags: [Categories]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attribute set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     categoryId:
+ *                       type: string
+ *                     attributes:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CategoryAttribute'
+ *                     effectiveAttributes:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CategoryAttribute'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   put:
+ *     summary: Replace the attribute set of a category (Admin only)
+ *     description: |
+ *       Subcategories inherit the attributes; a subcategory attribute with the same key replaces the inherited one.
+ *       Existing products are checked against the new set the next time they are updated.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - attributes
+ *             properties:
+ *               attributes:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/CategoryAttribute'
+ *     responses:
+ *       200:
+ *         description: Attribute set updated
+ *       400:
+ *         description: Invalid attribute definitions
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/attributes', validateUUID, getCategoryAttributeSet);
+router.put('/:id/attributes', authenticate, requireAdmin, validateUUID, validateCategoryAttributes, updateCategoryAttributes);
+
 export default router;
\ No newline at end of file
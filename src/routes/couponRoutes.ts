@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import {
+  getAllCoupons,
+  getCoupon,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon
+} from '../controllers/couponController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+import { validateCoupon, validateMongoId } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin - Coupons
+ *   description: Coupon and promotion management
+ */
+
+/**
+ * @swagger
+ * /api/admin/coupons:
+ *   get:
+ *     summary: Get all coupons (Admin)
+ *     tags: [Admin - Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [percentage, fixed_amount, free_shipping, buy_x_get_y]
+ *     responses:
+ *       200:
+ *         description: Coupons retrieved successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/', authenticate, requireAdmin, getAllCoupons);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{id}:
+ *   get:
+ *     summary: Get coupon with usage summary (Admin)
+ *     tags: [Admin - Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon and its redemptions, total discount and unique customers
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticate, requireAdmin, validateMongoId, getCoupon);
+
+/**
+ * @swagger
+ * /api/admin/coupons:
+ *   post:
+ *     summary: Create coupon (Admin)
+ *     tags: [Admin - Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateCouponRequest'
+ *     responses:
+ *       201:
+ *         description: Coupon created successfully
+ *       409:
+ *         description: Coupon code already exists
+ */
+router.post('/', authenticate, requireAdmin, validateCoupon, createCoupon);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{id}:
+ *   put:
+ *     summary: Update coupon (Admin)
+ *     tags: [Admin - Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateCouponRequest'
+ *     responses:
+ *       200:
+ *         description: Coupon updated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:id', authenticate, requireAdmin, validateMongoId, validateCoupon, updateCoupon);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{id}:
+ *   delete:
+ *     summary: Delete coupon (Admin)
+ *     description: Coupons that have already been redeemed are deactivated instead of deleted.
+ *     tags: [Admin - Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon deleted or deactivated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id', authenticate, requireAdmin, validateMongoId, deleteCoupon);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { getCurrencies } from '../controllers/exchangeRateController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/currencies:
+ *   get:
+ *     summary: Get the currencies customers can shop in
+ *     description: |
+ *       Product prices are stored in the base currency. Send `?currency=EUR` or an `X-Currency: EUR`
+ *       header to product and cart endpoints to get prices in another listed currency.
+ *     tags: [Currencies]
+ *     responses:
+ *       200:
+ *         description: Base currency and supported currencies with their rates
+ */
+router.get('/', getCurrencies);
+
+export default router;
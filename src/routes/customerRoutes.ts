@@ -73,7 +73,7 @@ router.get('/', authenticate, requireAdmin, async (req: Request, res: Response)
         $group: {
           _id: '$userId',
           totalOrders: { $sum: 1 },
-          totalSpent: { $sum: '$total' },
+          totalSpent: { $sum: { $ifNull: ['$baseTotal', '$total'] } },
           lastOrderDate: { $max: '$createdAt' }
         }
       }
@@ -291,7 +291,7 @@ router.get('/:id', authenticate, requireAdmin, async (req: Request, res: Respons
     const totalOrders = await Order.countDocuments({ userId: id });
     const totalSpent = await Order.aggregate([
       { $match: { userId: id, status: { $ne: 'cancelled' } } },
-      { $group: { _id: null, total: { $sum: '$total' } } }
+      { $group: { _id: null, total: { $sum: { $ifNull: ['$baseTotal', '$total'] } } } }
     ]);
 
     res.status(200).json({
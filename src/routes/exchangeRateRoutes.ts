@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { getExchangeRates, upsertExchangeRate, deleteExchangeRate } from '../controllers/exchangeRateController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+import { validateExchangeRate } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/exchange-rates:
+ *   get:
+ *     summary: Get all exchange rates (Admin)
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Exchange rates retrieved successfully
+ */
+router.get('/', authenticate, requireAdmin, getExchangeRates);
+
+/**
+ * @swagger
+ * /api/admin/exchange-rates/{currency}:
+ *   put:
+ *     summary: Create or update an exchange rate (Admin)
+ *     description: Units of the currency per 1 unit of the base currency. Placed orders keep the rate locked at checkout.
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ExchangeRateRequest'
+ *     responses:
+ *       200:
+ *         description: Exchange rate updated
+ *       201:
+ *         description: Exchange rate created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *   delete:
+ *     summary: Delete an exchange rate (Admin)
+ *     tags: [Currencies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:currency', authenticate, requireAdmin, validateExchangeRate, upsertExchangeRate);
+router.delete('/:currency', authenticate, requireAdmin, deleteExchangeRate);
+
+export default router;
@@ -317,21 +317,37 @@ router.get('/stats', authenticate, requireAdmin, async (req: Request, res: Respo
           status: { $ne: 'cancelled' },
           createdAt: { $gte: startOfDay } 
         }},
-        { $group: { _id: null, total: { $sum: '$total' } } }
+        { $group: {
+          _id: null,
+          // Orders in other currencies are counted at the rate locked at checkout
+          total: { $sum: { $ifNull: ['$baseTotal', '$total'] } },
+          discounts: { $sum: { $divide: ['$discountTotal', { $ifNull: ['$exchangeRate', 1] }] } },
+          tax: { $sum: { $divide: ['$taxTotal', { $ifNull: ['$exchangeRate', 1] }] } }
+        } }
       ]),
       Order.aggregate([
         { $match: { 
           status: { $ne: 'cancelled' },
           createdAt: { $gte: startOfMonth } 
         }},
-        { $group: { _id: null, total: { $sum: '$total' } } }
+        { $group: {
+          _id: null,
+          total: { $sum: { $ifNull: ['$baseTotal', '$total'] } },
+          discounts: { $sum: { $divide: ['$discountTotal', { $ifNull: ['$exchangeRate', 1] }] } },
+          tax: { $sum: { $divide: ['$taxTotal', { $ifNull: ['$exchangeRate', 1] }] } }
+        } }
       ]),
       Order.aggregate([
         { $match: { 
           status: { $ne: 'cancelled' },
           createdAt: { $gte: startOfYear } 
         }},
-        { $group: { _id: null, total: { $sum: '$total' } } }
+        { $group: {
+          _id: null,
+          total: { $sum: { $ifNull: ['$baseTotal', '$total'] } },
+          discounts: { $sum: { $divide: ['$discountTotal', { $ifNull: ['$exchangeRate', 1] }] } },
+          tax: { $sum: { $divide: ['$taxTotal', { $ifNull: ['$exchangeRate', 1] }] } }
+        } }
       ])
     ]);
 
@@ -361,6 +377,16 @@ router.get('/stats', authenticate, requireAdmin, async (req: Request, res: Respo
           today: revenueToday[0]?.total || 0,
           thisMonth: revenueThisMonth[0]?.total || 0,
           thisYear: revenueThisYear[0]?.total || 0
+        },
+        discounts: {
+          today: revenueToday[0]?.discounts || 0,
+          thisMonth: revenueThisMonth[0]?.discounts || 0,
+          thisYear: revenueThisYear[0]?.discounts || 0
+        },
+        tax: {
+          today: revenueToday[0]?.tax || 0,
+          thisMonth: revenueThisMonth[0]?.tax || 0,
+          thisYear: revenueThisYear[0]?.tax || 0
         }
       }
     });
@@ -3,12 +3,17 @@ import {
   createOrder,
   getMyOrders,
   getMyOrder,
-  cancelMyOrder
+  cancelMyOrder,
+  getOrderTimeline
 } from '../controllers/orderController';
+import { getOrderShipments } from '../controllers/shipmentController';
+import { requestReturn, getOrderReturns } from '../controllers/returnController';
 import { authenticate } from '../middleware/auth';
+import { requireVerifiedEmailForCheckout } from '../middleware/accessControl';
 import {
   validateCreateOrder,
-  validateMongoId
+  validateMongoId,
+  validateReturnRequest
 } from '../middleware/validation';
 
 const router = Router();
@@ -25,7 +30,11 @@ const router = Router();
  * /api/orders:
  *   post:
  *     summary: Create order from cart
- *     description: Creates a new order from the user's current cart items and clears the cart
+ *     description: |
+ *       Creates a new order from the user's current cart items and clears the cart.
+ *       Stock is reserved until `reservationExpiresAt` (RESERVATION_TTL_MINUTES); if the payment has not
+ *       arrived by then the order is cancelled and the stock released. After a failed payment the stock is released
+ *       at once and the deadline restarts; the order is cancelled if the payment is not retried by then.
  *     tags: [Orders]
  *     security:
  *       - bearerAuth: []
@@ -66,12 +75,14 @@ const router = Router();
  *                   example: "Cart is empty. Cannot create order."
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Email not verified (when REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT is enabled)
  *       404:
  *         description: Product no longer exists
  *       500:
  *         description: Server error
  */
-router.post('/', authenticate, validateCreateOrder, createOrder);
+router.post('/', authenticate, requireVerifiedEmailForCheckout, validateCreateOrder, createOrder);
 
 /**
  * @swagger
@@ -154,6 +165,148 @@ router.get('/', authenticate, getMyOrders);
  */
 router.get('/:id', authenticate, validateMongoId, getMyOrder);
 
+/**
+ * @swagger
+ * /api/orders/{id}/timeline:
+ *   get:
+ *     summary: Get order status timeline
+ *     description: Returns every status change of the order with who made it and why. Customers can only see their own orders; admins can see any order.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Timeline retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     currentStatus:
+ *                       type: string
+ *                       example: confirmed
+ *                     allowedTransitions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [shipped, cancelled]
+ *                     timeline:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/OrderStatusChange'
+ *       400:
+ *         description: Invalid order ID format
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/timeline', authenticate, validateMongoId, getOrderTimeline);
+
+/**
+ * @swagger
+ * /api/orders/{id}/shipments:
+ *   get:
+ *     summary: Get order shipments
+ *     description: Parcels of the order with carrier and tracking details, plus how much of each item has shipped.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Shipments retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:id/shipments', authenticate, validateMongoId, getOrderShipments);
+
+/**
+ * @swagger
+ * /api/orders/{id}/returns:
+ *   get:
+ *     summary: Get order returns
+ *     description: Return requests of the order and how many units of each item can still be returned.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Returns retrieved successfully
+ *       404:
+ *         description: Order not found
+ *   post:
+ *     summary: Request a return
+ *     description: |
+ *       Asks to return some items of a delivered order, within RETURN_WINDOW_DAYS of delivery.
+ *       Once an admin receives the items, resellable ones go back into stock and the refund is issued
+ *       to the original payment or as store credit.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateReturnRequest'
+ *     responses:
+ *       201:
+ *         description: Return requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       400:
+ *         description: Order not delivered, return window closed, or quantity not returnable
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:id/returns', authenticate, validateMongoId, getOrderReturns);
+router.post('/:id/returns', authenticate, validateMongoId, validateReturnRequest, requestReturn);
+
 /**
  * @swagger
  * /api/orders/{id}/cancel:
@@ -170,6 +323,15 @@ router.get('/:id', authenticate, validateMongoId, getMyOrder);
  *         schema:
  *           type: string
  *         description: Order ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Ordered the wrong size"
  *     responses:
  *       200:
  *         description: Order cancelled successfully
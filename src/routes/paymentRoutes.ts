@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import {
+  confirmPayment,
+  getOrderPayments,
+  retryOrderPayment,
+  handlePaymentWebhook
+} from '../controllers/paymentController';
+import { authenticate } from '../middleware/auth';
+import { validateMongoId } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payments
+ *   description: Order payment endpoints
+ */
+
+/**
+ * @swagger
+ * /api/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Payment provider webhook
+ *     description: Receives signed payment events from a provider. Duplicate deliveries are ignored.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: mock
+ *     responses:
+ *       200:
+ *         description: Event received
+ *       400:
+ *         description: Invalid signature or payload
+ *       404:
+ *         description: Unknown provider or payment
+ *       500:
+ *         description: Server error
+ */
+router.post('/webhooks/:provider', handlePaymentWebhook);
+
+/**
+ * @swagger
+ * /api/payments/order/{orderId}:
+ *   get:
+ *     summary: Get payments of an order
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payments retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/order/:orderId', authenticate, getOrderPayments);
+
+/**
+ * @swagger
+ * /api/payments/orders/{orderId}/retry:
+ *   post:
+ *     summary: Retry payment for an order
+ *     description: Creates a new payment attempt for a pending order whose previous payment failed.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 example: mock
+ *     responses:
+ *       201:
+ *         description: Payment created
+ *       400:
+ *         description: Order cannot be paid
+ *       409:
+ *         description: Order already has an open payment
+ *       500:
+ *         description: Server error
+ */
+router.post('/orders/:orderId/retry', authenticate, retryOrderPayment);
+
+/**
+ * @swagger
+ * /api/payments/{id}/confirm:
+ *   post:
+ *     summary: Confirm a payment
+ *     description: |
+ *       Confirms a payment with the mock gateway. Card 4000000000000002 is declined,
+ *       4000000000009995 fails with insufficient funds, 4000000000000069 is expired; any other number succeeds.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Payment ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cardNumber:
+ *                 type: string
+ *                 example: "4242424242424242"
+ *               captureMethod:
+ *                 type: string
+ *                 enum: [automatic, manual]
+ *     responses:
+ *       200:
+ *         description: Payment processed successfully
+ *       400:
+ *         description: Payment cannot be confirmed
+ *       402:
+ *         description: Payment failed
+ *       404:
+ *         description: Payment not found
+ *       500:
+ *         description: Server error
+ */
+router.post('/:id/confirm', authenticate, validateMongoId, confirmPayment);
+
+export default router;
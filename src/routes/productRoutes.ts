@@ -2,14 +2,23 @@ import { Router } from 'express';
 import {
   getAllProducts,
   getProduct,
+  searchProducts,
+  suggestProducts,
   createProduct,
   updateProduct,
   deleteProduct,
   getMyProducts
 } from '../controllers/productController';
-import { validateProduct, validateUUID } from '../middleware/validation';
+import {
+  getProductVariants,
+  createVariant,
+  updateVariant,
+  deleteVariant
+} from '../controllers/variantController';
+import { validateProduct, validateProductSearch, validateUUID, validateVariant } from '../middleware/validation';
 import { authenticate } from '../middleware/auth';
-import { requireVendorOrAdmin } from '../middleware/accessControl';
+import { requireVendorOrAdmin, requireScope } from '../middleware/accessControl';
+import { ApiKeyScope } from '../models/apiKey';
 
 const router = Router();
 
@@ -38,6 +47,25 @@ const router = Router();
  *           type: string
  *         description: Filter by category ID
  *       - in: query
+ *         name: includeSubcategories
+ *         schema:
+ *           type: boolean
+ *         description: With categoryId, also include products of all its subcategories
+ *       - in: query
+ *         name: attributes
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           example:
+ *             ram: 8,16
+ *             screen_size: 13-15.6
+ *         description: |
+ *           Filterable attributes, e.g. attributes[ram]=8,16. Values of one attribute are ORed;
+ *           number attributes also take ranges ("13-15.6", "13-", "-15.6").
+ *       - in: query
  *         name: inStock
  *         schema:
  *           type: boolean
@@ -46,24 +74,30 @@ const router = Router();
  *         name: minPrice
  *         schema:
  *           type: number
- *         description: Minimum price
+ *         description: Minimum price (in the requested currency)
  *       - in: query
  *         name: maxPrice
  *         schema:
  *           type: number
- *         description: Maximum price
+ *         description: Maximum price (in the requested currency)
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency for prices (or X-Currency header); defaults to the base currency
  *       - in: query
  *         name: search
  *         schema:
  *           type: string
- *         description: Search in name and description
+ *         description: Typo-tolerant search in name, tags and description
  *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
- *           enum: [name, price, createdAt, quantity]
+ *           enum: [relevance, name, price, createdAt, quantity]
  *           default: createdAt
- *         description: Sort by field
+ *         description: Sort by field. A search is sorted by relevance unless another field is given.
  *       - in: query
  *         name: order
  *         schema:
@@ -103,6 +137,155 @@ const router = Router();
  */
 router.get('/', getAllProducts);
 
+/**
+ * @swagger
+ * /api/products/search:
+ *   get:
+ *     summary: Faceted product search
+ *     description: |
+ *       Active products matching the text query and facet filters, with facet buckets for the sidebar.
+ *       Facet filters are multi-select (repeat the parameter or separate values with commas): values of one
+ *       facet are ORed, different facets are ANDed. Each facet is counted with the filters of the other facets,
+ *       so selecting a value does not hide the alternatives.
+ *     tags: [Products]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Typo-tolerant search on name, tags and description
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Category IDs; subcategories are included
+ *       - in: query
+ *         name: price
+ *         schema:
+ *           type: string
+ *           example: 25-50,1000-
+ *         description: Price ranges in the requested currency, min inclusive and max exclusive
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: integer
+ *           enum: [1, 2, 3, 4]
+ *         description: Minimum rating band ("4 stars & up")
+ *       - in: query
+ *         name: availability
+ *         schema:
+ *           type: string
+ *           enum: [in_stock, out_of_stock]
+ *       - in: query
+ *         name: attributes
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         description: Filterable attribute values, e.g. attributes[ram]=8,16 (see GET /api/products)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [relevance, price, rating, name, createdAt]
+ *           default: relevance
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency for prices and price ranges (or X-Currency header); defaults to the base currency
+ *     responses:
+ *       200:
+ *         description: Matching products and facet counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 pagination:
+ *                   type: object
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Product'
+ *                 facets:
+ *                   $ref: '#/components/schemas/ProductSearchFacets'
+ *       400:
+ *         description: Invalid filter or unsupported currency
+ */
+router.get('/search', validateProductSearch, searchProducts);
+
+/**
+ * @swagger
+ * /api/products/suggest:
+ *   get:
+ *     summary: Autocomplete suggestions
+ *     description: |
+ *       Completions for the last word of the query and the best matching active products. Matching uses a
+ *       trigram index, so unfinished words ("iphon") and small typos match; configured synonyms are searched too.
+ *       Featured and in-stock products rank higher among similar matches.
+ *     tags: [Products]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 8
+ *           maximum: 20
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *     responses:
+ *       200:
+ *         description: Suggestions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ProductSuggestions'
+ *       400:
+ *         description: Query too short or unsupported currency
+ */
+router.get('/suggest', suggestProducts);
+
 /**
  * @swagger
  * /api/products/{id}:
@@ -115,9 +298,17 @@ router.get('/', getAllProducts);
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency for prices (or X-Currency header); defaults to the base currency
  *     responses:
  *       200:
- *         description: Product details
+ *         description: Product details, with the category breadcrumbs (root first) in `breadcrumbs`
+ *       400:
+ *         description: Unsupported currency
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
@@ -131,6 +322,7 @@ router.get('/:id', validateUUID, getProduct);
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -140,10 +332,12 @@ router.get('/:id', validateUUID, getProduct);
  *     responses:
  *       201:
  *         description: Product created successfully
+ *       400:
+ *         description: Invalid input or attribute values that do not match the category attribute set
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  */
-router.post('/', authenticate, requireVendorOrAdmin, validateProduct, createProduct);
+router.post('/', authenticate, requireScope(ApiKeyScope.PRODUCTS_WRITE), requireVendorOrAdmin, validateProduct, createProduct);
 
 /**
  * @swagger
@@ -153,6 +347,7 @@ router.post('/', authenticate, requireVendorOrAdmin, validateProduct, createProd
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -178,13 +373,26 @@ router.post('/', authenticate, requireVendorOrAdmin, validateProduct, createProd
  *                 type: boolean
  *               quantity:
  *                 type: number
+ *                 description: Recorded in the stock ledger; cannot be lower than the units reserved by pending orders
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductOption'
+ *               attributes:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Merged with the current values; null removes a value
  *     responses:
  *       200:
  *         description: Product updated successfully
+ *       400:
+ *         description: Invalid input or attribute values that do not match the category attribute set
  *       403:
  *         description: Can only update own products (Vendor)
+ *       409:
+ *         description: Quantity below the units reserved by pending orders
  */
-router.put('/:id', authenticate, requireVendorOrAdmin, validateUUID, updateProduct);
+router.put('/:id', authenticate, requireScope(ApiKeyScope.PRODUCTS_WRITE), requireVendorOrAdmin, validateUUID, updateProduct);
 
 /**
  * @swagger
@@ -194,6 +402,7 @@ router.put('/:id', authenticate, requireVendorOrAdmin, validateUUID, updateProdu
  *     tags: [Products]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -206,7 +415,7 @@ router.put('/:id', authenticate, requireVendorOrAdmin, validateUUID, updateProdu
  *       403:
  *         description: Can only delete own products (Vendor)
  */
-router.delete('/:id', authenticate, requireVendorOrAdmin, validateUUID, deleteProduct);
+router.delete('/:id', authenticate, requireScope(ApiKeyScope.PRODUCTS_WRITE), requireVendorOrAdmin, validateUUID, deleteProduct);
 
 /**
  * @swagger
@@ -224,5 +433,121 @@ router.delete('/:id', authenticate, requireVendorOrAdmin, validateUUID, deletePr
  */
 router.get('/vendor/my-products', authenticate, getMyProducts);
 
+/**
+ * @swagger
+ * /api/products/{id}/variants:
+ *   get:
+ *     summary: Get product options and variants
+ *     tags: [Products]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product option axes and variants
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/variants', validateUUID, getProductVariants);
+
+/**
+ * @swagger
+ * /api/products/{id}/variants:
+ *   post:
+ *     summary: Create product variant (Own products for Vendor, all for Admin)
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateVariantRequest'
+ *     responses:
+ *       201:
+ *         description: Variant created successfully
+ *       400:
+ *         description: Options do not match the product option axes
+ *       409:
+ *         description: Duplicate SKU or option combination
+ */
+router.post('/:id/variants', authenticate, requireScope(ApiKeyScope.PRODUCTS_WRITE), requireVendorOrAdmin, validateUUID, validateVariant, createVariant);
+
+/**
+ * @swagger
+ * /api/products/{id}/variants/{variantId}:
+ *   put:
+ *     summary: Update product variant (Own products for Vendor, all for Admin)
+ *     description: Send price null to remove the price override.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateVariantRequest'
+ *     responses:
+ *       200:
+ *         description: Variant updated successfully
+ *       404:
+ *         description: Variant not found
+ *       409:
+ *         description: Quantity below the units reserved by pending orders
+ */
+router.put('/:id/variants/:variantId', authenticate, requireScope(ApiKeyScope.PRODUCTS_WRITE), requireVendorOrAdmin, validateUUID, updateVariant);
+
+/**
+ * @swagger
+ * /api/products/{id}/variants/{variantId}:
+ *   delete:
+ *     summary: Delete product variant (Own products for Vendor, all for Admin)
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Variant deleted successfully
+ *       404:
+ *         description: Variant not found
+ */
+router.delete('/:id/variants/:variantId', authenticate, requireScope(ApiKeyScope.PRODUCTS_WRITE), requireVendorOrAdmin, validateUUID, deleteVariant);
+
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import {
+  getAllReturns,
+  getReturn,
+  approveReturn,
+  rejectReturn,
+  receiveReturn
+} from '../controllers/returnController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+import { validateMongoId, validateReceiveReturn, validateReturnReview } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin - Returns
+ *   description: Return merchandise authorizations (RMA)
+ */
+
+/**
+ * @swagger
+ * /api/admin/returns:
+ *   get:
+ *     summary: Get all returns (Admin)
+ *     tags: [Admin - Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, approved, rejected, received]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Returns retrieved successfully
+ */
+router.get('/', authenticate, requireAdmin, getAllReturns);
+
+/**
+ * @swagger
+ * /api/admin/returns/{id}:
+ *   get:
+ *     summary: Get return with its order (Admin)
+ *     tags: [Admin - Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Return retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReturnRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticate, requireAdmin, validateMongoId, getReturn);
+
+/**
+ * @swagger
+ * /api/admin/returns/{id}/approve:
+ *   patch:
+ *     summary: Approve a requested return (Admin)
+ *     tags: [Admin - Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Shown to the customer, e.g. return shipping instructions
+ *     responses:
+ *       200:
+ *         description: Return approved
+ *       409:
+ *         description: Return is not awaiting review
+ */
+router.patch('/:id/approve', authenticate, requireAdmin, validateMongoId, validateReturnReview, approveReturn);
+
+/**
+ * @swagger
+ * /api/admin/returns/{id}/reject:
+ *   patch:
+ *     summary: Reject a return (Admin)
+ *     description: Requested or approved returns can be rejected; their items become returnable again.
+ *     tags: [Admin - Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Reason shown to the customer
+ *     responses:
+ *       200:
+ *         description: Return rejected
+ *       409:
+ *         description: Return was already received or rejected
+ */
+router.patch('/:id/reject', authenticate, requireAdmin, validateMongoId, validateReturnReview, rejectReturn);
+
+/**
+ * @swagger
+ * /api/admin/returns/{id}/receive:
+ *   post:
+ *     summary: Receive the items of an approved return (Admin)
+ *     description: |
+ *       Records the condition of each item and puts resellable ones back into stock at the locations they were sold from.
+ *       The order moves to partially_returned or returned, then the refund is issued to the original payment
+ *       or recorded as store credit.
+ *     tags: [Admin - Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReceiveReturnRequest'
+ *     responses:
+ *       200:
+ *         description: Return received; check refund.status for the outcome of the refund
+ *       400:
+ *         description: Invalid items or refund amount
+ *       409:
+ *         description: Return is not approved
+ */
+router.post('/:id/receive', authenticate, requireAdmin, validateMongoId, validateReceiveReturn, receiveReturn);
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import {
+  getShippingZones,
+  getShippingZone,
+  createShippingZone,
+  updateShippingZone,
+  deleteShippingZone
+} from '../controllers/shippingController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+import { validateShippingZone, validateMongoId } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin - Shipping
+ *   description: Shipping zones, methods and rates
+ */
+
+/**
+ * @swagger
+ * /api/admin/shipping-zones:
+ *   get:
+ *     summary: Get all shipping zones (Admin)
+ *     tags: [Admin - Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Shipping zones retrieved successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/', authenticate, requireAdmin, getShippingZones);
+
+/**
+ * @swagger
+ * /api/admin/shipping-zones/{id}:
+ *   get:
+ *     summary: Get shipping zone (Admin)
+ *     tags: [Admin - Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping zone with its methods
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticate, requireAdmin, validateMongoId, getShippingZone);
+
+/**
+ * @swagger
+ * /api/admin/shipping-zones:
+ *   post:
+ *     summary: Create shipping zone (Admin)
+ *     description: Each country can belong to one active zone. Use "*" for a catch-all zone.
+ *     tags: [Admin - Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingZoneRequest'
+ *     responses:
+ *       201:
+ *         description: Shipping zone created
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: A country is already covered by another zone
+ */
+router.post('/', authenticate, requireAdmin, validateShippingZone, createShippingZone);
+
+/**
+ * @swagger
+ * /api/admin/shipping-zones/{id}:
+ *   put:
+ *     summary: Update shipping zone (Admin)
+ *     description: Sending methods replaces the whole list; include a method's _id to keep it.
+ *     tags: [Admin - Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingZoneRequest'
+ *     responses:
+ *       200:
+ *         description: Shipping zone updated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A country is already covered by another zone
+ */
+router.put('/:id', authenticate, requireAdmin, validateMongoId, validateShippingZone, updateShippingZone);
+
+/**
+ * @swagger
+ * /api/admin/shipping-zones/{id}:
+ *   delete:
+ *     summary: Delete shipping zone (Admin)
+ *     tags: [Admin - Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping zone deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id', authenticate, requireAdmin, validateMongoId, deleteShippingZone);
+
+export default router;
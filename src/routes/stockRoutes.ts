@@ -0,0 +1,278 @@
+import { Router } from 'express';
+import {
+  getStockLocations,
+  createStockLocation,
+  updateStockLocation,
+  deleteStockLocation,
+  getProductStockLevels,
+  getProductStockMovements,
+  createStockReceipt,
+  createStockAdjustment,
+  createStockTransfer
+} from '../controllers/stockController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin, requireScope } from '../middleware/accessControl';
+import { ApiKeyScope } from '../models/apiKey';
+import {
+  validateStockLocation,
+  validateStockReceipt,
+  validateStockAdjustment,
+  validateStockTransfer,
+  validateMongoId
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin - Inventory
+ *   description: Stock locations, receipts, adjustments and transfers
+ */
+
+/**
+ * @swagger
+ * /api/admin/stock/locations:
+ *   get:
+ *     summary: Get stock locations with the units they hold (Admin)
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Stock locations retrieved successfully
+ *   post:
+ *     summary: Create stock location (Admin)
+ *     description: A "Main warehouse" (MAIN) is created automatically the first time stock is recorded.
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StockLocationRequest'
+ *     responses:
+ *       201:
+ *         description: Stock location created
+ *       409:
+ *         description: Code already in use
+ */
+router.get('/locations', authenticate, requireScope(ApiKeyScope.INVENTORY_READ), requireAdmin, getStockLocations);
+router.post('/locations', authenticate, requireAdmin, validateStockLocation, createStockLocation);
+
+/**
+ * @swagger
+ * /api/admin/stock/locations/{id}:
+ *   put:
+ *     summary: Update stock location (Admin)
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StockLocationRequest'
+ *     responses:
+ *       200:
+ *         description: Stock location updated
+ *       400:
+ *         description: The default location cannot be deactivated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Delete stock location (Admin)
+ *     description: Only locations without stock movements can be deleted; deactivate the others.
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stock location deleted
+ *       409:
+ *         description: Stock location has stock movements
+ */
+router.put('/locations/:id', authenticate, requireAdmin, validateMongoId, validateStockLocation, updateStockLocation);
+router.delete('/locations/:id', authenticate, requireAdmin, validateMongoId, deleteStockLocation);
+
+/**
+ * @swagger
+ * /api/admin/stock/receipts:
+ *   post:
+ *     summary: Receive stock into a location (Admin)
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StockReceiptRequest'
+ *     responses:
+ *       201:
+ *         description: Stock received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockMovement'
+ *       404:
+ *         description: Product, variant or location not found
+ */
+router.post('/receipts', authenticate, requireScope(ApiKeyScope.INVENTORY_WRITE), requireAdmin, validateStockReceipt, createStockReceipt);
+
+/**
+ * @swagger
+ * /api/admin/stock/adjustments:
+ *   post:
+ *     summary: Adjust the stock of a location (Admin)
+ *     description: Records damage, loss, found units or count corrections with a reason code.
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StockAdjustmentRequest'
+ *     responses:
+ *       201:
+ *         description: Stock adjusted
+ *       404:
+ *         description: Product, variant or location not found
+ *       409:
+ *         description: The location does not hold enough stock
+ */
+router.post('/adjustments', authenticate, requireScope(ApiKeyScope.INVENTORY_WRITE), requireAdmin, validateStockAdjustment, createStockAdjustment);
+
+/**
+ * @swagger
+ * /api/admin/stock/transfers:
+ *   post:
+ *     summary: Transfer stock between locations (Admin)
+ *     description: Writes an outgoing and an incoming movement sharing a transferId; the total quantity is unchanged.
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StockTransferRequest'
+ *     responses:
+ *       201:
+ *         description: Stock transferred
+ *       404:
+ *         description: Product, variant or location not found
+ *       409:
+ *         description: The source location does not hold enough stock
+ */
+router.post('/transfers', authenticate, requireScope(ApiKeyScope.INVENTORY_WRITE), requireAdmin, validateStockTransfer, createStockTransfer);
+
+/**
+ * @swagger
+ * /api/admin/stock/products/{id}/levels:
+ *   get:
+ *     summary: Get stock per location of a product or its variants (Admin)
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stock levels retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/products/:id/levels', authenticate, requireScope(ApiKeyScope.INVENTORY_READ), requireAdmin, validateMongoId, getProductStockLevels);
+
+/**
+ * @swagger
+ * /api/admin/stock/products/{id}/movements:
+ *   get:
+ *     summary: Get the stock movement history of a product (Admin)
+ *     tags: [Admin - Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [receipt, sale, return, adjustment, transfer]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Stock movements retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockMovement'
+ */
+router.get('/products/:id/movements', authenticate, requireScope(ApiKeyScope.INVENTORY_READ), requireAdmin, validateMongoId, getProductStockMovements);
+
+export default router;
@@ -0,0 +1,192 @@
+import { Router } from 'express';
+import {
+  getTaxClasses,
+  createTaxClass,
+  updateTaxClass,
+  deleteTaxClass,
+  getTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  deleteTaxRate
+} from '../controllers/taxController';
+import { authenticate } from '../middleware/auth';
+import { requireAdmin } from '../middleware/accessControl';
+import { validateTaxClass, validateTaxRate, validateMongoId } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin - Tax
+ *   description: Tax classes and rates
+ */
+
+/**
+ * @swagger
+ * /api/admin/tax/classes:
+ *   get:
+ *     summary: Get tax classes with their rates (Admin)
+ *     description: Also reports whether catalog prices include tax (PRICES_INCLUDE_TAX).
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax classes retrieved successfully
+ *   post:
+ *     summary: Create tax class (Admin)
+ *     description: Products use their own tax class, then their category's, then the default class.
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxClassRequest'
+ *     responses:
+ *       201:
+ *         description: Tax class created
+ *       409:
+ *         description: Code already in use
+ */
+router.get('/classes', authenticate, requireAdmin, getTaxClasses);
+router.post('/classes', authenticate, requireAdmin, validateTaxClass, createTaxClass);
+
+/**
+ * @swagger
+ * /api/admin/tax/classes/{id}:
+ *   put:
+ *     summary: Update tax class (Admin)
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxClassRequest'
+ *     responses:
+ *       200:
+ *         description: Tax class updated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Delete tax class and its rates (Admin)
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax class deleted
+ *       409:
+ *         description: Tax class is still used by products or categories
+ */
+router.put('/classes/:id', authenticate, requireAdmin, validateMongoId, validateTaxClass, updateTaxClass);
+router.delete('/classes/:id', authenticate, requireAdmin, validateMongoId, deleteTaxClass);
+
+/**
+ * @swagger
+ * /api/admin/tax/rates:
+ *   get:
+ *     summary: Get tax rates (Admin)
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: taxClassId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rates retrieved successfully
+ *   post:
+ *     summary: Create tax rate (Admin)
+ *     description: A rate with a region wins over the country-wide rate of the same class.
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxRateRequest'
+ *     responses:
+ *       201:
+ *         description: Tax rate created
+ *       404:
+ *         description: Tax class not found
+ *       409:
+ *         description: A rate for this class and location already exists
+ */
+router.get('/rates', authenticate, requireAdmin, getTaxRates);
+router.post('/rates', authenticate, requireAdmin, validateTaxRate, createTaxRate);
+
+/**
+ * @swagger
+ * /api/admin/tax/rates/{id}:
+ *   put:
+ *     summary: Update tax rate (Admin)
+ *     description: Only name, rate and isActive can change.
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TaxRateRequest'
+ *     responses:
+ *       200:
+ *         description: Tax rate updated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Delete tax rate (Admin)
+ *     tags: [Admin - Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rate deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/rates/:id', authenticate, requireAdmin, validateMongoId, validateTaxRate, updateTaxRate);
+router.delete('/rates/:id', authenticate, requireAdmin, validateMongoId, deleteTaxRate);
+
+export default router;
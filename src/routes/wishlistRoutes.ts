@@ -0,0 +1,374 @@
+import { Router } from 'express';
+import {
+  getWishlists,
+  createWishlist,
+  getWishlist,
+  updateWishlist,
+  deleteWishlist,
+  addWishlistItem,
+  removeWishlistItem,
+  moveWishlistItemToCart,
+  shareWishlist,
+  unshareWishlist,
+  getSharedWishlist
+} from '../controllers/wishlistController';
+import {
+  validateUUID,
+  validateWishlist,
+  validateWishlistItem,
+  validateMoveToCart
+} from '../middleware/validation';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Wishlists
+ *   description: Named wishlists and public share links
+ */
+
+/**
+ * @swagger
+ * /api/wishlists/shared/{token}:
+ *   get:
+ *     summary: View a shared wishlist (read-only)
+ *     tags: [Wishlists]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to show prices in (or X-Currency header)
+ *     responses:
+ *       200:
+ *         description: Wishlist with current prices and stock
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Wishlist'
+ *       404:
+ *         description: Unknown link, or the list is no longer shared
+ */
+router.get('/shared/:token', getSharedWishlist);
+
+/**
+ * @swagger
+ * /api/wishlists:
+ *   get:
+ *     summary: Get own wishlists
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Wishlists with their item count
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/', authenticate, getWishlists);
+
+/**
+ * @swagger
+ * /api/wishlists:
+ *   post:
+ *     summary: Create a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WishlistRequest'
+ *     responses:
+ *       201:
+ *         description: Wishlist created
+ *       400:
+ *         description: Missing or too long name
+ *       409:
+ *         description: A wishlist with this name already exists
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/', authenticate, validateWishlist, createWishlist);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}:
+ *   get:
+ *     summary: Get a wishlist with current prices and stock
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to show prices in (or X-Currency header)
+ *     responses:
+ *       200:
+ *         description: Wishlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Wishlist'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticate, validateUUID, getWishlist);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}:
+ *   put:
+ *     summary: Rename a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WishlistRequest'
+ *     responses:
+ *       200:
+ *         description: Wishlist updated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A wishlist with this name already exists
+ */
+router.put('/:id', authenticate, validateUUID, validateWishlist, updateWishlist);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}:
+ *   delete:
+ *     summary: Delete a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id', authenticate, validateUUID, deleteWishlist);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}/items:
+ *   post:
+ *     summary: Save a product to a wishlist
+ *     description: Stock is not checked or held. The variant can be left out and chosen when moving the item to the cart.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [productId]
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               variantId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Item added to wishlist
+ *       404:
+ *         description: Wishlist, product or variant not found
+ *       409:
+ *         description: Item is already in this wishlist
+ */
+router.post('/:id/items', authenticate, validateUUID, validateWishlistItem, addWishlistItem);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}/items/{itemId}:
+ *   delete:
+ *     summary: Remove an item from a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item removed from wishlist
+ *       404:
+ *         description: Wishlist or item not found
+ */
+router.delete('/:id/items/:itemId', authenticate, validateUUID, removeWishlistItem);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}/items/{itemId}/move-to-cart:
+ *   post:
+ *     summary: Move a wishlist item to the cart
+ *     description: Adds the item to the cart with the usual stock checks, then removes it from the wishlist.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *               variantId:
+ *                 type: string
+ *                 description: Required for items saved without a variant of a product that has variants
+ *     responses:
+ *       200:
+ *         description: Item moved to cart; returns the cart
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Cart'
+ *       400:
+ *         description: Insufficient stock or variant not selected
+ *       404:
+ *         description: Wishlist, item, product or variant not found
+ */
+router.post('/:id/items/:itemId/move-to-cart', authenticate, validateUUID, validateMoveToCart, moveWishlistItemToCart);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}/share:
+ *   post:
+ *     summary: Create a public read-only link for a wishlist
+ *     description: Sharing an already shared list returns the same link.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share token and path
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     shareToken:
+ *                       type: string
+ *                     sharePath:
+ *                       type: string
+ *                       example: /api/wishlists/shared/3f9a...
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/share', authenticate, validateUUID, shareWishlist);
+
+/**
+ * @swagger
+ * /api/wishlists/{id}/share:
+ *   delete:
+ *     summary: Revoke the public link of a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist is no longer shared
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/share', authenticate, validateUUID, unshareWishlist);
+
+export default router;
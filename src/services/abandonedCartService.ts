@@ -0,0 +1,238 @@
+import mongoose, { ClientSession } from 'mongoose';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { Cart, ICart } from '../models/cart';
+import { Order, IOrder } from '../models/order';
+import { AbandonedCart, AbandonedCartStatus, IAbandonedCart, IAbandonedCartItem } from '../models/abandonedCart';
+import { addCartItem } from './cartService';
+import { BASE_CURRENCY, convertToBase } from './currencyService';
+import { roundCurrency } from './couponService';
+
+dotenv.config();
+
+// A cart with items that has not changed for this long is abandoned
+export const ABANDONED_CART_AFTER_HOURS = parseInt(process.env.ABANDONED_CART_AFTER_HOURS || '24', 10);
+// Time between two reminders for the same cart
+export const ABANDONED_CART_REMINDER_INTERVAL_HOURS = parseInt(process.env.ABANDONED_CART_REMINDER_INTERVAL_HOURS || '48', 10);
+export const ABANDONED_CART_MAX_REMINDERS = parseInt(process.env.ABANDONED_CART_MAX_REMINDERS || '2', 10);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AbandonedCartStats {
+  from: Date;
+  to: Date;
+  currency: string;
+  abandoned: number;
+  open: number;
+  recovered: number;
+  lost: number;
+  remindersSent: number;
+  orders: number;
+  abandonedValue: number;
+  recoveredValue: number;
+  abandonmentRate: number;
+  recoveryRate: number;
+}
+
+// Customer carts with items that have been idle longer than the threshold. Guest carts have no email to remind.
+export const findAbandonedCarts = async (): Promise<string[]> => {
+  const carts = await Cart.find({
+    userId: { $exists: true },
+    'items.0': { $exists: true },
+    updatedAt: { $lt: new Date(Date.now() - ABANDONED_CART_AFTER_HOURS * HOUR_MS) }
+  }).select('_id');
+
+  return carts.map(cart => cart._id.toString());
+};
+
+const snapshotCartItems = (cart: ICart): IAbandonedCartItem[] => {
+  return cart.items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    productName: item.productName,
+    variantName: item.variantName,
+    price: item.price,
+    quantity: item.quantity
+  }));
+};
+
+// Keep the record in line with the cart, which may have changed between reminders
+export const snapshotAbandonedCart = (record: IAbandonedCart, cart: ICart): void => {
+  record.items = snapshotCartItems(cart);
+  record.total = cart.total;
+  record.currency = cart.currency || BASE_CURRENCY;
+  record.baseTotal = convertToBase(cart.total, cart.exchangeRate ?? 1);
+};
+
+// The customer came back to the cart after the last reminder
+const isEditedSinceReminder = (record: IAbandonedCart, cart: Pick<ICart, 'updatedAt'>): boolean => {
+  return !!record.lastReminderAt && cart.updatedAt > record.lastReminderAt;
+};
+
+// The open abandonment of a cart, started when it is first detected. A cart left again after being edited
+// following a reminder is a new abandonment: the previous one is closed and the reminders start over.
+// Returns null when the last abandonment of the cart was closed and the cart has not changed since, so that an
+// untouched cart is not reminded again once its reminders are used up.
+export const getOrOpenAbandonedCart = async (cart: ICart): Promise<IAbandonedCart | null> => {
+  const existing = await AbandonedCart.findOne({ cartId: cart._id, status: AbandonedCartStatus.OPEN });
+  if (existing && !isEditedSinceReminder(existing, cart)) {
+    return existing;
+  }
+
+  if (existing) {
+    existing.status = AbandonedCartStatus.LOST;
+    existing.closedAt = new Date();
+    await existing.save();
+  } else {
+    const latest = await AbandonedCart.findOne({ cartId: cart._id }).sort({ createdAt: -1 }).select('closedAt');
+    if (latest?.closedAt && cart.updatedAt <= latest.closedAt) {
+      return null;
+    }
+  }
+
+  const record = new AbandonedCart({
+    cartId: cart._id,
+    userId: cart.userId,
+    recoveryToken: crypto.randomBytes(24).toString('hex')
+  });
+  snapshotAbandonedCart(record, cart);
+  return record.save();
+};
+
+// Whether the next reminder is due; never more than ABANDONED_CART_MAX_REMINDERS
+export const isReminderDue = (record: IAbandonedCart): boolean => {
+  if (record.remindersSent >= ABANDONED_CART_MAX_REMINDERS) {
+    return false;
+  }
+  return !record.lastReminderAt ||
+    record.lastReminderAt.getTime() <= Date.now() - ABANDONED_CART_REMINDER_INTERVAL_HOURS * HOUR_MS;
+};
+
+// Close open abandonments that cannot be recovered any more: the cart was emptied or deleted without an order,
+// or the last reminder went unanswered. A cart edited after the last reminder stays open, so that an order
+// still counts as recovered; if it is left again, getOrOpenAbandonedCart starts a new abandonment.
+// Returns how many were closed.
+export const closeLostAbandonedCarts = async (): Promise<number> => {
+  const openRecords = await AbandonedCart.find({ status: AbandonedCartStatus.OPEN }).select('cartId remindersSent lastReminderAt');
+  const expiredBefore = Date.now() - ABANDONED_CART_REMINDER_INTERVAL_HOURS * HOUR_MS;
+  let closed = 0;
+
+  for (const record of openRecords) {
+    const cart = await Cart.findById(record.cartId).select('items updatedAt');
+    const hasItems = !!cart && cart.items.length > 0;
+    const isExhausted = record.remindersSent >= ABANDONED_CART_MAX_REMINDERS &&
+      !!record.lastReminderAt && record.lastReminderAt.getTime() <= expiredBefore &&
+      !(cart && isEditedSinceReminder(record, cart));
+
+    if (isExhausted || !hasItems) {
+      record.status = AbandonedCartStatus.LOST;
+      record.closedAt = new Date();
+      await record.save();
+      closed++;
+    }
+  }
+
+  return closed;
+};
+
+// Called at checkout: an order placed from an abandoned cart stops the reminders and counts as recovered
+export const markCartRecovered = async (
+  cartId: mongoose.Types.ObjectId | string,
+  order: IOrder,
+  session?: ClientSession
+): Promise<void> => {
+  const record = await AbandonedCart.findOne({ cartId, status: AbandonedCartStatus.OPEN }).session(session || null);
+  if (!record) return;
+
+  record.status = AbandonedCartStatus.RECOVERED;
+  record.orderId = order._id as mongoose.Types.ObjectId;
+  record.recoveredValue = order.baseTotal ?? order.total;
+  record.closedAt = new Date();
+  await record.save({ session });
+};
+
+// Put the items of an abandoned cart back into the customer's cart, with the usual stock checks.
+// Items still in the cart are left as they are. Returns null when the token is unknown or belongs to someone else.
+export const restoreAbandonedCart = async (
+  userId: string,
+  token: string
+): Promise<{ cart: ICart | null; adjustments: string[] } | null> => {
+  const record = await AbandonedCart.findOne({ recoveryToken: token, userId });
+  if (!record) {
+    return null;
+  }
+
+  const adjustments: string[] = [];
+  let cart: ICart | null = await Cart.findOne({ userId });
+
+  if (record.status === AbandonedCartStatus.RECOVERED) {
+    adjustments.push('This cart was already ordered');
+  } else {
+    for (const item of record.items) {
+      const inCart = cart?.items.some(
+        line => line.productId.toString() === item.productId.toString() &&
+          (line.variantId?.toString() || null) === (item.variantId?.toString() || null)
+      );
+      if (inCart) continue;
+
+      const result = await addCartItem({ userId }, {
+        productId: item.productId.toString(),
+        variantId: item.variantId?.toString(),
+        quantity: item.quantity
+      });
+      if (result.error) {
+        const name = item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+        adjustments.push(`${name} could not be restored: ${result.error}`);
+        continue;
+      }
+      cart = result.cart!;
+    }
+  }
+
+  record.restoredAt = new Date();
+  await record.save();
+
+  return { cart, adjustments };
+};
+
+// Abandonment over a period, in the base currency.
+// abandonmentRate: carts left without an order / (abandoned carts + orders placed without abandoning first).
+// recoveryRate: abandoned carts later ordered / abandoned carts.
+export const calculateAbandonedCartStats = async (from: Date, to: Date): Promise<AbandonedCartStats> => {
+  const [byStatus, orders] = await Promise.all([
+    AbandonedCart.aggregate([
+      { $match: { createdAt: { $gte: from, $lte: to } } },
+      {
+        $group: {
+          _id: '$status',
+          count: { $sum: 1 },
+          value: { $sum: '$baseTotal' },
+          recoveredValue: { $sum: { $ifNull: ['$recoveredValue', 0] } },
+          remindersSent: { $sum: '$remindersSent' }
+        }
+      }
+    ]),
+    Order.countDocuments({ createdAt: { $gte: from, $lte: to } })
+  ]);
+
+  const count = (status: AbandonedCartStatus): number => byStatus.find(group => group._id === status)?.count || 0;
+  const abandoned = byStatus.reduce((sum, group) => sum + group.count, 0);
+  const recovered = count(AbandonedCartStatus.RECOVERED);
+  const sessions = abandoned + Math.max(orders - recovered, 0);
+
+  return {
+    from,
+    to,
+    currency: BASE_CURRENCY,
+    abandoned,
+    open: count(AbandonedCartStatus.OPEN),
+    recovered,
+    lost: count(AbandonedCartStatus.LOST),
+    remindersSent: byStatus.reduce((sum, group) => sum + group.remindersSent, 0),
+    orders,
+    abandonedValue: roundCurrency(byStatus.reduce((sum, group) => sum + group.value, 0)),
+    recoveredValue: roundCurrency(byStatus.reduce((sum, group) => sum + group.recoveredValue, 0)),
+    abandonmentRate: sessions > 0 ? Math.round(((abandoned - recovered) / sessions) * 10000) / 10000 : 0,
+    recoveryRate: abandoned > 0 ? Math.round((recovered / abandoned) * 10000) / 10000 : 0
+  };
+};
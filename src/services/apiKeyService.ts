@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { ApiKey, ApiKeyResponse, IApiKey } from '../models/apiKey';
+import { UserRole } from '../models/user';
+
+const API_KEY_PREFIX = 'ak';
+// Usage is recorded at most once per interval, so that busy integrations do not write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface ServicePrincipal {
+  _id: IApiKey['_id'];
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  isServicePrincipal: true;
+}
+
+// Who made a change. On API key requests the user is the admin who issued the key.
+export interface RequestActor {
+  userId?: string;
+  apiKeyId?: string;
+}
+
+export const getRequestActor = (req: Request): RequestActor => ({
+  userId: req.userId,
+  apiKeyId: req.apiKey?.id
+});
+
+export const hashApiKey = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+// New key "ak_<8 hex>_<48 hex>". The first two parts form the prefix shown in listings.
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+  const prefix = `${API_KEY_PREFIX}_${crypto.randomBytes(4).toString('hex')}`;
+  const key = `${prefix}_${crypto.randomBytes(24).toString('hex')}`;
+  return { key, prefix, keyHash: hashApiKey(key) };
+};
+
+export const isApiKeyActive = (apiKey: IApiKey): boolean => {
+  return !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > new Date());
+};
+
+// Key matching a presented secret, if it is neither revoked nor expired. Records its use.
+export const findActiveApiKey = async (key: string, ipAddress?: string): Promise<IApiKey | null> => {
+  const apiKey = await ApiKey.findOne({ keyHash: hashApiKey(key.trim()) });
+  if (!apiKey || !isApiKeyActive(apiKey)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date(), lastUsedIp: ipAddress } }).catch(err => {
+      console.error('Failed to record API key usage:', err);
+    });
+  }
+
+  return apiKey;
+};
+
+// Stand-in for req.user on API key requests. It has the admin role so that handlers treat it like staff;
+// what it can reach is limited by the scopes of the key, since only routes declaring a scope accept keys.
+export const getServicePrincipal = (apiKey: IApiKey): ServicePrincipal => {
+  return {
+    _id: apiKey._id,
+    email: `${apiKey.prefix}@api-keys`,
+    firstName: apiKey.name,
+    lastName: 'API key',
+    role: UserRole.ADMIN,
+    isServicePrincipal: true
+  };
+};
+
+export const toApiKeyResponse = (apiKey: IApiKey): ApiKeyResponse => {
+  return {
+    id: apiKey._id.toString(),
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    createdBy: apiKey.createdBy.toString(),
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    lastUsedIp: apiKey.lastUsedIp,
+    revokedAt: apiKey.revokedAt,
+    active: isApiKeyActive(apiKey),
+    createdAt: apiKey.createdAt
+  };
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { Request } from 'express';
+import { AuthThrottle, AuthThrottleScope, IAuthThrottle } from '../models/authThrottle';
+import { User } from '../models/user';
+import emailService from './emailService';
+
+dotenv.config();
+
+// Failures of one account (email) before it is locked, and of one IP before it is blocked
+export const AUTH_MAX_FAILED_ATTEMPTS = parseInt(process.env.AUTH_MAX_FAILED_ATTEMPTS || '5', 10);
+export const AUTH_MAX_FAILED_ATTEMPTS_PER_IP = parseInt(process.env.AUTH_MAX_FAILED_ATTEMPTS_PER_IP || '20', 10);
+export const AUTH_LOCKOUT_MINUTES = parseInt(process.env.AUTH_LOCKOUT_MINUTES || '15', 10);
+// Before the lockout, each failure doubles the wait before the next attempt (1s, 2s, 4s...) up to this cap
+const AUTH_BACKOFF_MAX_SECONDS = parseInt(process.env.AUTH_BACKOFF_MAX_SECONDS || '60', 10);
+// Failures older than this are forgotten
+const AUTH_FAILURE_WINDOW_MINUTES = parseInt(process.env.AUTH_FAILURE_WINDOW_MINUTES || '60', 10);
+
+export interface AuthThrottleBlock {
+  retryAfter: number; // seconds
+  locked: boolean; // lockout rather than backoff delay
+}
+
+const getIpKey = (scope: AuthThrottleScope, req: Request): string => `${scope}:ip:${req.ip}`;
+
+const getEmailKey = (scope: AuthThrottleScope, email: string): string => `${scope}:email:${email.toLowerCase().trim()}`;
+
+const getThrottleKeys = (scope: AuthThrottleScope, req: Request, email?: string): string[] => {
+  return email ? [getIpKey(scope, req), getEmailKey(scope, email)] : [getIpKey(scope, req)];
+};
+
+const hashUnlockToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Whether the client or the account must wait before trying again; the longest wait wins
+export const getThrottleBlock = async (
+  scope: AuthThrottleScope,
+  req: Request,
+  email?: string
+): Promise<AuthThrottleBlock | null> => {
+  const now = new Date();
+  const throttles = await AuthThrottle.find({
+    key: { $in: getThrottleKeys(scope, req, email) },
+    blockedUntil: { $gt: now }
+  });
+  if (throttles.length === 0) {
+    return null;
+  }
+
+  const longest = throttles.reduce((a, b) => (a.blockedUntil! > b.blockedUntil! ? a : b));
+  return {
+    retryAfter: Math.ceil((longest.blockedUntil!.getTime() - now.getTime()) / 1000),
+    locked: !!longest.lockedAt
+  };
+};
+
+// Count one failure on a key and set the wait before the next attempt
+const recordKeyFailure = async (
+  key: string,
+  scope: AuthThrottleScope,
+  maxFailures: number
+): Promise<IAuthThrottle> => {
+  const now = new Date();
+
+  // The TTL monitor only runs every minute; make sure expired failures are not counted
+  await AuthThrottle.deleteOne({ key, expiresAt: { $lte: now } });
+
+  const throttle = await AuthThrottle.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now },
+      $setOnInsert: { scope, expiresAt: now }
+    },
+    { upsert: true, new: true }
+  );
+
+  if (throttle.failures >= maxFailures) {
+    // Locked until the lockout ends; counting starts over afterwards
+    throttle.lockedAt = now;
+    throttle.blockedUntil = new Date(now.getTime() + AUTH_LOCKOUT_MINUTES * 60 * 1000);
+    throttle.expiresAt = throttle.blockedUntil;
+  } else {
+    const delaySeconds = Math.min(2 ** (throttle.failures - 1), AUTH_BACKOFF_MAX_SECONDS);
+    throttle.blockedUntil = new Date(now.getTime() + delaySeconds * 1000);
+    throttle.expiresAt = new Date(now.getTime() + AUTH_FAILURE_WINDOW_MINUTES * 60 * 1000);
+  }
+  await throttle.save();
+
+  return throttle;
+};
+
+// Mail the account owner a link that lifts the lockout early. The email is claimed atomically so that
+// concurrent failures past the threshold send it only once.
+const sendUnlockEmail = async (throttle: IAuthThrottle, email: string): Promise<void> => {
+  const user = await User.findOne({ email: email.toLowerCase().trim() });
+  if (!user) {
+    return;
+  }
+
+  const unlockToken = crypto.randomBytes(32).toString('hex');
+  const claimed = await AuthThrottle.findOneAndUpdate(
+    { _id: throttle._id, unlockEmailSentAt: { $exists: false } },
+    { $set: { unlockEmailSentAt: new Date(), unlockToken: hashUnlockToken(unlockToken) } }
+  );
+  if (!claimed) {
+    return;
+  }
+
+  // Send account locked email (non-blocking)
+  emailService.sendAccountLockedEmail(user.email, user.firstName, unlockToken, AUTH_LOCKOUT_MINUTES).catch(err => {
+    console.error('Failed to send account locked email:', err);
+  });
+};
+
+// Record a failed attempt for the client IP and, when given, the account email.
+// A login lockout of an existing account sends the unlock email.
+export const recordAuthFailure = async (scope: AuthThrottleScope, req: Request, email?: string): Promise<void> => {
+  await recordKeyFailure(getIpKey(scope, req), scope, AUTH_MAX_FAILED_ATTEMPTS_PER_IP);
+
+  if (email) {
+    const throttle = await recordKeyFailure(getEmailKey(scope, email), scope, AUTH_MAX_FAILED_ATTEMPTS);
+    if (scope === AuthThrottleScope.LOGIN && throttle.failures >= AUTH_MAX_FAILED_ATTEMPTS && !throttle.unlockEmailSentAt) {
+      await sendUnlockEmail(throttle, email);
+    }
+  }
+};
+
+// Forget the failures of an account, e.g. after a successful login. IP failures are kept: they may come
+// from attempts on other accounts.
+export const clearAccountFailures = async (scope: AuthThrottleScope, email: string): Promise<void> => {
+  await AuthThrottle.deleteOne({ key: getEmailKey(scope, email) });
+};
+
+// Lift a login lockout with the token of the unlock email. Returns whether the token was valid.
+export const unlockWithToken = async (token: string): Promise<boolean> => {
+  const throttle = await AuthThrottle.findOneAndDelete({
+    unlockToken: hashUnlockToken(token),
+    expiresAt: { $gt: new Date() }
+  });
+  return !!throttle;
+};
@@ -0,0 +1,342 @@
+import { Request } from 'express';
+import mongoose, { ClientSession } from 'mongoose';
+import dotenv from 'dotenv';
+import { Cart, ICart, ICartItem, AddToCartDto } from '../models/cart';
+import { Coupon } from '../models/coupon';
+import { Product, IProduct } from '../models/product';
+import { ProductVariant, IProductVariant } from '../models/productVariant';
+import { User } from '../models/user';
+import { getVariantName } from '../utils/variantUtils';
+import { getAvailableQuantity } from './reservationService';
+import { evaluateCoupon, roundCurrency } from './couponService';
+import { calculateTax, getStoreTaxDestination, TaxDestination } from './taxService';
+import { BASE_CURRENCY, getExchangeRate, getPriceInCurrency } from './currencyService';
+
+dotenv.config();
+
+// Inactive guest carts are deleted after this many days
+export const GUEST_CART_TTL_DAYS = parseInt(process.env.GUEST_CART_TTL_DAYS || '30', 10);
+
+export const CART_TOKEN_HEADER = 'X-Cart-Token';
+export const CART_TOKEN_COOKIE = 'cartToken';
+
+export interface CartRecalculation {
+  couponRemoved?: string;
+  currencyReset?: string;
+}
+
+export interface AddCartItemResult {
+  cart?: ICart;
+  couponRemoved?: string;
+  status?: number; // set with error when the item cannot be added
+  error?: string;
+}
+
+export interface CartMergeResult {
+  cart: ICart;
+  adjustments: string[]; // items left out or reduced, coupon removed...
+}
+
+// Price the cart items in a currency at the current exchange rate.
+// Returns false when the currency is not sold. Items are only repriced when the currency or rate changed.
+export const applyCartCurrency = async (
+  cart: ICart,
+  currency: string,
+  session?: ClientSession
+): Promise<boolean> => {
+  const code = currency.trim().toUpperCase();
+  const exchangeRate = await getExchangeRate(code, session);
+  if (exchangeRate === null) {
+    return false;
+  }
+
+  if ((cart.currency || BASE_CURRENCY) === code && (cart.exchangeRate ?? 1) === exchangeRate) {
+    cart.currency = code;
+    cart.exchangeRate = exchangeRate;
+    return true;
+  }
+
+  for (const item of cart.items) {
+    const product = await Product.findById(item.productId).select('price prices').session(session || null);
+    if (!product) continue; // checkout rejects items whose product is gone
+
+    const variant = item.variantId
+      ? await ProductVariant.findById(item.variantId).select('price').session(session || null)
+      : null;
+
+    item.price = getPriceInCurrency(product, code, exchangeRate, variant?.price);
+    item.subtotal = roundCurrency(item.price * item.quantity);
+  }
+
+  cart.currency = code;
+  cart.exchangeRate = exchangeRate;
+  return true;
+};
+
+// Tax destination for cart estimates: the customer's default shipping address, else the store country
+const getCartTaxDestination = async (userId?: string, session?: ClientSession): Promise<TaxDestination | undefined> => {
+  if (userId) {
+    const user = await User.findById(userId).select('addresses defaultShippingAddressId').session(session || null);
+    const address = user?.defaultShippingAddressId ? user.addresses.id(user.defaultShippingAddressId) : null;
+    if (address) {
+      return { country: address.country, region: address.region };
+    }
+  }
+  return getStoreTaxDestination();
+};
+
+// Recalculate subtotal, coupon discount, tax and total of a cart.
+// A coupon that no longer applies (expired, min spend not met, ...) is removed from the cart,
+// and a currency that is no longer sold falls back to the base currency.
+// Checkout passes the shipping address as the tax destination.
+export const recalculateCart = async (
+  cart: ICart,
+  userId?: string,
+  session?: ClientSession,
+  destination?: TaxDestination
+): Promise<CartRecalculation> => {
+  const result: CartRecalculation = {};
+  let lineDiscounts = new Map<string, number>();
+
+  if (!(await applyCartCurrency(cart, cart.currency || BASE_CURRENCY, session))) {
+    result.currencyReset = `${cart.currency} is no longer available, prices are now shown in ${BASE_CURRENCY}`;
+    await applyCartCurrency(cart, BASE_CURRENCY, session);
+  }
+
+  cart.subtotal = roundCurrency(cart.items.reduce((sum, item) => sum + item.subtotal, 0));
+  cart.discount = 0;
+  cart.freeShipping = false;
+
+  if (cart.coupon?.couponId) {
+    const coupon = await Coupon.findById(cart.coupon.couponId).session(session || null);
+    const evaluation = coupon
+      ? await evaluateCoupon(coupon, cart.items, userId, session, cart.exchangeRate)
+      : { valid: false, error: 'This coupon no longer exists', discount: 0, freeShipping: false, lines: [] };
+
+    if (evaluation.valid) {
+      cart.discount = evaluation.discount;
+      cart.freeShipping = evaluation.freeShipping;
+      lineDiscounts = new Map(evaluation.lines.map(line => [line.itemId, line.amount]));
+    } else {
+      result.couponRemoved = `Coupon ${cart.coupon.code} was removed: ${evaluation.error}`;
+      cart.coupon = undefined;
+    }
+  }
+
+  const tax = await calculateTax(
+    cart.items.map(item => {
+      const itemId = (item as any)._id.toString();
+      return {
+        itemId,
+        productId: item.productId.toString(),
+        amount: roundCurrency(Math.max(item.subtotal - (lineDiscounts.get(itemId) || 0), 0))
+      };
+    }),
+    destination || await getCartTaxDestination(userId, session),
+    session
+  );
+  cart.taxLines = tax.lines;
+  cart.taxTotal = tax.taxTotal;
+  cart.pricesIncludeTax = tax.pricesIncludeTax;
+
+  // Inclusive prices already contain the tax
+  const goodsTotal = Math.max(cart.subtotal - cart.discount, 0);
+  cart.total = roundCurrency(tax.pricesIncludeTax ? goodsTotal : goodsTotal + tax.taxTotal);
+  return result;
+};
+
+// The cart of a request: the logged-in user's, or a guest cart from the signed cart token
+export interface CartOwner {
+  userId?: string;
+  guestCartId?: string;
+}
+
+export const getCartOwner = (req: Request): CartOwner => ({
+  userId: req.userId,
+  guestCartId: req.userId ? undefined : req.guestCartId
+});
+
+// Guest carts travel as a signed token in the X-Cart-Token header or the cartToken cookie
+export const getGuestCartToken = (req: Request): string | undefined => {
+  return req.header(CART_TOKEN_HEADER) || req.cookies?.[CART_TOKEN_COOKIE];
+};
+
+const getGuestCartExpiry = (): Date => {
+  return new Date(Date.now() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+// Find the cart of a user or guest. Loading a guest cart pushes back its expiry (saved with the cart).
+export const findCart = async (owner: CartOwner): Promise<ICart | null> => {
+  if (owner.userId) {
+    return Cart.findOne({ userId: owner.userId });
+  }
+  if (!owner.guestCartId || !mongoose.isValidObjectId(owner.guestCartId)) {
+    return null;
+  }
+
+  const cart = await Cart.findOne({ _id: owner.guestCartId, userId: { $exists: false } });
+  if (cart) {
+    cart.expiresAt = getGuestCartExpiry();
+  }
+  return cart;
+};
+
+export const getOrCreateCart = async (owner: CartOwner): Promise<ICart> => {
+  const cart = await findCart(owner);
+  if (cart) {
+    return cart;
+  }
+
+  return Cart.create({
+    userId: owner.userId,
+    items: [],
+    total: 0,
+    expiresAt: owner.userId ? undefined : getGuestCartExpiry()
+  });
+};
+
+// Product (and variant) that can be put in a cart. Products with variants must be added as a specific variant.
+const findCartProduct = async (
+  productId: string,
+  variantId?: string
+): Promise<{ product?: IProduct; variant?: IProductVariant | null; status?: number; error?: string }> => {
+  const product = await Product.findById(productId);
+  if (!product) {
+    return { status: 404, error: 'Product not found' };
+  }
+
+  let variant: IProductVariant | null = null;
+  if (product.hasVariants || variantId) {
+    if (!variantId) {
+      return { status: 400, error: 'Please select a variant for this product' };
+    }
+
+    variant = await ProductVariant.findOne({ _id: variantId, productId, status: 'active' });
+    if (!variant) {
+      return { status: 404, error: 'Variant not found' };
+    }
+  }
+
+  return { product, variant };
+};
+
+// Units that can be put in a cart; units held by unpaid orders are not available
+const getCartableQuantity = (product: IProduct, variant?: IProductVariant | null): number => {
+  const isInStock = variant ? variant.inStock : product.inStock;
+  return isInStock ? getAvailableQuantity(variant || product) : 0;
+};
+
+const findCartLine = (cart: ICart, productId: string, variantId?: string | null): ICartItem | undefined => {
+  return cart.items.find(
+    item => item.productId.toString() === productId &&
+      (item.variantId?.toString() || null) === (variantId || null)
+  );
+};
+
+// Set the quantity of a product (and variant) in the cart, adding the line if needed.
+// Priced in the cart currency; recalculateCart reprices everything if the rate has moved since.
+const setCartLine = (cart: ICart, product: IProduct, variant: IProductVariant | null | undefined, quantity: number): void => {
+  const unitPrice = getPriceInCurrency(product, cart.currency || BASE_CURRENCY, cart.exchangeRate ?? 1, variant?.price);
+  const existingItem = findCartLine(cart, product._id.toString(), variant?._id.toString());
+
+  if (existingItem) {
+    existingItem.quantity = quantity;
+    existingItem.subtotal = unitPrice * quantity;
+    return;
+  }
+
+  cart.items.push({
+    productId: product._id as any,
+    variantId: variant ? variant._id : undefined,
+    variantName: variant ? getVariantName(variant.options) : undefined,
+    sku: variant ? variant.sku : product.sku,
+    productName: product.name,
+    price: unitPrice,
+    quantity,
+    subtotal: unitPrice * quantity,
+    addedAt: new Date()
+  } as any);
+};
+
+// Add a product (or variant) to the cart of a user or guest, creating the cart if needed, and save it.
+// Checks stock against the units not held by unpaid orders, including what is already in the cart.
+export const addCartItem = async (owner: CartOwner, { productId, variantId, quantity }: AddToCartDto): Promise<AddCartItemResult> => {
+  const { product, variant, status, error } = await findCartProduct(productId, variantId);
+  if (!product) {
+    return { status, error };
+  }
+
+  const availableQuantity = getCartableQuantity(product, variant);
+  if (availableQuantity < quantity) {
+    return { status: 400, error: 'Insufficient stock' };
+  }
+
+  const cart = await getOrCreateCart(owner);
+
+  const existingItem = findCartLine(cart, product._id.toString(), variant?._id.toString());
+  const newQuantity = (existingItem?.quantity || 0) + quantity;
+  if (existingItem && availableQuantity < newQuantity) {
+    return { status: 400, error: 'Insufficient stock for requested quantity' };
+  }
+  setCartLine(cart, product, variant, newQuantity);
+
+  // Recalculate totals (and re-check any applied coupon)
+  const { couponRemoved } = await recalculateCart(cart, owner.userId);
+  await cart.save();
+
+  return { cart, couponRemoved };
+};
+
+// Move a guest cart into the user's cart on login or registration, then delete it.
+// Items are merged oldest first: quantities of the same product and variant add up, capped at the available
+// stock; items that are gone or out of stock are left out. The guest coupon is kept if the user cart has none.
+// Returns null when there was nothing to merge.
+export const mergeGuestCart = async (userId: string, guestCartId: string): Promise<CartMergeResult | null> => {
+  const guestCart = await findCart({ guestCartId });
+  if (!guestCart) {
+    return null;
+  }
+  if (guestCart.items.length === 0) {
+    await guestCart.deleteOne();
+    return null;
+  }
+
+  const cart = await getOrCreateCart({ userId });
+  const adjustments: string[] = [];
+  const guestItems = [...guestCart.items].sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+
+  for (const item of guestItems) {
+    const name = item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+    const { product, variant } = await findCartProduct(item.productId.toString(), item.variantId?.toString());
+    if (!product) {
+      adjustments.push(`${name} is no longer available`);
+      continue;
+    }
+
+    const currentQuantity = findCartLine(cart, product._id.toString(), variant?._id.toString())?.quantity || 0;
+    const requestedQuantity = currentQuantity + item.quantity;
+    const quantity = Math.min(requestedQuantity, getCartableQuantity(product, variant));
+
+    if (quantity <= currentQuantity) {
+      adjustments.push(`${name} could not be added: insufficient stock`);
+      continue;
+    }
+    if (quantity < requestedQuantity) {
+      adjustments.push(`${name} quantity reduced to ${quantity}: insufficient stock`);
+    }
+    setCartLine(cart, product, variant, quantity);
+  }
+
+  if (!cart.coupon?.couponId && guestCart.coupon?.couponId) {
+    cart.coupon = guestCart.coupon;
+  }
+
+  const { couponRemoved, currencyReset } = await recalculateCart(cart, userId);
+  if (couponRemoved) adjustments.push(couponRemoved);
+  if (currencyReset) adjustments.push(currencyReset);
+
+  await cart.save();
+  await guestCart.deleteOne();
+
+  return { cart, adjustments };
+};
@@ -0,0 +1,225 @@
+import mongoose, { ClientSession } from 'mongoose';
+import cloudinary from '../database/cloudinary';
+import { Category, ICategory, ICategoryAttribute, CategoryBreadcrumb, CategorySeo, CategoryTreeNode } from '../models/category';
+import { slugify } from '../utils/slugUtils';
+
+// Path prefix shared by the children (and all descendants) of a category
+export const getChildPath = (category: Pick<ICategory, '_id' | 'path'>): string => {
+  return `${category.path || ','}${category._id},`;
+};
+
+// Filter matching every descendant of a category; the anchored prefix can use the path index
+export const getDescendantFilter = (category: Pick<ICategory, '_id' | 'path'>) => ({
+  path: { $regex: `^${getChildPath(category)}` }
+});
+
+// The category and all its descendants
+export const getCategoryWithDescendantIds = async (categoryId: string): Promise<mongoose.Types.ObjectId[]> => {
+  const category = await Category.findById(categoryId).select('path');
+  if (!category) {
+    return [];
+  }
+
+  const descendants = await Category.find(getDescendantFilter(category)).select('_id');
+  return [category._id as mongoose.Types.ObjectId, ...descendants.map(descendant => descendant._id as mongoose.Types.ObjectId)];
+};
+
+export const isDescendantOf = (category: Pick<ICategory, 'path'>, ancestorId: string): boolean => {
+  return (category.path || ',').includes(`,${ancestorId},`);
+};
+
+// Unique slug from the given one or the name: "phones", then "phones-2", "phones-3"...
+export const generateCategorySlug = async (
+  source: string,
+  excludeId?: string,
+  session?: ClientSession
+): Promise<string> => {
+  const base = slugify(source) || 'category';
+  let slug = base;
+
+  for (let suffix = 2; ; suffix++) {
+    const taken = await Category.exists({
+      slug,
+      ...(excludeId && { _id: { $ne: excludeId } })
+    }).session(session || null);
+    if (!taken) {
+      return slug;
+    }
+    slug = `${base}-${suffix}`;
+  }
+};
+
+// Put a category under a new parent (or at the top level) and rewrite the paths of its whole subtree.
+// The caller checks that the new parent is not the category itself or one of its descendants.
+export const moveCategory = async (
+  category: ICategory,
+  parent: ICategory | null,
+  session?: ClientSession
+): Promise<void> => {
+  const oldChildPath = getChildPath(category);
+  const oldDepth = category.depth || 0;
+
+  category.parentId = parent ? (parent._id as mongoose.Types.ObjectId) : null;
+  category.path = parent ? getChildPath(parent) : ',';
+  category.depth = parent ? (parent.depth || 0) + 1 : 0;
+  await category.save({ session });
+
+  const newChildPath = getChildPath(category);
+  const depthChange = category.depth - oldDepth;
+  const descendants = await Category.find({ path: { $regex: `^${oldChildPath}` } })
+    .select('path depth')
+    .session(session || null);
+
+  if (descendants.length > 0) {
+    await Category.bulkWrite(
+      descendants.map(descendant => ({
+        updateOne: {
+          filter: { _id: descendant._id },
+          update: {
+            $set: {
+              path: newChildPath + descendant.path.slice(oldChildPath.length),
+              depth: (descendant.depth || 0) + depthChange
+            }
+          }
+        }
+      })),
+      { session }
+    );
+  }
+};
+
+// Ancestors of a category, root first, followed by the category itself
+export const getCategoryBreadcrumbs = async (
+  category: Pick<ICategory, '_id' | 'name' | 'slug' | 'path'>
+): Promise<CategoryBreadcrumb[]> => {
+  const ancestorIds = (category.path || ',').split(',').filter(Boolean);
+  const ancestors = ancestorIds.length > 0
+    ? await Category.find({ _id: { $in: ancestorIds } }).select('name slug').lean()
+    : [];
+  const ancestorsById = new Map(ancestors.map(ancestor => [ancestor._id.toString(), ancestor]));
+
+  const breadcrumbs: CategoryBreadcrumb[] = [];
+  for (const id of ancestorIds) {
+    const ancestor = ancestorsById.get(id);
+    if (ancestor) {
+      breadcrumbs.push({ _id: ancestor._id, name: ancestor.name, slug: ancestor.slug });
+    }
+  }
+  breadcrumbs.push({ _id: category._id as mongoose.Types.ObjectId, name: category.name, slug: category.slug });
+
+  return breadcrumbs;
+};
+
+// Nest categories under their parents, siblings ordered by sortOrder then name
+export const buildCategoryTree = (categories: ICategory[]): CategoryTreeNode[] => {
+  const nodes = new Map<string, CategoryTreeNode>();
+  for (const category of categories) {
+    nodes.set(category._id!.toString(), {
+      _id: category._id as mongoose.Types.ObjectId,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      thumbnail: category.thumbnail?.url,
+      sortOrder: category.sortOrder || 0,
+      depth: category.depth || 0,
+      children: []
+    });
+  }
+
+  const roots: CategoryTreeNode[] = [];
+  for (const category of categories) {
+    const node = nodes.get(category._id!.toString())!;
+    const parent = category.parentId ? nodes.get(category.parentId.toString()) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const sortNodes = (list: CategoryTreeNode[]): void => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+};
+
+// Meta title and description fall back to the name and description; the current slug is canonical
+export const getCategorySeo = (category: Pick<ICategory, 'name' | 'description' | 'slug' | 'metaTitle' | 'metaDescription'>): CategorySeo => ({
+  metaTitle: category.metaTitle || category.name,
+  metaDescription: category.metaDescription || category.description || '',
+  canonicalSlug: category.slug
+});
+
+// Change the slug, keeping the old one as an alias
+export const changeCategorySlug = (category: ICategory, slug: string): void => {
+  if (category.slug === slug) {
+    return;
+  }
+
+  const previousSlugs = (category.previousSlugs || []).filter(previous => previous !== slug);
+  if (category.slug) {
+    previousSlugs.push(category.slug);
+  }
+  category.previousSlugs = previousSlugs;
+  category.slug = slug;
+};
+
+// Remove a category image from Cloudinary. Failures are logged only: a leftover asset must not block the request.
+export const deleteCategoryImageAsset = async (publicId: string | undefined): Promise<void> => {
+  if (!publicId) {
+    return;
+  }
+
+  try {
+    await cloudinary.uploader.destroy(publicId);
+  } catch (error) {
+    console.error(`Error deleting category image ${publicId}:`, error);
+  }
+};
+
+// Attribute set that applies to products of a category: the attributes of its ancestors, root first,
+// then its own. A subcategory attribute replaces an inherited one with the same key.
+export const getCategoryAttributes = async (
+  category: Pick<ICategory, 'path' | 'attributes'>
+): Promise<ICategoryAttribute[]> => {
+  const ancestorIds = (category.path || ',').split(',').filter(Boolean);
+  const ancestors = ancestorIds.length > 0
+    ? await Category.find({ _id: { $in: ancestorIds } }).select('attributes').lean()
+    : [];
+  const ancestorsById = new Map(ancestors.map(ancestor => [ancestor._id.toString(), ancestor]));
+
+  const attributes = new Map<string, ICategoryAttribute>();
+  const sets = [...ancestorIds.map(id => ancestorsById.get(id)?.attributes || []), category.attributes || []];
+  for (const set of sets) {
+    for (const attribute of set) {
+      attributes.delete(attribute.key);
+      attributes.set(attribute.key, attribute);
+    }
+  }
+
+  return [...attributes.values()];
+};
+
+// Attributes that products can be filtered on: those that apply within a category (its own, inherited and
+// subcategory attributes) when given, otherwise those of every category. The first definition of a key wins.
+export const getFilterableAttributes = async (categoryId?: string): Promise<ICategoryAttribute[]> => {
+  let candidates: ICategoryAttribute[];
+  if (categoryId) {
+    const category = await Category.findById(categoryId).select('path attributes');
+    if (!category) {
+      return [];
+    }
+    const descendants = await Category.find(getDescendantFilter(category)).select('attributes').lean();
+    candidates = [...await getCategoryAttributes(category), ...descendants.flatMap(descendant => descendant.attributes)];
+  } else {
+    const categories = await Category.find({ 'attributes.filterable': true }).select('attributes').lean();
+    candidates = categories.flatMap(category => category.attributes);
+  }
+
+  const attributes = new Map<string, ICategoryAttribute>();
+  for (const attribute of candidates) {
+    if (attribute.filterable && !attributes.has(attribute.key)) {
+      attributes.set(attribute.key, attribute);
+    }
+  }
+  return [...attributes.values()];
+};
@@ -0,0 +1,235 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Coupon, CouponType, ICoupon } from '../models/coupon';
+import { CouponRedemption } from '../models/couponRedemption';
+import { Product } from '../models/product';
+import { ICartItem } from '../models/cart';
+
+export interface CouponLineDiscount {
+  itemId: string;
+  amount: number;
+}
+
+export interface CouponEvaluation {
+  valid: boolean;
+  error?: string;
+  discount: number;
+  freeShipping: boolean;
+  lines: CouponLineDiscount[];
+}
+
+export const roundCurrency = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+const invalid = (error: string): CouponEvaluation => ({
+  valid: false,
+  error,
+  discount: 0,
+  freeShipping: false,
+  lines: []
+});
+
+const getItemId = (item: ICartItem): string => (item as any)._id?.toString();
+
+// Split an amount across lines proportionally to their subtotal, keeping the cents exact
+const prorate = (amount: number, items: ICartItem[]): CouponLineDiscount[] => {
+  const base = items.reduce((sum, item) => sum + item.subtotal, 0);
+  if (base <= 0 || amount <= 0) return [];
+
+  let remaining = roundCurrency(amount);
+  return items.map((item, index) => {
+    const share = index === items.length - 1
+      ? remaining
+      : roundCurrency(amount * (item.subtotal / base));
+    remaining = roundCurrency(remaining - share);
+    return { itemId: getItemId(item), amount: share };
+  });
+};
+
+// Items the coupon's product/category scope applies to
+const getEligibleItems = async (
+  coupon: ICoupon,
+  items: ICartItem[],
+  session?: ClientSession
+): Promise<ICartItem[]> => {
+  if (coupon.productIds.length === 0 && coupon.categoryIds.length === 0) {
+    return items;
+  }
+
+  const productIds = coupon.productIds.map(id => id.toString());
+  const categoryIds = coupon.categoryIds.map(id => id.toString());
+
+  const products = await Product.find({ _id: { $in: items.map(item => item.productId) } })
+    .select('categoryId')
+    .session(session || null)
+    .lean();
+  const categoryByProduct = new Map(products.map(p => [p._id.toString(), p.categoryId?.toString()]));
+
+  return items.filter(item => {
+    const productId = item.productId.toString();
+    return productIds.includes(productId) ||
+      categoryIds.includes(categoryByProduct.get(productId) || '');
+  });
+};
+
+// Cheapest eligible units are free (or discounted) for every complete buy X + get Y group
+const calculateBuyXGetY = (coupon: ICoupon, items: ICartItem[]): CouponLineDiscount[] => {
+  const buy = coupon.buyQuantity || 1;
+  const get = coupon.getQuantity || 1;
+  const percent = coupon.value > 0 ? Math.min(coupon.value, 100) : 100;
+
+  const units = items.flatMap(item =>
+    Array.from({ length: item.quantity }, () => ({ itemId: getItemId(item), price: item.price }))
+  );
+
+  const freeUnits = Math.floor(units.length / (buy + get)) * get;
+  if (freeUnits === 0) return [];
+
+  const byItem = new Map<string, number>();
+  units
+    .sort((a, b) => a.price - b.price)
+    .slice(0, freeUnits)
+    .forEach(unit => {
+      byItem.set(unit.itemId, (byItem.get(unit.itemId) || 0) + unit.price * (percent / 100));
+    });
+
+  return Array.from(byItem.entries()).map(([itemId, amount]) => ({ itemId, amount: roundCurrency(amount) }));
+};
+
+// Check whether a coupon can be used for these cart items and work out the discount per line.
+// Coupon amounts are in the base currency; exchangeRate converts them to the currency of the items.
+export const evaluateCoupon = async (
+  coupon: ICoupon,
+  items: ICartItem[],
+  userId?: string,
+  session?: ClientSession,
+  exchangeRate: number = 1
+): Promise<CouponEvaluation> => {
+  const now = new Date();
+
+  if (!coupon.isActive) {
+    return invalid('This coupon is not active');
+  }
+
+  if (coupon.startsAt && coupon.startsAt > now) {
+    return invalid('This coupon is not valid yet');
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt < now) {
+    return invalid('This coupon has expired');
+  }
+
+  if (coupon.usageLimit !== undefined && coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    return invalid('This coupon has reached its usage limit');
+  }
+
+  if (userId && coupon.usageLimitPerUser) {
+    const userRedemptions = await CouponRedemption.countDocuments({
+      couponId: coupon._id,
+      userId
+    }).session(session || null);
+
+    if (userRedemptions >= coupon.usageLimitPerUser) {
+      return invalid('You have already used this coupon the maximum number of times');
+    }
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+  const minSpend = roundCurrency(coupon.minSpend * exchangeRate);
+  if (subtotal < minSpend) {
+    return invalid(`A minimum spend of ${minSpend.toFixed(2)} is required for this coupon`);
+  }
+
+  const eligibleItems = await getEligibleItems(coupon, items, session);
+  if (eligibleItems.length === 0) {
+    return invalid('This coupon does not apply to any item in your cart');
+  }
+
+  const eligibleSubtotal = eligibleItems.reduce((sum, item) => sum + item.subtotal, 0);
+  let lines: CouponLineDiscount[] = [];
+
+  switch (coupon.type) {
+    case CouponType.PERCENTAGE: {
+      const rate = Math.min(coupon.value, 100) / 100;
+      let amount = eligibleSubtotal * rate;
+      if (coupon.maxDiscount !== undefined && coupon.maxDiscount !== null) {
+        amount = Math.min(amount, coupon.maxDiscount * exchangeRate);
+      }
+      lines = prorate(amount, eligibleItems);
+      break;
+    }
+    case CouponType.FIXED_AMOUNT:
+      lines = prorate(Math.min(coupon.value * exchangeRate, eligibleSubtotal), eligibleItems);
+      break;
+    case CouponType.BUY_X_GET_Y:
+      lines = calculateBuyXGetY(coupon, eligibleItems);
+      if (lines.length === 0) {
+        return invalid(`Add at least ${(coupon.buyQuantity || 1) + (coupon.getQuantity || 1)} eligible items to use this coupon`);
+      }
+      break;
+    case CouponType.FREE_SHIPPING:
+      break;
+  }
+
+  return {
+    valid: true,
+    discount: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+    freeShipping: coupon.type === CouponType.FREE_SHIPPING,
+    lines
+  };
+};
+
+export const findCouponByCode = (code: string, session?: ClientSession) => {
+  return Coupon.findOne({ code: code.trim().toUpperCase() }).session(session || null);
+};
+
+// Count a coupon use for an order. Fails when the global limit was reached concurrently.
+export const redeemCoupon = async (
+  coupon: ICoupon,
+  userId: string,
+  orderId: mongoose.Types.ObjectId,
+  discount: number,
+  session: ClientSession
+): Promise<boolean> => {
+  const limitFilter = coupon.usageLimit
+    ? { $expr: { $lt: ['$usedCount', '$usageLimit'] } }
+    : {};
+
+  const result = await Coupon.updateOne(
+    { _id: coupon._id, ...limitFilter },
+    { $inc: { usedCount: 1 } },
+    { session }
+  );
+
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+
+  await CouponRedemption.create(
+    [{
+      couponId: coupon._id,
+      userId,
+      orderId,
+      code: coupon.code,
+      discount
+    }],
+    { session }
+  );
+
+  return true;
+};
+
+// Give the coupon use back when an order is cancelled
+export const releaseCouponRedemption = async (
+  orderId: mongoose.Types.ObjectId | string,
+  session: ClientSession
+): Promise<void> => {
+  const redemption = await CouponRedemption.findOneAndDelete({ orderId }, { session });
+  if (redemption) {
+    await Coupon.updateOne(
+      { _id: redemption.couponId, usedCount: { $gt: 0 } },
+      { $inc: { usedCount: -1 } },
+      { session }
+    );
+  }
+};
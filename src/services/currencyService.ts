@@ -0,0 +1,59 @@
+import { Request } from 'express';
+import { ClientSession } from 'mongoose';
+import dotenv from 'dotenv';
+import { ExchangeRate } from '../models/exchangeRate';
+import { IProductPrice } from '../models/product';
+import { roundCurrency } from './couponService';
+
+dotenv.config();
+
+// Currency of Product.price and of every amount configured by admins (coupons, shipping rates)
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || 'USD').toUpperCase();
+
+// Currency asked for by the client: ?currency= first, then the X-Currency header
+export const getRequestedCurrency = (req: Request): string | undefined => {
+  const value = typeof req.query.currency === 'string' ? req.query.currency : req.get('x-currency');
+  return value?.trim() ? value.trim().toUpperCase() : undefined;
+};
+
+// Units of the currency per unit of the base currency; null when the currency is not sold
+export const getExchangeRate = async (currency: string, session?: ClientSession): Promise<number | null> => {
+  const code = currency.trim().toUpperCase();
+  if (code === BASE_CURRENCY) {
+    return 1;
+  }
+
+  const exchangeRate = await ExchangeRate.findOne({ currency: code, isActive: true }).session(session || null);
+  return exchangeRate ? exchangeRate.rate : null;
+};
+
+export const getSupportedCurrencies = async (): Promise<string[]> => {
+  const rates = await ExchangeRate.find({ isActive: true }).select('currency').sort({ currency: 1 });
+  return [BASE_CURRENCY, ...rates.map(rate => rate.currency).filter(code => code !== BASE_CURRENCY)];
+};
+
+export const convertFromBase = (amount: number, exchangeRate: number): number => {
+  return roundCurrency(amount * exchangeRate);
+};
+
+export const convertToBase = (amount: number, exchangeRate: number): number => {
+  return roundCurrency(amount / exchangeRate);
+};
+
+// Unit price in a currency: the product's fixed price for that currency wins over conversion.
+// A variant with its own price is always converted from that price.
+export const getPriceInCurrency = (
+  product: { price: number; prices?: IProductPrice[] },
+  currency: string,
+  exchangeRate: number,
+  variantPrice?: number | null
+): number => {
+  if (variantPrice !== undefined && variantPrice !== null) {
+    return convertFromBase(variantPrice, exchangeRate);
+  }
+
+  const override = currency !== BASE_CURRENCY
+    ? product.prices?.find(price => price.currency === currency)
+    : undefined;
+  return override ? override.amount : convertFromBase(product.price, exchangeRate);
+};
@@ -154,16 +154,20 @@ class EmailService {
     firstName: string,
     orderId: string,
     orderTotal: number,
-    items: any[]
+    items: any[],
+    currency: string = process.env.BASE_CURRENCY || 'USD'
   ): Promise<void> {
     console.log(`📧 Attempting to send order confirmation to: ${to}`);
+
+    const formatMoney = (amount: number) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
     
     const itemsHtml = items.map(item => `
       <tr>
         <td style="padding: 10px; border-bottom: 1px solid #ddd;">${item.productName}</td>
         <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: center;">${item.quantity}</td>
-        <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: right;">$${item.price.toFixed(2)}</td>
-        <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: right;">$${item.subtotal.toFixed(2)}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: right;">${formatMoney(item.price)}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: right;">${formatMoney(item.subtotal)}</td>
       </tr>
     `).join('');
 
@@ -211,7 +215,7 @@ class EmailService {
               </table>
               
               <div class="total">
-                Total: $${orderTotal.toFixed(2)}
+                Total: ${formatMoney(orderTotal)}
               </div>
               
               <p style="margin-top: 20px;">You can track your order status in your account dashboard.</p>
@@ -239,6 +243,8 @@ class EmailService {
       confirmed: 'Your order has been confirmed and is being prepared! 📦',
       shipped: 'Great news! Your order has been shipped! 🚚',
       delivered: 'Your order has been delivered! Enjoy! 🎉',
+      partially_returned: 'We have received part of your order back. ↩️',
+      returned: 'We have received your returned order. ↩️',
       cancelled: 'Your order has been cancelled. If you have questions, contact support. ❌'
     };
 
@@ -283,6 +289,143 @@ class EmailService {
     });
   }
 
+  // Send return (RMA) status update email
+  async sendReturnStatusUpdate(
+    to: string,
+    firstName: string,
+    rmaNumber: string,
+    status: string,
+    note?: string
+  ): Promise<void> {
+    console.log(`📧 Attempting to send return update to: ${to}`);
+
+    const statusMessages: { [key: string]: string } = {
+      approved: 'Your return has been approved. Please send the items back with your return number on the parcel. 📦',
+      rejected: 'Unfortunately your return request could not be accepted. ❌',
+      received: 'We have received your returned items and processed your refund. 💸'
+    };
+
+    const message = statusMessages[status] || `Your return status has been updated to: ${status}`;
+
+    await this.sendEmail({
+      from: process.env.EMAIL_FROM,
+      to,
+      subject: `Return Update - ${rmaNumber}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #1A5C6C 0%, #0F3D4A 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .status-badge { display: inline-block; background: #FF8C42; color: white; padding: 10px 20px; border-radius: 20px; font-weight: bold; text-transform: uppercase; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Return Update</h1>
+              <p>${rmaNumber}</p>
+            </div>
+            <div class="content">
+              <h2>Hello ${firstName}!</h2>
+              <p>${message}</p>
+              <div class="status-badge">${status}</div>
+              ${note ? `<p>${note}</p>` : ''}
+              <p>You can follow your return in your account dashboard.</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Your Company. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  }
+
+  // Send abandoned cart reminder with a link that restores the cart
+  async sendAbandonedCartReminder(
+    to: string,
+    firstName: string,
+    items: { productName: string; variantName?: string; price: number; quantity: number }[],
+    cartTotal: number,
+    currency: string,
+    recoveryToken: string
+  ): Promise<void> {
+    console.log(`📧 Attempting to send abandoned cart reminder to: ${to}`);
+
+    const recoveryUrl = `${process.env.FRONTEND_URL || 'https://polycarpe-ecommerce-api.onrender.com/api-docs'}/cart/recover?token=${recoveryToken}`;
+    const formatMoney = (amount: number) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+    const itemsHtml = items.map(item => `
+      <tr>
+        <td style="padding: 10px; border-bottom: 1px solid #ddd;">${item.productName}${item.variantName ? ` (${item.variantName})` : ''}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: center;">${item.quantity}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #ddd; text-align: right;">${formatMoney(item.price)}</td>
+      </tr>
+    `).join('');
+
+    await this.sendEmail({
+      from: process.env.EMAIL_FROM,
+      to,
+      subject: 'You left something in your cart 🛒',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #1A5C6C 0%, #0F3D4A 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .cart-table { width: 100%; border-collapse: collapse; margin: 20px 0; background: white; }
+            .cart-table th { background: #1A5C6C; color: white; padding: 12px; text-align: left; }
+            .button { display: inline-block; background: #FF8C42; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin-top: 20px; }
+            .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Your cart is waiting</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${firstName}!</h2>
+              <p>You left these items in your cart. They are not reserved, so complete your order before they sell out:</p>
+
+              <table class="cart-table">
+                <thead>
+                  <tr>
+                    <th>Product</th>
+                    <th style="text-align: center;">Quantity</th>
+                    <th style="text-align: right;">Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${itemsHtml}
+                </tbody>
+              </table>
+
+              <p><strong>Total: ${formatMoney(cartTotal)}</strong></p>
+              <a href="${recoveryUrl}" class="button">Return to my cart</a>
+              <p>If the button doesn't work, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 12px;">${recoveryUrl}</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Your Company. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  }
+
   // Send password reset email
   async sendPasswordResetEmail(to: string, firstName: string, resetToken: string): Promise<void> {
     console.log(`Attempting to send password reset to: ${to}`);
@@ -333,6 +476,115 @@ class EmailService {
     });
   }
 
+  // Send email verification (new account or email change)
+  async sendVerificationEmail(
+    to: string,
+    firstName: string,
+    verificationToken: string,
+    expiresInHours: number,
+    isEmailChange: boolean = false
+  ): Promise<void> {
+    console.log(`Attempting to send email verification to: ${to}`);
+
+    const verifyUrl = `${process.env.FRONTEND_URL || 'https://polycarpe-ecommerce-api.onrender.com/api-docs'}/verify-email?token=${verificationToken}`;
+    const intro = isEmailChange
+      ? 'Please confirm that you want to use this address for your account. Your email will change once you confirm:'
+      : 'Thanks for signing up! Please confirm your email address:';
+
+    await this.sendEmail({
+      from: process.env.EMAIL_FROM,
+      to,
+      subject: isEmailChange ? 'Confirm your new email address ✉️' : 'Verify your email address ✉️',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #1A5C6C 0%, #0F3D4A 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; background: #FF8C42; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin-top: 20px; }
+            .warning { background: #FEF3C7; border-left: 4px solid #F59E0B; padding: 15px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${isEmailChange ? 'Confirm Your New Email' : 'Verify Your Email'}</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${firstName}!</h2>
+              <p>${intro}</p>
+              <a href="${verifyUrl}" class="button">Confirm Email</a>
+              <div class="warning">
+                <strong>⚠️ Security Notice:</strong><br>
+                This link will expire in ${expiresInHours} hours. If you didn't request this, please ignore this email.
+              </div>
+              <p>If the button doesn't work, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 12px;">${verifyUrl}</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Your Company. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  }
+
+  // Send account locked email with an unlock link
+  async sendAccountLockedEmail(to: string, firstName: string, unlockToken: string, lockoutMinutes: number): Promise<void> {
+    console.log(`Attempting to send account locked notice to: ${to}`);
+
+    const unlockUrl = `${process.env.FRONTEND_URL || 'https://polycarpe-ecommerce-api.onrender.com/api-docs'}/unlock-account?token=${unlockToken}`;
+
+    await this.sendEmail({
+      from: process.env.EMAIL_FROM,
+      to,
+      subject: 'Your account has been temporarily locked 🔒',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #1A5C6C 0%, #0F3D4A 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+            .button { display: inline-block; background: #FF8C42; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin-top: 20px; }
+            .warning { background: #FEF3C7; border-left: 4px solid #F59E0B; padding: 15px; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Account Temporarily Locked</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${firstName}!</h2>
+              <p>We locked your account for ${lockoutMinutes} minutes after several failed login attempts. If this was you, unlock it now:</p>
+              <a href="${unlockUrl}" class="button">Unlock Account</a>
+              <div class="warning">
+                <strong>⚠️ Security Notice:</strong><br>
+                If you didn't try to log in, someone may be guessing your password. Consider changing it once you are back in.
+              </div>
+              <p>If the button doesn't work, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 12px;">${unlockUrl}</p>
+            </div>
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} Your Company. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  }
+
   // Get service status
   getStatus(): { ready: boolean; message: string } {
     if (!this.transporter) {
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { IUser } from '../models/user';
+import emailService from './emailService';
+
+dotenv.config();
+
+export const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10);
+// Minimum time between two verification emails to the same user
+export const EMAIL_VERIFICATION_COOLDOWN_SECONDS = parseInt(process.env.EMAIL_VERIFICATION_COOLDOWN_SECONDS || '60', 10);
+// When enabled, orders can only be placed once the account email is verified
+export const REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT = process.env.REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT === 'true';
+
+export const hashEmailToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Seconds left before another verification email may be sent (0 when allowed)
+export const getVerificationCooldown = (user: IUser): number => {
+  if (!user.emailVerificationSentAt) {
+    return 0;
+  }
+  const elapsed = (Date.now() - user.emailVerificationSentAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(EMAIL_VERIFICATION_COOLDOWN_SECONDS - elapsed));
+};
+
+// Issue a new verification token (replacing any previous one) and mail it to the address awaiting
+// confirmation: the pending email of an email change, otherwise the account email. Saves the user.
+export const sendEmailVerification = async (user: IUser): Promise<void> => {
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+
+  user.emailVerificationToken = hashEmailToken(verificationToken);
+  user.emailVerificationExpiry = Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000;
+  user.emailVerificationSentAt = new Date();
+  await user.save();
+
+  // Send verification email (non-blocking)
+  emailService.sendVerificationEmail(
+    user.pendingEmail || user.email,
+    user.firstName,
+    verificationToken,
+    EMAIL_VERIFICATION_TTL_HOURS,
+    !!user.pendingEmail
+  ).catch(err => {
+    console.error('Failed to send verification email:', err);
+  });
+};
@@ -0,0 +1,382 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
+import { StockLocation, IStockLocation } from '../models/stockLocation';
+import {
+  StockMovement,
+  StockMovementType,
+  StockAdjustmentReason,
+  IStockMovement
+} from '../models/stockMovement';
+import { syncProductStock } from '../utils/variantUtils';
+import { RequestActor } from './apiKeyService';
+
+// A stock-keeping item: a product without variants, or one variant of a product
+export interface StockItem {
+  productId: mongoose.Types.ObjectId | string;
+  variantId?: mongoose.Types.ObjectId | string | null;
+}
+
+export interface StockLevel {
+  locationId: string;
+  quantity: number;
+}
+
+interface MovementInput {
+  locationId: mongoose.Types.ObjectId | string;
+  type: StockMovementType;
+  quantity: number;
+  reason?: StockAdjustmentReason;
+  note?: string;
+  orderId?: mongoose.Types.ObjectId | string;
+  transferId?: mongoose.Types.ObjectId;
+  createdBy?: string;
+  apiKeyId?: string;
+}
+
+export class InsufficientStockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+const actorFields = (actor?: RequestActor) => ({
+  createdBy: actor?.userId,
+  apiKeyId: actor?.apiKeyId
+});
+
+const toObjectId = (id: mongoose.Types.ObjectId | string) => new mongoose.Types.ObjectId(id.toString());
+
+const itemFilter = (item: StockItem) => ({
+  productId: toObjectId(item.productId),
+  variantId: item.variantId ? toObjectId(item.variantId) : null
+});
+
+// The default location, creating a "Main warehouse" the first time stock is recorded
+export const getDefaultStockLocation = async (session?: ClientSession): Promise<IStockLocation> => {
+  const location = await StockLocation.findOne({ isActive: true })
+    .sort({ isDefault: -1, createdAt: 1 })
+    .session(session || null);
+  if (location) {
+    return location;
+  }
+
+  const main = await StockLocation.findOne({ code: 'MAIN' }).session(session || null);
+  if (main) {
+    main.isActive = true;
+    main.isDefault = true;
+    await main.save({ session });
+    return main;
+  }
+
+  return (await StockLocation.create([{ name: 'Main warehouse', code: 'MAIN', isDefault: true }], { session }))[0];
+};
+
+// Stock per location, from the ledger
+export const getStockLevels = async (item: StockItem, session?: ClientSession): Promise<StockLevel[]> => {
+  const levels = await StockMovement.aggregate([
+    { $match: itemFilter(item) },
+    { $group: { _id: '$locationId', quantity: { $sum: '$quantity' } } }
+  ]).session(session || null);
+
+  return levels.map(level => ({ locationId: level._id.toString(), quantity: level.quantity }));
+};
+
+const getLocationLevel = async (item: StockItem, locationId: string, session?: ClientSession): Promise<number> => {
+  const levels = await getStockLevels(item, session);
+  return levels.find(level => level.locationId === locationId)?.quantity || 0;
+};
+
+// Start the ledger of an item with the quantity it had before stock was tracked by location
+const ensureOpeningBalance = async (item: StockItem, session?: ClientSession, actor?: RequestActor): Promise<void> => {
+  const hasMovements = await StockMovement.exists(itemFilter(item)).session(session || null);
+  if (hasMovements) return;
+
+  const stock = item.variantId
+    ? await ProductVariant.findById(item.variantId).select('quantity').session(session || null)
+    : await Product.findById(item.productId).select('quantity').session(session || null);
+  if (!stock || stock.quantity <= 0) return;
+
+  const location = await getDefaultStockLocation(session);
+  await StockMovement.create(
+    [{
+      ...itemFilter(item),
+      variantId: item.variantId || undefined,
+      locationId: location._id,
+      type: StockMovementType.ADJUSTMENT,
+      quantity: stock.quantity,
+      reason: StockAdjustmentReason.OPENING_BALANCE,
+      ...actorFields(actor)
+    }],
+    { session }
+  );
+};
+
+// Derive the item's quantity from the ledger; reaching zero marks it out of stock, restocking marks it back in
+const syncItemQuantity = async (item: StockItem, session?: ClientSession): Promise<{ quantity: number; inStock: boolean }> => {
+  const levels = await getStockLevels(item, session);
+  const quantity = Math.max(levels.reduce((sum, level) => sum + level.quantity, 0), 0);
+
+  const stock = item.variantId
+    ? await ProductVariant.findById(item.variantId).session(session || null)
+    : await Product.findById(item.productId).session(session || null);
+  if (!stock) {
+    return { quantity, inStock: false };
+  }
+
+  const previous = stock.quantity;
+  stock.quantity = quantity;
+  if (quantity === 0) {
+    stock.inStock = false;
+  } else if (previous === 0) {
+    stock.inStock = true;
+  }
+  await stock.save({ session });
+
+  if (item.variantId) {
+    await syncProductStock(item.productId, session);
+  }
+
+  return { quantity, inStock: stock.inStock };
+};
+
+const recordMovements = async (
+  item: StockItem,
+  movements: MovementInput[],
+  session?: ClientSession
+): Promise<IStockMovement[]> => {
+  const created = await StockMovement.create(
+    movements.map(movement => ({
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      ...movement
+    })),
+    { session, ordered: true }
+  );
+
+  await syncItemQuantity(item, session);
+  return created;
+};
+
+// Split an outgoing quantity over locations: the default location first, then the fullest ones.
+// With allowShortfall the missing units are taken from the default location instead of failing.
+const allocateOutgoing = async (
+  item: StockItem,
+  quantity: number,
+  session?: ClientSession,
+  allowShortfall = false
+): Promise<{ locationId: string; quantity: number }[]> => {
+  const defaultLocation = await getDefaultStockLocation(session);
+  const defaultId = defaultLocation._id.toString();
+
+  const levels = (await getStockLevels(item, session))
+    .filter(level => level.quantity > 0)
+    .sort((a, b) => (a.locationId === defaultId ? -1 : b.locationId === defaultId ? 1 : b.quantity - a.quantity));
+
+  const allocations: { locationId: string; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const level of levels) {
+    if (remaining === 0) break;
+    const taken = Math.min(level.quantity, remaining);
+    allocations.push({ locationId: level.locationId, quantity: taken });
+    remaining -= taken;
+  }
+
+  if (remaining > 0) {
+    if (!allowShortfall) {
+      throw new InsufficientStockError(`Only ${quantity - remaining} in stock across all locations`);
+    }
+    allocations.push({ locationId: defaultId, quantity: remaining });
+  }
+  return allocations;
+};
+
+// Record the stock a product or variant was created with as a receipt at the default location
+export const recordInitialStock = async (
+  item: StockItem,
+  quantity: number,
+  actor?: RequestActor,
+  session?: ClientSession
+): Promise<void> => {
+  if (!quantity || quantity <= 0) return;
+
+  const location = await getDefaultStockLocation(session);
+  await StockMovement.create(
+    [{
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      locationId: location._id,
+      type: StockMovementType.RECEIPT,
+      quantity,
+      note: 'Initial stock',
+      ...actorFields(actor)
+    }],
+    { session }
+  );
+};
+
+export const receiveStock = async (
+  item: StockItem,
+  locationId: string,
+  quantity: number,
+  actor?: RequestActor,
+  note?: string,
+  session?: ClientSession
+): Promise<IStockMovement[]> => {
+  await ensureOpeningBalance(item, session, actor);
+  return recordMovements(item, [{ locationId, type: StockMovementType.RECEIPT, quantity, note, ...actorFields(actor) }], session);
+};
+
+// Manual correction at one location; removing more than the location holds is refused
+export const adjustStock = async (
+  item: StockItem,
+  locationId: string,
+  quantity: number,
+  reason: StockAdjustmentReason,
+  actor?: RequestActor,
+  note?: string,
+  session?: ClientSession
+): Promise<IStockMovement[]> => {
+  await ensureOpeningBalance(item, session, actor);
+
+  if (quantity < 0) {
+    const level = await getLocationLevel(item, locationId, session);
+    if (level + quantity < 0) {
+      throw new InsufficientStockError(`Only ${level} in stock at this location`);
+    }
+  }
+
+  return recordMovements(item, [{ locationId, type: StockMovementType.ADJUSTMENT, quantity, reason, note, ...actorFields(actor) }], session);
+};
+
+// Move stock between two locations; the total quantity does not change
+export const transferStock = async (
+  item: StockItem,
+  fromLocationId: string,
+  toLocationId: string,
+  quantity: number,
+  actor?: RequestActor,
+  note?: string,
+  session?: ClientSession
+): Promise<IStockMovement[]> => {
+  await ensureOpeningBalance(item, session, actor);
+
+  const level = await getLocationLevel(item, fromLocationId, session);
+  if (level < quantity) {
+    throw new InsufficientStockError(`Only ${level} in stock at the source location`);
+  }
+
+  const transferId = new mongoose.Types.ObjectId();
+  return recordMovements(
+    item,
+    [
+      { locationId: fromLocationId, type: StockMovementType.TRANSFER, quantity: -quantity, transferId, note, ...actorFields(actor) },
+      { locationId: toLocationId, type: StockMovementType.TRANSFER, quantity, transferId, note, ...actorFields(actor) }
+    ],
+    session
+  );
+};
+
+// Bring the total quantity of an item to a target (product and variant edits) with count corrections
+export const setStockQuantity = async (
+  item: StockItem,
+  target: number,
+  actor?: RequestActor,
+  session?: ClientSession
+): Promise<{ quantity: number; inStock: boolean }> => {
+  await ensureOpeningBalance(item, session, actor);
+
+  const levels = await getStockLevels(item, session);
+  const current = levels.reduce((sum, level) => sum + level.quantity, 0);
+  const delta = target - current;
+
+  if (delta > 0) {
+    const location = await getDefaultStockLocation(session);
+    await recordMovements(
+      item,
+      [{ locationId: location._id.toString(), type: StockMovementType.ADJUSTMENT, quantity: delta, reason: StockAdjustmentReason.COUNT_CORRECTION, ...actorFields(actor) }],
+      session
+    );
+  } else if (delta < 0) {
+    const allocations = await allocateOutgoing(item, -delta, session);
+    await recordMovements(
+      item,
+      allocations.map(allocation => ({
+        locationId: allocation.locationId,
+        type: StockMovementType.ADJUSTMENT,
+        quantity: -allocation.quantity,
+        reason: StockAdjustmentReason.COUNT_CORRECTION,
+        ...actorFields(actor)
+      })),
+      session
+    );
+  }
+
+  return syncItemQuantity(item, session);
+};
+
+// Take sold units out of stock, spread over the locations that hold them.
+// The units were reserved at checkout, so a paid sale is never refused.
+export const recordSale = async (
+  item: StockItem,
+  quantity: number,
+  orderId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+): Promise<void> => {
+  await ensureOpeningBalance(item, session);
+  const allocations = await allocateOutgoing(item, quantity, session, true);
+
+  await recordMovements(
+    item,
+    allocations.map(allocation => ({
+      locationId: allocation.locationId,
+      type: StockMovementType.SALE,
+      quantity: -allocation.quantity,
+      orderId
+    })),
+    session
+  );
+};
+
+// Put units of a cancelled or returned order back where they were sold from (the default location for older orders)
+export const recordReturn = async (
+  item: StockItem,
+  quantity: number,
+  orderId: mongoose.Types.ObjectId | string,
+  actor?: RequestActor,
+  note?: string,
+  session?: ClientSession
+): Promise<void> => {
+  await ensureOpeningBalance(item, session, actor);
+
+  const movements = await StockMovement.find({
+    ...itemFilter(item),
+    orderId,
+    type: { $in: [StockMovementType.SALE, StockMovementType.RETURN] }
+  }).session(session || null);
+
+  // Units sold per location, minus what was already returned there
+  const outstanding = new Map<string, number>();
+  for (const movement of movements) {
+    const key = movement.locationId.toString();
+    outstanding.set(key, (outstanding.get(key) || 0) - movement.quantity);
+  }
+
+  const returns: MovementInput[] = [];
+  let remaining = quantity;
+  for (const [locationId, sold] of outstanding) {
+    if (remaining === 0) break;
+    const back = Math.min(sold, remaining);
+    if (back <= 0) continue;
+    returns.push({ locationId, type: StockMovementType.RETURN, quantity: back, orderId, note, ...actorFields(actor) });
+    remaining -= back;
+  }
+
+  if (remaining > 0) {
+    const location = await getDefaultStockLocation(session);
+    returns.push({ locationId: location._id.toString(), type: StockMovementType.RETURN, quantity: remaining, orderId, note, ...actorFields(actor) });
+  }
+
+  await recordMovements(item, returns, session);
+};
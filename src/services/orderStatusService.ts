@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { IOrder, IOrderStatusChange, OrderStatus, ORDER_STATUS_TRANSITIONS } from '../models/order';
+
+export interface StatusChangeActor {
+  actor: IOrderStatusChange['actor'];
+  userId?: string;
+  apiKeyId?: string;
+  reason?: string;
+}
+
+export const getAllowedTransitions = (status: OrderStatus): OrderStatus[] => {
+  return ORDER_STATUS_TRANSITIONS[status] || [];
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return getAllowedTransitions(from).includes(to);
+};
+
+// Build a history entry; used directly for the initial status of a new order
+export const buildStatusChange = (
+  from: OrderStatus | undefined,
+  to: OrderStatus,
+  { actor, userId, apiKeyId, reason }: StatusChangeActor
+): IOrderStatusChange => ({
+  from,
+  to,
+  actor,
+  changedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+  apiKeyId: apiKeyId ? new mongoose.Types.ObjectId(apiKeyId) : undefined,
+  reason: reason?.trim() || undefined,
+  createdAt: new Date()
+});
+
+// Move the order to a new status and record it in the history.
+// Returns false (and leaves the order untouched) when the transition is not allowed.
+export const transitionOrderStatus = (
+  order: IOrder,
+  to: OrderStatus,
+  change: StatusChangeActor
+): boolean => {
+  if (!canTransition(order.status, to)) {
+    return false;
+  }
+
+  order.statusHistory.push(buildStatusChange(order.status, to, change));
+  order.status = to;
+  return true;
+};
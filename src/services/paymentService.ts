@@ -0,0 +1,386 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Payment, PaymentStatus, PaymentRefundStatus, IPayment } from '../models/payment';
+import { Order, OrderStatus, OrderPaymentStatus, IOrder } from '../models/order';
+import { User } from '../models/user';
+import emailService from './emailService';
+import { roundCurrency } from './couponService';
+import { getPaymentProvider, DEFAULT_PAYMENT_PROVIDER, PaymentEvent, RefundResult } from './payments';
+import { transitionOrderStatus } from './orderStatusService';
+import { BASE_CURRENCY } from './currencyService';
+import { RESERVATION_TTL_MINUTES, commitOrderReservations, releaseOrderReservations } from './reservationService';
+import { ReservationStatus } from '../models/stockReservation';
+
+// What is left to pay online once store credit is applied
+export const getAmountDue = (order: IOrder): number => {
+  return roundCurrency(Math.max(order.total - (order.walletAmount || 0), 0));
+};
+
+// Create a payment intent for an order with the given (or default) provider, in the order's locked currency.
+// Returns null when no provider is configured; the order then waits for manual confirmation before its stock hold expires.
+export const createPaymentIntent = async (
+  order: IOrder,
+  providerName: string = DEFAULT_PAYMENT_PROVIDER,
+  session?: ClientSession
+): Promise<{ payment: IPayment; clientSecret?: string } | null> => {
+  const provider = getPaymentProvider(providerName);
+  if (!provider) {
+    return null;
+  }
+
+  const amount = getAmountDue(order);
+  const intent = await provider.createIntent({
+    amount,
+    currency: order.currency || BASE_CURRENCY,
+    orderId: order._id.toString()
+  });
+
+  const payment = (await Payment.create(
+    [{
+      orderId: order._id,
+      userId: order.userId,
+      provider: provider.name,
+      providerReference: intent.reference,
+      amount,
+      currency: order.currency || BASE_CURRENCY,
+      status: PaymentStatus.INTENT
+    }],
+    { session }
+  ))[0];
+
+  return { payment, clientSecret: intent.clientSecret };
+};
+
+// Mark a payment for staff reconciliation
+const flagPayment = (payment: IPayment, reason: string): void => {
+  payment.reconciliationReason = reason;
+  payment.flaggedAt = new Date();
+  console.warn(`Payment ${payment._id} flagged for reconciliation: ${reason}`);
+};
+
+// Flag a payment after a provider operation that the failed transaction could not record. Runs outside of the
+// transaction; apply can note what the provider did.
+const flagUnrecordedOperation = async (
+  paymentId: IPayment['_id'],
+  reason: string,
+  apply?: (payment: IPayment) => void
+): Promise<void> => {
+  try {
+    const payment = await Payment.findById(paymentId);
+    if (!payment) return;
+
+    apply?.(payment);
+    flagPayment(payment, reason);
+    await payment.save();
+  } catch (error) {
+    console.error(`Failed to flag payment ${paymentId}:`, error);
+  }
+};
+
+// Apply a provider callback to the payment and its order. Duplicate deliveries are ignored.
+// The order only moves from PENDING to CONFIRMED once the amount due is captured. Captures that do not
+// match the payment amount, or that arrive after the payment was voided, are flagged for reconciliation.
+export const applyPaymentEvent = async (
+  event: PaymentEvent
+): Promise<{ payment: IPayment; order: IOrder | null } | null> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  let orderConfirmed = false;
+
+  try {
+    const payment = await Payment.findOne({
+      provider: event.provider,
+      providerReference: event.reference
+    }).session(session);
+
+    if (!payment) {
+      await session.abortTransaction();
+      return null;
+    }
+
+    const order = await Order.findById(payment.orderId).session(session);
+
+    if (payment.events.some(applied => applied.eventId === event.id)) {
+      await session.abortTransaction();
+      return { payment, order };
+    }
+
+    payment.events.push({
+      eventId: event.id,
+      type: event.type,
+      amount: event.amount,
+      message: event.failureReason,
+      receivedAt: new Date()
+    });
+
+    switch (event.type) {
+      case 'payment.authorized':
+        if (payment.status === PaymentStatus.INTENT) {
+          payment.status = PaymentStatus.AUTHORIZED;
+          if (order) order.paymentStatus = OrderPaymentStatus.AUTHORIZED;
+        }
+        break;
+
+      case 'payment.captured': {
+        const captured = roundCurrency(event.amount);
+
+        if (payment.status === PaymentStatus.CANCELLED || payment.status === PaymentStatus.FAILED) {
+          // The money was taken after the payment was voided, e.g. by the reservation expiry. Keep it as a
+          // captured payment so that it can be refunded, but leave the order as it is.
+          flagPayment(payment, `Captured ${captured.toFixed(2)} after the payment was ${payment.status}`);
+          payment.status = PaymentStatus.CAPTURED;
+          payment.amountCaptured = captured;
+          if (order) order.amountPaid = roundCurrency(order.amountPaid + captured);
+          break;
+        }
+
+        if (payment.status === PaymentStatus.INTENT || payment.status === PaymentStatus.AUTHORIZED) {
+          payment.status = PaymentStatus.CAPTURED;
+          payment.amountCaptured = captured;
+          if (captured !== payment.amount) {
+            flagPayment(payment, `Captured ${captured.toFixed(2)}, expected ${payment.amount.toFixed(2)}`);
+          }
+
+          if (order) {
+            order.amountPaid = roundCurrency(order.amountPaid + captured);
+
+            // A partial capture leaves the order unpaid until the rest is settled
+            if (order.amountPaid >= getAmountDue(order)) {
+              order.paymentStatus = OrderPaymentStatus.PAID;
+              await commitOrderReservations(order._id, session);
+
+              if (order.status === OrderStatus.PENDING) {
+                orderConfirmed = transitionOrderStatus(order, OrderStatus.CONFIRMED, {
+                  actor: 'system',
+                  reason: `Payment captured by ${payment.provider}`
+                });
+              }
+            }
+          }
+        }
+        break;
+      }
+
+      case 'payment.failed':
+        if (payment.status === PaymentStatus.INTENT || payment.status === PaymentStatus.AUTHORIZED) {
+          payment.status = PaymentStatus.FAILED;
+          payment.failureReason = event.failureReason || 'Payment failed';
+          if (order && order.paymentStatus !== OrderPaymentStatus.PAID) {
+            order.paymentStatus = OrderPaymentStatus.FAILED;
+            // The stock goes back on sale; retrying the payment holds it again. Without a retry before the
+            // new deadline, the expiry job cancels the order and gives back its coupon and store credit.
+            await releaseOrderReservations(order._id, ReservationStatus.RELEASED, 'Payment failed', session);
+            order.reservationExpiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+          }
+        }
+        break;
+    }
+
+    await payment.save({ session });
+    if (order) await order.save({ session });
+    await session.commitTransaction();
+
+    if (order && orderConfirmed) {
+      try {
+        const user = await User.findById(order.userId);
+        if (user) {
+          await emailService.sendOrderStatusUpdate(
+            user.email,
+            user.firstName,
+            order._id.toString(),
+            order.status
+          );
+        }
+      } catch (emailError) {
+        console.error('Failed to send status update email:', emailError);
+      }
+    }
+
+    return { payment, order };
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// Capture a payment that was only authorized
+export const capturePayment = async (payment: IPayment) => {
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider) {
+    throw new Error(`Payment provider ${payment.provider} is not available`);
+  }
+
+  const event = await provider.capture(payment.providerReference, payment.amount);
+  return applyPaymentEvent(event);
+};
+
+// Refund part or all of a captured payment. The amount is first reserved on the payment as a pending refund, so
+// that concurrent or repeated refunds cannot exceed what was captured. A refund the provider made but that could
+// not be recorded stays pending and the payment is flagged for reconciliation.
+export const refundPayment = async (
+  payment: IPayment,
+  amount: number,
+  reason: string | undefined,
+  userId: string | undefined
+): Promise<{ payment: IPayment; order: IOrder | null }> => {
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider) {
+    throw new Error(`Payment provider ${payment.provider} is not available`);
+  }
+
+  const refundId = new mongoose.Types.ObjectId();
+  const reserved = await Payment.findOneAndUpdate(
+    {
+      _id: payment._id,
+      $expr: { $gte: [{ $subtract: ['$amountCaptured', '$amountRefunded'] }, amount] }
+    },
+    {
+      $inc: { amountRefunded: amount },
+      $push: {
+        refunds: {
+          _id: refundId,
+          amount,
+          reason,
+          status: PaymentRefundStatus.PENDING,
+          createdBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+          createdAt: new Date()
+        }
+      }
+    }
+  );
+  if (!reserved) {
+    throw new Error('Refund exceeds the amount left to refund on the payment');
+  }
+
+  let refund: RefundResult;
+  try {
+    refund = await provider.refund(payment.providerReference, amount, reason);
+  } catch (error) {
+    // Nothing was refunded: give the amount back
+    await Payment.updateOne(
+      { _id: payment._id },
+      { $inc: { amountRefunded: -amount }, $pull: { refunds: { _id: refundId } } }
+    );
+    throw error;
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const current = await Payment.findById(payment._id).session(session);
+    const entry = current?.refunds.find(item => item._id?.equals(refundId));
+    if (!current || !entry) {
+      throw new Error('Payment not found');
+    }
+
+    entry.status = PaymentRefundStatus.COMPLETED;
+    entry.providerReference = refund.reference;
+    entry.amount = refund.amount;
+    current.amountRefunded = roundCurrency(current.amountRefunded - amount + refund.amount);
+    current.status = current.amountRefunded >= current.amountCaptured
+      ? PaymentStatus.REFUNDED
+      : PaymentStatus.PARTIALLY_REFUNDED;
+    await current.save({ session });
+
+    const order = await Order.findById(current.orderId).session(session);
+    if (order) {
+      order.amountRefunded = roundCurrency(order.amountRefunded + refund.amount);
+      order.paymentStatus = order.amountRefunded >= order.amountPaid
+        ? OrderPaymentStatus.REFUNDED
+        : OrderPaymentStatus.PARTIALLY_REFUNDED;
+      await order.save({ session });
+    }
+
+    await session.commitTransaction();
+    return { payment: current, order };
+  } catch (error) {
+    await session.abortTransaction();
+    await flagUnrecordedOperation(
+      payment._id,
+      `Refund ${refund.reference} of ${refund.amount.toFixed(2)} was made by ${payment.provider} but not recorded`,
+      unrecorded => {
+        const entry = unrecorded.refunds.find(item => item._id?.equals(refundId));
+        if (entry) entry.providerReference = refund.reference;
+      }
+    );
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// Captured payments of an order that can still be refunded, oldest first, and the amount left to refund
+export const getRefundablePayments = async (
+  orderId: mongoose.Types.ObjectId | string
+): Promise<{ payments: IPayment[]; refundable: number }> => {
+  const payments = await Payment.find({
+    orderId,
+    status: { $in: [PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED] }
+  }).sort({ createdAt: 1 });
+
+  const refundable = roundCurrency(
+    payments.reduce((sum, payment) => sum + payment.amountCaptured - payment.amountRefunded, 0)
+  );
+  return { payments, refundable };
+};
+
+// Refund an amount of an order across its captured payments, oldest first.
+// The caller checks the amount against getRefundablePayments.
+export const refundOrderPayments = async (
+  payments: IPayment[],
+  amount: number,
+  reason: string | undefined,
+  userId: string | undefined
+): Promise<IOrder | null> => {
+  let remaining = amount;
+  let order: IOrder | null = null;
+  for (const payment of payments) {
+    if (remaining <= 0) break;
+
+    const available = roundCurrency(payment.amountCaptured - payment.amountRefunded);
+    const portion = Math.min(available, remaining);
+    if (portion <= 0) continue;
+
+    order = (await refundPayment(payment, portion, reason, userId)).order;
+    remaining = roundCurrency(remaining - portion);
+  }
+  return order;
+};
+
+// Pending orders whose payment failed and was not retried before their deadline
+export const findLapsedFailedPaymentOrders = async (): Promise<string[]> => {
+  const orders = await Order.find({
+    status: OrderStatus.PENDING,
+    paymentStatus: OrderPaymentStatus.FAILED,
+    reservationExpiresAt: { $lte: new Date() }
+  }).select('_id');
+  return orders.map(order => order._id.toString());
+};
+
+// Void payments that were never captured, e.g. when the order is cancelled
+export const cancelOpenPayments = async (
+  orderId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+): Promise<void> => {
+  const openPayments = await Payment.find({
+    orderId,
+    status: { $in: [PaymentStatus.INTENT, PaymentStatus.AUTHORIZED] }
+  }).session(session || null);
+
+  for (const payment of openPayments) {
+    const provider = getPaymentProvider(payment.provider);
+    if (provider) {
+      await provider.cancel(payment.providerReference);
+    }
+    payment.status = PaymentStatus.CANCELLED;
+    try {
+      await payment.save({ session });
+    } catch (error) {
+      await flagUnrecordedOperation(payment._id, `Cancelled by ${payment.provider} but not recorded`);
+      throw error;
+    }
+  }
+};
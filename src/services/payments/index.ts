@@ -0,0 +1,25 @@
+import { PaymentProvider } from './paymentProvider';
+import { MockPaymentProvider } from './mockPaymentProvider';
+
+const providers = new Map<string, PaymentProvider>();
+
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getPaymentProvider = (name: string): PaymentProvider | undefined => {
+  return providers.get(name);
+};
+
+export const getAvailablePaymentProviders = (): string[] => {
+  return Array.from(providers.keys());
+};
+
+export const DEFAULT_PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || 'mock';
+
+// The mock gateway accepts test cards, so it must never be reachable in production by accident
+if (process.env.NODE_ENV !== 'production' || process.env.ENABLE_MOCK_PAYMENTS === 'true') {
+  registerPaymentProvider(new MockPaymentProvider());
+}
+
+export * from './paymentProvider';
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import {
+  PaymentProvider,
+  PaymentEvent,
+  PaymentEventType,
+  CreateIntentParams,
+  PaymentIntentResult,
+  RefundResult,
+  ConfirmDetails
+} from './paymentProvider';
+
+const WEBHOOK_SECRET = process.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'mock-webhook-secret';
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+// Test card numbers, modelled on the usual gateway test cards
+const DECLINED_CARDS: Record<string, string> = {
+  '4000000000000002': 'Card declined',
+  '4000000000009995': 'Insufficient funds',
+  '4000000000000069': 'Card expired'
+};
+
+const randomId = (prefix: string): string => `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+
+// Local gateway that never leaves the process, so checkout can be tested end-to-end offline
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+
+  private event(type: PaymentEventType, reference: string, amount: number, failureReason?: string): PaymentEvent {
+    return {
+      id: randomId('evt'),
+      type,
+      provider: this.name,
+      reference,
+      amount,
+      failureReason,
+      occurredAt: new Date()
+    };
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<PaymentIntentResult> {
+    const reference = randomId('mock_pi');
+    return {
+      reference,
+      clientSecret: `${reference}_secret_${crypto.randomBytes(8).toString('hex')}`
+    };
+  }
+
+  async confirm(reference: string, amount: number, details: ConfirmDetails): Promise<PaymentEvent[]> {
+    const cardNumber = (details.cardNumber || '4242424242424242').replace(/\s+/g, '');
+
+    const declineReason = DECLINED_CARDS[cardNumber];
+    if (declineReason) {
+      return [this.event('payment.failed', reference, amount, declineReason)];
+    }
+
+    const events = [this.event('payment.authorized', reference, amount)];
+    if (details.captureMethod !== 'manual') {
+      events.push(this.event('payment.captured', reference, amount));
+    }
+    return events;
+  }
+
+  async capture(reference: string, amount: number): Promise<PaymentEvent> {
+    return this.event('payment.captured', reference, amount);
+  }
+
+  async refund(reference: string, amount: number, reason?: string): Promise<RefundResult> {
+    return {
+      reference: randomId('mock_re'),
+      amount
+    };
+  }
+
+  async cancel(reference: string): Promise<void> {
+    return;
+  }
+
+  // Sign a payload the way the mock gateway does, useful for simulating callbacks
+  sign(rawBody: string): string {
+    return crypto.createHmac('sha256', WEBHOOK_SECRET).update(rawBody).digest('hex');
+  }
+
+  parseWebhook(rawBody: Buffer | string, headers: IncomingHttpHeaders): PaymentEvent {
+    const body = rawBody.toString();
+    const signature = headers[MOCK_SIGNATURE_HEADER];
+
+    if (typeof signature !== 'string') {
+      throw new Error('Missing webhook signature');
+    }
+
+    const expected = this.sign(body);
+    const valid = signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    if (!valid) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const payload = JSON.parse(body);
+    if (!payload.id || !payload.type || !payload.reference) {
+      throw new Error('Invalid webhook payload');
+    }
+
+    return {
+      id: payload.id,
+      type: payload.type,
+      provider: this.name,
+      reference: payload.reference,
+      amount: Number(payload.amount) || 0,
+      failureReason: payload.failureReason,
+      occurredAt: payload.occurredAt ? new Date(payload.occurredAt) : new Date()
+    };
+  }
+}
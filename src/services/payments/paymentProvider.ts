@@ -0,0 +1,59 @@
+import { IncomingHttpHeaders } from 'http';
+
+export type PaymentEventType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.failed';
+
+// Normalised callback from a payment provider
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  provider: string;
+  reference: string;
+  amount: number;
+  failureReason?: string;
+  occurredAt: Date;
+}
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  orderId: string;
+  customerEmail?: string;
+}
+
+export interface PaymentIntentResult {
+  reference: string;
+  clientSecret?: string;
+}
+
+export interface RefundResult {
+  reference: string;
+  amount: number;
+}
+
+export interface ConfirmDetails {
+  cardNumber?: string;
+  captureMethod?: 'automatic' | 'manual';
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(params: CreateIntentParams): Promise<PaymentIntentResult>;
+
+  capture(reference: string, amount: number): Promise<PaymentEvent>;
+
+  refund(reference: string, amount: number, reason?: string): Promise<RefundResult>;
+
+  cancel(reference: string): Promise<void>;
+
+  // Verify the signature of a webhook request and turn it into a PaymentEvent.
+  // Throws when the signature or payload is invalid.
+  parseWebhook(rawBody: Buffer | string, headers: IncomingHttpHeaders): PaymentEvent;
+
+  // Only for providers where the server confirms the payment (e.g. the mock gateway).
+  // Hosted providers confirm on the client and report back through webhooks.
+  confirm?(reference: string, amount: number, details: ConfirmDetails): Promise<PaymentEvent[]>;
+}
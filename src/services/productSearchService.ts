@@ -0,0 +1,349 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { Product } from '../models/product';
+import { AttributeType, Category, ICategoryAttribute } from '../models/category';
+import { getCategoryWithDescendantIds, getFilterableAttributes } from './categoryService';
+import { SearchMatch, getRelevanceExpression, searchAllMatches } from './searchIndexService';
+import { buildAttributeFilter } from '../utils/attributeUtils';
+
+// Price facet boundaries in the requested currency; the last bucket is open-ended ("1000-")
+export const PRICE_RANGE_BOUNDARIES = [0, 25, 50, 100, 250, 500, 1000];
+// "4 & up", "3 & up"...: a product counts in every band at or below its rating
+export const RATING_BANDS = [4, 3, 2, 1];
+export const TAG_FACET_LIMIT = 20;
+export const ATTRIBUTE_FACET_LIMIT = 20;
+
+export enum Availability {
+  IN_STOCK = 'in_stock',
+  OUT_OF_STOCK = 'out_of_stock'
+}
+
+export const PRODUCT_SEARCH_SORTS = ['relevance', 'price', 'rating', 'name', 'createdAt'] as const;
+export type ProductSearchSort = typeof PRODUCT_SEARCH_SORTS[number];
+
+// Facet filters are multi-select: values of one facet are ORed, different facets are ANDed
+export interface ProductSearchQuery {
+  q?: string; // typo-tolerant, see searchIndexService
+  categories: string[];
+  priceRanges: string[]; // "25-50", "1000-"
+  tags: string[];
+  rating?: number; // lowest selected band
+  availability: Availability[];
+  attributes: Record<string, unknown>; // { ram: "8,16" }, see buildAttributeFilter
+  sortBy: ProductSearchSort;
+  order: 1 | -1;
+  page: number;
+  limit: number;
+}
+
+export interface FacetBucket<T = string> {
+  value: T;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface PriceRangeBucket extends FacetBucket {
+  min: number;
+  max: number | null;
+}
+
+// Most common values of a filterable attribute
+export interface AttributeFacet {
+  key: string;
+  name: string;
+  type: AttributeType;
+  unit?: string;
+  buckets: FacetBucket[];
+}
+
+export interface ProductSearchFacets {
+  categories: (FacetBucket & { slug?: string })[];
+  priceRanges: PriceRangeBucket[];
+  tags: FacetBucket[];
+  ratings: FacetBucket<number>[];
+  availability: FacetBucket<Availability>[];
+  attributes: AttributeFacet[];
+}
+
+export interface ProductSearchResult {
+  products: any[];
+  total: number;
+  facets: ProductSearchFacets;
+}
+
+// $match condition of each active facet filter, keyed by facet ("categories", "tags"... and "attribute_<key>")
+type FacetConditions = Record<string, Record<string, any>>;
+
+const getAttributeFacetName = (key: string): string => `attribute_${key}`;
+
+// Query string values may be repeated (?tags=a&tags=b) or comma separated (?tags=a,b)
+export const getQueryList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+  return values
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+// "25-50" -> { min: 25, max: 50 }, "1000-" -> { min: 1000, max: null }
+export const parsePriceRange = (range: string): { min: number; max: number | null } | null => {
+  const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)?$/.exec(range);
+  if (!match) {
+    return null;
+  }
+
+  const min = parseFloat(match[1]);
+  const max = match[2] !== undefined ? parseFloat(match[2]) : null;
+  return max !== null && max <= min ? null : { min, max };
+};
+
+const availableExpression = { $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] };
+
+// One $match condition per active facet filter. Prices are given in the requested currency and
+// compared with the base price, like the price filter of GET /api/products.
+const buildFacetConditions = async (
+  query: ProductSearchQuery,
+  exchangeRate: number
+): Promise<FacetConditions> => {
+  const conditions: FacetConditions = {};
+
+  if (query.categories.length > 0) {
+    const categoryIds = await Promise.all(query.categories.map(getCategoryWithDescendantIds));
+    conditions.categories = { categoryId: { $in: categoryIds.flat() } };
+  }
+
+  if (query.priceRanges.length > 0) {
+    conditions.priceRanges = {
+      $or: query.priceRanges.map(range => {
+        const { min, max } = parsePriceRange(range)!;
+        return {
+          price: {
+            $gte: min / exchangeRate,
+            ...(max !== null && { $lt: max / exchangeRate })
+          }
+        };
+      })
+    };
+  }
+
+  if (query.tags.length > 0) {
+    conditions.tags = { tags: { $in: query.tags } };
+  }
+
+  if (query.rating !== undefined) {
+    conditions.ratings = { rating: { $gte: query.rating } };
+  }
+
+  // Both values selected is the same as no availability filter
+  if (query.availability.length === 1) {
+    conditions.availability = query.availability[0] === Availability.IN_STOCK
+      ? { inStock: true, $expr: { $gt: [availableExpression, 0] } }
+      : { $or: [{ inStock: false }, { $expr: { $lte: [availableExpression, 0] } }] };
+  }
+
+  return conditions;
+};
+
+// The conditions of every facet except one: a facet's own selection must not hide its other values
+const matchExcept = (conditions: FacetConditions, excluded?: string): { $match: Record<string, any> } => {
+  const active = Object.keys(conditions)
+    .filter(name => name !== excluded)
+    .map(name => conditions[name]);
+
+  return { $match: active.length > 0 ? { $and: active } : {} };
+};
+
+// Relevance is the search index score plus the featured / in-stock boosts; without a query, newest first
+const getSortStages = (query: ProductSearchQuery, matches: SearchMatch[]): PipelineStage.FacetPipelineStage[] => {
+  if (query.sortBy === 'relevance') {
+    return query.q
+      ? [{ $addFields: { relevance: getRelevanceExpression(matches) } }, { $sort: { relevance: -1, _id: 1 } }]
+      : [{ $sort: { createdAt: -1, _id: 1 } }];
+  }
+  return [{ $sort: { [query.sortBy]: query.order, _id: 1 } }];
+};
+
+const formatPriceLabel = (min: number, max: number | null, currency: string): string => {
+  return max === null ? `${min} ${currency} and above` : `${min} - ${max} ${currency}`;
+};
+
+// Values of one attribute: multiselect values are counted one by one
+const getAttributeFacetPipeline = (conditions: FacetConditions, attribute: ICategoryAttribute): PipelineStage.FacetPipelineStage[] => [
+  matchExcept(conditions, getAttributeFacetName(attribute.key)),
+  { $unwind: '$attributes' },
+  { $match: { 'attributes.key': attribute.key } },
+  { $unwind: '$attributes.value' },
+  { $group: { _id: '$attributes.value', count: { $sum: 1 } } },
+  { $sort: { count: -1, _id: 1 } },
+  { $limit: ATTRIBUTE_FACET_LIMIT }
+];
+
+// Matching products and facet counts in one aggregation. Only active products are searched.
+// Attribute facets cover the filterable attributes within the selected category (all categories when none
+// or several are selected). Returns an error for an invalid attribute filter.
+export const findProductsWithFacets = async (
+  query: ProductSearchQuery,
+  currency: string,
+  exchangeRate: number
+): Promise<ProductSearchResult | { error: string }> => {
+  const conditions = await buildFacetConditions(query, exchangeRate);
+
+  const attributeDefinitions = await getFilterableAttributes(query.categories.length === 1 ? query.categories[0] : undefined);
+  const attributeFilter = buildAttributeFilter(attributeDefinitions, query.attributes);
+  if ('error' in attributeFilter) {
+    return attributeFilter;
+  }
+  for (const [key, condition] of Object.entries(attributeFilter.conditions)) {
+    conditions[getAttributeFacetName(key)] = condition;
+  }
+  const baseMatch: Record<string, any> = { status: 'active' };
+  const matches = query.q ? searchAllMatches(query.q) : [];
+  if (query.q) {
+    baseMatch._id = { $in: matches.map(match => new mongoose.Types.ObjectId(match.productId)) };
+  }
+
+  const priceBoundaries = PRICE_RANGE_BOUNDARIES.map(boundary => boundary / exchangeRate);
+
+  const [result] = await Product.aggregate([
+    { $match: baseMatch },
+    {
+      $facet: {
+        products: [
+          matchExcept(conditions),
+          ...getSortStages(query, matches),
+          { $skip: (query.page - 1) * query.limit },
+          { $limit: query.limit }
+        ],
+        total: [matchExcept(conditions), { $count: 'count' }],
+        categories: [
+          matchExcept(conditions, 'categories'),
+          { $group: { _id: '$categoryId', count: { $sum: 1 } } }
+        ],
+        priceRanges: [
+          matchExcept(conditions, 'priceRanges'),
+          {
+            $bucket: {
+              groupBy: '$price',
+              boundaries: priceBoundaries,
+              default: 'above',
+              output: { count: { $sum: 1 } }
+            }
+          }
+        ],
+        tags: [
+          matchExcept(conditions, 'tags'),
+          { $unwind: '$tags' },
+          { $group: { _id: '$tags', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: TAG_FACET_LIMIT }
+        ],
+        ratings: [
+          matchExcept(conditions, 'ratings'),
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(RATING_BANDS.map(band => [
+                `band${band}`,
+                { $sum: { $cond: [{ $gte: ['$rating', band] }, 1, 0] } }
+              ]))
+            }
+          }
+        ],
+        availability: [
+          matchExcept(conditions, 'availability'),
+          {
+            $group: {
+              _id: { $and: ['$inStock', { $gt: [availableExpression, 0] }] },
+              count: { $sum: 1 }
+            }
+          }
+        ],
+        ...Object.fromEntries(attributeDefinitions.map(attribute => [
+          getAttributeFacetName(attribute.key),
+          getAttributeFacetPipeline(conditions, attribute)
+        ]))
+      }
+    }
+  ]);
+
+  const categoryCounts: { _id: mongoose.Types.ObjectId; count: number }[] = result.categories;
+  const categories = await Category.find({ _id: { $in: categoryCounts.map(bucket => bucket._id) } })
+    .select('name slug')
+    .lean();
+  const categoriesById = new Map(categories.map(category => [category._id.toString(), category]));
+
+  // The last boundary starts the open-ended bucket, which $bucket reports as the default
+  const priceCounts = new Map<string, number>(
+    result.priceRanges.map((bucket: { _id: number | string; count: number }) => [
+      bucket._id === 'above' ? 'above' : String(Math.round(Number(bucket._id) * exchangeRate * 100) / 100),
+      bucket.count
+    ])
+  );
+  const ratingCounts = result.ratings[0] || {};
+  const availabilityCounts: { _id: boolean; count: number }[] = result.availability;
+
+  return {
+    products: result.products,
+    total: result.total[0]?.count || 0,
+    facets: {
+      categories: categoryCounts
+        .filter(bucket => categoriesById.has(bucket._id.toString()))
+        .map(bucket => {
+          const category = categoriesById.get(bucket._id.toString())!;
+          return {
+            value: bucket._id.toString(),
+            label: category.name,
+            slug: category.slug,
+            count: bucket.count,
+            selected: query.categories.includes(bucket._id.toString())
+          };
+        })
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+      priceRanges: PRICE_RANGE_BOUNDARIES.map((min, index) => {
+        const max = index + 1 < PRICE_RANGE_BOUNDARIES.length ? PRICE_RANGE_BOUNDARIES[index + 1] : null;
+        const value = `${min}-${max ?? ''}`;
+        return {
+          value,
+          label: formatPriceLabel(min, max, currency),
+          min,
+          max,
+          count: (max === null ? priceCounts.get('above') : priceCounts.get(String(min))) || 0,
+          selected: query.priceRanges.includes(value)
+        };
+      }),
+      tags: result.tags.map((bucket: { _id: string; count: number }) => ({
+        value: bucket._id,
+        label: bucket._id,
+        count: bucket.count,
+        selected: query.tags.includes(bucket._id)
+      })),
+      ratings: RATING_BANDS.map(band => ({
+        value: band,
+        label: `${band} stars & up`,
+        count: ratingCounts[`band${band}`] || 0,
+        selected: query.rating === band
+      })),
+      availability: [Availability.IN_STOCK, Availability.OUT_OF_STOCK].map(value => ({
+        value,
+        label: value === Availability.IN_STOCK ? 'In stock' : 'Out of stock',
+        count: availabilityCounts.find(bucket => bucket._id === (value === Availability.IN_STOCK))?.count || 0,
+        selected: query.availability.includes(value)
+      })),
+      attributes: attributeDefinitions.map(attribute => {
+        const selected = getQueryList(query.attributes[attribute.key]).map(value => value.toLowerCase());
+        return {
+          key: attribute.key,
+          name: attribute.name,
+          type: attribute.type,
+          unit: attribute.unit,
+          buckets: result[getAttributeFacetName(attribute.key)].map((bucket: { _id: unknown; count: number }) => ({
+            value: String(bucket._id),
+            label: attribute.unit ? `${bucket._id} ${attribute.unit}` : String(bucket._id),
+            count: bucket.count,
+            selected: selected.includes(String(bucket._id).toLowerCase())
+          }))
+        };
+      })
+    }
+  };
+};
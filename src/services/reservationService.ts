@@ -0,0 +1,185 @@
+import mongoose, { ClientSession } from 'mongoose';
+import dotenv from 'dotenv';
+import { IOrder, IOrderItem } from '../models/order';
+import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
+import { StockReservation, ReservationStatus } from '../models/stockReservation';
+import { syncProductStock } from '../utils/variantUtils';
+import { recordReturn, recordSale } from './inventoryService';
+
+dotenv.config();
+
+// How long stock stays held for an order waiting for its payment
+export const RESERVATION_TTL_MINUTES = parseInt(process.env.RESERVATION_TTL_MINUTES || '15', 10);
+
+export const getAvailableQuantity = (stock: { quantity: number; reserved?: number }): number => {
+  return Math.max(stock.quantity - (stock.reserved || 0), 0);
+};
+
+// Atomically hold units if enough are available; concurrent checkouts cannot both take the last unit
+const holdStock = async (item: IOrderItem, session: ClientSession): Promise<boolean> => {
+  const enoughAvailable = {
+    $expr: { $gte: [{ $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] }, item.quantity] }
+  };
+
+  if (item.variantId) {
+    const result = await ProductVariant.updateOne(
+      { _id: item.variantId, status: 'active', inStock: true, ...enoughAvailable },
+      { $inc: { reserved: item.quantity } },
+      { session }
+    );
+    if (result.modifiedCount === 0) return false;
+
+    await syncProductStock(item.productId, session);
+    return true;
+  }
+
+  const result = await Product.updateOne(
+    { _id: item.productId, inStock: true, ...enoughAvailable },
+    { $inc: { reserved: item.quantity } },
+    { session }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Hold stock for every item of an order until expiresAt.
+// Returns the expiry, or the name of the first item that could not be held (the caller aborts the transaction).
+export const reserveOrderItems = async (
+  order: IOrder,
+  session: ClientSession
+): Promise<{ expiresAt?: Date; unavailable?: string }> => {
+  const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+  for (const item of order.items) {
+    if (!(await holdStock(item, session))) {
+      return { unavailable: item.variantName ? `${item.productName} (${item.variantName})` : item.productName };
+    }
+  }
+
+  await StockReservation.create(
+    order.items.map(item => ({
+      orderId: order._id,
+      userId: order.userId,
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      expiresAt
+    })),
+    { session, ordered: true }
+  );
+
+  return { expiresAt };
+};
+
+// Take units out of the reserved counter of a product or variant
+const releaseHold = async (
+  productId: mongoose.Types.ObjectId,
+  variantId: mongoose.Types.ObjectId | undefined,
+  quantity: number,
+  session: ClientSession
+): Promise<void> => {
+  if (variantId) {
+    const variant = await ProductVariant.findById(variantId).session(session);
+    if (variant) {
+      variant.reserved = Math.max(variant.reserved - quantity, 0);
+      await variant.save({ session });
+      await syncProductStock(productId, session);
+    }
+    return;
+  }
+
+  const product = await Product.findById(productId).session(session);
+  if (product) {
+    product.reserved = Math.max(product.reserved - quantity, 0);
+    await product.save({ session });
+  }
+};
+
+// Turn the active holds of an order into a sale recorded in the stock ledger
+export const commitOrderReservations = async (
+  orderId: mongoose.Types.ObjectId | string,
+  session: ClientSession
+): Promise<number> => {
+  const reservations = await StockReservation.find({ orderId, status: ReservationStatus.ACTIVE }).session(session);
+
+  for (const reservation of reservations) {
+    await releaseHold(reservation.productId, reservation.variantId, reservation.quantity, session);
+    await recordSale(
+      { productId: reservation.productId, variantId: reservation.variantId },
+      reservation.quantity,
+      orderId,
+      session
+    );
+
+    reservation.status = ReservationStatus.COMMITTED;
+    await reservation.save({ session });
+  }
+
+  return reservations.length;
+};
+
+// Give the active holds of an order back to available stock
+export const releaseOrderReservations = async (
+  orderId: mongoose.Types.ObjectId | string,
+  status: ReservationStatus.RELEASED | ReservationStatus.EXPIRED,
+  reason: string,
+  session: ClientSession
+): Promise<number> => {
+  const reservations = await StockReservation.find({ orderId, status: ReservationStatus.ACTIVE }).session(session);
+
+  for (const reservation of reservations) {
+    await releaseHold(reservation.productId, reservation.variantId, reservation.quantity, session);
+
+    reservation.status = status;
+    reservation.releasedAt = new Date();
+    reservation.reason = reason;
+    await reservation.save({ session });
+  }
+
+  return reservations.length;
+};
+
+// Whether stock was already taken out for the order (holds committed, or an order placed before reservations)
+const isStockCommitted = async (order: IOrder, session: ClientSession): Promise<boolean> => {
+  const reservations = await StockReservation.find({ orderId: order._id }).select('status').session(session);
+  return reservations.length === 0 || reservations.some(reservation => reservation.status === ReservationStatus.COMMITTED);
+};
+
+// Return the stock of a cancelled order: release its holds, or restock what was already sold
+export const returnOrderStock = async (order: IOrder, reason: string, session: ClientSession): Promise<void> => {
+  const committed = await isStockCommitted(order, session);
+  await releaseOrderReservations(order._id as mongoose.Types.ObjectId, ReservationStatus.RELEASED, reason, session);
+
+  if (committed) {
+    for (const item of order.items) {
+      await recordReturn(item, item.quantity, order._id as mongoose.Types.ObjectId, undefined, reason, session);
+    }
+  }
+};
+
+// Hold stock again for an unpaid order whose holds were released (e.g. after a failed payment)
+export const ensureOrderReserved = async (
+  order: IOrder,
+  session: ClientSession
+): Promise<{ expiresAt?: Date; unavailable?: string }> => {
+  const reservations = await StockReservation.find({
+    orderId: order._id,
+    status: { $in: [ReservationStatus.ACTIVE, ReservationStatus.COMMITTED] }
+  }).session(session);
+
+  if (reservations.length > 0) {
+    const active = reservations.filter(reservation => reservation.status === ReservationStatus.ACTIVE);
+    return { expiresAt: active[0]?.expiresAt };
+  }
+
+  return reserveOrderItems(order, session);
+};
+
+// Active holds past their expiry, grouped by order
+export const findExpiredReservationOrders = async (): Promise<string[]> => {
+  const orderIds = await StockReservation.distinct('orderId', {
+    status: ReservationStatus.ACTIVE,
+    expiresAt: { $lte: new Date() }
+  });
+  return orderIds.map(id => id.toString());
+};
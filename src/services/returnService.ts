@@ -0,0 +1,96 @@
+import mongoose, { ClientSession } from 'mongoose';
+import dotenv from 'dotenv';
+import { IOrder, IOrderItem, OrderStatus } from '../models/order';
+import { IReturnRequest, ReturnRequest, ReturnStatus } from '../models/returnRequest';
+import { roundCurrency } from './couponService';
+import { transitionOrderStatus } from './orderStatusService';
+
+dotenv.config();
+
+// Days after delivery during which customers can request a return
+export const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '30', 10);
+
+export interface ReturnableLine {
+  orderItemId: string;
+  productName: string;
+  ordered: number;
+  requested: number; // in returns that were not rejected
+  returned: number; // in returns that were received
+  returnable: number;
+}
+
+export const getDeliveredAt = (order: IOrder): Date => {
+  const delivered = [...order.statusHistory].reverse().find(change => change.to === OrderStatus.DELIVERED);
+  return delivered?.createdAt || order.updatedAt;
+};
+
+export const isWithinReturnWindow = (order: IOrder, now = new Date()): boolean => {
+  const deadline = getDeliveredAt(order).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return now.getTime() <= deadline;
+};
+
+export const getReturnableLines = (order: IOrder, returns: IReturnRequest[]): ReturnableLine[] => {
+  return order.items.map(item => {
+    const itemId = item._id!.toString();
+    const line: ReturnableLine = {
+      orderItemId: itemId,
+      productName: item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+      ordered: item.quantity,
+      requested: 0,
+      returned: 0,
+      returnable: item.quantity
+    };
+
+    for (const request of returns) {
+      if (request.status === ReturnStatus.REJECTED) continue;
+
+      for (const returned of request.items) {
+        if (returned.orderItemId.toString() !== itemId) continue;
+
+        line.requested += returned.quantity;
+        if (request.status === ReturnStatus.RECEIVED) line.returned += returned.quantity;
+      }
+    }
+
+    line.returnable = Math.max(line.ordered - line.requested, 0);
+    return line;
+  });
+};
+
+// What the customer paid for some units of a line: its share of discounts, plus tax when it was added on top.
+// Shipping is not refunded.
+export const calculateReturnAmount = (order: IOrder, item: IOrderItem, quantity: number): number => {
+  const paid = item.subtotal - (item.discount || 0) + (order.pricesIncludeTax ? 0 : item.tax || 0);
+  return roundCurrency(Math.max(paid, 0) / item.quantity * quantity);
+};
+
+// Derive PARTIALLY_RETURNED / RETURNED from the received returns of the order.
+// Returns the new status when it changed; the caller saves the order.
+export const syncOrderReturnStatus = async (
+  order: IOrder,
+  userId: string | undefined,
+  session?: ClientSession
+): Promise<OrderStatus | null> => {
+  const returns = await ReturnRequest.find({ orderId: order._id }).session(session || null);
+  const lines = getReturnableLines(order, returns);
+
+  const returnedUnits = lines.reduce((sum, line) => sum + line.returned, 0);
+  if (returnedUnits === 0) return null;
+
+  const target = lines.every(line => line.returned >= line.ordered)
+    ? OrderStatus.RETURNED
+    : OrderStatus.PARTIALLY_RETURNED;
+  if (order.status === target) return null;
+
+  const changed = transitionOrderStatus(order, target, {
+    actor: 'system',
+    userId,
+    reason: `${returnedUnits} item(s) returned`
+  });
+  return changed ? target : null;
+};
+
+export const generateRmaNumber = (): string => {
+  const suffix = new mongoose.Types.ObjectId().toString().slice(-6).toUpperCase();
+  return `RMA-${Date.now().toString(36).toUpperCase()}-${suffix}`;
+};
@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { Product, IProduct } from '../models/product';
+import { getAvailableQuantity } from './reservationService';
+import { slugify } from '../utils/slugUtils';
+
+dotenv.config();
+
+// Groups of interchangeable terms: "tv,television;laptop,notebook;phone,mobile,smartphone"
+const SEARCH_SYNONYMS = process.env.SEARCH_SYNONYMS || '';
+// Added to the text score of featured / in-stock products so that they rank first among similar matches
+export const SEARCH_FEATURED_BOOST = parseFloat(process.env.SEARCH_FEATURED_BOOST || '0.2');
+export const SEARCH_IN_STOCK_BOOST = parseFloat(process.env.SEARCH_IN_STOCK_BOOST || '0.3');
+
+// Terms less similar than this (trigram Jaccard) are not considered a match
+const MIN_SIMILARITY = 0.3;
+// Where a term was found; a name match counts more than a tag or description match
+const FIELD_WEIGHTS = { name: 1, tags: 0.6, description: 0.3 };
+
+type IndexedFields = Pick<IProduct, 'name' | 'description' | 'tags'> & { _id: unknown };
+
+export interface SearchMatch {
+  productId: string;
+  score: number;
+}
+
+// In-process inverted index: trigram -> terms, term -> products (with the weight of the best field).
+// Built once at startup and kept in sync by the product endpoints.
+const termTrigrams = new Map<string, string[]>();
+const trigramTerms = new Map<string, Set<string>>();
+const termProducts = new Map<string, Map<string, number>>();
+const productTerms = new Map<string, Map<string, number>>();
+
+// Lowercase words without accents: "Écran 4K" -> ["ecran", "4k"]
+export const tokenize = (text: string | undefined): string[] => {
+  return text ? slugify(text).split('-').filter(Boolean) : [];
+};
+
+// Synonyms are single words; each term of a group also searches for the others
+const synonymGroups = new Map<string, string[]>();
+for (const group of SEARCH_SYNONYMS.split(';')) {
+  const terms = group.split(',').map(term => slugify(term)).filter(term => term && !term.includes('-'));
+  for (const term of terms) {
+    synonymGroups.set(term, terms.filter(other => other !== term));
+  }
+}
+
+// Padded so that the start and end of a term weigh in: "tv" -> "  t", " tv", "tv "
+export const getTrigrams = (term: string): string[] => {
+  const padded = `  ${term} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return [...trigrams];
+};
+
+const addTerm = (productId: string, term: string, weight: number): void => {
+  if (!termTrigrams.has(term)) {
+    const trigrams = getTrigrams(term);
+    termTrigrams.set(term, trigrams);
+    for (const trigram of trigrams) {
+      if (!trigramTerms.has(trigram)) trigramTerms.set(trigram, new Set());
+      trigramTerms.get(trigram)!.add(term);
+    }
+  }
+
+  if (!termProducts.has(term)) termProducts.set(term, new Map());
+  termProducts.get(term)!.set(productId, weight);
+};
+
+const removeTerm = (productId: string, term: string): void => {
+  const products = termProducts.get(term);
+  if (!products) return;
+
+  products.delete(productId);
+  if (products.size > 0) return;
+
+  termProducts.delete(term);
+  for (const trigram of termTrigrams.get(term) || []) {
+    const terms = trigramTerms.get(trigram);
+    terms?.delete(term);
+    if (terms && terms.size === 0) trigramTerms.delete(trigram);
+  }
+  termTrigrams.delete(term);
+};
+
+export const removeProductFromIndex = (productId: string): void => {
+  const terms = productTerms.get(productId);
+  if (!terms) return;
+
+  for (const term of terms.keys()) {
+    removeTerm(productId, term);
+  }
+  productTerms.delete(productId);
+};
+
+// (Re)index the searchable fields of a product
+export const indexProduct = (product: IndexedFields): void => {
+  const productId = String(product._id);
+  removeProductFromIndex(productId);
+
+  const terms = new Map<string, number>();
+  const fields: [keyof typeof FIELD_WEIGHTS, string[]][] = [
+    ['name', tokenize(product.name)],
+    ['tags', (product.tags || []).flatMap(tag => tokenize(tag))],
+    ['description', tokenize(product.description)]
+  ];
+  for (const [field, tokens] of fields) {
+    for (const token of tokens) {
+      terms.set(token, Math.max(terms.get(token) || 0, FIELD_WEIGHTS[field]));
+    }
+  }
+
+  for (const [term, weight] of terms) {
+    addTerm(productId, term, weight);
+  }
+  productTerms.set(productId, terms);
+};
+
+export const buildSearchIndex = async (): Promise<number> => {
+  const products = await Product.find().select('name description tags').lean();
+
+  termTrigrams.clear();
+  trigramTerms.clear();
+  termProducts.clear();
+  productTerms.clear();
+  products.forEach(product => indexProduct(product));
+
+  return products.length;
+};
+
+// Indexed terms similar to a query token, with their similarity (0-1).
+// A term that starts with the token counts as a near-exact match, which gives prefix matching for autocomplete.
+export const findSimilarTerms = (token: string): Map<string, number> => {
+  const queryTrigrams = getTrigrams(token);
+  const shared = new Map<string, number>();
+  for (const trigram of queryTrigrams) {
+    for (const term of trigramTerms.get(trigram) || []) {
+      shared.set(term, (shared.get(term) || 0) + 1);
+    }
+  }
+
+  const similar = new Map<string, number>();
+  for (const [term, count] of shared) {
+    const union = queryTrigrams.length + termTrigrams.get(term)!.length - count;
+    let similarity = count / union;
+    if (term === token) {
+      similarity = 1;
+    } else if (term.startsWith(token)) {
+      similarity = Math.max(similarity, 0.9);
+    }
+    if (similarity >= MIN_SIMILARITY) {
+      similar.set(term, similarity);
+    }
+  }
+  return similar;
+};
+
+// Similar terms of a token and of its synonyms; a synonym match counts slightly less than the word itself
+const expandToken = (token: string): Map<string, number> => {
+  const matches = findSimilarTerms(token);
+  for (const synonym of synonymGroups.get(token) || []) {
+    for (const [term, similarity] of findSimilarTerms(synonym)) {
+      matches.set(term, Math.max(matches.get(term) || 0, similarity * 0.9));
+    }
+  }
+  return matches;
+};
+
+// Products matching a query by text alone, best first. Each query token contributes the score of its best
+// matching term in the product, so a product must match more tokens to rank higher.
+export const searchIndex = (query: string, limit: number = 500): SearchMatch[] => {
+  const tokens = [...new Set(tokenize(query))];
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const scores = new Map<string, number>();
+  for (const token of tokens) {
+    const best = new Map<string, number>();
+    for (const [term, similarity] of expandToken(token)) {
+      for (const [productId, weight] of termProducts.get(term) || []) {
+        best.set(productId, Math.max(best.get(productId) || 0, similarity * weight));
+      }
+    }
+    for (const [productId, score] of best) {
+      scores.set(productId, (scores.get(productId) || 0) + score);
+    }
+  }
+
+  return [...scores]
+    .map(([productId, score]) => ({ productId, score: score / tokens.length }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Every product matching a query, for searches that filter, count and paginate the matches themselves
+export const searchAllMatches = (query: string): SearchMatch[] => searchIndex(query, Infinity);
+
+// Completions for the last (possibly unfinished) word of a query, most used terms first
+export const suggestTerms = (query: string, limit: number): string[] => {
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1];
+  if (!last) {
+    return [];
+  }
+
+  const prefix = tokens.slice(0, -1).join(' ');
+  return [...findSimilarTerms(last)]
+    .sort((a, b) => b[1] - a[1] || termProducts.get(b[0])!.size - termProducts.get(a[0])!.size)
+    .slice(0, limit)
+    .map(([term]) => (prefix ? `${prefix} ${term}` : term));
+};
+
+export const getRankingBoost = (product: Pick<IProduct, 'featured' | 'inStock' | 'quantity' | 'reserved'>): number => {
+  return (product.featured ? SEARCH_FEATURED_BOOST : 0) +
+    (product.inStock && getAvailableQuantity(product) > 0 ? SEARCH_IN_STOCK_BOOST : 0);
+};
+
+// Aggregation expression with the same score as searchIndex + getRankingBoost, for sorting by relevance in MongoDB
+export const getRelevanceExpression = (matches: SearchMatch[]): Record<string, any> => {
+  const ids = matches.map(match => new mongoose.Types.ObjectId(match.productId));
+  const scores = matches.map(match => match.score);
+
+  return {
+    $add: [
+      { $ifNull: [{ $arrayElemAt: [scores, { $indexOfArray: [ids, '$_id'] }] }, 0] },
+      { $cond: ['$featured', SEARCH_FEATURED_BOOST, 0] },
+      {
+        $cond: [
+          { $and: ['$inStock', { $gt: [{ $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] }, 0] }] },
+          SEARCH_IN_STOCK_BOOST,
+          0
+        ]
+      }
+    ]
+  };
+};
@@ -0,0 +1,182 @@
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { Request } from 'express';
+import { IUser, User } from '../models/user';
+import { ISession, Session, SessionResponse, SessionRevokedReason } from '../models/session';
+import { generateToken } from '../utility/jwt';
+
+dotenv.config();
+
+// Days a refresh token stays valid; each refresh starts a new period
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+const MAX_DEVICE_LENGTH = 200;
+
+export interface AuthTokens {
+  token: string; // short-lived access token
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { tokens: AuthTokens; userId: string }
+  | { error: string; reuseDetected?: boolean };
+
+export const hashRefreshToken = (refreshToken: string): string => {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+};
+
+// Device label: given by the client at login, otherwise the user agent
+const getDevice = (req: Request): string => {
+  const device = typeof req.body?.device === 'string' && req.body.device.trim()
+    ? req.body.device.trim()
+    : req.get('user-agent') || 'Unknown device';
+  return device.slice(0, MAX_DEVICE_LENGTH);
+};
+
+const getRefreshExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const createRefreshToken = async (
+  user: IUser,
+  familyId: mongoose.Types.ObjectId,
+  startedAt: Date,
+  req: Request
+): Promise<string> => {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+
+  await Session.create({
+    userId: user._id,
+    familyId,
+    tokenHash: hashRefreshToken(refreshToken),
+    device: getDevice(req),
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+    startedAt,
+    lastUsedAt: new Date(),
+    expiresAt: getRefreshExpiry()
+  });
+
+  return refreshToken;
+};
+
+const generateAccessToken = (user: IUser, familyId: mongoose.Types.ObjectId): string => {
+  return generateToken({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId: familyId.toString()
+  });
+};
+
+// Start a new session (login, registration) and issue its first tokens
+export const createUserSession = async (user: IUser, req: Request): Promise<AuthTokens> => {
+  const familyId = new mongoose.Types.ObjectId();
+  const refreshToken = await createRefreshToken(user, familyId, new Date(), req);
+
+  return {
+    token: generateAccessToken(user, familyId),
+    refreshToken,
+    sessionId: familyId.toString()
+  };
+};
+
+export const revokeSessionFamily = async (
+  familyId: mongoose.Types.ObjectId | string,
+  reason: SessionRevokedReason
+): Promise<number> => {
+  const result = await Session.updateMany(
+    { familyId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+};
+
+// Revoke every session of a user, optionally keeping one (the current session on password change).
+// Returns the number of sessions revoked.
+export const revokeUserSessions = async (
+  userId: mongoose.Types.ObjectId | string,
+  reason: SessionRevokedReason,
+  exceptFamilyId?: string
+): Promise<number> => {
+  const filter = {
+    userId,
+    revokedAt: { $exists: false },
+    ...(exceptFamilyId && { familyId: { $ne: exceptFamilyId } })
+  };
+
+  const families = await Session.distinct('familyId', filter);
+  await Session.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+  return families.length;
+};
+
+// Exchange a refresh token for new tokens. The token can be used once: presenting an already rotated token
+// means it was copied, so the whole family is revoked and both holders have to log in again.
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  req: Request
+): Promise<RefreshResult> => {
+  const tokenHash = hashRefreshToken(refreshToken);
+  const now = new Date();
+
+  // Claim the token atomically so that two concurrent refreshes cannot both succeed
+  const session = await Session.findOneAndUpdate(
+    { tokenHash, rotatedAt: { $exists: false }, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+    { $set: { rotatedAt: now, lastUsedAt: now } }
+  );
+
+  if (!session) {
+    const used = await Session.findOne({ tokenHash });
+    if (used?.rotatedAt && !used.revokedAt) {
+      await revokeSessionFamily(used.familyId, SessionRevokedReason.REUSE_DETECTED);
+      return { error: 'Refresh token was already used. All devices of this session have been logged out.', reuseDetected: true };
+    }
+    return { error: 'Invalid or expired refresh token' };
+  }
+
+  const user = await User.findById(session.userId);
+  if (!user) {
+    await revokeSessionFamily(session.familyId, SessionRevokedReason.LOGOUT);
+    return { error: 'User not found' };
+  }
+
+  const newRefreshToken = await createRefreshToken(user, session.familyId, session.startedAt, req);
+
+  return {
+    userId: user._id.toString(),
+    tokens: {
+      token: generateAccessToken(user, session.familyId),
+      refreshToken: newRefreshToken,
+      sessionId: session.familyId.toString()
+    }
+  };
+};
+
+// Whether an access token's session is still valid: a revoked family logs out its access tokens at once
+export const isSessionActive = async (familyId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(familyId)) {
+    return false;
+  }
+  return !!(await Session.exists({ familyId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } }));
+};
+
+// Active sessions of a user, one per family (its latest refresh token), most recently used first
+export const listUserSessions = async (userId: string, currentFamilyId?: string): Promise<SessionResponse[]> => {
+  const sessions: ISession[] = await Session.find({
+    userId,
+    rotatedAt: { $exists: false },
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastUsedAt: -1 });
+
+  return sessions.map(session => ({
+    id: session.familyId.toString(),
+    device: session.device,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    startedAt: session.startedAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.familyId.toString() === currentFamilyId
+  }));
+};
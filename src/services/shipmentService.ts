@@ -0,0 +1,87 @@
+import { ClientSession } from 'mongoose';
+import { IOrder, OrderStatus } from '../models/order';
+import { IShipment, Shipment, ShipmentStatus } from '../models/shipment';
+import { transitionOrderStatus } from './orderStatusService';
+import { RequestActor } from './apiKeyService';
+
+export interface FulfillmentLine {
+  orderItemId: string;
+  productName: string;
+  ordered: number;
+  allocated: number; // in any shipment, including ones not yet handed to the carrier
+  shipped: number;
+  delivered: number;
+  remaining: number; // not in any shipment yet
+}
+
+export interface FulfillmentSummary {
+  lines: FulfillmentLine[];
+  fullyShipped: boolean;
+  fullyDelivered: boolean;
+}
+
+export const getFulfillmentSummary = (order: IOrder, shipments: IShipment[]): FulfillmentSummary => {
+  const lines = order.items.map(item => {
+    const itemId = item._id!.toString();
+    const line: FulfillmentLine = {
+      orderItemId: itemId,
+      productName: item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+      ordered: item.quantity,
+      allocated: 0,
+      shipped: 0,
+      delivered: 0,
+      remaining: item.quantity
+    };
+
+    for (const shipment of shipments) {
+      for (const shipped of shipment.items) {
+        if (shipped.orderItemId.toString() !== itemId) continue;
+
+        line.allocated += shipped.quantity;
+        if (shipment.status !== ShipmentStatus.PENDING) line.shipped += shipped.quantity;
+        if (shipment.status === ShipmentStatus.DELIVERED) line.delivered += shipped.quantity;
+      }
+    }
+
+    line.remaining = Math.max(line.ordered - line.allocated, 0);
+    return line;
+  });
+
+  return {
+    lines,
+    fullyShipped: lines.every(line => line.shipped >= line.ordered),
+    fullyDelivered: lines.every(line => line.delivered >= line.ordered)
+  };
+};
+
+// Derive SHIPPED / DELIVERED from the shipments of the order.
+// Returns the statuses the order moved through (empty when nothing changed); the caller saves the order.
+export const syncOrderFulfillment = async (
+  order: IOrder,
+  actor: RequestActor,
+  session?: ClientSession
+): Promise<OrderStatus[]> => {
+  const shipments = await Shipment.find({ orderId: order._id }).session(session || null);
+  const summary = getFulfillmentSummary(order, shipments);
+  const changes: OrderStatus[] = [];
+
+  if (summary.fullyShipped && order.status === OrderStatus.CONFIRMED) {
+    transitionOrderStatus(order, OrderStatus.SHIPPED, {
+      actor: 'system',
+      ...actor,
+      reason: `All items shipped in ${shipments.length} shipment(s)`
+    });
+    changes.push(OrderStatus.SHIPPED);
+  }
+
+  if (summary.fullyDelivered && order.status === OrderStatus.SHIPPED) {
+    transitionOrderStatus(order, OrderStatus.DELIVERED, {
+      actor: 'system',
+      ...actor,
+      reason: 'All shipments delivered'
+    });
+    changes.push(OrderStatus.DELIVERED);
+  }
+
+  return changes;
+};
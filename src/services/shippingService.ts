@@ -0,0 +1,134 @@
+import { ClientSession } from 'mongoose';
+import { ICart, ICartItem } from '../models/cart';
+import { Product } from '../models/product';
+import { ProductVariant } from '../models/productVariant';
+import { IShippingMethod, IShippingZone, ShippingRateType, ShippingZone } from '../models/shippingZone';
+import { roundCurrency } from './couponService';
+import { convertFromBase } from './currencyService';
+
+export interface ShippingOption {
+  zoneId: string;
+  zoneName: string;
+  methodId: string;
+  name: string;
+  carrier?: string;
+  type: ShippingRateType;
+  cost: number;
+  freeShipping: boolean; // cost waived by a free-shipping coupon
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+}
+
+// Shipping only applies once an admin has configured at least one zone
+export const isShippingConfigured = async (session?: ClientSession): Promise<boolean> => {
+  const count = await ShippingZone.countDocuments({ isActive: true }).session(session || null);
+  return count > 0;
+};
+
+// Zone listing the country explicitly, otherwise the catch-all "*" zone
+export const findShippingZone = async (
+  country: string,
+  session?: ClientSession
+): Promise<IShippingZone | null> => {
+  const code = country.trim().toUpperCase();
+
+  const zone = await ShippingZone.findOne({ countries: code, isActive: true }).session(session || null);
+  if (zone) {
+    return zone;
+  }
+
+  return ShippingZone.findOne({ countries: '*', isActive: true }).session(session || null);
+};
+
+// Total weight in kg; variant weight overrides the product weight
+export const getCartWeight = async (items: ICartItem[], session?: ClientSession): Promise<number> => {
+  let weight = 0;
+
+  for (const item of items) {
+    let itemWeight: number | undefined;
+
+    if (item.variantId) {
+      const variant = await ProductVariant.findById(item.variantId).select('weight').session(session || null);
+      itemWeight = variant?.weight;
+    }
+    if (itemWeight === undefined) {
+      const product = await Product.findById(item.productId).select('weight').session(session || null);
+      itemWeight = product?.weight || 0;
+    }
+
+    weight += itemWeight * item.quantity;
+  }
+
+  return Math.round(weight * 1000) / 1000;
+};
+
+// Price of a method for the given order value and weight; null when no weight bracket covers it
+export const calculateShippingCost = (
+  method: IShippingMethod,
+  orderValue: number,
+  weight: number
+): number | null => {
+  switch (method.type) {
+    case ShippingRateType.FLAT_RATE:
+      return roundCurrency(method.rate);
+
+    case ShippingRateType.FREE_OVER_THRESHOLD:
+      if (method.freeThreshold !== undefined && orderValue >= method.freeThreshold) {
+        return 0;
+      }
+      return roundCurrency(method.rate);
+
+    case ShippingRateType.WEIGHT_BASED: {
+      const bracket = method.weightRates.find(
+        range => weight >= range.minWeight && (range.maxWeight === undefined || weight <= range.maxWeight)
+      );
+      return bracket ? roundCurrency(bracket.rate) : null;
+    }
+
+    default:
+      return null;
+  }
+};
+
+// Quote every active method of the zone serving the country, cheapest first.
+// Rates are configured in the base currency and quoted in the cart currency.
+export const quoteShippingOptions = async (
+  cart: ICart,
+  country: string,
+  session?: ClientSession
+): Promise<ShippingOption[]> => {
+  const zone = await findShippingZone(country, session);
+  if (!zone) {
+    return [];
+  }
+
+  const weight = await getCartWeight(cart.items, session);
+  // Free-shipping thresholds apply to the discounted goods value, before tax
+  const exchangeRate = cart.exchangeRate ?? 1;
+  const goodsValue = roundCurrency(Math.max(cart.subtotal - cart.discount, 0) / exchangeRate);
+  const options: ShippingOption[] = [];
+
+  for (const method of zone.methods) {
+    if (!method.isActive) continue;
+
+    const baseCost = calculateShippingCost(method, goodsValue, weight);
+    if (baseCost === null) continue;
+
+    const cost = convertFromBase(baseCost, exchangeRate);
+
+    options.push({
+      zoneId: zone._id.toString(),
+      zoneName: zone.name,
+      methodId: method._id.toString(),
+      name: method.name,
+      carrier: method.carrier,
+      type: method.type,
+      cost: cart.freeShipping ? 0 : cost,
+      freeShipping: cart.freeShipping && cost > 0,
+      minDeliveryDays: method.minDeliveryDays,
+      maxDeliveryDays: method.maxDeliveryDays
+    });
+  }
+
+  return options.sort((a, b) => a.cost - b.cost);
+};
@@ -0,0 +1,110 @@
+import mongoose, { ClientSession } from 'mongoose';
+import dotenv from 'dotenv';
+import { Product } from '../models/product';
+import { Category } from '../models/category';
+import { TaxClass, ITaxClass } from '../models/taxClass';
+import { TaxRate } from '../models/taxRate';
+import { ITaxLine } from '../models/taxLine';
+import { roundCurrency } from './couponService';
+
+dotenv.config();
+
+// Store setting: whether catalog prices already include tax (VAT style) or tax is added on top
+export const PRICES_INCLUDE_TAX = process.env.PRICES_INCLUDE_TAX === 'true';
+
+export interface TaxDestination {
+  country: string;
+  region?: string;
+}
+
+export interface TaxableLine {
+  itemId: string;
+  productId: string;
+  amount: number; // line subtotal after discounts
+}
+
+export interface TaxCalculation {
+  pricesIncludeTax: boolean;
+  destination?: TaxDestination;
+  lines: ITaxLine[];
+  taxTotal: number;
+}
+
+// Used until the customer gives an address (e.g. cart estimates for new customers)
+export const getStoreTaxDestination = (): TaxDestination | undefined => {
+  if (!process.env.STORE_COUNTRY) {
+    return undefined;
+  }
+  return { country: process.env.STORE_COUNTRY.toUpperCase(), region: process.env.STORE_REGION?.toUpperCase() };
+};
+
+// Tax class of a product: its own, else its category's, else the default class
+const resolveTaxClass = async (
+  productId: string,
+  defaultClass: ITaxClass | null,
+  session?: ClientSession
+): Promise<ITaxClass | null> => {
+  const product = await Product.findById(productId).select('taxClassId categoryId').session(session || null);
+  let taxClassId = product?.taxClassId;
+
+  if (!taxClassId && product?.categoryId) {
+    const category = await Category.findById(product.categoryId).select('taxClassId').session(session || null);
+    taxClassId = category?.taxClassId;
+  }
+
+  if (!taxClassId) {
+    return defaultClass;
+  }
+  return TaxClass.findById(taxClassId).session(session || null);
+};
+
+// Region-specific rate first, then the country-wide rate
+const findTaxRate = async (taxClassId: mongoose.Types.ObjectId, destination: TaxDestination, session?: ClientSession) => {
+  const rates = await TaxRate.find({
+    taxClassId,
+    country: destination.country.toUpperCase(),
+    isActive: true
+  }).session(session || null);
+
+  const region = destination.region?.trim().toUpperCase();
+  return rates.find(rate => region && rate.region === region) || rates.find(rate => !rate.region) || null;
+};
+
+export const calculateTax = async (
+  lines: TaxableLine[],
+  destination: TaxDestination | undefined,
+  session?: ClientSession
+): Promise<TaxCalculation> => {
+  const result: TaxCalculation = {
+    pricesIncludeTax: PRICES_INCLUDE_TAX,
+    destination,
+    lines: [],
+    taxTotal: 0
+  };
+
+  const defaultClass = await TaxClass.findOne({ isDefault: true }).session(session || null);
+
+  for (const line of lines) {
+    const taxClass = destination ? await resolveTaxClass(line.productId, defaultClass, session) : null;
+    const taxRate = taxClass && destination ? await findTaxRate(taxClass._id as mongoose.Types.ObjectId, destination, session) : null;
+    const rate = taxRate ? taxRate.rate / 100 : 0;
+
+    // Inclusive prices contain the tax: net = gross / (1 + rate)
+    const tax = PRICES_INCLUDE_TAX
+      ? roundCurrency(line.amount - line.amount / (1 + rate))
+      : roundCurrency(line.amount * rate);
+
+    result.lines.push({
+      itemId: line.itemId,
+      productId: line.productId,
+      taxClass: taxClass?.code,
+      name: taxRate?.name,
+      rate: taxRate?.rate || 0,
+      taxableAmount: PRICES_INCLUDE_TAX ? roundCurrency(line.amount - tax) : roundCurrency(line.amount),
+      tax
+    });
+  }
+
+  result.taxTotal = roundCurrency(result.lines.reduce((sum, line) => sum + line.tax, 0));
+  return result;
+};
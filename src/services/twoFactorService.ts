@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { IUser, UserRole } from '../models/user';
+import { verifyTotp } from '../utils/totpUtils';
+
+dotenv.config();
+
+// Shown as the account issuer in authenticator apps
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'E-commerce API';
+// When enabled, admins and vendors must turn on two-factor authentication before using their privileged routes
+export const REQUIRE_2FA_FOR_PRIVILEGED_ROLES = process.env.REQUIRE_2FA_FOR_PRIVILEGED_ROLES === 'true';
+
+const RECOVERY_CODE_COUNT = 10;
+const PRIVILEGED_ROLES = [UserRole.ADMIN, UserRole.VENDOR];
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+export const isTwoFactorRequired = (user: IUser): boolean => {
+  return REQUIRE_2FA_FOR_PRIVILEGED_ROLES && PRIVILEGED_ROLES.includes(user.role);
+};
+
+// Recovery codes are compared without case or separators: "a1b2c-3d4e5" == "A1B2C3D4E5"
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashRecoveryCode = (code: string): string => {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+};
+
+// New set of recovery codes: the plain codes are shown to the user once, only the hashes are stored
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// Check a TOTP code, refusing one that was already accepted. Records the step on the user (not saved).
+export const verifyTotpCode = (user: IUser, secret: string, code: string): boolean => {
+  const step = verifyTotp(secret, code.replace(/\s/g, ''));
+  if (step === null || (user.twoFactorLastUsedStep !== undefined && step <= user.twoFactorLastUsedStep)) {
+    return false;
+  }
+  user.twoFactorLastUsedStep = step;
+  return true;
+};
+
+// Check the second factor of a user with 2FA enabled: a TOTP code, or a recovery code which is then
+// used up. Modifies the user; the caller saves it. Returns the method used, or null when the code is wrong.
+export const verifySecondFactor = (user: IUser, code: string): SecondFactorMethod | null => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  if (verifyTotpCode(user, user.twoFactorSecret, code)) {
+    return 'totp';
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (user.twoFactorRecoveryCodes.includes(hash)) {
+    user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter(recoveryCode => recoveryCode !== hash);
+    return 'recovery_code';
+  }
+
+  return null;
+};
+
+// Forget the enrolled secret and the recovery codes
+export const clearTwoFactor = (user: IUser): void => {
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorRecoveryCodes = [];
+  user.twoFactorLastUsedStep = undefined;
+};
@@ -0,0 +1,151 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { IOrder } from '../models/order';
+import { Wallet, IWallet } from '../models/wallet';
+import {
+  WalletTransaction,
+  WalletTransactionType,
+  WalletTransactionSource,
+  IWalletTransaction
+} from '../models/walletTransaction';
+import { roundCurrency } from './couponService';
+import { convertFromBase, convertToBase } from './currencyService';
+
+export interface WalletEntry {
+  source: WalletTransactionSource;
+  reason?: string;
+  orderId?: mongoose.Types.ObjectId | string;
+  returnId?: mongoose.Types.ObjectId | string;
+  createdBy?: string;
+}
+
+export const getOrCreateWallet = async (
+  userId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+): Promise<IWallet> => {
+  const wallet = await Wallet.findOneAndUpdate(
+    { userId },
+    { $setOnInsert: { userId, balance: 0 } },
+    { upsert: true, new: true, session }
+  );
+  return wallet!;
+};
+
+export const getWalletBalance = async (
+  userId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+): Promise<number> => {
+  const wallet = await Wallet.findOne({ userId }).select('balance').session(session || null);
+  return wallet?.balance || 0;
+};
+
+// $inc on decimal amounts can leave float noise (0.1 + 0.2); keep the balance at whole cents
+const roundBalance = async (wallet: IWallet, session?: ClientSession): Promise<void> => {
+  const rounded = Math.max(roundCurrency(wallet.balance), 0);
+  if (rounded !== wallet.balance) {
+    wallet.balance = rounded;
+    await wallet.save({ session });
+  }
+};
+
+const recordTransaction = async (
+  wallet: IWallet,
+  type: WalletTransactionType,
+  amount: number,
+  entry: WalletEntry,
+  session?: ClientSession
+): Promise<IWalletTransaction> => {
+  await roundBalance(wallet, session);
+
+  return (await WalletTransaction.create(
+    [{
+      walletId: wallet._id,
+      userId: wallet.userId,
+      type,
+      source: entry.source,
+      amount,
+      balanceAfter: wallet.balance,
+      reason: entry.reason?.trim() || undefined,
+      orderId: entry.orderId,
+      returnId: entry.returnId,
+      createdBy: entry.createdBy
+    }],
+    { session }
+  ))[0];
+};
+
+// Add store credit (base currency)
+export const creditWallet = async (
+  userId: mongoose.Types.ObjectId | string,
+  amount: number,
+  entry: WalletEntry,
+  session?: ClientSession
+): Promise<IWalletTransaction> => {
+  const credit = roundCurrency(amount);
+  await getOrCreateWallet(userId, session);
+
+  const wallet = await Wallet.findOneAndUpdate(
+    { userId },
+    { $inc: { balance: credit } },
+    { new: true, session }
+  );
+  return recordTransaction(wallet!, WalletTransactionType.CREDIT, credit, entry, session);
+};
+
+// Spend store credit (base currency). The conditional update refuses to overdraw, even with concurrent checkouts.
+// Returns null when the balance is too low.
+export const debitWallet = async (
+  userId: mongoose.Types.ObjectId | string,
+  amount: number,
+  entry: WalletEntry,
+  session?: ClientSession
+): Promise<IWalletTransaction | null> => {
+  const debit = roundCurrency(amount);
+
+  const wallet = await Wallet.findOneAndUpdate(
+    { userId, balance: { $gte: debit - 0.005 } },
+    { $inc: { balance: -debit } },
+    { new: true, session }
+  );
+  if (!wallet) {
+    return null;
+  }
+  return recordTransaction(wallet, WalletTransactionType.DEBIT, debit, entry, session);
+};
+
+// How much of an order total (order currency) the wallet can cover, and the matching base amount to debit
+export const getWalletPayment = (
+  balance: number,
+  total: number,
+  exchangeRate: number,
+  requested?: number
+): { amount: number; baseAmount: number } => {
+  const available = Math.min(convertFromBase(balance, exchangeRate), total, requested ?? Infinity);
+  const amount = roundCurrency(Math.max(available, 0));
+  if (amount <= 0) {
+    return { amount: 0, baseAmount: 0 };
+  }
+
+  // Rounding may convert back to a cent more than the balance
+  return { amount, baseAmount: Math.min(convertToBase(amount, exchangeRate), balance) };
+};
+
+// Give back the store credit spent on an order that is cancelled; does nothing if it was already given back
+export const restoreOrderWallet = async (
+  order: IOrder,
+  reason: string,
+  session?: ClientSession
+): Promise<void> => {
+  if (!order.walletBaseAmount) return;
+
+  const restored = await WalletTransaction.exists({
+    orderId: order._id,
+    source: WalletTransactionSource.ORDER_CANCELLED
+  }).session(session || null);
+  if (restored) return;
+
+  await creditWallet(order.userId, order.walletBaseAmount, {
+    source: WalletTransactionSource.ORDER_CANCELLED,
+    reason,
+    orderId: order._id as mongoose.Types.ObjectId
+  }, session);
+};
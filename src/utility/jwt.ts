@@ -4,12 +4,14 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 const JWT_SECRET: string = process.env.JWT_SECRET || 'fallback-secret-key';
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
+// Access tokens are short-lived; clients renew them with a refresh token (see sessionService)
+const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '15m';
 
 export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string; // session (refresh token family) the token was issued for
 }
 
 // Generate JWT token
@@ -24,7 +26,12 @@ export const generateToken = (payload: JwtPayload): string => {
 // Verify JWT token
 export const verifyToken = (token: string): JwtPayload => {
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload & { purpose?: string };
+    // Purpose tokens (cart, two-factor challenge) are signed with the same secret but are not access tokens
+    if (payload.purpose) {
+      throw new Error('Not an access token');
+    }
+    return payload;
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
@@ -37,4 +44,43 @@ export const generateResetToken = (): string => {
   };
   
   return jwt.sign({ purpose: 'reset' }, JWT_SECRET, options);
-};
\ No newline at end of file
+};
+// Generate guest cart token. It does not expire: the cart itself is removed after inactivity.
+export const generateCartToken = (cartId: string): string => {
+  return jwt.sign({ cartId, purpose: 'cart' }, JWT_SECRET);
+};
+
+// Verify guest cart token and return the cart ID
+export const verifyCartToken = (token: string): string => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { cartId?: string; purpose?: string };
+    if (payload.purpose !== 'cart' || !payload.cartId) {
+      throw new Error('Not a cart token');
+    }
+    return payload.cartId;
+  } catch (error) {
+    throw new Error('Invalid cart token');
+  }
+};
+
+// Generate the token returned by login when a second factor is needed. It only proves the password step.
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+  const options: SignOptions = {
+    expiresIn: '5m'
+  };
+
+  return jwt.sign({ userId, purpose: '2fa' }, JWT_SECRET, options);
+};
+
+// Verify two-factor challenge token and return the user ID
+export const verifyTwoFactorChallengeToken = (token: string): string => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { userId?: string; purpose?: string };
+    if (payload.purpose !== '2fa' || !payload.userId) {
+      throw new Error('Not a two-factor challenge token');
+    }
+    return payload.userId;
+  } catch (error) {
+    throw new Error('Invalid or expired challenge token');
+  }
+};
@@ -0,0 +1,70 @@
+import { IAddress, AddressDto } from '../models/address';
+
+// Postal code formats for the countries we ship to most; other countries get a generic check
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/,
+  AU: /^\d{4}$/
+};
+
+const GENERIC_POSTAL_CODE = /^[A-Z0-9][A-Z0-9 -]{1,9}$/;
+
+const REQUIRED_FIELDS: (keyof IAddress)[] = ['name', 'line1', 'city', 'postalCode', 'country'];
+const OPTIONAL_FIELDS: (keyof IAddress)[] = ['line2', 'region', 'phone'];
+
+// Validate an address payload. With partial=true only the provided fields are checked (updates).
+export const validateAddressInput = (address: any, partial = false): string | null => {
+  if (!address || typeof address !== 'object' || Array.isArray(address)) {
+    return 'Address must be an object';
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    const value = address[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      return `Address ${field} is required`;
+    }
+  }
+
+  for (const field of OPTIONAL_FIELDS) {
+    const value = address[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return `Address ${field} must be a string`;
+    }
+  }
+
+  if (address.country !== undefined && !/^[A-Za-z]{2}$/.test(address.country.trim())) {
+    return 'Country must be a 2-letter ISO code (e.g. US)';
+  }
+
+  if (address.postalCode !== undefined) {
+    const postalCode = address.postalCode.trim().toUpperCase();
+    const country = address.country?.trim().toUpperCase();
+    const pattern = (country && POSTAL_CODE_PATTERNS[country]) || GENERIC_POSTAL_CODE;
+    if (!pattern.test(postalCode)) {
+      return `Invalid postal code for ${country || 'this country'}`;
+    }
+  }
+
+  if (address.phone && !/^\+?[0-9 ()-]{6,20}$/.test(address.phone.trim())) {
+    return 'Invalid phone number';
+  }
+
+  return null;
+};
+
+// Copy only address fields, trimmed and normalized, so nothing else ends up on the snapshot
+export const normalizeAddress = (address: AddressDto | IAddress): IAddress => ({
+  name: address.name.trim(),
+  line1: address.line1.trim(),
+  line2: address.line2?.trim() || undefined,
+  city: address.city.trim(),
+  region: address.region?.trim() || undefined,
+  postalCode: address.postalCode.trim().toUpperCase(),
+  country: address.country.trim().toUpperCase(),
+  phone: address.phone?.trim() || undefined
+});
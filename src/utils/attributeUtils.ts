@@ -0,0 +1,188 @@
+import { AttributeType, ICategoryAttribute } from '../models/category';
+import { AttributeValue, IProductAttribute } from '../models/product';
+
+const ATTRIBUTE_KEY_REGEX = /^[a-z][a-z0-9_]*$/;
+
+const hasAllowedValues = (type: AttributeType): boolean => {
+  return type === AttributeType.SELECT || type === AttributeType.MULTISELECT;
+};
+
+// Check the shape of a category attribute set. Returns an error message, or null when valid.
+export const validateAttributeDefinitions = (attributes: any): string | null => {
+  if (!Array.isArray(attributes)) {
+    return 'Attributes must be an array';
+  }
+
+  const keys = new Set<string>();
+  for (const attribute of attributes) {
+    if (!attribute || typeof attribute.key !== 'string' || !ATTRIBUTE_KEY_REGEX.test(attribute.key)) {
+      return 'Each attribute needs a key of lowercase letters, digits and underscores, starting with a letter';
+    }
+    if (keys.has(attribute.key)) {
+      return `Duplicate attribute "${attribute.key}"`;
+    }
+    keys.add(attribute.key);
+
+    if (typeof attribute.name !== 'string' || attribute.name.trim().length === 0) {
+      return `Attribute "${attribute.key}" needs a name`;
+    }
+    if (!Object.values(AttributeType).includes(attribute.type)) {
+      return `Attribute "${attribute.key}" type must be one of: ${Object.values(AttributeType).join(', ')}`;
+    }
+    if (attribute.unit !== undefined && typeof attribute.unit !== 'string') {
+      return `Attribute "${attribute.key}" unit must be a string`;
+    }
+    if (attribute.required !== undefined && typeof attribute.required !== 'boolean') {
+      return `Attribute "${attribute.key}" required must be a boolean`;
+    }
+    if (attribute.filterable !== undefined && typeof attribute.filterable !== 'boolean') {
+      return `Attribute "${attribute.key}" filterable must be a boolean`;
+    }
+
+    const allowedValues = attribute.allowedValues;
+    if (hasAllowedValues(attribute.type)) {
+      if (!Array.isArray(allowedValues) || allowedValues.length === 0 ||
+        allowedValues.some((value: any) => typeof value !== 'string' || value.trim().length === 0)) {
+        return `Attribute "${attribute.key}" needs a non-empty list of allowed values`;
+      }
+    } else if (allowedValues !== undefined && (!Array.isArray(allowedValues) || allowedValues.length > 0)) {
+      return `Only select and multiselect attributes have allowed values ("${attribute.key}")`;
+    }
+  }
+
+  return null;
+};
+
+// Convert one value to the attribute type. Returns the value, or an error message.
+const normalizeAttributeValue = (
+  attribute: ICategoryAttribute,
+  value: unknown
+): { value: AttributeValue } | { error: string } => {
+  const matchAllowed = (candidate: unknown): string | undefined =>
+    attribute.allowedValues.find(allowed => allowed.toLowerCase() === String(candidate).trim().toLowerCase());
+
+  switch (attribute.type) {
+    case AttributeType.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value)
+        ? { value }
+        : { error: `${attribute.name} must be a number` };
+    case AttributeType.BOOLEAN:
+      return typeof value === 'boolean' ? { value } : { error: `${attribute.name} must be true or false` };
+    case AttributeType.SELECT: {
+      const allowed = typeof value === 'string' ? matchAllowed(value) : undefined;
+      return allowed !== undefined
+        ? { value: allowed }
+        : { error: `Invalid value for ${attribute.name}. Allowed: ${attribute.allowedValues.join(', ')}` };
+    }
+    case AttributeType.MULTISELECT: {
+      if (!Array.isArray(value) || value.length === 0) {
+        return { error: `${attribute.name} must be a non-empty list` };
+      }
+      const selected = value.map(matchAllowed);
+      return selected.every(allowed => allowed !== undefined)
+        ? { value: [...new Set(selected as string[])] }
+        : { error: `Invalid value for ${attribute.name}. Allowed: ${attribute.allowedValues.join(', ')}` };
+    }
+    default:
+      return typeof value === 'string' && value.trim().length > 0
+        ? { value: value.trim() }
+        : { error: `${attribute.name} must be a non-empty string` };
+  }
+};
+
+// Check product attribute values ({ key: value }) against the attribute set of its category.
+// Select values are stored with the casing of the definition.
+export const validateProductAttributes = (
+  definitions: ICategoryAttribute[],
+  values: Record<string, unknown>
+): { attributes: IProductAttribute[] } | { error: string } => {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return { error: 'Attributes must be an object of attribute keys and values' };
+  }
+
+  const definitionsByKey = new Map(definitions.map(definition => [definition.key, definition]));
+  const unknown = Object.keys(values).filter(key => !definitionsByKey.has(key));
+  if (unknown.length > 0) {
+    return { error: `Unknown attributes for this category: ${unknown.join(', ')}` };
+  }
+
+  const attributes: IProductAttribute[] = [];
+  for (const definition of definitions) {
+    const value = values[definition.key];
+    if (value === undefined || value === null) {
+      if (definition.required) {
+        return { error: `${definition.name} is required` };
+      }
+      continue;
+    }
+
+    const result = normalizeAttributeValue(definition, value);
+    if ('error' in result) {
+      return result;
+    }
+    attributes.push({ key: definition.key, value: result.value });
+  }
+
+  return { attributes };
+};
+
+export const getAttributeMap = (attributes: IProductAttribute[] | undefined): Record<string, AttributeValue> => {
+  return Object.fromEntries((attributes || []).map(attribute => [attribute.key, attribute.value]));
+};
+
+// Query conditions for filterable attributes, one per attribute key: { ram: "8,16", screen_size: "13-15.6", wifi: "true" }.
+// Values of one attribute are ORed; number values may be ranges ("13-", "-15.6"), bounds included.
+export const buildAttributeFilter = (
+  definitions: ICategoryAttribute[],
+  query: Record<string, unknown>
+): { conditions: Record<string, Record<string, any>> } | { error: string } => {
+  const definitionsByKey = new Map(
+    definitions.filter(definition => definition.filterable).map(definition => [definition.key, definition])
+  );
+  const conditions: Record<string, Record<string, any>> = {};
+
+  for (const [key, raw] of Object.entries(query)) {
+    const definition = definitionsByKey.get(key);
+    if (!definition) {
+      return { error: `Cannot filter on attribute "${key}"` };
+    }
+
+    const values = (Array.isArray(raw) ? raw : [raw])
+      .flatMap(item => String(item).split(','))
+      .map(item => item.trim())
+      .filter(Boolean);
+    if (values.length === 0) continue;
+
+    let valueConditions: any[];
+    if (definition.type === AttributeType.NUMBER) {
+      valueConditions = [];
+      for (const value of values) {
+        const match = /^(\d+(?:\.\d+)?)?(?:(-)(\d+(?:\.\d+)?)?)?$/.exec(value);
+        if (!match || (match[1] === undefined && match[3] === undefined)) {
+          return { error: `Invalid value "${value}" for ${definition.name}` };
+        }
+        valueConditions.push(match[2]
+          ? {
+            ...(match[1] !== undefined && { $gte: parseFloat(match[1]) }),
+            ...(match[3] !== undefined && { $lte: parseFloat(match[3]) })
+          }
+          : parseFloat(match[1]));
+      }
+    } else if (definition.type === AttributeType.BOOLEAN) {
+      if (values.some(value => value !== 'true' && value !== 'false')) {
+        return { error: `${definition.name} must be true or false` };
+      }
+      valueConditions = values.map(value => value === 'true');
+    } else {
+      valueConditions = [{ $in: values.map(value =>
+        definition.allowedValues.find(allowed => allowed.toLowerCase() === value.toLowerCase()) ?? value
+      ) }];
+    }
+
+    conditions[key] = {
+      $or: valueConditions.map(value => ({ attributes: { $elemMatch: { key, value } } }))
+    };
+  }
+
+  return { conditions };
+};
@@ -0,0 +1,13 @@
+// URL-friendly version of a name, e.g. "Phones & Accessories" -> "phones-accessories"
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+export const isValidSlug = (slug: string): boolean => {
+  return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug);
+};
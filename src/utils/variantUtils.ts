@@ -0,0 +1,91 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Product, IProductOption } from '../models/product';
+import { ProductVariant, IVariantOption } from '../models/productVariant';
+
+// Human readable label, e.g. "M / Blue"
+export const getVariantName = (options: IVariantOption[]): string => {
+  return options.map(option => option.value).join(' / ');
+};
+
+// Stable key used to detect duplicate option combinations
+export const getOptionsKey = (options: IVariantOption[]): string => {
+  return [...options]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(option => `${option.name.toLowerCase()}=${option.value.toLowerCase()}`)
+    .join('|');
+};
+
+// Check that a variant picks exactly one allowed value for every product option axis.
+// Returns an error message, or null when the options are valid.
+export const validateVariantOptions = (
+  productOptions: IProductOption[],
+  variantOptions: IVariantOption[]
+): string | null => {
+  if (!Array.isArray(variantOptions)) {
+    return 'Variant options must be an array';
+  }
+
+  if (variantOptions.length !== productOptions.length) {
+    return `Variant must specify a value for each option: ${productOptions.map(o => o.name).join(', ')}`;
+  }
+
+  for (const axis of productOptions) {
+    const selected = variantOptions.find(o => o.name?.toLowerCase() === axis.name.toLowerCase());
+    if (!selected || !selected.value) {
+      return `Missing value for option "${axis.name}"`;
+    }
+
+    const allowed = axis.values.some(value => value.toLowerCase() === String(selected.value).toLowerCase());
+    if (!allowed) {
+      return `Invalid value "${selected.value}" for option "${axis.name}". Allowed: ${axis.values.join(', ')}`;
+    }
+  }
+
+  return null;
+};
+
+// Keep the product-level stock fields in line with the sum of its active variants
+export const syncProductStock = async (
+  productId: mongoose.Types.ObjectId | string,
+  session?: ClientSession
+): Promise<void> => {
+  const variants = await ProductVariant.find({ productId, status: 'active' }).session(session || null);
+  const allVariants = await ProductVariant.countDocuments({ productId }).session(session || null);
+
+  const quantity = variants.reduce((sum, variant) => sum + variant.quantity, 0);
+  const reserved = variants.reduce((sum, variant) => sum + (variant.reserved || 0), 0);
+
+  await Product.updateOne(
+    { _id: productId },
+    {
+      $set: {
+        hasVariants: allVariants > 0,
+        ...(allVariants > 0 ? { quantity, reserved, inStock: quantity > 0 } : {})
+      }
+    },
+    { session }
+  );
+};
+
+// Check the shape of a product's option axes. Returns an error message, or null when valid.
+export const validateProductOptions = (options: IProductOption[]): string | null => {
+  if (!Array.isArray(options)) {
+    return 'Options must be an array';
+  }
+
+  const names = new Set<string>();
+  for (const option of options) {
+    if (!option || typeof option.name !== 'string' || option.name.trim().length === 0) {
+      return 'Each option must have a name';
+    }
+    if (!Array.isArray(option.values) || option.values.length === 0) {
+      return `Option "${option.name}" must have at least one value`;
+    }
+    if (names.has(option.name.trim().toLowerCase())) {
+      return `Duplicate option "${option.name}"`;
+    }
+    names.add(option.name.trim().toLowerCase());
+  }
+
+  return null;
+};